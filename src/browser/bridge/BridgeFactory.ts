@@ -4,7 +4,11 @@
 
 import { SnapshotGenerator } from "../core/SnapshotGenerator.js";
 import { StructuralAnalyzer } from "../core/StructuralAnalyzer.js";
+import { ConditionWatcher } from "../core/ConditionWatcher.js";
+import { LocatorGenerator } from "../core/LocatorGenerator.js";
+import { LocatorValidator } from "../core/LocatorValidator.js";
 import { DOMAnalyzer } from "../utils/DOMAnalyzer.js";
+import { KeyboardUtils } from "../utils/KeyboardUtils.js";
 import type {
   IBridge,
   ElementInfo,
@@ -12,7 +16,11 @@ import type {
   ContainerResult,
   PatternResult,
   AnchorsResult,
+  LocatorResult,
+  LocatorValidationResult,
   BridgeConfig,
+  BridgeWaitCondition,
+  ScrollPosition,
 } from "../types/index.js";
 // Import error classes as values (not types) - we need to instantiate them
 import { StaleRefError, UnknownRefError } from "../types/index.js";
@@ -45,14 +53,52 @@ export class BridgeFactory {
       return info.element;
     };
 
+    /**
+     * The element that scrolls the page: the document itself, or - for app
+     * layouts with a fixed-height body - the largest scrollable container
+     */
+    const findScroller = (): Element => {
+      const root = document.scrollingElement ?? document.documentElement;
+      if (root.scrollHeight > root.clientHeight) return root;
+
+      let best: Element = root;
+      let bestArea = 0;
+      for (const element of Array.from(document.querySelectorAll("*"))) {
+        if (element.scrollHeight <= element.clientHeight) continue;
+        const overflow = window.getComputedStyle(element).overflowY;
+        if (overflow !== "auto" && overflow !== "scroll") continue;
+        const area = element.clientWidth * element.clientHeight;
+        if (area > bestArea) {
+          best = element;
+          bestArea = area;
+        }
+      }
+      return best;
+    };
+
     const bridge: IBridge = {
       elements: new Map<string, ElementInfo>(),
       counter: 0,
 
       // Core functionality
-      snapshot(): SnapshotResult {
+      snapshot(
+        ref?: string,
+        ancestorLevel: number = 0,
+        viewportMargin?: number
+      ): SnapshotResult {
+        let root = ref ? validateElement(ref) : undefined;
+        for (let i = 0; root && i < ancestorLevel; i++) {
+          if (!root.parentElement || root.parentElement === document.body) {
+            throw new Error(
+              `Ancestor level ${ancestorLevel} is too high - reached document.body at level ${
+                i + 1
+              }`
+            );
+          }
+          root = root.parentElement;
+        }
         const generator = new SnapshotGenerator(this, config);
-        return generator.generate();
+        return generator.generate(root, viewportMargin);
       },
 
       click(ref: string): void {
@@ -69,6 +115,172 @@ export class BridgeFactory {
         el.dispatchEvent(new Event("change", { bubbles: true }));
       },
 
+      focus(ref: string, selectContents: boolean = false): void {
+        const element = validateElement(ref) as HTMLElement;
+        element.focus();
+        if (!selectContents) return;
+
+        // Select existing content so the next inserted text replaces it
+        if (
+          element instanceof HTMLInputElement ||
+          element instanceof HTMLTextAreaElement
+        ) {
+          element.select();
+        } else if (element.isContentEditable) {
+          const range = document.createRange();
+          range.selectNodeContents(element);
+          const selection = window.getSelection();
+          selection?.removeAllRanges();
+          selection?.addRange(range);
+        }
+      },
+
+      hover(ref: string): void {
+        const element = validateElement(ref);
+        const rect = element.getBoundingClientRect();
+        const init: MouseEventInit = {
+          bubbles: true,
+          cancelable: true,
+          composed: true,
+          view: window,
+          clientX: rect.left + rect.width / 2,
+          clientY: rect.top + rect.height / 2,
+        };
+        // Same order a real pointer produces when it moves onto the element
+        element.dispatchEvent(new PointerEvent("pointerover", init));
+        element.dispatchEvent(
+          new PointerEvent("pointerenter", { ...init, bubbles: false })
+        );
+        element.dispatchEvent(new MouseEvent("mouseover", init));
+        element.dispatchEvent(
+          new MouseEvent("mouseenter", { ...init, bubbles: false })
+        );
+        element.dispatchEvent(new PointerEvent("pointermove", init));
+        element.dispatchEvent(new MouseEvent("mousemove", init));
+      },
+
+      selectOption(ref: string, values: string[]): string[] {
+        const element = validateElement(ref);
+        if (!(element instanceof HTMLSelectElement)) {
+          throw new Error(
+            `Element ${ref} is not a <select> element (got <${element.tagName.toLowerCase()}>)`
+          );
+        }
+        if (element.disabled) {
+          throw new Error(`Element ${ref} is disabled`);
+        }
+        if (!element.multiple && values.length > 1) {
+          throw new Error(
+            `Element ${ref} is a single-select; got ${values.length} values`
+          );
+        }
+
+        // Match by value first, then by visible label
+        const options = Array.from(element.options);
+        const matched = values.map((value) => {
+          const option =
+            options.find((o) => o.value === value) ??
+            options.find((o) => o.label.trim() === value.trim());
+          if (!option) {
+            const available = options
+              .map((o) => `"${o.label.trim()}"`)
+              .join(", ");
+            throw new Error(
+              `Option "${value}" not found in ${ref}. Available options: ${available}`
+            );
+          }
+          return option;
+        });
+
+        element.focus();
+        for (const option of options) {
+          option.selected = matched.includes(option);
+        }
+        element.dispatchEvent(new Event("input", { bubbles: true }));
+        element.dispatchEvent(new Event("change", { bubbles: true }));
+
+        return Array.from(element.selectedOptions).map((o) => o.value);
+      },
+
+      press(ref: string | null, key: string): void {
+        const target = ref
+          ? validateElement(ref)
+          : document.activeElement ?? document.body;
+        if (ref) {
+          (target as HTMLElement).focus();
+        }
+
+        const combo = KeyboardUtils.parseKeyCombo(key);
+        const init: KeyboardEventInit = {
+          ...combo,
+          bubbles: true,
+          cancelable: true,
+          composed: true,
+        };
+
+        const proceed = target.dispatchEvent(
+          new KeyboardEvent("keydown", init)
+        );
+        if (proceed && KeyboardUtils.isPrintable(combo.key)) {
+          target.dispatchEvent(new KeyboardEvent("keypress", init));
+        }
+
+        // Synthetic key events have no default action - emulate implicit form submission
+        if (
+          proceed &&
+          combo.key === "Enter" &&
+          target instanceof HTMLInputElement &&
+          target.form
+        ) {
+          target.form.requestSubmit();
+        }
+
+        target.dispatchEvent(new KeyboardEvent("keyup", init));
+      },
+
+      scrollIntoView(ref: string): void {
+        const element = validateElement(ref);
+        // "instant" overrides CSS scroll-behavior: smooth, so the position is final on return
+        element.scrollIntoView({
+          block: "center",
+          inline: "nearest",
+          behavior: "instant",
+        });
+      },
+
+      scroll(by: number | "top" | "bottom"): ScrollPosition {
+        const scroller = findScroller();
+        const top =
+          by === "top"
+            ? 0
+            : by === "bottom"
+            ? scroller.scrollHeight
+            : scroller.scrollTop + by * scroller.clientHeight;
+        scroller.scrollTo({ top, behavior: "instant" });
+
+        // Sub-pixel scroll positions never quite reach the end
+        const maxScroll = scroller.scrollHeight - scroller.clientHeight;
+        return {
+          scrollY: Math.round(scroller.scrollTop),
+          scrollHeight: scroller.scrollHeight,
+          viewportHeight: scroller.clientHeight,
+          atTop: scroller.scrollTop <= 1,
+          atBottom: scroller.scrollTop >= maxScroll - 1,
+        };
+      },
+
+      waitFor(
+        condition: BridgeWaitCondition,
+        timeout: number
+      ): Promise<boolean> {
+        const watcher = new ConditionWatcher(this);
+        return watcher.waitFor(condition, timeout);
+      },
+
+      getElement(ref: string): Element {
+        return validateElement(ref);
+      },
+
       // Structural analysis
       resolve_container(ref: string): ContainerResult {
         validateElement(ref);
@@ -88,6 +300,18 @@ export class BridgeFactory {
         return analyzer.extractAnchors(ref, ancestorLevel);
       },
 
+      // Locator authoring
+      generate_locator(ref: string): LocatorResult {
+        validateElement(ref);
+        const generator = new LocatorGenerator(this, config);
+        return generator.generate(ref);
+      },
+
+      validate_locator(locator: string): LocatorValidationResult {
+        const validator = new LocatorValidator(this);
+        return validator.validate(locator);
+      },
+
       // Utility methods
       getAttributes(element: Element): Record<string, string> {
         return DOMAnalyzer.getAllAttributes(element);
@@ -0,0 +1,94 @@
+/**
+ * Waits for DOM conditions using MutationObserver (event-driven, no polling)
+ */
+import type {
+  IBridge,
+  BridgeWaitCondition,
+  ElementWaitState,
+} from "../types/index.js";
+import { UnknownRefError } from "../types/index.js";
+
+export class ConditionWatcher {
+  private bridge: IBridge;
+
+  constructor(bridge: IBridge) {
+    this.bridge = bridge;
+  }
+
+  /**
+   * Resolve true as soon as the condition holds, or false after `timeout` ms.
+   * The condition is re-checked after every batch of DOM mutations.
+   */
+  waitFor(condition: BridgeWaitCondition, timeout: number): Promise<boolean> {
+    // Fail fast on unknown refs instead of waiting out the timeout
+    if (condition.kind === "ref" && !this.bridge.elements.has(condition.ref)) {
+      throw new UnknownRefError(condition.ref);
+    }
+
+    return new Promise((resolve) => {
+      if (this.check(condition)) {
+        resolve(true);
+        return;
+      }
+
+      const finish = (satisfied: boolean) => {
+        observer.disconnect();
+        clearTimeout(timer);
+        resolve(satisfied);
+      };
+
+      const observer = new MutationObserver(() => {
+        if (this.check(condition)) finish(true);
+      });
+      const timer = setTimeout(() => finish(false), timeout);
+
+      observer.observe(document, {
+        subtree: true,
+        childList: true,
+        attributes: true,
+        characterData: true,
+      });
+    });
+  }
+
+  /**
+   * Evaluate a condition against the current DOM
+   */
+  check(condition: BridgeWaitCondition): boolean {
+    if (condition.kind === "text") {
+      // innerText only contains rendered text (skips display:none, etc.)
+      const pageText = document.body?.innerText ?? "";
+      const present = pageText.includes(condition.text);
+      return condition.present ? present : !present;
+    }
+
+    return this.checkElementState(condition.ref, condition.state);
+  }
+
+  private checkElementState(ref: string, state: ElementWaitState): boolean {
+    const element = this.bridge.elements.get(ref)?.element;
+    const attached = !!element && element.isConnected;
+
+    switch (state) {
+      case "detached":
+        return !attached;
+      case "visible":
+        return attached && this.isVisible(element!);
+      case "hidden":
+        return !attached || !this.isVisible(element!);
+      case "enabled":
+        return (
+          attached &&
+          !element!.matches(":disabled") &&
+          element!.getAttribute("aria-disabled") !== "true"
+        );
+    }
+  }
+
+  private isVisible(element: Element): boolean {
+    const rect = element.getBoundingClientRect();
+    if (rect.width === 0 && rect.height === 0) return false;
+    const style = window.getComputedStyle(element);
+    return style.visibility !== "hidden" && style.display !== "none";
+  }
+}
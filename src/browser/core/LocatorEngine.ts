@@ -0,0 +1,156 @@
+/**
+ * Evaluates Playwright-style locator chains against the live DOM
+ * Matching follows Playwright's defaults (hidden elements excluded, string
+ * names/texts are case-insensitive substrings unless exact, regexes as given)
+ */
+import { AriaUtils } from "../utils/AriaUtils.js";
+
+export type TextMatcher = string | RegExp;
+
+export type LocatorStep =
+  | { kind: "role"; role: string; name?: TextMatcher; exact?: boolean }
+  | { kind: "testid"; testId: string }
+  | { kind: "text"; text: TextMatcher; exact?: boolean }
+  | { kind: "css"; selector: string }
+  | { kind: "filter"; hasText: TextMatcher }
+  | { kind: "nth"; index: number }; // -1 = last()
+
+export class LocatorEngine {
+  /**
+   * Resolve a locator chain to matching elements (document order, no duplicates)
+   */
+  query(steps: LocatorStep[], root: ParentNode = document): Element[] {
+    let matches: Element[] = [];
+    let scopes: ParentNode[] = [root];
+
+    for (const step of steps) {
+      if (step.kind === "filter") {
+        matches = matches.filter((el) =>
+          this.textMatches(this.getText(el), step.hasText, false)
+        );
+      } else if (step.kind === "nth") {
+        const index = step.index < 0 ? matches.length + step.index : step.index;
+        matches = matches[index] ? [matches[index]] : [];
+      } else {
+        const found = new Set<Element>();
+        for (const scope of scopes) {
+          for (const el of this.queryStep(step, scope)) found.add(el);
+        }
+        matches = this.sortInDocumentOrder([...found]);
+      }
+      scopes = matches;
+    }
+
+    return matches;
+  }
+
+  /**
+   * Render a locator chain as Playwright code, e.g.
+   * page.getByTestId('card').filter({ hasText: 'iPhone' }).getByRole('button')
+   */
+  toCode(steps: LocatorStep[]): string {
+    const parts = steps.map((step) => {
+      switch (step.kind) {
+        case "role": {
+          const options: string[] = [];
+          if (step.name !== undefined) {
+            options.push(`name: ${this.literal(step.name)}`);
+          }
+          if (step.exact) options.push("exact: true");
+          return options.length > 0
+            ? `getByRole(${this.quote(step.role)}, { ${options.join(", ")} })`
+            : `getByRole(${this.quote(step.role)})`;
+        }
+        case "testid":
+          return `getByTestId(${this.quote(step.testId)})`;
+        case "text":
+          return step.exact
+            ? `getByText(${this.literal(step.text)}, { exact: true })`
+            : `getByText(${this.literal(step.text)})`;
+        case "css":
+          return `locator(${this.quote(step.selector)})`;
+        case "filter":
+          return `filter({ hasText: ${this.literal(step.hasText)} })`;
+        case "nth":
+          if (step.index === 0) return "first()";
+          if (step.index === -1) return "last()";
+          return `nth(${step.index})`;
+      }
+    });
+
+    return ["page", ...parts].join(".");
+  }
+
+  /**
+   * Normalized text content used for hasText and getByText matching
+   */
+  getText(element: Element): string {
+    return (element.textContent ?? "").replace(/\s+/g, " ").trim();
+  }
+
+  private queryStep(step: LocatorStep, scope: ParentNode): Element[] {
+    switch (step.kind) {
+      case "css":
+        return Array.from(scope.querySelectorAll(step.selector));
+      case "testid":
+        return Array.from(scope.querySelectorAll("[data-testid]")).filter(
+          (el) => el.getAttribute("data-testid") === step.testId
+        );
+      case "role":
+        return Array.from(scope.querySelectorAll("*")).filter(
+          (el) =>
+            AriaUtils.getRole(el) === step.role &&
+            AriaUtils.isVisibleForAria(el) &&
+            (step.name === undefined ||
+              this.textMatches(
+                AriaUtils.getName(el),
+                step.name,
+                step.exact ?? false
+              ))
+        );
+      case "text":
+        return Array.from(scope.querySelectorAll("*")).filter((el) => {
+          if (["SCRIPT", "STYLE", "NOSCRIPT"].includes(el.tagName)) {
+            return false;
+          }
+          if (!this.textMatches(this.getText(el), step.text, !!step.exact)) {
+            return false;
+          }
+          // Innermost match only: skip elements whose child already matches
+          const childMatches = Array.from(el.children).some((child) =>
+            this.textMatches(this.getText(child), step.text, !!step.exact)
+          );
+          return !childMatches && AriaUtils.isVisibleForAria(el);
+        });
+      default:
+        return [];
+    }
+  }
+
+  private textMatches(actual: string, expected: TextMatcher, exact: boolean) {
+    const normalizedActual = actual.replace(/\s+/g, " ").trim();
+    if (expected instanceof RegExp) {
+      return expected.test(normalizedActual);
+    }
+    const normalizedExpected = expected.replace(/\s+/g, " ").trim();
+    return exact
+      ? normalizedActual === normalizedExpected
+      : normalizedActual
+          .toLowerCase()
+          .includes(normalizedExpected.toLowerCase());
+  }
+
+  private sortInDocumentOrder(elements: Element[]): Element[] {
+    return elements.sort((a, b) =>
+      a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1
+    );
+  }
+
+  private literal(value: TextMatcher): string {
+    return value instanceof RegExp ? value.toString() : this.quote(value);
+  }
+
+  private quote(value: string): string {
+    return `'${value.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+  }
+}
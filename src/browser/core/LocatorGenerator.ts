@@ -0,0 +1,265 @@
+/**
+ * Generates ranked Playwright locator candidates for an element
+ * Candidates are scoped to containers found by StructuralAnalyzer and
+ * checked for uniqueness against the live DOM with LocatorEngine
+ */
+import { AriaUtils } from "../utils/AriaUtils.js";
+import { DOMAnalyzer } from "../utils/DOMAnalyzer.js";
+import { StructuralAnalyzer } from "./StructuralAnalyzer.js";
+import { LocatorEngine, type LocatorStep } from "./LocatorEngine.js";
+import type {
+  IBridge,
+  BridgeConfig,
+  LocatorCandidate,
+  LocatorResult,
+} from "../types/index.js";
+
+type Draft = {
+  steps: LocatorStep[];
+  strategy: LocatorCandidate["strategy"];
+};
+
+// Roles that typically wrap one repeated item (cards, rows) or a named region
+const CONTAINER_ROLES = [
+  "listitem",
+  "row",
+  "article",
+  "region",
+  "dialog",
+  "form",
+  "group",
+  "navigation",
+  "tabpanel",
+];
+
+// Lower is better when candidates are equally unique
+const STRATEGY_RANK: Record<LocatorCandidate["strategy"], number> = {
+  testid: 0,
+  role: 1,
+  scoped: 2,
+  text: 3,
+  nth: 4,
+};
+
+const MAX_CANDIDATES = 5;
+
+export class LocatorGenerator {
+  private bridge: IBridge;
+  private config: BridgeConfig;
+  private engine = new LocatorEngine();
+
+  constructor(bridge: IBridge, config: BridgeConfig = {}) {
+    this.bridge = bridge;
+    this.config = config;
+  }
+
+  /**
+   * Generate locator candidates for a ref
+   * Assumes validation has already been done in bridge layer
+   */
+  generate(ref: string): LocatorResult {
+    const targetInfo = this.bridge.elements.get(ref);
+    if (!targetInfo) {
+      throw new Error(`Element ${ref} not found in bridge elements map`);
+    }
+
+    const target = targetInfo.element;
+    const role = AriaUtils.getRole(target);
+    const name = AriaUtils.getName(target);
+
+    const drafts = this.buildDrafts(ref, target, role, name);
+
+    const seen = new Set<string>();
+    const candidates: Array<LocatorCandidate & { length: number }> = [];
+    for (const draft of drafts) {
+      const locator = this.engine.toCode(draft.steps);
+      if (seen.has(locator)) continue;
+      seen.add(locator);
+
+      const matches = this.engine.query(draft.steps);
+      const index = matches.indexOf(target);
+      // A candidate that doesn't match the target is useless
+      if (index === -1) continue;
+
+      candidates.push({
+        locator,
+        strategy: draft.strategy,
+        matchCount: matches.length,
+        unique: matches.length === 1,
+        length: draft.steps.length,
+      });
+
+      // Ambiguous chains get an nth() fallback pinned to the target
+      if (matches.length > 1) {
+        const nthSteps: LocatorStep[] = [
+          ...draft.steps,
+          { kind: "nth", index },
+        ];
+        const nthLocator = this.engine.toCode(nthSteps);
+        if (!seen.has(nthLocator)) {
+          seen.add(nthLocator);
+          candidates.push({
+            locator: nthLocator,
+            strategy: "nth",
+            matchCount: 1,
+            unique: true,
+            length: nthSteps.length,
+          });
+        }
+      }
+    }
+
+    candidates.sort(
+      (a, b) =>
+        Number(b.unique) - Number(a.unique) ||
+        STRATEGY_RANK[a.strategy] - STRATEGY_RANK[b.strategy] ||
+        a.length - b.length
+    );
+
+    return {
+      ref,
+      role,
+      name,
+      candidates: candidates
+        .slice(0, MAX_CANDIDATES)
+        .map(({ length, ...candidate }) => candidate),
+    };
+  }
+
+  /**
+   * Build candidate chains, most stable strategies first
+   */
+  private buildDrafts(
+    ref: string,
+    target: Element,
+    role: string,
+    name: string
+  ): Draft[] {
+    const drafts: Draft[] = [];
+    const ownSteps = this.buildOwnSteps(target, role, name);
+
+    for (const steps of ownSteps) {
+      drafts.push({
+        steps,
+        strategy:
+          steps[0].kind === "testid"
+            ? "testid"
+            : steps[0].kind === "text"
+            ? "text"
+            : "role",
+      });
+    }
+
+    // Scope the element's own locators to its containers (closest first)
+    for (const container of this.findContainers(ref, target)) {
+      for (const containerSteps of this.buildContainerSteps(container)) {
+        for (const steps of ownSteps) {
+          drafts.push({
+            steps: [...containerSteps, ...steps],
+            strategy: "scoped",
+          });
+        }
+      }
+    }
+
+    return drafts;
+  }
+
+  /**
+   * Locators for the element on its own: test id, role + name, text
+   */
+  private buildOwnSteps(
+    target: Element,
+    role: string,
+    name: string
+  ): LocatorStep[][] {
+    const steps: LocatorStep[][] = [];
+
+    const testId = target.getAttribute("data-testid");
+    if (testId) {
+      steps.push([{ kind: "testid", testId }]);
+    }
+
+    if (role && role !== "generic") {
+      steps.push(
+        name
+          ? [{ kind: "role", role, name, exact: true }]
+          : [{ kind: "role", role }]
+      );
+    }
+
+    const text = this.engine.getText(target);
+    if (!name && text && text.length <= 80) {
+      steps.push([{ kind: "text", text, exact: true }]);
+    }
+
+    return steps;
+  }
+
+  /**
+   * Ancestors worth scoping to: elements with a test id or a container role
+   */
+  private findContainers(ref: string, target: Element): Element[] {
+    const analyzer = new StructuralAnalyzer(this.bridge, this.config);
+    const { ancestors } = analyzer.resolveContainer(ref);
+
+    const containers: Element[] = [];
+    let current: Element | null = target;
+    for (const ancestor of ancestors) {
+      current = current?.parentElement ?? null;
+      if (!current) break;
+
+      if (
+        ancestor.attributes["data-testid"] ||
+        CONTAINER_ROLES.includes(AriaUtils.getRole(current))
+      ) {
+        containers.push(current);
+      }
+    }
+
+    return containers;
+  }
+
+  /**
+   * Chains that select a container, narrowed by text when it repeats
+   */
+  private buildContainerSteps(container: Element): LocatorStep[][] {
+    const testId = container.getAttribute("data-testid");
+    const role = AriaUtils.getRole(container);
+    const name = AriaUtils.getName(container);
+
+    const base: LocatorStep[] = testId
+      ? [{ kind: "testid", testId }]
+      : name
+      ? [{ kind: "role", role, name, exact: true }]
+      : [{ kind: "role", role }];
+
+    const siblings = this.engine.query(base);
+    if (siblings.length <= 1) {
+      return [base];
+    }
+
+    // Repeated container (cards, rows): pick text only this one contains
+    const hasText = this.findDistinguishingText(container, siblings);
+    return hasText ? [base, [...base, { kind: "filter", hasText }]] : [base];
+  }
+
+  private findDistinguishingText(
+    container: Element,
+    siblings: Element[]
+  ): string | null {
+    const others = siblings.filter((el) => el !== container);
+
+    for (const raw of DOMAnalyzer.extractMeaningfulTexts(container)) {
+      const text = raw.replace(/\s+/g, " ");
+      if (text.length > 60) continue;
+      const lowered = text.toLowerCase();
+      const shared = others.some((el) =>
+        this.engine.getText(el).toLowerCase().includes(lowered)
+      );
+      if (!shared) return text;
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,404 @@
+/**
+ * Parses a subset of Playwright locator syntax into LocatorEngine steps
+ *
+ * Supported (optionally prefixed with "page."):
+ * - getByRole(role, { name, exact }), getByTestId(id), getByText(text, { exact })
+ * - locator(css), filter({ hasText }), nth(n), first(), last()
+ * - contentFrame() and frameLocator(css) to continue inside an iframe
+ *
+ * Strings may use single, double or backtick quotes; names and texts may be regexes.
+ */
+import type { LocatorStep, TextMatcher } from "./LocatorEngine.js";
+
+type Token =
+  | { type: "ident"; value: string; pos: number }
+  | { type: "string"; value: string; pos: number }
+  | { type: "regex"; value: RegExp; pos: number }
+  | { type: "number"; value: number; pos: number }
+  | { type: "punct"; value: string; pos: number };
+
+type Value = string | number | boolean | RegExp | Record<string, unknown>;
+
+export class LocatorParser {
+  private tokens: Token[] = [];
+  private index = 0;
+
+  constructor(private source: string) {}
+
+  /**
+   * Parse a locator chain into frame segments.
+   * Each segment is evaluated in one frame; a new segment starts after
+   * contentFrame() (or frameLocator()), inside the iframe(s) matched so far.
+   */
+  parse(): LocatorStep[][] {
+    this.tokens = this.tokenize();
+    this.index = 0;
+
+    const segments: LocatorStep[][] = [[]];
+    const current = () => segments[segments.length - 1];
+
+    if (this.peekIdent("page")) {
+      this.next();
+      this.expectPunct(".");
+    }
+
+    while (true) {
+      const method = this.expectIdent();
+      const args = this.parseArguments();
+
+      switch (method.value) {
+        case "getByRole": {
+          const role = this.stringArg(method, args, 0);
+          const options = this.optionsArg(method, args, 1, ["name", "exact"]);
+          current().push({
+            kind: "role",
+            role,
+            name: this.matcherOption(method, options, "name"),
+            exact: this.booleanOption(method, options, "exact"),
+          });
+          break;
+        }
+        case "getByTestId":
+          current().push({
+            kind: "testid",
+            testId: this.stringArg(method, args, 0),
+          });
+          break;
+        case "getByText": {
+          const options = this.optionsArg(method, args, 1, ["exact"]);
+          current().push({
+            kind: "text",
+            text: this.matcherArg(method, args, 0),
+            exact: this.booleanOption(method, options, "exact"),
+          });
+          break;
+        }
+        case "locator":
+          current().push({
+            kind: "css",
+            selector: this.stringArg(method, args, 0),
+          });
+          break;
+        case "filter": {
+          const options = this.optionsArg(method, args, 0, ["hasText"]);
+          const hasText = this.matcherOption(method, options, "hasText");
+          if (hasText === undefined) {
+            throw this.error(method.pos, "filter() requires { hasText }");
+          }
+          current().push({ kind: "filter", hasText });
+          break;
+        }
+        case "nth": {
+          const index = args[0];
+          if (typeof index !== "number" || !Number.isInteger(index)) {
+            throw this.error(method.pos, "nth() requires an integer index");
+          }
+          current().push({ kind: "nth", index });
+          break;
+        }
+        case "first":
+          current().push({ kind: "nth", index: 0 });
+          break;
+        case "last":
+          current().push({ kind: "nth", index: -1 });
+          break;
+        case "contentFrame":
+          this.requireSteps(method, current());
+          segments.push([]);
+          break;
+        case "frameLocator":
+          current().push({
+            kind: "css",
+            selector: this.stringArg(method, args, 0),
+          });
+          segments.push([]);
+          break;
+        default:
+          throw this.error(
+            method.pos,
+            `Unsupported method "${method.value}". Supported: getByRole, getByTestId, getByText, locator, filter, nth, first, last, contentFrame, frameLocator`
+          );
+      }
+
+      if (this.index >= this.tokens.length) break;
+      this.expectPunct(".");
+    }
+
+    this.requireSteps(null, current());
+    return segments;
+  }
+
+  private requireSteps(method: Token | null, steps: LocatorStep[]): void {
+    if (steps.length === 0) {
+      throw this.error(
+        method?.pos ?? this.source.length,
+        "Expected a locator (e.g. getByRole) before the end of the frame segment"
+      );
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Arguments
+  // --------------------------------------------------------------------------
+
+  private parseArguments(): Value[] {
+    this.expectPunct("(");
+    const args: Value[] = [];
+    if (this.peekPunct(")")) {
+      this.next();
+      return args;
+    }
+    while (true) {
+      args.push(this.parseValue());
+      if (this.peekPunct(",")) {
+        this.next();
+        if (this.peekPunct(")")) break; // trailing comma
+        continue;
+      }
+      break;
+    }
+    this.expectPunct(")");
+    return args;
+  }
+
+  private parseValue(): Value {
+    const token = this.next();
+    if (!token) {
+      throw this.error(this.source.length, "Unexpected end of locator");
+    }
+    if (token.type === "string" || token.type === "regex") return token.value;
+    if (token.type === "number") return token.value;
+    if (token.type === "ident" && token.value === "true") return true;
+    if (token.type === "ident" && token.value === "false") return false;
+    if (token.type === "punct" && token.value === "{") {
+      return this.parseObject();
+    }
+    throw this.error(token.pos, `Unexpected "${String(token.value)}"`);
+  }
+
+  private parseObject(): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    while (!this.peekPunct("}")) {
+      const key = this.next();
+      if (!key || (key.type !== "ident" && key.type !== "string")) {
+        throw this.error(key?.pos ?? this.source.length, "Expected a key");
+      }
+      this.expectPunct(":");
+      result[key.value as string] = this.parseValue();
+      if (this.peekPunct(",")) this.next();
+      else break;
+    }
+    this.expectPunct("}");
+    return result;
+  }
+
+  private stringArg(method: Token, args: Value[], index: number): string {
+    const value = args[index];
+    if (typeof value !== "string") {
+      throw this.error(method.pos, `${method.value}() expects a string`);
+    }
+    return value;
+  }
+
+  private matcherArg(method: Token, args: Value[], index: number): TextMatcher {
+    const value = args[index];
+    if (typeof value !== "string" && !(value instanceof RegExp)) {
+      throw this.error(
+        method.pos,
+        `${method.value}() expects a string or regular expression`
+      );
+    }
+    return value;
+  }
+
+  private optionsArg(
+    method: Token,
+    args: Value[],
+    index: number,
+    allowed: string[]
+  ): Record<string, unknown> {
+    const value = args[index];
+    if (value === undefined) return {};
+    if (
+      typeof value !== "object" ||
+      value instanceof RegExp ||
+      value === null
+    ) {
+      throw this.error(
+        method.pos,
+        `${method.value}() expects an options object`
+      );
+    }
+    for (const key of Object.keys(value)) {
+      if (!allowed.includes(key)) {
+        throw this.error(
+          method.pos,
+          `Unsupported option "${key}" in ${
+            method.value
+          }(). Supported: ${allowed.join(", ")}`
+        );
+      }
+    }
+    return value;
+  }
+
+  private matcherOption(
+    method: Token,
+    options: Record<string, unknown>,
+    key: string
+  ): TextMatcher | undefined {
+    const value = options[key];
+    if (value === undefined) return undefined;
+    if (typeof value !== "string" && !(value instanceof RegExp)) {
+      throw this.error(
+        method.pos,
+        `${key} in ${method.value}() must be a string or regular expression`
+      );
+    }
+    return value;
+  }
+
+  private booleanOption(
+    method: Token,
+    options: Record<string, unknown>,
+    key: string
+  ): boolean | undefined {
+    const value = options[key];
+    if (value === undefined) return undefined;
+    if (typeof value !== "boolean") {
+      throw this.error(
+        method.pos,
+        `${key} in ${method.value}() must be true or false`
+      );
+    }
+    return value;
+  }
+
+  // --------------------------------------------------------------------------
+  // Tokens
+  // --------------------------------------------------------------------------
+
+  private tokenize(): Token[] {
+    const tokens: Token[] = [];
+    const src = this.source;
+    let i = 0;
+
+    while (i < src.length) {
+      const char = src[i];
+
+      if (/\s/.test(char)) {
+        i++;
+      } else if (/[A-Za-z_$]/.test(char)) {
+        const start = i;
+        while (i < src.length && /[\w$]/.test(src[i])) i++;
+        tokens.push({ type: "ident", value: src.slice(start, i), pos: start });
+      } else if (/[0-9-]/.test(char)) {
+        const start = i;
+        i++;
+        while (i < src.length && /[0-9]/.test(src[i])) i++;
+        const value = Number(src.slice(start, i));
+        if (isNaN(value)) throw this.error(start, "Invalid number");
+        tokens.push({ type: "number", value, pos: start });
+      } else if (char === "'" || char === '"' || char === "`") {
+        const start = i;
+        let value = "";
+        i++;
+        while (i < src.length && src[i] !== char) {
+          if (src[i] === "\\" && i + 1 < src.length) {
+            i++;
+          }
+          value += src[i];
+          i++;
+        }
+        if (i >= src.length) throw this.error(start, "Unterminated string");
+        i++;
+        tokens.push({ type: "string", value, pos: start });
+      } else if (char === "/" && this.regexAllowed(tokens)) {
+        const start = i;
+        let body = "";
+        let inClass = false;
+        i++;
+        while (i < src.length && (src[i] !== "/" || inClass)) {
+          if (src[i] === "\\" && i + 1 < src.length) {
+            body += src[i] + src[i + 1];
+            i += 2;
+            continue;
+          }
+          if (src[i] === "[") inClass = true;
+          if (src[i] === "]") inClass = false;
+          body += src[i];
+          i++;
+        }
+        if (i >= src.length) throw this.error(start, "Unterminated regex");
+        i++;
+        let flags = "";
+        while (i < src.length && /[a-z]/.test(src[i])) flags += src[i++];
+        try {
+          // "g" would make RegExp.test() stateful across elements
+          const regex = new RegExp(body, flags.replace("g", ""));
+          tokens.push({ type: "regex", value: regex, pos: start });
+        } catch (error) {
+          throw this.error(start, (error as Error).message);
+        }
+      } else if ("().,{}:".includes(char)) {
+        tokens.push({ type: "punct", value: char, pos: i });
+        i++;
+      } else {
+        throw this.error(i, `Unexpected character "${char}"`);
+      }
+    }
+
+    return tokens;
+  }
+
+  /**
+   * A "/" starts a regex only where a value is expected
+   */
+  private regexAllowed(tokens: Token[]): boolean {
+    const last = tokens[tokens.length - 1];
+    return (
+      last?.type === "punct" &&
+      (last.value === "(" || last.value === "," || last.value === ":")
+    );
+  }
+
+  private next(): Token | undefined {
+    return this.tokens[this.index++];
+  }
+
+  private peekPunct(value: string): boolean {
+    const token = this.tokens[this.index];
+    return token?.type === "punct" && token.value === value;
+  }
+
+  private peekIdent(value: string): boolean {
+    const token = this.tokens[this.index];
+    return token?.type === "ident" && token.value === value;
+  }
+
+  private expectPunct(value: string): void {
+    const token = this.next();
+    if (token?.type !== "punct" || token.value !== value) {
+      throw this.error(token?.pos ?? this.source.length, `Expected "${value}"`);
+    }
+  }
+
+  private expectIdent(): Token & { type: "ident" } {
+    const token = this.next();
+    if (token?.type !== "ident") {
+      throw this.error(
+        token?.pos ?? this.source.length,
+        "Expected a method name"
+      );
+    }
+    return token;
+  }
+
+  private error(pos: number, reason: string): Error {
+    return new Error(
+      `Invalid locator at position ${pos}: ${reason}\n  ${
+        this.source
+      }\n  ${" ".repeat(pos)}^`
+    );
+  }
+}
@@ -0,0 +1,184 @@
+/**
+ * Validates Playwright locators against the live DOM of one frame
+ * Reports match counts per step and explains why a locator is ambiguous
+ */
+import { AriaUtils } from "../utils/AriaUtils.js";
+import { LocatorEngine, type LocatorStep } from "./LocatorEngine.js";
+import { LocatorParser } from "./LocatorParser.js";
+import type {
+  IBridge,
+  LocatorMatch,
+  LocatorValidationResult,
+} from "../types/index.js";
+
+const MAX_REPORTED_MATCHES = 10;
+
+export class LocatorValidator {
+  private bridge: IBridge;
+  private engine = new LocatorEngine();
+
+  constructor(bridge: IBridge) {
+    this.bridge = bridge;
+  }
+
+  /**
+   * Evaluate a locator in this frame.
+   * If the chain continues into iframes, the matched iframe refs and the
+   * remaining chain are returned so the runtime can evaluate it in each frame.
+   */
+  validate(source: string): LocatorValidationResult {
+    const segments = new LocatorParser(source).parse();
+    const steps = segments[0];
+
+    const stepCounts: Array<{ locator: string; matchCount: number }> = [];
+    for (let i = 1; i <= steps.length; i++) {
+      stepCounts.push({
+        locator: this.engine.toCode(steps.slice(0, i)),
+        matchCount: this.engine.query(steps.slice(0, i)).length,
+      });
+    }
+
+    const matches = this.engine.query(steps);
+    const refs = matches
+      .map((el) => this.getRef(el))
+      .filter((ref): ref is string => !!ref);
+
+    const result: LocatorValidationResult = {
+      locator: this.toChainCode(segments),
+      matchCount: matches.length,
+      refs,
+      matches: matches
+        .slice(0, MAX_REPORTED_MATCHES)
+        .map((el) => this.describe(el)),
+      steps: stepCounts,
+    };
+
+    if (segments.length > 1) {
+      result.frameRefs = matches
+        .filter((el) => el.tagName === "IFRAME")
+        .map((el) => this.getRef(el))
+        .filter((ref): ref is string => !!ref);
+      result.remainder = this.toChainCode(segments.slice(1));
+      return result;
+    }
+
+    if (matches.length > 1) {
+      result.ambiguity = this.explainAmbiguity(steps, matches, stepCounts);
+    }
+
+    return result;
+  }
+
+  private explainAmbiguity(
+    steps: LocatorStep[],
+    matches: Element[],
+    stepCounts: Array<{ locator: string; matchCount: number }>
+  ): string[] {
+    const reasons: string[] = [];
+    const described = matches.map((el) => this.describe(el));
+    const lastStep = steps[steps.length - 1];
+
+    // Substring name/text matching picked up different elements
+    if (
+      (lastStep.kind === "role" || lastStep.kind === "text") &&
+      !lastStep.exact
+    ) {
+      const expected = lastStep.kind === "role" ? lastStep.name : lastStep.text;
+      const names = [
+        ...new Set(
+          matches.map((el) =>
+            lastStep.kind === "role"
+              ? AriaUtils.getName(el)
+              : this.engine.getText(el)
+          )
+        ),
+      ];
+      if (typeof expected === "string" && names.length > 1) {
+        reasons.push(
+          `"${expected}" is a case-insensitive substring match and matches ${
+            names.length
+          } different ${lastStep.kind === "role" ? "names" : "texts"}: ${names
+            .slice(0, 5)
+            .map((n) => `"${n}"`)
+            .join(", ")}. Use the full text with exact: true.`
+        );
+      }
+    }
+
+    // Every match looks the same - only structure can tell them apart
+    const signatures = new Set(described.map((m) => `${m.role}|${m.name}`));
+    if (signatures.size === 1) {
+      const { role, name } = described[0];
+      reasons.push(
+        `All ${matches.length} matches are identical (${role}${
+          name ? ` "${name}"` : ""
+        }). Scope to a container first, e.g. getByTestId('card').filter({ hasText: '...' }), or pick one with nth().`
+      );
+    }
+
+    // A filter that removed nothing
+    for (let i = 1; i < steps.length; i++) {
+      const step = steps[i];
+      if (
+        step.kind === "filter" &&
+        stepCounts[i].matchCount === stepCounts[i - 1].matchCount
+      ) {
+        reasons.push(
+          `${this.engine
+            .toCode([step])
+            .replace(/^page\./, "")} did not narrow the matches (${
+            stepCounts[i].matchCount
+          } before and after) - every candidate contains that text.`
+        );
+      }
+    }
+
+    // A unique container that still holds several targets
+    for (let i = 0; i < steps.length - 1; i++) {
+      if (stepCounts[i].matchCount === 1) {
+        reasons.push(
+          `The container ${stepCounts[i].locator} is unique but contains ${matches.length} matching elements. Narrow the inner locator (name, exact: true) or scope to a smaller container.`
+        );
+        break;
+      }
+    }
+
+    if (reasons.length === 0) {
+      reasons.push(
+        `${matches.length} elements match. Add a container scope, filter({ hasText }) or a more specific name.`
+      );
+    }
+
+    return reasons;
+  }
+
+  private describe(element: Element): LocatorMatch {
+    const match: LocatorMatch = {
+      role: AriaUtils.getRole(element),
+      name: AriaUtils.getName(element),
+      tagName: element.tagName.toLowerCase(),
+    };
+    const ref = this.getRef(element);
+    if (ref) match.ref = ref;
+    return match;
+  }
+
+  /**
+   * Ref of an element from the latest snapshot, if it has one
+   */
+  private getRef(element: Element): string | undefined {
+    const ref = (element as any)._verdexRef;
+    return ref && this.bridge.elements.get(ref)?.element === element
+      ? ref
+      : undefined;
+  }
+
+  private toChainCode(segments: LocatorStep[][]): string {
+    return segments
+      .map((steps, index) => {
+        const code = this.engine.toCode(steps);
+        return index === 0 ? code : code.replace(/^page\./, "");
+      })
+      .join(".contentFrame().");
+  }
+}
@@ -3,13 +3,18 @@
  * Following W3C ARIA specifications
  */
 import { AriaUtils } from "../utils/AriaUtils.js";
+import { SnapshotRenderer } from "../../utils/SnapshotRenderer.js";
 import type {
   IBridge,
   SnapshotResult,
+  SnapshotNode,
   ElementInfo,
   BridgeConfig,
+  OffscreenCount,
 } from "../types/index.js";
 
+type Offscreen = { above: OffscreenCount; below: OffscreenCount };
+
 export type AriaNode = {
   role: string;
   name: string;
@@ -25,12 +30,17 @@ export type AriaNode = {
   selected?: boolean;
   active?: boolean;
   props?: Record<string, string>;
+  offscreen?: Offscreen;
 };
 
 export class SnapshotGenerator {
   private bridge: IBridge;
   private config: BridgeConfig;
   private visited = new Set<Node>();
+  // Viewport-only mode: pixels around the viewport that still count as visible
+  private viewportMargin: number | null = null;
+  // Elements skipped outside the viewport, for the node being built
+  private offscreen = SnapshotGenerator.emptyOffscreen();
 
   constructor(bridge: IBridge, config: BridgeConfig = {}) {
     this.bridge = bridge;
@@ -38,9 +48,12 @@ export class SnapshotGenerator {
   }
 
   /**
-   * Generate a complete accessibility tree snapshot
+   * Generate an accessibility tree snapshot of the document,
+   * or of `root` and its descendants only.
+   * With `viewportMargin`, elements entirely above or below the viewport
+   * (plus the margin) are left out and counted on their parent instead.
    */
-  generate(): SnapshotResult {
+  generate(root?: Element, viewportMargin?: number): SnapshotResult {
     console.log("Starting snapshot...");
 
     try {
@@ -54,34 +67,39 @@ export class SnapshotGenerator {
 
       // Keep: Clear visited set for this snapshot traversal
       this.visited.clear();
+      this.viewportMargin =
+        typeof viewportMargin === "number" ? viewportMargin : null;
+      this.offscreen = SnapshotGenerator.emptyOffscreen();
 
       // Phase 1: Build the tree
-      const rootChildren = this.buildAriaTree(document.body, true);
+      const rootChildren = this.buildAriaTree(root ?? document.body, true);
 
       // Create a virtual root node
       const rootNode: AriaNode = {
         role: "WebArea",
         name: "",
         children: rootChildren,
-        element: document.body,
+        element: root ?? document.body,
       };
+      this.attachOffscreen(rootNode, this.offscreen);
 
       // Phase 2: Optimize generic roles
       this.normalizeGenericRoles(rootNode);
 
-      // Phase 3: Render to text
-      const lines: string[] = [];
-      this.renderTree(rootNode, lines, "");
+      // Phase 3: Serialize (drop DOM references) and render to text
+      const tree = this.toSnapshotNode(rootNode);
 
       return {
-        text: lines.join("\n"),
+        text: SnapshotRenderer.render(tree),
         elementCount: this.bridge.elements.size,
+        tree,
       };
     } catch (error) {
       console.error("Snapshot error:", error);
       return {
         text: `Error: ${(error as Error).message}`,
         elementCount: 0,
+        tree: { role: "WebArea", name: "", children: [] },
       };
     }
   }
@@ -118,6 +136,20 @@ export class SnapshotGenerator {
     if (node.nodeType !== Node.ELEMENT_NODE) return [];
 
     const element = node as Element;
+
+    const position = this.getOffscreenPosition(element);
+    if (position) {
+      const { interactive, pinned } = this.inspectOffscreen(element);
+      // A fixed or sticky descendant may be on screen: build the subtree
+      if (!pinned) {
+        if (AriaUtils.isVisibleForAria(element)) {
+          this.offscreen[position].regions++;
+          this.offscreen[position].interactive += interactive;
+        }
+        return [];
+      }
+    }
+
     const isVisible = AriaUtils.isVisibleForAria(element);
 
     // Skip if not visible for ARIA, but still process children in case they are visible
@@ -131,6 +163,10 @@ export class SnapshotGenerator {
       return this.buildChildrenTree(element, isVisible);
     }
 
+    // Skipped descendants are counted on the nearest node in the tree
+    const outerOffscreen = this.offscreen;
+    this.offscreen = SnapshotGenerator.emptyOffscreen();
+
     // Build children for this node
     const inputValue = this.getInputValue(element);
     if (inputValue !== null && inputValue.length > 0) {
@@ -146,9 +182,85 @@ export class SnapshotGenerator {
       ariaNode.children = [...children, ...ownedChildren];
     }
 
+    this.attachOffscreen(ariaNode, this.offscreen);
+    this.offscreen = outerOffscreen;
+
     return [ariaNode];
   }
 
+  /**
+   * Whether an element lies entirely above or below the viewport (plus margin).
+   * Elements without a box (display: contents, hidden) are never skipped here.
+   */
+  private getOffscreenPosition(element: Element): "above" | "below" | null {
+    if (this.viewportMargin === null) return null;
+
+    const rect = element.getBoundingClientRect();
+    if (rect.width === 0 && rect.height === 0) return null;
+
+    if (rect.bottom < -this.viewportMargin) return "above";
+    if (rect.top > window.innerHeight + this.viewportMargin) return "below";
+    return null;
+  }
+
+  /**
+   * Look inside a subtree about to be skipped: count the interactive elements
+   * a full snapshot would give refs to, and spot fixed or sticky descendants
+   * (modals, sticky bars), which can be on screen while the subtree is not.
+   */
+  private inspectOffscreen(root: Element): {
+    interactive: number;
+    pinned: boolean;
+  } {
+    const result = { interactive: 0, pinned: false };
+    const visit = (element: Element) => {
+      const style = window.getComputedStyle(element);
+      if (
+        style.display === "none" ||
+        element.getAttribute("aria-hidden") === "true"
+      ) {
+        return;
+      }
+      if (
+        element !== root &&
+        (style.position === "fixed" || style.position === "sticky")
+      ) {
+        result.pinned = true;
+        return;
+      }
+      if (
+        style.visibility !== "hidden" &&
+        AriaUtils.isInteractive(element, AriaUtils.getRole(element))
+      ) {
+        result.interactive++;
+      }
+
+      const children = [
+        ...Array.from(element.shadowRoot?.children ?? []),
+        ...Array.from(element.children),
+      ];
+      for (const child of children) {
+        if (result.pinned) return;
+        visit(child);
+      }
+    };
+    visit(root);
+    return result;
+  }
+
+  private attachOffscreen(node: AriaNode, offscreen: Offscreen): void {
+    if (offscreen.above.regions > 0 || offscreen.below.regions > 0) {
+      node.offscreen = offscreen;
+    }
+  }
+
+  private static emptyOffscreen(): Offscreen {
+    return {
+      above: { regions: 0, interactive: 0 },
+      below: { regions: 0, interactive: 0 },
+    };
+  }
+
   /**
    * Create an AriaNode from an element
    */
@@ -216,47 +328,6 @@ export class SnapshotGenerator {
     return ariaNode;
   }
 
-  /**
-   * Build the string representation of an aria node
-   */
-  private buildNodeLine(ariaNode: AriaNode, indent: string): string {
-    let line = `${indent}- ${ariaNode.role}`;
-
-    // Add name if present (with YAML escaping)
-    if (ariaNode.name) {
-      line += ` ${this.yamlEscapeValueIfNeeded(ariaNode.name)}`;
-    }
-
-    // Add ARIA properties
-    if (ariaNode.checked === "mixed") line += " [checked=mixed]";
-    else if (ariaNode.checked === true) line += " [checked]";
-
-    if (ariaNode.disabled) line += " [disabled]";
-    if (ariaNode.expanded) line += " [expanded]";
-    if (ariaNode.active) line += " [active]";
-    if (ariaNode.level) line += ` [level=${ariaNode.level}]`;
-
-    if (ariaNode.pressed === "mixed") line += " [pressed=mixed]";
-    else if (ariaNode.pressed === true) line += " [pressed]";
-
-    if (ariaNode.selected) line += " [selected]";
-
-    // Add element properties
-    if (ariaNode.props && Object.keys(ariaNode.props).length > 0) {
-      const propsStr = Object.entries(ariaNode.props)
-        .map(([key, value]) => `${key}="${value.replace(/"/g, '\\"')}"`)
-        .join(" ");
-      line += ` [${propsStr}]`;
-    }
-
-    // Add reference
-    if (ariaNode.ref) {
-      line += ` [ref=${ariaNode.ref}]`;
-    }
-
-    return line;
-  }
-
   /**
    * Extract important element properties for navigation and testing
    */
@@ -440,8 +511,13 @@ export class SnapshotGenerator {
     // 1. Has no name (no accessible label)
     // 2. Has exactly one child (no grouping happening)
     // 3. Is not interactive (no ref)
+    // 4. Has no offscreen counts (they describe this level)
     const removeSelf =
-      node.role === "generic" && !node.name && !node.ref && result.length === 1;
+      node.role === "generic" &&
+      !node.name &&
+      !node.ref &&
+      !node.offscreen &&
+      result.length === 1;
 
     if (removeSelf) {
       return result; // Hoist children up
@@ -452,36 +528,31 @@ export class SnapshotGenerator {
   }
 
   /**
-   * Render the accessibility tree to text lines
+   * Convert an AriaNode to its serializable form (no DOM references)
    */
-  private renderTree(
-    node: AriaNode | string,
-    lines: string[],
-    indent: string
-  ): void {
-    // Handle text nodes (with YAML escaping)
-    if (typeof node === "string") {
-      const escapedText = this.yamlEscapeValueIfNeeded(node);
-      lines.push(`${indent}- text: ${escapedText}`);
-      return;
-    }
-
-    // Skip the virtual WebArea root
-    if (node.role === "WebArea") {
-      for (const child of node.children) {
-        this.renderTree(child, lines, indent);
-      }
-      return;
-    }
-
-    // Build the line representation
-    const line = this.buildNodeLine(node, indent);
-    lines.push(line);
-
-    // Render children with increased indentation
-    for (const child of node.children) {
-      this.renderTree(child, lines, indent + "  ");
-    }
+  private toSnapshotNode(ariaNode: AriaNode): SnapshotNode {
+    const node: SnapshotNode = {
+      role: ariaNode.role,
+      name: ariaNode.name,
+      children: ariaNode.children.map((child) =>
+        typeof child === "string" ? child : this.toSnapshotNode(child)
+      ),
+    };
+    if (ariaNode.ref) node.ref = ariaNode.ref;
+
+    const states: NonNullable<SnapshotNode["states"]> = {};
+    if (ariaNode.checked !== undefined) states.checked = ariaNode.checked;
+    if (ariaNode.disabled !== undefined) states.disabled = ariaNode.disabled;
+    if (ariaNode.expanded !== undefined) states.expanded = ariaNode.expanded;
+    if (ariaNode.level !== undefined) states.level = ariaNode.level;
+    if (ariaNode.pressed !== undefined) states.pressed = ariaNode.pressed;
+    if (ariaNode.selected !== undefined) states.selected = ariaNode.selected;
+    if (ariaNode.active !== undefined) states.active = ariaNode.active;
+    if (Object.keys(states).length > 0) node.states = states;
+
+    if (ariaNode.props) node.props = ariaNode.props;
+    if (ariaNode.offscreen) node.offscreen = ariaNode.offscreen;
+    return node;
   }
 
   /**
@@ -529,22 +600,4 @@ export class SnapshotGenerator {
     }
     return key;
   }
-
-  /**
-   * Escape YAML value if needed (special chars, numbers, booleans)
-   */
-  private yamlEscapeValueIfNeeded(value: string): string {
-    // Values with special characters or that look like numbers/booleans
-    if (!value) return '""';
-
-    if (
-      /^(true|false|null|~)$/i.test(value) ||
-      /^[0-9]/.test(value) ||
-      /[:\[\]{}#&*!|>'"%@`\n\r]/.test(value)
-    ) {
-      return JSON.stringify(value);
-    }
-
-    return value;
-  }
 }
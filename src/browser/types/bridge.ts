@@ -8,6 +8,10 @@ import type {
   ContainerResult,
   PatternResult,
   AnchorsResult,
+  LocatorResult,
+  LocatorValidationResult,
+  BridgeWaitCondition,
+  ScrollPosition,
 } from "./elements.js";
 
 export type IBridge = {
@@ -15,15 +19,39 @@ export type IBridge = {
   counter: number;
 
   // Core functionality
-  snapshot(): SnapshotResult;
+  /**
+   * Whole document, or only the subtree of `ref` (or of its ancestor `ancestorLevel` levels up).
+   * With `viewportMargin`, only elements within that many pixels of the viewport.
+   */
+  snapshot(
+    ref?: string,
+    ancestorLevel?: number,
+    viewportMargin?: number
+  ): SnapshotResult;
   click(ref: string): void;
   type(ref: string, text: string): void;
+  focus(ref: string, selectContents?: boolean): void;
+  hover(ref: string): void;
+  selectOption(ref: string, values: string[]): string[];
+  press(ref: string | null, key: string): void;
+  /** Scroll the element into the middle of the viewport */
+  scrollIntoView(ref: string): void;
+  /** Scroll the page by viewport heights (0 only reports the position) or to one end */
+  scroll(by: number | "top" | "bottom"): ScrollPosition;
+  /** Resolves true once the condition holds, false after `timeout` ms */
+  waitFor(condition: BridgeWaitCondition, timeout: number): Promise<boolean>;
+  /** Validated element lookup - used by the runtime to obtain a remote handle */
+  getElement(ref: string): Element;
 
   // Structural analysis (all throw on error, never return null)
   resolve_container(ref: string): ContainerResult;
   inspect_pattern(ref: string, ancestorLevel: number): PatternResult;
   extract_anchors(ref: string, ancestorLevel: number): AnchorsResult;
 
+  // Locator authoring
+  generate_locator(ref: string): LocatorResult;
+  validate_locator(locator: string): LocatorValidationResult;
+
   // Utility methods
   getAttributes(element: Element): Record<string, string>;
 };
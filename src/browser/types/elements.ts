@@ -15,7 +15,16 @@ export type {
   PatternResult,
   AnchorInfo,
   AnchorsResult,
+  LocatorCandidate,
+  LocatorResult,
+  LocatorMatch,
+  LocatorValidationResult,
   SnapshotResult,
+  SnapshotNode,
+  OffscreenCount,
+  BridgeWaitCondition,
+  ScrollPosition,
+  ElementWaitState,
 } from "../../shared-types.js";
 
 // Re-export error classes (not 'type' because they're runtime classes)
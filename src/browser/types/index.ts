@@ -6,6 +6,8 @@ export type {
   Attributes,
   ElementInfo,
   SnapshotResult,
+  SnapshotNode,
+  OffscreenCount,
   ContainerInfo,
   ContainerResult,
   OutlineItem,
@@ -13,6 +15,13 @@ export type {
   PatternResult,
   AnchorInfo,
   AnchorsResult,
+  LocatorCandidate,
+  LocatorResult,
+  LocatorMatch,
+  LocatorValidationResult,
+  BridgeWaitCondition,
+  ScrollPosition,
+  ElementWaitState,
 } from "./elements.js";
 
 // Re-export error classes as values (not types)
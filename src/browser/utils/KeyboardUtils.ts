@@ -0,0 +1,149 @@
+/**
+ * Keyboard utilities for parsing key combinations and building KeyboardEvent init
+ */
+
+export type KeyCombo = {
+  key: string;
+  code: string;
+  ctrlKey: boolean;
+  shiftKey: boolean;
+  altKey: boolean;
+  metaKey: boolean;
+};
+
+export class KeyboardUtils {
+  private static readonly MODIFIER_ALIASES: Record<string, string> = {
+    control: "Control",
+    ctrl: "Control",
+    shift: "Shift",
+    alt: "Alt",
+    option: "Alt",
+    meta: "Meta",
+    cmd: "Meta",
+    command: "Meta",
+    controlormeta: "ControlOrMeta",
+  };
+
+  private static readonly NAMED_KEYS: Record<string, string> = {
+    enter: "Enter",
+    return: "Enter",
+    tab: "Tab",
+    escape: "Escape",
+    esc: "Escape",
+    backspace: "Backspace",
+    delete: "Delete",
+    space: " ",
+    arrowup: "ArrowUp",
+    arrowdown: "ArrowDown",
+    arrowleft: "ArrowLeft",
+    arrowright: "ArrowRight",
+    home: "Home",
+    end: "End",
+    pageup: "PageUp",
+    pagedown: "PageDown",
+    insert: "Insert",
+    capslock: "CapsLock",
+    numlock: "NumLock",
+    scrolllock: "ScrollLock",
+    pause: "Pause",
+    printscreen: "PrintScreen",
+    contextmenu: "ContextMenu",
+    control: "Control",
+    shift: "Shift",
+    alt: "Alt",
+    meta: "Meta",
+    ...Object.fromEntries(
+      Array.from({ length: 12 }, (_, i) => [`f${i + 1}`, `F${i + 1}`])
+    ),
+  };
+
+  /**
+   * Parse a Playwright-style key combination ("Enter", "Control+A", "Shift+Tab")
+   *
+   * Shared by the bridge and the runtime's trusted input, so both modes press
+   * the same keys.
+   *
+   * @param platform - navigator.platform of the page: ControlOrMeta is Meta on
+   *   macOS. The runtime passes the page's value, since the browser may run
+   *   on another machine than the server.
+   */
+  static parseKeyCombo(
+    combo: string,
+    platform: string = navigator.platform
+  ): KeyCombo {
+    const parts =
+      combo === " " ? [combo] : combo.split("+").map((part) => part.trim());
+    // "+" and "Control++": two trailing empty parts mean the key itself is "+"
+    if (
+      parts.length >= 2 &&
+      parts[parts.length - 1] === "" &&
+      parts[parts.length - 2] === ""
+    ) {
+      parts.splice(parts.length - 2, 2, "+");
+    }
+
+    const rawKey = parts.pop();
+    if (!rawKey) {
+      throw new Error(`Invalid key: "${combo}"`);
+    }
+
+    const result: KeyCombo = {
+      key: this.normalizeKey(rawKey),
+      code: "",
+      ctrlKey: false,
+      shiftKey: false,
+      altKey: false,
+      metaKey: false,
+    };
+
+    for (const part of parts) {
+      const modifier = this.MODIFIER_ALIASES[part.toLowerCase()];
+      if (!modifier) {
+        throw new Error(
+          `Unknown modifier "${part}" in "${combo}". Use Control, Shift, Alt, Meta or ControlOrMeta.`
+        );
+      }
+      if (modifier === "Control") result.ctrlKey = true;
+      if (modifier === "Shift") result.shiftKey = true;
+      if (modifier === "Alt") result.altKey = true;
+      if (modifier === "Meta") result.metaKey = true;
+      if (modifier === "ControlOrMeta") {
+        if (/mac/i.test(platform)) result.metaKey = true;
+        else result.ctrlKey = true;
+      }
+    }
+
+    // Shift+a types "A", as on a real keyboard
+    if (result.shiftKey && /^[a-z]$/.test(result.key)) {
+      result.key = result.key.toUpperCase();
+    }
+
+    result.code = this.getCode(result.key);
+    return result;
+  }
+
+  /**
+   * Whether a key produces a character (and therefore a keypress event)
+   */
+  static isPrintable(key: string): boolean {
+    return key.length === 1 || key === "Enter";
+  }
+
+  private static normalizeKey(key: string): string {
+    if (key.length === 1) return key;
+    const named = this.NAMED_KEYS[key.toLowerCase()];
+    if (!named) {
+      throw new Error(
+        `Unknown key "${key}". Use a single character or a key name like Enter, Tab, Escape, ArrowDown, F1.`
+      );
+    }
+    return named;
+  }
+
+  private static getCode(key: string): string {
+    if (/^[a-z]$/i.test(key)) return `Key${key.toUpperCase()}`;
+    if (/^[0-9]$/.test(key)) return `Digit${key}`;
+    if (key === " ") return "Space";
+    return key;
+  }
+}
@@ -3,6 +3,8 @@
 import { realpathSync } from "fs";
 import { fileURLToPath } from "url";
 import { VerdexMCPServer } from "./server/VerdexMCPServer.js";
+import { VerdexHttpServer } from "./server/VerdexHttpServer.js";
+import { TransportConfigParser } from "./server/config/TransportConfigParser.js";
 
 // Export server class for testing and advanced programmatic usage
 // Primary use: MCP hosts spawn as CLI process via stdio
@@ -11,7 +13,10 @@ import { VerdexMCPServer } from "./server/VerdexMCPServer.js";
 //       "verdex": { "command": "npx", "args": ["@verdex/mcp@latest"] }
 //     }
 //   }
-export { VerdexMCPServer };
+//
+// Long-lived shared server (containers, several agents): Streamable HTTP
+//   npx @verdex/mcp@latest --transport http --port 3000
+export { VerdexMCPServer, VerdexHttpServer };
 
 // Export global type - this automatically loads the global augmentation
 // Consumers get globalThis.__VerdexBridgeFactory__ types when they import from this package
@@ -32,6 +37,32 @@ const isDirectExecution = (() => {
 })();
 
 if (isDirectExecution) {
-  const server = new VerdexMCPServer();
-  server.run().catch(console.error);
+  try {
+    const transport = TransportConfigParser.parse();
+
+    if (transport.type === "http") {
+      const server = new VerdexHttpServer(transport);
+      const shutdown = () => {
+        server
+          .stop()
+          .catch(console.error)
+          .finally(() => process.exit(0));
+      };
+      process.once("SIGINT", shutdown);
+      process.once("SIGTERM", shutdown);
+      server.start().catch((error) => {
+        console.error(error);
+        process.exit(1);
+      });
+    } else {
+      const server = new VerdexMCPServer();
+      server.run().catch(console.error);
+    }
+  } catch (error) {
+    // Invalid CLI flags or --config file: refuse to start with a readable message
+    console.error(
+      `❌ ${error instanceof Error ? error.message : String(error)}`
+    );
+    process.exit(1);
+  }
 }
@@ -273,6 +273,39 @@ export class BridgeInjector {
     return (response as any).result.value as T;
   }
 
+  /**
+   * Resolve a frame-local ref to a remote object handle for its DOM element.
+   * The bridge validates the ref, so stale/unknown refs throw the usual errors.
+   * The objectId can be passed to CDP DOM methods (getContentQuads, etc.).
+   */
+  async getElementHandle(
+    cdp: CDPSession,
+    localRef: string,
+    frameId: string
+  ): Promise<string> {
+    const objectId = await this.getBridgeHandle(cdp, frameId);
+
+    const response = await cdp.send("Runtime.callFunctionOn", {
+      functionDeclaration: `function(ref) { return this.getElement(ref); }`,
+      objectId,
+      arguments: [{ value: localRef }],
+      returnByValue: false, // CRITICAL: Get as remote object, not value
+    });
+
+    if ((response as any).exceptionDetails) {
+      const d = (response as any).exceptionDetails;
+      throw new Error(
+        d.exception?.description || d.text || "Bridge element lookup failed"
+      );
+    }
+
+    const elementObjectId = (response as any).result.objectId;
+    if (!elementObjectId) {
+      throw new Error(`No element handle for ref ${localRef}`);
+    }
+    return elementObjectId;
+  }
+
   async healthCheck(cdp: CDPSession, frameId: string): Promise<boolean> {
     try {
       const state = this.getFrameState(cdp, frameId);
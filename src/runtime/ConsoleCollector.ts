@@ -0,0 +1,222 @@
+/**
+ * Buffers console output of a role's pages from CDP events.
+ *
+ * Collects `console.*` calls (Runtime.consoleAPICalled), uncaught exceptions
+ * (Runtime.exceptionThrown) and browser log entries such as failed requests or
+ * CSP violations (Log.entryAdded). Messages from isolated worlds (the bridge)
+ * are ignored, so only the page's own output is reported.
+ */
+import type { CDPSession } from "puppeteer";
+import type {
+  ConsoleLevel,
+  ConsoleMessage,
+  ConsoleOptions,
+  ConsoleResult,
+} from "../shared-types.js";
+import type { ConsoleLog } from "./types.js";
+
+const MAX_MESSAGES = 1000;
+const DEFAULT_LIMIT = 50;
+const MAX_TEXT_LENGTH = 2000;
+
+const LEVEL_ORDER: ConsoleLevel[] = [
+  "debug",
+  "log",
+  "info",
+  "warning",
+  "error",
+];
+
+// Runtime.consoleAPICalled type -> level
+const CONSOLE_API_LEVELS: Record<string, ConsoleLevel> = {
+  debug: "debug",
+  info: "info",
+  warning: "warning",
+  error: "error",
+  assert: "error",
+};
+
+// Log.entryAdded level -> level
+const LOG_ENTRY_LEVELS: Record<string, ConsoleLevel> = {
+  verbose: "debug",
+  info: "info",
+  warning: "warning",
+  error: "error",
+};
+
+type RemoteObject = {
+  type: string;
+  subtype?: string;
+  value?: unknown;
+  unserializableValue?: string;
+  description?: string;
+};
+
+type CallFrame = { url: string; lineNumber: number };
+
+export class ConsoleCollector {
+  static createLog(): ConsoleLog {
+    return {
+      messages: [],
+      nextId: 1,
+      dropped: 0,
+      readUpTo: 0,
+      hintedUpTo: 0,
+    };
+  }
+
+  /**
+   * Start buffering a tab's console output into the role's log.
+   * Call before the Runtime domain is enabled to catch the first messages.
+   */
+  static async attach(
+    cdp: CDPSession,
+    tab: { id: string; mainFrameId: string },
+    log: ConsoleLog
+  ): Promise<void> {
+    // Execution context -> frame, for the page's own (default) worlds only
+    const contextFrames = new Map<number, string>();
+
+    cdp.on("Runtime.executionContextCreated", (event: any) => {
+      const aux = event.context?.auxData;
+      if (aux?.isDefault && aux.frameId) {
+        contextFrames.set(event.context.id, aux.frameId);
+      }
+    });
+    cdp.on("Runtime.executionContextDestroyed", (event: any) => {
+      contextFrames.delete(event.executionContextId);
+    });
+    cdp.on("Runtime.executionContextsCleared", () => contextFrames.clear());
+
+    const frameOf = (executionContextId: number): string | undefined => {
+      const frameId = contextFrames.get(executionContextId);
+      return frameId === tab.mainFrameId ? undefined : frameId;
+    };
+
+    cdp.on("Runtime.consoleAPICalled", (event: any) => {
+      if (!contextFrames.has(event.executionContextId)) return;
+      const top: CallFrame | undefined = event.stackTrace?.callFrames?.[0];
+      this.push(log, {
+        tabId: tab.id,
+        frameId: frameOf(event.executionContextId),
+        level: CONSOLE_API_LEVELS[event.type] ?? "log",
+        source: "console",
+        text: (event.args as RemoteObject[])
+          .map((arg) => this.formatArg(arg))
+          .join(" "),
+        url: top?.url || undefined,
+        lineNumber: top ? top.lineNumber + 1 : undefined,
+        timestamp: Date.now(),
+      });
+    });
+
+    cdp.on("Runtime.exceptionThrown", (event: any) => {
+      const details = event.exceptionDetails;
+      if (
+        details.executionContextId !== undefined &&
+        !contextFrames.has(details.executionContextId)
+      ) {
+        return;
+      }
+      this.push(log, {
+        tabId: tab.id,
+        frameId: frameOf(details.executionContextId),
+        level: "error",
+        source: "exception",
+        // An Error's description carries "TypeError: ..." plus the stack
+        text: details.exception
+          ? `Uncaught ${this.formatArg(details.exception)}`
+          : details.text,
+        url: details.url || undefined,
+        lineNumber:
+          details.lineNumber !== undefined ? details.lineNumber + 1 : undefined,
+        timestamp: Date.now(),
+      });
+    });
+
+    cdp.on("Log.entryAdded", (event: any) => {
+      const entry = event.entry;
+      this.push(log, {
+        tabId: tab.id,
+        level: LOG_ENTRY_LEVELS[entry.level] ?? "info",
+        source: "browser",
+        text: entry.text,
+        url: entry.url || undefined,
+        lineNumber:
+          entry.lineNumber !== undefined ? entry.lineNumber + 1 : undefined,
+        timestamp: Date.now(),
+      });
+    });
+
+    await cdp.send("Log.enable");
+  }
+
+  /**
+   * Messages matching the filters, most recent last
+   * @param options - Minimum level, since-last-call and limit
+   */
+  static query(log: ConsoleLog, options: ConsoleOptions = {}): ConsoleResult {
+    const { level, sinceLast = false, limit = DEFAULT_LIMIT } = options;
+    if (level !== undefined && !LEVEL_ORDER.includes(level)) {
+      throw new Error(
+        `level must be one of ${LEVEL_ORDER.join(", ")}, got ${level}`
+      );
+    }
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new Error(`limit must be a positive integer, got ${limit}`);
+    }
+
+    const minLevel = level ? LEVEL_ORDER.indexOf(level) : 0;
+    const since = sinceLast ? log.readUpTo : 0;
+    const matching = log.messages.filter(
+      (message) =>
+        message.id > since && LEVEL_ORDER.indexOf(message.level) >= minLevel
+    );
+
+    log.readUpTo = log.nextId - 1;
+    return {
+      messages: matching.slice(-limit),
+      matched: matching.length,
+      dropped: log.dropped,
+    };
+  }
+
+  /**
+   * Errors that arrived since the last hint or browser_console call.
+   * Each error is counted once.
+   */
+  static takeNewErrorCount(log: ConsoleLog): number {
+    const since = Math.max(log.hintedUpTo, log.readUpTo);
+    log.hintedUpTo = log.nextId - 1;
+    return log.messages.filter(
+      (message) => message.id > since && message.level === "error"
+    ).length;
+  }
+
+  private static push(log: ConsoleLog, message: Omit<ConsoleMessage, "id">) {
+    const entry: ConsoleMessage = { id: log.nextId++, ...message };
+    if (entry.frameId === undefined) delete entry.frameId;
+    if (entry.url === undefined) delete entry.url;
+    if (entry.lineNumber === undefined) delete entry.lineNumber;
+    if (entry.text.length > MAX_TEXT_LENGTH) {
+      entry.text = `${entry.text.slice(0, MAX_TEXT_LENGTH)}…`;
+    }
+
+    log.messages.push(entry);
+    if (log.messages.length > MAX_MESSAGES) {
+      log.messages.shift();
+      log.dropped++;
+    }
+  }
+
+  /**
+   * Render a console argument roughly the way DevTools prints it
+   */
+  private static formatArg(arg: RemoteObject): string {
+    if (arg.type === "string") return String(arg.value);
+    if (arg.unserializableValue !== undefined) return arg.unserializableValue;
+    if (arg.type === "undefined") return "undefined";
+    if (arg.value !== undefined) return JSON.stringify(arg.value);
+    return arg.description ?? arg.subtype ?? arg.type;
+  }
+}
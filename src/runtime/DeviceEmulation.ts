@@ -0,0 +1,318 @@
+/**
+ * Device, locale, time zone, geolocation and color scheme emulation for the
+ * pages of a role.
+ *
+ * Settings are applied as a whole: whatever they leave out is reset to the
+ * browser's default, so a role can switch from one device to another and
+ * back. The viewport goes through page.setViewport; the other overrides are
+ * CDP Emulation commands on a session of their own. Emulation overrides end
+ * with the session that set them, so that session stays attached for the
+ * lifetime of the page and is reused when the settings change.
+ */
+import {
+  KnownDevices,
+  type Browser,
+  type CDPSession,
+  type Page,
+  type Viewport,
+} from "puppeteer";
+import type { ColorScheme, EmulationSettings } from "../shared-types.js";
+
+type DevicePreset = {
+  userAgent: string; // Empty: keep the browser's user agent
+  viewport: Viewport;
+};
+
+// Desktop sizes next to Puppeteer's phones and tablets
+const DESKTOP_DEVICES: Record<string, DevicePreset> = {
+  Desktop: {
+    userAgent: "",
+    viewport: { width: 1280, height: 720, deviceScaleFactor: 1 },
+  },
+  "Desktop HiDPI": {
+    userAgent: "",
+    viewport: { width: 1280, height: 720, deviceScaleFactor: 2 },
+  },
+  "Desktop 1080p": {
+    userAgent: "",
+    viewport: { width: 1920, height: 1080, deviceScaleFactor: 1 },
+  },
+};
+
+const PRESETS: Record<string, DevicePreset> = {
+  ...DESKTOP_DEVICES,
+  ...KnownDevices,
+};
+
+const COLOR_SCHEMES: ColorScheme[] = ["light", "dark", "no-preference"];
+
+const EMULATION_KEYS: Array<keyof EmulationSettings> = [
+  "device",
+  "viewport",
+  "deviceScaleFactor",
+  "isMobile",
+  "hasTouch",
+  "userAgent",
+  "locale",
+  "timezone",
+  "geolocation",
+  "colorScheme",
+];
+
+const emulationSessions = new WeakMap<Page, Promise<CDPSession>>();
+
+// Permission overrides also end with their session: one browser-level
+// session per browser grants geolocation to the roles that emulate it
+const permissionSessions = new WeakMap<Browser, Promise<CDPSession>>();
+
+export class DeviceEmulation {
+  /**
+   * Names of the device presets: desktop sizes, then Puppeteer's known devices
+   */
+  static deviceNames(): string[] {
+    return Object.keys(PRESETS);
+  }
+
+  /**
+   * Canonical name of a device preset, matched case-insensitively
+   */
+  static findDevice(name: string): string | undefined {
+    const wanted = name.trim().toLowerCase();
+    return Object.keys(PRESETS).find((key) => key.toLowerCase() === wanted);
+  }
+
+  static isTimezone(value: string): boolean {
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone: value });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * The emulation fields of a role's configuration, without unset ones
+   */
+  static pick(settings: EmulationSettings): EmulationSettings {
+    const picked: Record<string, unknown> = {};
+    for (const key of EMULATION_KEYS) {
+      if (settings[key] !== undefined) picked[key] = settings[key];
+    }
+    return picked as EmulationSettings;
+  }
+
+  /**
+   * Expand the device preset into viewport, scale factor, mobile, touch and
+   * user agent. Fields set explicitly win over the preset.
+   */
+  static resolve(settings: EmulationSettings): EmulationSettings {
+    const explicit = this.pick(settings);
+    const name = settings.device && this.findDevice(settings.device);
+    if (!name) return explicit;
+
+    const preset = PRESETS[name];
+    const resolved: EmulationSettings = {
+      device: name,
+      viewport: {
+        width: preset.viewport.width,
+        height: preset.viewport.height,
+      },
+      deviceScaleFactor: preset.viewport.deviceScaleFactor ?? 1,
+      isMobile: preset.viewport.isMobile ?? false,
+      hasTouch: preset.viewport.hasTouch ?? false,
+    };
+    if (preset.userAgent) resolved.userAgent = preset.userAgent;
+    return { ...resolved, ...explicit, device: name };
+  }
+
+  /**
+   * Check emulation settings before any of them is applied
+   * @throws Error naming the first invalid field
+   */
+  static validate(settings: EmulationSettings): void {
+    const {
+      device,
+      viewport,
+      deviceScaleFactor,
+      isMobile,
+      hasTouch,
+      userAgent,
+      locale,
+      timezone,
+      geolocation,
+      colorScheme,
+    } = settings;
+
+    if (device !== undefined && !this.findDevice(device)) {
+      throw new Error(
+        `Unknown device "${device}" - known devices: ${this.deviceNames().join(
+          ", "
+        )}`
+      );
+    }
+    if (
+      viewport !== undefined &&
+      (!this.isPositiveInteger(viewport?.width) ||
+        !this.isPositiveInteger(viewport?.height))
+    ) {
+      throw new Error(
+        "viewport must be { width, height } in positive integers"
+      );
+    }
+    if (
+      deviceScaleFactor !== undefined &&
+      !(typeof deviceScaleFactor === "number" && deviceScaleFactor > 0)
+    ) {
+      throw new Error(
+        `deviceScaleFactor must be a positive number, got ${deviceScaleFactor}`
+      );
+    }
+    for (const [key, value] of Object.entries({ isMobile, hasTouch })) {
+      if (value !== undefined && typeof value !== "boolean") {
+        throw new Error(`${key} must be true or false, got ${value}`);
+      }
+    }
+    if (
+      userAgent !== undefined &&
+      (typeof userAgent !== "string" || userAgent.trim() === "")
+    ) {
+      throw new Error("userAgent must be a non-empty string");
+    }
+    if (locale !== undefined && !this.isLocale(locale)) {
+      throw new Error(
+        `locale must be a BCP 47 language tag (e.g. "en-US"), got ${locale}`
+      );
+    }
+    if (
+      timezone !== undefined &&
+      (typeof timezone !== "string" || !this.isTimezone(timezone))
+    ) {
+      throw new Error(
+        `timezone must be an IANA time zone (e.g. "Europe/Berlin"), got ${timezone}`
+      );
+    }
+    if (geolocation !== undefined && !this.isGeolocation(geolocation)) {
+      throw new Error(
+        "geolocation must be { latitude, longitude, accuracy? } with latitude -90..90, longitude -180..180 and accuracy in meters"
+      );
+    }
+    if (colorScheme !== undefined && !COLOR_SCHEMES.includes(colorScheme)) {
+      throw new Error(
+        `colorScheme must be "light", "dark" or "no-preference", got ${colorScheme}`
+      );
+    }
+  }
+
+  /**
+   * Apply settings to a page, resetting everything they leave out
+   *
+   * @param defaultViewport - Viewport without emulation (the launch default,
+   *   null for a window-sized page)
+   */
+  static async apply(
+    page: Page,
+    settings: EmulationSettings,
+    defaultViewport: Viewport | null
+  ): Promise<void> {
+    const emulation = this.resolve(settings);
+    const size = emulation.viewport ?? defaultViewport;
+    await page.setViewport(
+      size && {
+        width: size.width,
+        height: size.height,
+        deviceScaleFactor: emulation.deviceScaleFactor ?? 1,
+        isMobile: emulation.isMobile ?? false,
+        hasTouch: emulation.hasTouch ?? false,
+      }
+    );
+
+    const session = await this.getSession(page);
+    await session.send("Emulation.setUserAgentOverride", {
+      userAgent: emulation.userAgent ?? (await page.browser().userAgent()),
+      acceptLanguage: emulation.locale,
+    });
+    await session.send(
+      "Emulation.setLocaleOverride",
+      emulation.locale ? { locale: emulation.locale } : {}
+    );
+    // An empty id restores the host's time zone
+    await session.send("Emulation.setTimezoneOverride", {
+      timezoneId: emulation.timezone ?? "",
+    });
+
+    if (emulation.geolocation) {
+      await this.grantGeolocation(page);
+      await session.send("Emulation.setGeolocationOverride", {
+        accuracy: 0,
+        ...emulation.geolocation,
+      });
+    } else {
+      await session.send("Emulation.clearGeolocationOverride");
+    }
+
+    await session.send("Emulation.setEmulatedMedia", {
+      features: [
+        { name: "prefers-color-scheme", value: emulation.colorScheme ?? "" },
+      ],
+    });
+  }
+
+  private static getSession(page: Page): Promise<CDPSession> {
+    let session = emulationSessions.get(page);
+    if (!session) {
+      session = page.createCDPSession();
+      emulationSessions.set(page, session);
+      // A failed attach is retried on the next apply
+      session.catch(() => emulationSessions.delete(page));
+    }
+    return session;
+  }
+
+  private static async grantGeolocation(page: Page): Promise<void> {
+    const browser = page.browser();
+    let session = permissionSessions.get(browser);
+    if (!session) {
+      session = browser.target().createCDPSession();
+      permissionSessions.set(browser, session);
+      session.catch(() => permissionSessions.delete(browser));
+    }
+    await (
+      await session
+    ).send("Browser.grantPermissions", {
+      permissions: ["geolocation"],
+      browserContextId: page.browserContext().id,
+    });
+  }
+
+  private static isGeolocation(
+    value: EmulationSettings["geolocation"]
+  ): boolean {
+    if (typeof value !== "object" || value === null) return false;
+    const { latitude, longitude, accuracy } = value;
+    return (
+      typeof latitude === "number" &&
+      latitude >= -90 &&
+      latitude <= 90 &&
+      typeof longitude === "number" &&
+      longitude >= -180 &&
+      longitude <= 180 &&
+      (accuracy === undefined ||
+        (typeof accuracy === "number" && accuracy >= 0))
+    );
+  }
+
+  private static isLocale(value: unknown): boolean {
+    try {
+      return (
+        typeof value === "string" &&
+        Intl.getCanonicalLocales(value).length === 1
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  private static isPositiveInteger(value: unknown): boolean {
+    return typeof value === "number" && Number.isInteger(value) && value > 0;
+  }
+}
@@ -0,0 +1,230 @@
+/**
+ * Dispatches trusted input events through the CDP Input domain.
+ *
+ * Unlike DOM events created in the bridge, these go through the browser's
+ * input pipeline: they have `event.isTrusted === true`, trigger default
+ * actions, and behave like a real user for React-controlled inputs,
+ * keydown handlers and autocomplete widgets.
+ */
+import type { CDPSession } from "puppeteer";
+import { KeyboardUtils } from "../browser/utils/KeyboardUtils.js";
+
+export type Point = { x: number; y: number };
+
+type KeyDefinition = {
+  key: string;
+  code: string;
+  keyCode: number;
+  text?: string;
+  location?: number;
+};
+
+// CDP modifier bitmask (Input.dispatchKeyEvent / dispatchMouseEvent)
+const MODIFIER_BITS: Record<string, number> = {
+  Alt: 1,
+  Control: 2,
+  Meta: 4,
+  Shift: 8,
+};
+
+const MODIFIER_FLAGS = {
+  Control: "ctrlKey",
+  Alt: "altKey",
+  Meta: "metaKey",
+  Shift: "shiftKey",
+} as const;
+
+const NAMED_KEYS: Record<string, KeyDefinition> = {
+  enter: { key: "Enter", code: "Enter", keyCode: 13, text: "\r" },
+  return: { key: "Enter", code: "Enter", keyCode: 13, text: "\r" },
+  tab: { key: "Tab", code: "Tab", keyCode: 9 },
+  escape: { key: "Escape", code: "Escape", keyCode: 27 },
+  esc: { key: "Escape", code: "Escape", keyCode: 27 },
+  backspace: { key: "Backspace", code: "Backspace", keyCode: 8 },
+  delete: { key: "Delete", code: "Delete", keyCode: 46 },
+  space: { key: " ", code: "Space", keyCode: 32, text: " " },
+  arrowup: { key: "ArrowUp", code: "ArrowUp", keyCode: 38 },
+  arrowdown: { key: "ArrowDown", code: "ArrowDown", keyCode: 40 },
+  arrowleft: { key: "ArrowLeft", code: "ArrowLeft", keyCode: 37 },
+  arrowright: { key: "ArrowRight", code: "ArrowRight", keyCode: 39 },
+  home: { key: "Home", code: "Home", keyCode: 36 },
+  end: { key: "End", code: "End", keyCode: 35 },
+  pageup: { key: "PageUp", code: "PageUp", keyCode: 33 },
+  pagedown: { key: "PageDown", code: "PageDown", keyCode: 34 },
+  insert: { key: "Insert", code: "Insert", keyCode: 45 },
+  capslock: { key: "CapsLock", code: "CapsLock", keyCode: 20 },
+  numlock: { key: "NumLock", code: "NumLock", keyCode: 144 },
+  scrolllock: { key: "ScrollLock", code: "ScrollLock", keyCode: 145 },
+  pause: { key: "Pause", code: "Pause", keyCode: 19 },
+  printscreen: { key: "PrintScreen", code: "PrintScreen", keyCode: 44 },
+  contextmenu: { key: "ContextMenu", code: "ContextMenu", keyCode: 93 },
+  ...Object.fromEntries(
+    Array.from({ length: 12 }, (_, i) => [
+      `f${i + 1}`,
+      { key: `F${i + 1}`, code: `F${i + 1}`, keyCode: 112 + i },
+    ])
+  ),
+  control: { key: "Control", code: "ControlLeft", keyCode: 17, location: 1 },
+  shift: { key: "Shift", code: "ShiftLeft", keyCode: 16, location: 1 },
+  alt: { key: "Alt", code: "AltLeft", keyCode: 18, location: 1 },
+  meta: { key: "Meta", code: "MetaLeft", keyCode: 91, location: 1 },
+};
+
+// navigator.platform of the page behind each session, for ControlOrMeta
+const platforms = new WeakMap<CDPSession, Promise<string>>();
+
+export class InputDriver {
+  /**
+   * Move the mouse to a point (main-frame viewport coordinates).
+   */
+  static async moveTo(cdp: CDPSession, point: Point): Promise<void> {
+    await cdp.send("Input.dispatchMouseEvent", {
+      type: "mouseMoved",
+      x: point.x,
+      y: point.y,
+      button: "none",
+    });
+  }
+
+  /**
+   * Move to a point and perform a left click (press + release).
+   */
+  static async click(cdp: CDPSession, point: Point): Promise<void> {
+    await this.moveTo(cdp, point);
+    for (const type of ["mousePressed", "mouseReleased"] as const) {
+      await cdp.send("Input.dispatchMouseEvent", {
+        type,
+        x: point.x,
+        y: point.y,
+        button: "left",
+        buttons: type === "mousePressed" ? 1 : 0,
+        clickCount: 1,
+      });
+    }
+  }
+
+  /**
+   * Insert text into the focused element, as an IME commit would.
+   * Fires beforeinput/input but no per-character key events.
+   */
+  static async insertText(cdp: CDPSession, text: string): Promise<void> {
+    await cdp.send("Input.insertText", { text });
+  }
+
+  /**
+   * Press a Playwright-style key combination ("Enter", "Control+A").
+   * Modifiers are held down around the key, then released in reverse order.
+   */
+  static async press(cdp: CDPSession, combo: string): Promise<void> {
+    const parsed = KeyboardUtils.parseKeyCombo(
+      combo,
+      await this.getPlatform(cdp)
+    );
+    const key = this.getKeyDefinition(parsed.key);
+    const modifiers = (
+      Object.keys(MODIFIER_FLAGS) as Array<keyof typeof MODIFIER_FLAGS>
+    ).filter((modifier) => parsed[MODIFIER_FLAGS[modifier]]);
+
+    let modifierBits = 0;
+    for (const modifier of modifiers) {
+      modifierBits |= MODIFIER_BITS[modifier];
+      await this.dispatchKey(
+        cdp,
+        "rawKeyDown",
+        NAMED_KEYS[modifier.toLowerCase()],
+        modifierBits
+      );
+    }
+
+    // Text is suppressed while command modifiers are held (Control+A selects, it doesn't type "a")
+    const commandHeld = modifiers.some((m) => m !== "Shift");
+    const definition = commandHeld ? { ...key, text: undefined } : key;
+
+    await this.dispatchKey(
+      cdp,
+      definition.text ? "keyDown" : "rawKeyDown",
+      definition,
+      modifierBits
+    );
+    await this.dispatchKey(cdp, "keyUp", definition, modifierBits);
+
+    for (const modifier of [...modifiers].reverse()) {
+      modifierBits &= ~MODIFIER_BITS[modifier];
+      await this.dispatchKey(
+        cdp,
+        "keyUp",
+        NAMED_KEYS[modifier.toLowerCase()],
+        modifierBits
+      );
+    }
+  }
+
+  private static async dispatchKey(
+    cdp: CDPSession,
+    type: "keyDown" | "rawKeyDown" | "keyUp",
+    definition: KeyDefinition,
+    modifiers: number
+  ): Promise<void> {
+    await cdp.send("Input.dispatchKeyEvent", {
+      type,
+      modifiers,
+      key: definition.key,
+      code: definition.code,
+      windowsVirtualKeyCode: definition.keyCode,
+      text: type === "keyUp" ? undefined : definition.text,
+      unmodifiedText: type === "keyUp" ? undefined : definition.text,
+      location: definition.location,
+    });
+  }
+
+  /**
+   * The page's navigator.platform, not the server's: a connected browser
+   * may run on another machine
+   */
+  private static getPlatform(cdp: CDPSession): Promise<string> {
+    let platform = platforms.get(cdp);
+    if (!platform) {
+      platform = cdp
+        .send("Runtime.evaluate", {
+          expression: "navigator.platform",
+          returnByValue: true,
+        })
+        .then(({ result }) => String(result.value ?? ""));
+      platforms.set(cdp, platform);
+      // A failed lookup (page navigating) is retried on the next press
+      platform.catch(() => platforms.delete(cdp));
+    }
+    return platform;
+  }
+
+  private static getKeyDefinition(key: string): KeyDefinition {
+    if (key === " ") return NAMED_KEYS.space;
+    if (key.length === 1) {
+      if (/^[a-z]$/i.test(key)) {
+        return {
+          key,
+          code: `Key${key.toUpperCase()}`,
+          keyCode: key.toUpperCase().charCodeAt(0),
+          text: key,
+        };
+      }
+      if (/^[0-9]$/.test(key)) {
+        return {
+          key,
+          code: `Digit${key}`,
+          keyCode: key.charCodeAt(0),
+          text: key,
+        };
+      }
+      return { key, code: "", keyCode: 0, text: key };
+    }
+
+    const named = NAMED_KEYS[key.toLowerCase()];
+    if (!named) {
+      throw new Error(
+        `Unknown key "${key}". Use a single character or a key name like Enter, Tab, Escape, ArrowDown, F1.`
+      );
+    }
+    return named;
+  }
+}
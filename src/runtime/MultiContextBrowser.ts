@@ -1,28 +1,107 @@
-import puppeteer, { Browser, BrowserContext, Page } from "puppeteer";
+import puppeteer, {
+  Browser,
+  BrowserContext,
+  CDPSession,
+  Dialog,
+  ConnectOptions,
+  HTTPResponse,
+  LaunchOptions,
+  Page,
+  Target,
+  Viewport,
+} from "puppeteer";
 import {
   RoleContext,
   RolesConfiguration,
   GlobalRefIndex,
   RefIndexEntry,
   FailureLog,
+  InputMode,
+  LaunchConfig,
+  AuthOriginRestore,
+  TabState,
+  ConsoleLog,
+  NetworkLog,
+  RouteTable,
 } from "./types.js";
 import { BridgeInjector } from "./BridgeInjector.js";
+import { InputDriver, Point } from "./InputDriver.js";
+import { ConsoleCollector } from "./ConsoleCollector.js";
+import { NetworkRecorder } from "./NetworkRecorder.js";
+import { RequestRouter } from "./RequestRouter.js";
+import { DeviceEmulation } from "./DeviceEmulation.js";
 import {
   Snapshot,
   FrameDetachedError,
   NavigationError,
   UnknownRefError,
   AuthenticationError,
+  WaitTimeoutError,
+  WaitForOptions,
+  LocatorResult,
+  LocatorValidationResult,
+  BridgeWaitCondition,
+  RecordedAction,
+  ScreenshotOptions,
+  ScreenshotResult,
+  ScrollOptions,
+  ScrollPosition,
+  TabInfo,
+  ClickResult,
+  ConsoleOptions,
+  ConsoleResult,
+  ExportHarOptions,
+  NetworkRequestFilter,
+  NetworkRequestsResult,
+  RouteInfo,
+  RouteOptions,
+  DialogInfo,
+  DialogPendingError,
+  EmulationSettings,
+  DialogType,
+  StorageState,
+  StorageStateCookie,
+  StorageStateOrigin,
+  SnapshotBudget,
+  SnapshotNode,
+  SnapshotOptions,
+  SnapshotResult,
 } from "../shared-types.js";
 import { RefFormatter } from "../utils/RefFormatter.js";
+import { UrlPattern } from "../utils/UrlPattern.js";
+import { SnapshotDiffer } from "../utils/SnapshotDiffer.js";
+import { SnapshotRenderer } from "../utils/SnapshotRenderer.js";
+import { SnapshotCollapser } from "../utils/SnapshotCollapser.js";
+import { TestExporter } from "../utils/TestExporter.js";
+import { HarExporter, type Har } from "../utils/HarExporter.js";
+import { ManualPromise } from "../utils/ManualPromise.js";
 import { logAndContinue } from "../utils/logging.js";
 
+// Overlay drawn by browser_screenshot({ marks: true }), removed after capture
+const MARKS_OVERLAY_ID = "__verdex_ref_marks__";
+
+// Actions a recording keeps; later ones are counted as dropped
+const MAX_RECORDED_ACTIONS = 1000;
+
 export class MultiContextBrowser {
   private browser: Browser | null = null;
+  private connected = false; // Attached to a running browser instead of launching one
   private _roleContexts = new Map<string, Promise<RoleContext>>();
   private currentRole: string = "default";
   private rolesConfig: RolesConfiguration | null = null;
   private bridgeConfig: Record<string, any> = {};
+  private inputMode: InputMode | undefined;
+  private networkBodyLimit: number | undefined;
+  private launchConfig: LaunchConfig = {};
+  private recording = false; // Off until start_recording
+  private recordedActions: RecordedAction[] = [];
+  private droppedActions = 0;
+  private roleTurns: Promise<unknown> = Promise.resolve(); // Tail of withRole tasks
+  // Session of restoreSessionStorage per page, with the scripts yet to run
+  private sessionStorageRestores = new WeakMap<
+    Page,
+    { session: CDPSession; pending: Map<string, string> }
+  >();
 
   /**
    * Set roles configuration from MCP server
@@ -45,6 +124,101 @@ export class MultiContextBrowser {
     this.bridgeConfig = { ...config };
   }
 
+  /**
+   * Set how interactions are delivered to the page.
+   * This takes precedence over the VERDEX_INPUT_MODE environment variable.
+   *
+   * @param mode - "trusted" (CDP input events, default) or "synthetic" (bridge DOM events)
+   */
+  setInputMode(mode: InputMode): void {
+    this.inputMode = mode;
+  }
+
+  /**
+   * Get the active input mode ("trusted" unless configured otherwise)
+   */
+  getInputMode(): InputMode {
+    return this.inputMode ?? "trusted";
+  }
+
+  /**
+   * Set how much of each XHR/fetch/document response body the network log keeps.
+   * This takes precedence over the VERDEX_NETWORK_BODY_LIMIT environment variable.
+   * Applies to tabs opened afterwards.
+   *
+   * @param chars - Characters kept per body (0 disables body capture)
+   */
+  setNetworkBodyLimit(chars: number): void {
+    this.networkBodyLimit = chars;
+  }
+
+  /**
+   * Get the response body limit of the network log (16384 characters by default)
+   */
+  getNetworkBodyLimit(): number {
+    return this.networkBodyLimit ?? 16384;
+  }
+
+  /**
+   * Set how the browser is launched (headed mode, binary, switches, viewport...).
+   * Given fields take precedence over the VERDEX_* environment variables.
+   * Takes effect on the next initialize() that launches a browser.
+   *
+   * @param config - Launch settings; unset fields keep their current value
+   */
+  setLaunchConfiguration(config: LaunchConfig): void {
+    this.launchConfig = { ...this.launchConfig, ...config };
+  }
+
+  /**
+   * Puppeteer launch options for the current launch configuration
+   */
+  getLaunchOptions(): LaunchOptions {
+    const config = this.launchConfig;
+    const options: LaunchOptions = {
+      headless: config.headless ?? true,
+      args: [
+        "--no-sandbox",
+        "--disable-setuid-sandbox",
+        ...(config.args ?? []),
+      ],
+      defaultViewport:
+        config.viewport === undefined
+          ? { width: 1280, height: 720 }
+          : config.viewport,
+    };
+    if (config.executablePath) options.executablePath = config.executablePath;
+    if (config.channel) options.channel = config.channel;
+    if (config.slowMo) options.slowMo = config.slowMo;
+    if (config.devtools) options.devtools = true;
+    if (config.userDataDir) options.userDataDir = config.userDataDir;
+    return options;
+  }
+
+  /**
+   * Puppeteer connect options when a CDP endpoint or browser URL is configured,
+   * null when a browser is launched. Pages keep their window size unless a
+   * viewport is configured.
+   */
+  getConnectOptions(): ConnectOptions | null {
+    const { cdpEndpoint, browserURL, viewport, slowMo } = this.launchConfig;
+    if (!cdpEndpoint && !browserURL) return null;
+
+    const options: ConnectOptions = cdpEndpoint
+      ? { browserWSEndpoint: cdpEndpoint }
+      : { browserURL };
+    options.defaultViewport = viewport ?? null;
+    if (slowMo) options.slowMo = slowMo;
+    return options;
+  }
+
+  /**
+   * Whether the browser is a running one Verdex connected to (close() disconnects)
+   */
+  isConnected(): boolean {
+    return this.connected;
+  }
+
   /**
    * Load bridge configuration from environment variables.
    * Environment variables only override values that weren't explicitly set.
@@ -84,6 +258,87 @@ export class MultiContextBrowser {
         this.bridgeConfig.maxDescendants = parsed;
       }
     }
+
+    if (process.env.VERDEX_INPUT_MODE && this.inputMode === undefined) {
+      const mode = process.env.VERDEX_INPUT_MODE;
+      if (mode === "trusted" || mode === "synthetic") {
+        this.inputMode = mode;
+      }
+    }
+
+    if (
+      process.env.VERDEX_NETWORK_BODY_LIMIT &&
+      this.networkBodyLimit === undefined
+    ) {
+      const parsed = parseInt(process.env.VERDEX_NETWORK_BODY_LIMIT, 10);
+      if (!isNaN(parsed) && parsed >= 0) {
+        this.networkBodyLimit = parsed;
+      }
+    }
+
+    this.loadLaunchConfigFromEnv();
+  }
+
+  /**
+   * Fill launch settings that weren't set programmatically from VERDEX_CDP_ENDPOINT,
+   * VERDEX_BROWSER_URL, VERDEX_HEADLESS, VERDEX_EXECUTABLE_PATH, VERDEX_CHANNEL,
+   * VERDEX_BROWSER_ARGS, VERDEX_VIEWPORT, VERDEX_SLOW_MO, VERDEX_DEVTOOLS and
+   * VERDEX_USER_DATA_DIR. Invalid values are ignored.
+   */
+  private loadLaunchConfigFromEnv(): void {
+    const env = process.env;
+    const config = this.launchConfig;
+    const parseBoolean = (value: string | undefined) =>
+      value === "true" || value === "1"
+        ? true
+        : value === "false" || value === "0"
+        ? false
+        : undefined;
+
+    if (config.cdpEndpoint === undefined && env.VERDEX_CDP_ENDPOINT) {
+      config.cdpEndpoint = env.VERDEX_CDP_ENDPOINT;
+    }
+    if (config.browserURL === undefined && env.VERDEX_BROWSER_URL) {
+      config.browserURL = env.VERDEX_BROWSER_URL;
+    }
+    if (config.headless === undefined) {
+      config.headless = parseBoolean(env.VERDEX_HEADLESS);
+    }
+    if (config.executablePath === undefined && env.VERDEX_EXECUTABLE_PATH) {
+      config.executablePath = env.VERDEX_EXECUTABLE_PATH;
+    }
+    if (
+      config.channel === undefined &&
+      (env.VERDEX_CHANNEL === "chrome" ||
+        env.VERDEX_CHANNEL === "chrome-beta" ||
+        env.VERDEX_CHANNEL === "chrome-dev" ||
+        env.VERDEX_CHANNEL === "chrome-canary")
+    ) {
+      config.channel = env.VERDEX_CHANNEL;
+    }
+    if (config.args === undefined && env.VERDEX_BROWSER_ARGS) {
+      config.args = env.VERDEX_BROWSER_ARGS.split(/\s+/).filter(Boolean);
+    }
+    if (config.viewport === undefined && env.VERDEX_VIEWPORT) {
+      const size = env.VERDEX_VIEWPORT.match(/^(\d+)x(\d+)$/);
+      if (env.VERDEX_VIEWPORT === "none") {
+        config.viewport = null;
+      } else if (size && Number(size[1]) > 0 && Number(size[2]) > 0) {
+        config.viewport = { width: Number(size[1]), height: Number(size[2]) };
+      }
+    }
+    if (config.slowMo === undefined && env.VERDEX_SLOW_MO) {
+      const parsed = parseInt(env.VERDEX_SLOW_MO, 10);
+      if (!isNaN(parsed) && parsed >= 0) {
+        config.slowMo = parsed;
+      }
+    }
+    if (config.devtools === undefined) {
+      config.devtools = parseBoolean(env.VERDEX_DEVTOOLS);
+    }
+    if (config.userDataDir === undefined && env.VERDEX_USER_DATA_DIR) {
+      config.userDataDir = env.VERDEX_USER_DATA_DIR;
+    }
   }
 
   async initialize() {
@@ -100,11 +355,17 @@ export class MultiContextBrowser {
     }
 
     if (!this.browser) {
-      this.browser = await puppeteer.launch({
-        headless: true,
-        args: ["--no-sandbox", "--disable-setuid-sandbox"],
-        defaultViewport: { width: 1280, height: 720 },
-      });
+      const connectOptions = this.getConnectOptions();
+      if (connectOptions) {
+        this.browser = await puppeteer.connect(connectOptions);
+        this.connected = true;
+        console.log(
+          `🔌 Connected to running browser ${await this.browser.version()}`
+        );
+      } else {
+        this.browser = await puppeteer.launch(this.getLaunchOptions());
+        this.connected = false;
+      }
     }
   }
 
@@ -151,6 +412,26 @@ export class MultiContextBrowser {
     }
   }
 
+  /**
+   * Current role's context, refusing to act while its active tab shows a dialog
+   * (scripts and CDP calls into the page hang until the dialog is answered)
+   *
+   * @throws DialogPendingError when a dialog is waiting for browser_handle_dialog
+   */
+  private async ensureUnblockedRoleContext(): Promise<RoleContext> {
+    const context = await this.ensureCurrentRoleContext();
+    const pending = this.getActiveTab(context).pendingDialog;
+    if (pending) {
+      pending.reported = true;
+      throw new DialogPendingError(context.role, pending.info);
+    }
+    return context;
+  }
+
+  private getActiveTab(context: RoleContext): TabState {
+    return context.tabs.find((tab) => tab.id === context.activeTabId)!;
+  }
+
   /**
    * Setup CDP session and create role context from browser context and page
    */
@@ -159,6 +440,69 @@ export class MultiContextBrowser {
     browserContext: BrowserContext,
     page: Page
   ): Promise<RoleContext> {
+    const visitedOrigins = new Set<string>();
+    const consoleLog = ConsoleCollector.createLog();
+    const networkLog = NetworkRecorder.createLog();
+    const routes = RequestRouter.createTable();
+    const tab = await this._setupTab(role, page, "t1", {
+      visitedOrigins,
+      consoleLog,
+      networkLog,
+      routes,
+    });
+
+    // Get default URL from configuration if available
+    const defaultUrl = this.rolesConfig?.roles[role]?.defaultUrl;
+
+    // Create the context object
+    const context: RoleContext = {
+      role,
+      browserContext,
+      page,
+      cdpSession: tab.cdpSession,
+      bridgeInjector: tab.bridgeInjector,
+      mainFrameId: tab.mainFrameId,
+      defaultUrl,
+      createdAt: Date.now(),
+      lastUsed: Date.now(),
+      hasNavigated: false, // Track if this context has been navigated
+      visitedOrigins,
+      consoleLog,
+      networkLog,
+      routes,
+      emulation: DeviceEmulation.pick(this.rolesConfig?.roles[role] ?? {}),
+      tabs: [tab],
+      activeTabId: tab.id,
+      tabCounter: 1,
+      pendingTabs: new Set(),
+      answeredDialogs: [],
+    };
+
+    this.watchTab(context, tab);
+
+    // Popups and target=_blank links become new tabs of the role
+    browserContext.on("targetcreated", (target: Target) =>
+      this.onTargetCreated(context, target)
+    );
+
+    return context;
+  }
+
+  /**
+   * Attach a CDP session and the bridge to one page of a role
+   */
+  private async _setupTab(
+    role: string,
+    page: Page,
+    id: string,
+    shared: {
+      visitedOrigins: Set<string>;
+      consoleLog: ConsoleLog;
+      networkLog: NetworkLog;
+      routes: RouteTable;
+    }
+  ): Promise<TabState> {
+    const { visitedOrigins, consoleLog, networkLog, routes } = shared;
     // Get CDP session for this specific page
     const cdpSession = await page.createCDPSession();
 
@@ -173,66 +517,243 @@ export class MultiContextBrowser {
       config: this.bridgeConfig,
     });
 
+    // Buffer console output - listeners go first to see the contexts Runtime.enable reports
+    await ConsoleCollector.attach(cdpSession, { id, mainFrameId }, consoleLog);
+    await NetworkRecorder.attach(
+      cdpSession,
+      { id, mainFrameId },
+      networkLog,
+      this.getNetworkBodyLimit()
+    );
+    await RequestRouter.attach(cdpSession, routes);
+
     // Setup auto-injection (registers listeners, enables domains, injects bundle)
     await bridgeInjector.setupAutoInjection(cdpSession, mainFrameId);
 
-    // Get default URL from configuration if available
-    const defaultUrl = this.rolesConfig?.roles[role]?.defaultUrl;
+    // Remember every web origin loaded in this page, so save_auth_state can
+    // collect its storage even after the page has moved on
+    cdpSession.on("Page.frameNavigated", (event: any) => {
+      const origin = event.frame?.securityOrigin;
+      if (typeof origin === "string" && /^https?:\/\//.test(origin)) {
+        visitedOrigins.add(origin);
+      }
+    });
 
-    // Create the context object
-    const context: RoleContext = {
-      role,
-      browserContext,
+    return {
+      id,
       page,
       cdpSession,
       bridgeInjector,
       mainFrameId,
-      defaultUrl,
-      createdAt: Date.now(),
-      lastUsed: Date.now(),
-      hasNavigated: false, // Track if this context has been navigated
+      openedAt: Date.now(),
+      dialogOpened: new ManualPromise<void>(),
     };
+  }
 
-    return context;
+  /**
+   * Follow a tab's lifecycle: dialogs it opens, and its closing
+   */
+  private watchTab(context: RoleContext, tab: TabState): void {
+    tab.page.on("dialog", (dialog: Dialog) =>
+      this.onDialog(context, tab, dialog).catch((error) =>
+        logAndContinue(error, `onDialog(${tab.id})`)
+      )
+    );
+    tab.page.once("close", () => this.removeTab(context, tab));
+  }
+
+  /**
+   * Answer a dialog by the role's policy, or keep it open for
+   * browser_handle_dialog. An open dialog blocks every script and CDP call
+   * into the page, so waits on the tab are released via `dialogOpened`.
+   */
+  private async onDialog(
+    context: RoleContext,
+    tab: TabState,
+    dialog: Dialog
+  ): Promise<void> {
+    const info: DialogInfo = {
+      tabId: tab.id,
+      type: dialog.type() as DialogType,
+      message: dialog.message(),
+      url: tab.page.url(),
+      openedAt: Date.now(),
+    };
+    if (info.type === "prompt") info.defaultValue = dialog.defaultValue();
+    // The action that opened the dialog is recorded once it returns
+    const recordAt = this.recordedActions.length;
+
+    const policy =
+      this.rolesConfig?.roles[context.role]?.dialogPolicy ?? "manual";
+    console.log(
+      `💬 ${info.type} dialog in role '${context.role}' (${tab.id}): ${info.message} [${policy}]`
+    );
+
+    if (policy === "manual") {
+      tab.pendingDialog = { info, dialog, reported: false, recordAt };
+      tab.dialogOpened.resolve();
+      return;
+    }
+
+    if (policy === "accept") {
+      await dialog.accept(info.defaultValue);
+      info.outcome = "accepted";
+    } else {
+      await dialog.dismiss();
+      info.outcome = "dismissed";
+    }
+    info.auto = true;
+    context.answeredDialogs.push(info);
+    this.recordDialog(context, info, recordAt);
+  }
+
+  /**
+   * Register a page opened by one of the role's tabs. Pages Verdex opens
+   * itself (scratch pages for auth storage) have no opener and are ignored.
+   */
+  private onTargetCreated(context: RoleContext, target: Target): void {
+    if (target.type() !== "page") return;
+    const opener = context.tabs.find(
+      (tab) => tab.page.target() === target.opener()
+    );
+    if (!opener) return;
+
+    const registration = (async () => {
+      const page = await target.page();
+      if (!page || page.isClosed()) return null;
+
+      const id = `t${++context.tabCounter}`;
+      const tab = await this._setupTab(context.role, page, id, {
+        visitedOrigins: context.visitedOrigins!,
+        consoleLog: context.consoleLog,
+        networkLog: context.networkLog,
+        routes: context.routes,
+      });
+      tab.openerId = opener.id;
+      await this._applyRoleSettings(
+        context.role,
+        page,
+        context.emulation
+      ).catch((error) => logAndContinue(error, `applyRoleSettings(${id})`));
+
+      context.tabs.push(tab);
+      this.watchTab(context, tab);
+      console.log(`🗂️ Role '${context.role}' opened tab ${id}`);
+      return tab;
+    })().catch((error) => {
+      logAndContinue(error, "onTargetCreated");
+      return null;
+    });
+
+    context.pendingTabs.add(registration);
+    registration.finally(() => context.pendingTabs.delete(registration));
+  }
+
+  /**
+   * Forget a closed tab. If it was active, its opener (or the most recently
+   * opened tab) becomes active, so an OAuth popup closing itself returns to
+   * the page that opened it.
+   */
+  private removeTab(context: RoleContext, tab: TabState): void {
+    const index = context.tabs.indexOf(tab);
+    if (index === -1) return;
+    context.tabs.splice(index, 1);
+
+    if (context.activeTabId !== tab.id || context.tabs.length === 0) return;
+    const next =
+      context.tabs.find((t) => t.id === tab.openerId) ??
+      context.tabs[context.tabs.length - 1];
+    this.activateTab(context, next);
+  }
+
+  /**
+   * Make `tab` the one all role operations work on. The previous tab's
+   * snapshot state is saved on it first.
+   */
+  private activateTab(context: RoleContext, tab: TabState): void {
+    const previous = context.tabs.find((t) => t.id === context.activeTabId);
+    if (previous) {
+      previous.refIndex = context.refIndex;
+      previous.frameOwners = context.frameOwners;
+      previous.lastSnapshot = context.lastSnapshot;
+      previous.collapsedRegions = context.collapsedRegions;
+    }
+
+    context.activeTabId = tab.id;
+    context.page = tab.page;
+    context.cdpSession = tab.cdpSession;
+    context.bridgeInjector = tab.bridgeInjector;
+    context.mainFrameId = tab.mainFrameId;
+    context.refIndex = tab.refIndex;
+    context.frameOwners = tab.frameOwners;
+    context.lastSnapshot = tab.lastSnapshot;
+    context.collapsedRegions = tab.collapsedRegions;
+  }
+
+  /**
+   * Apply per-role browser settings (device emulation, locale, time zone,
+   * geolocation, color scheme, headers) from the roles configuration. Runs
+   * before auth data is loaded, so every request made for the role already
+   * carries them.
+   *
+   * @param emulation - The role's current emulation; tabs opened later pass
+   *   what browser_emulate changed since the role was created
+   */
+  private async _applyRoleSettings(
+    role: string,
+    page: Page,
+    emulation = DeviceEmulation.pick(this.rolesConfig?.roles[role] ?? {})
+  ): Promise<void> {
+    const roleConfig = this.rolesConfig?.roles[role];
+
+    if (roleConfig?.extraHTTPHeaders) {
+      await page.setExtraHTTPHeaders(roleConfig.extraHTTPHeaders);
+    }
+
+    if (Object.keys(emulation).length > 0) {
+      await DeviceEmulation.apply(page, emulation, this.getDefaultViewport());
+    }
+  }
+
+  /**
+   * Viewport of a page without emulation: the launch or connect default
+   */
+  private getDefaultViewport(): Viewport | null {
+    const options = this.getConnectOptions() ?? this.getLaunchOptions();
+    return options.defaultViewport ?? null;
   }
 
   /**
    * Load authentication data from auth file into browser context.
    * Throws on failure - caller decides if critical based on authRequired.
+   *
+   * Cookies are set directly. Web storage is restored for every origin in the
+   * file without navigating the role's page:
+   * - localStorage is written from a scratch page in the same browser context
+   * - sessionStorage belongs to the tab, so it is written by a script that runs
+   *   in the role's page the first time a document of that origin loads
+   *
+   * @returns Outcome per origin, for the FailureLog (a failed origin does not fail the load)
    */
-  private async _loadAuthData(role: string, page: Page): Promise<void> {
+  private async _loadAuthData(
+    role: string,
+    page: Page
+  ): Promise<AuthOriginRestore[]> {
     const authPath = this.rolesConfig?.roles[role]?.authPath;
-    if (!authPath) return;
+    if (!authPath) return [];
 
+    let authData: StorageState;
     try {
       const fs = await import("fs");
-      const authData = JSON.parse(fs.readFileSync(authPath, "utf8"));
+      authData = JSON.parse(fs.readFileSync(authPath, "utf8"));
 
       console.log(`🔐 Loading auth data for role: ${role}`);
 
       // Load cookies
-      if (authData.cookies) {
+      if (authData.cookies?.length) {
         console.log(`🍪 Loading ${authData.cookies.length} cookies`);
         await page.setCookie(...authData.cookies);
       }
-
-      // Load localStorage (simple: just do the first origin)
-      if (authData.origins?.[0]?.localStorage) {
-        const origin = authData.origins[0];
-        console.log(`💾 Loading localStorage for: ${origin.origin}`);
-        await page.goto(origin.origin);
-        for (const item of origin.localStorage) {
-          await page.evaluate(
-            (name: string, value: string) => {
-              localStorage.setItem(name, value);
-            },
-            item.name,
-            item.value
-          );
-        }
-      }
-
-      console.log(`✅ Auth data loaded for role: ${role}`);
     } catch (error) {
       // Throw proper Error with context
       const errorMsg = error instanceof Error ? error.message : String(error);
@@ -242,6 +763,132 @@ export class MultiContextBrowser {
       (authError as any).authPath = authPath; // Attach metadata
       throw authError;
     }
+
+    const origins = (authData.origins ?? []).filter(
+      (entry) => entry.localStorage?.length || entry.sessionStorage?.length
+    );
+    const outcomes: AuthOriginRestore[] = origins.map((entry) => ({
+      origin: entry.origin,
+      status: "restored",
+      localStorage: entry.localStorage?.length ?? 0,
+      sessionStorage: entry.sessionStorage?.length ?? 0,
+      timestamp: Date.now(),
+    }));
+    const fail = (index: number, error: unknown) => {
+      outcomes[index].status = "failed";
+      outcomes[index].error =
+        error instanceof Error ? error.message : String(error);
+      console.warn(
+        `⚠️ Could not restore storage for ${origins[index].origin}: ${outcomes[index].error}`
+      );
+    };
+
+    if (origins.some((entry) => entry.localStorage?.length)) {
+      await this.withScratchPage(page.browserContext(), async (scratch) => {
+        for (const [index, entry] of origins.entries()) {
+          if (!entry.localStorage?.length) continue;
+          try {
+            console.log(`💾 Loading localStorage for: ${entry.origin}`);
+            await scratch.goto(entry.origin);
+            await scratch.evaluate((items) => {
+              for (const { name, value } of items) {
+                localStorage.setItem(name, value);
+              }
+            }, entry.localStorage);
+          } catch (error) {
+            fail(index, error);
+          }
+        }
+      }).catch((error) =>
+        origins.forEach((entry, index) => {
+          if (entry.localStorage?.length) fail(index, error);
+        })
+      );
+    }
+
+    const sessionOrigins = origins
+      .map((entry, index) => ({ entry, index }))
+      .filter(({ entry }) => entry.sessionStorage?.length);
+    if (sessionOrigins.length > 0) {
+      try {
+        await this.restoreSessionStorage(
+          page,
+          sessionOrigins.map(({ entry }) => entry)
+        );
+      } catch (error) {
+        sessionOrigins.forEach(({ index }) => fail(index, error));
+      }
+    }
+
+    console.log(`✅ Auth data loaded for role: ${role}`);
+    return outcomes;
+  }
+
+  /**
+   * Register one script per origin that fills sessionStorage in the first
+   * document of that origin loaded in `page`. Each script is removed once it
+   * has run, so later navigations see the app's own sessionStorage changes;
+   * scripts of origins never visited are removed when the role closes.
+   */
+  private async restoreSessionStorage(
+    page: Page,
+    origins: StorageStateOrigin[]
+  ): Promise<void> {
+    // Scripts live as long as the session that added them
+    const session = await page.createCDPSession();
+    const pending = new Map<string, string>(); // origin -> script identifier
+    this.sessionStorageRestores.set(page, { session, pending });
+    await session.send("Page.enable");
+
+    for (const entry of origins) {
+      console.log(`💾 Loading sessionStorage for: ${entry.origin}`);
+      const { identifier } = await session.send(
+        "Page.addScriptToEvaluateOnNewDocument",
+        {
+          source: `if (location.origin === ${JSON.stringify(entry.origin)}) {
+            for (const [name, value] of ${JSON.stringify(
+              entry.sessionStorage!.map((item) => [item.name, item.value])
+            )}) {
+              sessionStorage.setItem(name, value);
+            }
+          }`,
+        }
+      );
+      pending.set(entry.origin, identifier);
+    }
+
+    session.on("Page.frameNavigated", (event: any) => {
+      const identifier = pending.get(event.frame?.securityOrigin);
+      if (!identifier) return;
+
+      pending.delete(event.frame.securityOrigin);
+      session
+        .send("Page.removeScriptToEvaluateOnNewDocument", { identifier })
+        .then(() =>
+          pending.size === 0 ? this.stopSessionStorageRestore(page) : undefined
+        )
+        .catch((error) => logAndContinue(error, "restoreSessionStorage"));
+    });
+  }
+
+  /**
+   * Remove the sessionStorage scripts still waiting for their origin in
+   * `page`, and detach the session that added them
+   */
+  private async stopSessionStorageRestore(page: Page): Promise<void> {
+    const restore = this.sessionStorageRestores.get(page);
+    if (!restore) return;
+    this.sessionStorageRestores.delete(page);
+
+    // A closed page took its session and scripts with it
+    if (page.isClosed()) return;
+    for (const identifier of restore.pending.values()) {
+      await restore.session.send("Page.removeScriptToEvaluateOnNewDocument", {
+        identifier,
+      });
+    }
+    restore.pending.clear();
+    await restore.session.detach();
   }
 
   /**
@@ -252,26 +899,45 @@ export class MultiContextBrowser {
       throw new Error("Browser not initialized - call initialize() first");
     }
 
-    // SPECIAL CASE: Default role uses main browser context (no isolation)
-    if (role === "default") {
-      console.log(`🔧 Creating main context for default role: ${role}`);
+    // SPECIAL CASE: Default role uses main browser context (no isolation),
+    // a role with attachTo drives an open page of a connected browser
+    const attachTo = this.rolesConfig?.roles[role]?.attachTo;
+    if (role === "default" || attachTo) {
+      let browserContext: BrowserContext;
+      let page: Page;
+
+      if (attachTo) {
+        page = await this.findPageToAttach(role, attachTo);
+        browserContext = page.browserContext();
+        console.log(`🔧 Attaching role '${role}' to open page: ${page.url()}`);
+      } else {
+        console.log(`🔧 Creating main context for default role: ${role}`);
+
+        // Use main browser context instead of creating an isolated one
+        browserContext = this.browser.defaultBrowserContext();
 
-      // Use main browser context instead of creating an isolated one
-      const browserContext = this.browser.defaultBrowserContext();
+        // Reuse existing page if available
+        const pages = await browserContext.pages();
+        page = pages[0] || (await browserContext.newPage());
+      }
 
-      // Reuse existing page if available
-      const pages = await browserContext.pages();
-      const page = pages[0] || (await browserContext.newPage());
+      await this._applyRoleSettings(role, page);
 
       // Try to load auth data
       let authError: Error | undefined;
+      let authOrigins: AuthOriginRestore[] = [];
       try {
-        await this._loadAuthData(role, page);
+        authOrigins = await this._loadAuthData(role, page);
       } catch (error) {
         authError = error instanceof Error ? error : new Error(String(error));
       }
 
       const context = await this._setupRoleContext(role, browserContext, page);
+      // The user's own pages stay open when Verdex disconnects
+      context.adopted = this.connected;
+      if (authOrigins.length > 0) {
+        this.ensureFailureLog(context).authOrigins = authOrigins;
+      }
 
       // Track auth failure in FailureLog
       if (authError) {
@@ -298,7 +964,11 @@ export class MultiContextBrowser {
         );
       }
 
-      console.log(`✅ Created main context for default role: ${role}`);
+      console.log(
+        attachTo
+          ? `✅ Attached role '${role}' to ${page.url()}`
+          : `✅ Created main context for default role: ${role}`
+      );
       return context;
     }
 
@@ -311,15 +981,21 @@ export class MultiContextBrowser {
     // Create page in the isolated context
     const page = await browserContext.newPage();
 
+    await this._applyRoleSettings(role, page);
+
     // Try to load auth data
     let authError: Error | undefined;
+    let authOrigins: AuthOriginRestore[] = [];
     try {
-      await this._loadAuthData(role, page);
+      authOrigins = await this._loadAuthData(role, page);
     } catch (error) {
       authError = error instanceof Error ? error : new Error(String(error));
     }
 
     const context = await this._setupRoleContext(role, browserContext, page);
+    if (authOrigins.length > 0) {
+      this.ensureFailureLog(context).authOrigins = authOrigins;
+    }
 
     // Track auth failure in FailureLog
     if (authError) {
@@ -354,19 +1030,138 @@ export class MultiContextBrowser {
     return context;
   }
 
+  /**
+   * The open page a role's attachTo pattern points at, in any browser
+   * context of the connected browser
+   * @throws Error if Verdex launched the browser itself or no page matches
+   */
+  private async findPageToAttach(role: string, pattern: string): Promise<Page> {
+    if (!this.connected) {
+      throw new Error(
+        `Role '${role}' has attachTo, which needs a running browser - start Verdex with --cdp-endpoint or --browser-url`
+      );
+    }
+
+    // Pages other roles already drive are not candidates
+    const taken = new Set<Page>();
+    for (const [other, contextPromise] of this._roleContexts) {
+      if (other === role) continue;
+      const context = await contextPromise.catch(() => null);
+      context?.tabs.forEach((tab) => taken.add(tab.page));
+    }
+
+    const pages = (await this.browser!.pages()).filter(
+      (page) => !taken.has(page)
+    );
+    const page = pages.find((candidate) =>
+      UrlPattern.matches(candidate.url(), pattern)
+    );
+    if (!page) {
+      throw new Error(
+        `No open page matches attachTo "${pattern}" of role '${role}'. Open pages: ${
+          pages.map((candidate) => candidate.url()).join(", ") || "(none)"
+        }`
+      );
+    }
+    return page;
+  }
+
   // Public API methods (unified - no branching)
 
   async navigate(url: string): Promise<Snapshot> {
-    const startTime = Date.now();
-    let redirectCount = 0;
-    let finalResponse: any = null;
+    return this.performNavigation(
+      url,
+      { type: "navigate", role: this.currentRole, url },
+      (page) => page.goto(url, { waitUntil: "networkidle0" })
+    );
+  }
 
-    try {
-      const context = await this.ensureCurrentRoleContext();
+  /**
+   * Go back one entry in the active tab's history.
+   * @throws Error when there is no previous entry
+   */
+  async goBack(): Promise<Snapshot> {
+    const url = await this.getHistoryUrl(-1);
+    return this.performNavigation(
+      url,
+      { type: "goBack", role: this.currentRole },
+      (page) => page.goBack({ waitUntil: "networkidle0" })
+    );
+  }
 
-      // Track redirects by monitoring responses
-      const responseHandler = (response: any) => {
-        if (
+  /**
+   * Go forward one entry in the active tab's history.
+   * @throws Error when there is no next entry
+   */
+  async goForward(): Promise<Snapshot> {
+    const url = await this.getHistoryUrl(1);
+    return this.performNavigation(
+      url,
+      { type: "goForward", role: this.currentRole },
+      (page) => page.goForward({ waitUntil: "networkidle0" })
+    );
+  }
+
+  /**
+   * Reload the active tab
+   */
+  async reload(): Promise<Snapshot> {
+    const context = await this.ensureUnblockedRoleContext();
+    return this.performNavigation(
+      context.page.url(),
+      { type: "reload", role: this.currentRole },
+      (page) => page.reload({ waitUntil: "networkidle0" })
+    );
+  }
+
+  /**
+   * URL of the history entry `offset` steps from the current one
+   */
+  private async getHistoryUrl(offset: number): Promise<string> {
+    const context = await this.ensureUnblockedRoleContext();
+    const { currentIndex, entries } = await context.cdpSession.send(
+      "Page.getNavigationHistory"
+    );
+    const entry = entries[currentIndex + offset];
+    if (!entry) {
+      throw new Error(
+        `No ${offset < 0 ? "previous" : "next"} page in the history of tab ${
+          context.activeTabId
+        } (role '${this.currentRole}')`
+      );
+    }
+    return entry.url;
+  }
+
+  /**
+   * Run a navigation of the active tab and describe it: wait for the load,
+   * re-discover frames, capture NavigationMetadata (status, redirects, load
+   * time) and return a fresh snapshot. Failures throw NavigationError after
+   * storing an error snapshot in context.lastErrorSnapshot.
+   *
+   * @param url - URL the navigation is expected to load (for metadata and errors)
+   * @param action - Recorded once the navigation succeeds
+   * @param navigation - Starts the navigation, resolving to the main response
+   */
+  private async performNavigation(
+    url: string,
+    action: Extract<
+      RecordedAction,
+      { type: "navigate" | "goBack" | "goForward" | "reload" }
+    >,
+    navigation: (page: Page) => Promise<HTTPResponse | null>
+  ): Promise<Snapshot> {
+    const startTime = Date.now();
+    let redirectCount = 0;
+    let finalResponse: any = null;
+
+    try {
+      const context = await this.ensureUnblockedRoleContext();
+      const tab = this.getActiveTab(context);
+
+      // Track redirects by monitoring responses
+      const responseHandler = (response: any) => {
+        if (
           response.url() !== url &&
           response.status() >= 300 &&
           response.status() < 400
@@ -380,21 +1175,30 @@ export class MultiContextBrowser {
       context.page.on("response", responseHandler);
 
       try {
-        // Perform navigation
-        const response = await context.page.goto(url, {
-          waitUntil: "networkidle0",
-        });
-        finalResponse = response || finalResponse;
-
-        // NEW: Discover and inject bridges into all frames
-        await this.discoverAndInjectFrames(context);
+        // Perform navigation - a dialog during load (e.g. alert() in an
+        // inline script) stalls it until answered, so stop waiting there
+        const navigating = navigation(context.page);
+        const outcome = await Promise.race([
+          navigating.then((response) => ({ response })),
+          tab.dialogOpened.then(() => null),
+        ]);
+        if (outcome) {
+          finalResponse = outcome.response || finalResponse;
+
+          // NEW: Discover and inject bridges into all frames
+          await this.discoverAndInjectFrames(context);
+        } else {
+          navigating.catch((error) =>
+            logAndContinue(error, "dialog-blocked navigation")
+          );
+        }
 
         const endTime = Date.now();
         const loadTime = endTime - startTime;
 
-        // Capture navigation metadata
+        // Capture navigation metadata (the title is unreadable behind a dialog)
         const finalUrl = context.page.url();
-        const pageTitle = await context.page.title();
+        const pageTitle = outcome ? await context.page.title() : "";
         const statusCode = finalResponse?.status();
         const contentType = finalResponse?.headers()["content-type"];
 
@@ -404,6 +1208,8 @@ export class MultiContextBrowser {
         // Get snapshot
         const snapshot = await this.snapshot();
 
+        this.record({ ...action, tab: tab.id });
+
         // Add navigation metadata to snapshot
         snapshot.navigation = {
           success: true,
@@ -710,49 +1516,44 @@ export class MultiContextBrowser {
   }
 
   /**
-   * Recursively expand iframe markers in snapshot text.
-   * For each "- iframe [ref=eN]" line:
+   * Recursively expand iframe nodes in a snapshot tree, in place.
+   * For each iframe node with a ref:
    *   1. Resolve element ref to frame ID
    *   2. Snapshot that child frame
-   *   3. Rewrite child refs with frame prefix (fX_eN)
-   *   4. Recursively expand any iframes in child
-   *   5. Indent and merge child content
+   *   3. Recursively expand any iframes in child
+   *   4. Rewrite child refs with frame prefix (fX_eN)
+   *   5. Attach the child tree as the iframe's children
    */
   private async expandIframes(
     context: RoleContext,
-    snapshotText: string,
+    tree: SnapshotNode,
     currentFrameId: string,
     ordinalCounter: number,
-    refIndex: GlobalRefIndex
+    refIndex: GlobalRefIndex,
+    frameOwners: GlobalRefIndex,
+    knownOrdinals?: Map<string, number>,
+    viewportMargin?: number
   ): Promise<{
-    text: string;
     elementCount: number;
     nextOrdinal: number;
     errors: Array<{ ref: string; error: string; detached: boolean }>; // NEW
   }> {
-    const lines = snapshotText.split("\n");
-    const result: string[] = [];
     let totalElements = 0;
     let nextOrdinal = ordinalCounter;
     const errors: Array<{ ref: string; error: string; detached: boolean }> = []; // NEW
 
-    for (const line of lines) {
-      // Match iframe markers: "- iframe [ref=eN]" or "  - iframe "Name" [ref=eN]"
-      const match = line.match(
-        /^(\s*)- iframe(?:\s+"[^"]*")?\s+\[ref=([^\]]+)\]/
-      );
-
-      if (!match) {
-        // Not an iframe marker, keep as-is
-        result.push(line);
-        continue;
+    // Document order, so frame ordinals match the order frames appear in the text
+    const iframes: SnapshotNode[] = [];
+    const collect = (node: SnapshotNode) => {
+      if (node.role === "iframe" && node.ref) iframes.push(node);
+      for (const child of node.children) {
+        if (typeof child !== "string") collect(child);
       }
+    };
+    collect(tree);
 
-      const indentation = match[1];
-      const iframeRef = match[2];
-
-      // Keep the original iframe line (with colon to indicate children)
-      result.push(line + ":");
+    for (const iframe of iframes) {
+      const iframeRef = iframe.ref!;
 
       try {
         // Resolve iframe element ref to frame ID
@@ -763,7 +1564,7 @@ export class MultiContextBrowser {
         );
 
         if (!frameInfo) {
-          result.push(indentation + "  [Frame content unavailable]");
+          iframe.frame = { status: "unavailable" };
           errors.push({
             // NEW
             ref: iframeRef,
@@ -773,29 +1574,34 @@ export class MultiContextBrowser {
           continue;
         }
 
-        // Assign frame ordinal (f1, f2, f3, ...)
-        const frameOrdinal = ++nextOrdinal;
+        // Assign frame ordinal (f1, f2, f3, ...), reusing known frames' ordinals
+        const frameOrdinal =
+          knownOrdinals?.get(frameInfo.frameId) ?? ++nextOrdinal;
+        frameOwners.set(frameInfo.frameId, {
+          frameId: currentFrameId,
+          localRef: iframeRef,
+        });
 
-        // Snapshot child frame
+        // Snapshot child frame (viewport-only against the frame's own viewport)
         const childSnapshot = (await context.bridgeInjector.callBridgeMethod(
           context.cdpSession,
           "snapshot",
-          [],
+          viewportMargin === undefined ? [] : [undefined, 0, viewportMargin],
           frameInfo.frameId
-        )) as {
-          text: string;
-          elementCount: number;
-        };
+        )) as SnapshotResult;
 
         totalElements += childSnapshot.elementCount;
 
         // Recursively expand any iframes in child frame
         const expandedChild = await this.expandIframes(
           context,
-          childSnapshot.text,
+          childSnapshot.tree,
           frameInfo.frameId,
           nextOrdinal,
-          refIndex
+          refIndex,
+          frameOwners,
+          knownOrdinals,
+          viewportMargin
         );
 
         nextOrdinal = expandedChild.nextOrdinal;
@@ -804,27 +1610,21 @@ export class MultiContextBrowser {
         errors.push(...expandedChild.errors); // NEW: Merge child errors
 
         // Rewrite refs in child frame: eN → fX_eN
-        // Only rewrite local refs (starting with 'e'), not already-qualified refs (starting with 'f')
-        const rewritten = expandedChild.text.replace(
-          /\[ref=(e[^\]]+)\]/g,
-          (_whole, localRef) => {
-            // Only rewrite local refs, not already-qualified refs
-            if (!RefFormatter.isLocal(localRef)) {
-              return `[ref=${localRef}]`; // Already qualified, keep as-is
-            }
-
-            const globalRef = RefFormatter.toGlobal(frameOrdinal, localRef);
-            refIndex.set(globalRef, { frameId: frameInfo.frameId, localRef });
-            return `[ref=${globalRef}]`;
+        // Only rewrite local refs, not refs already qualified by a nested expansion
+        const rewrite = (node: SnapshotNode) => {
+          if (node.ref && RefFormatter.isLocal(node.ref)) {
+            const localRef = node.ref;
+            node.ref = RefFormatter.toGlobal(frameOrdinal, localRef);
+            refIndex.set(node.ref, { frameId: frameInfo.frameId, localRef });
           }
-        );
-
-        // Indent child frame content and add to result
-        for (const childLine of rewritten.split("\n")) {
-          if (childLine.trim()) {
-            result.push(indentation + "  " + childLine);
+          for (const child of node.children) {
+            if (typeof child !== "string") rewrite(child);
           }
-        }
+        };
+        rewrite(childSnapshot.tree);
+
+        iframe.frame = { status: "expanded" };
+        iframe.children = childSnapshot.tree.children;
       } catch (error) {
         const isDetached = this.isFrameDetachedError(error);
         const errorMsg = error instanceof Error ? error.message : String(error);
@@ -839,19 +1639,18 @@ export class MultiContextBrowser {
         // Frame detachment is normal, generic errors need logging
         if (isDetached) {
           console.debug(`Frame ${iframeRef} detached during expansion`);
-          result.push(indentation + "  [Frame detached]");
+          iframe.frame = { status: "detached" };
         } else {
           console.warn(`Frame expansion error for ${iframeRef}:`, {
             error: errorMsg,
           });
-          result.push(indentation + `  [Error: ${errorMsg}]`);
+          iframe.frame = { status: "error", error: errorMsg };
         }
         continue;
       }
     }
 
     return {
-      text: result.join("\n"),
       elementCount: totalElements,
       nextOrdinal,
       errors, // NEW
@@ -888,39 +1687,109 @@ export class MultiContextBrowser {
     throw new UnknownRefError(ref);
   }
 
-  async snapshot(): Promise<Snapshot> {
+  /**
+   * Capture the accessibility tree of the current page, with iframes expanded.
+   *
+   * With `ref`, only that element's subtree is captured (in the element's own
+   * frame for frame-qualified refs), or its container's with `ancestorLevel`. The refIndex is updated for the subtree and
+   * keeps every other entry, so refs from the last full snapshot stay usable.
+   * With maxLines/maxTokens, low-value regions are collapsed until the text
+   * fits; they can be expanded later with expandRegion().
+   * With viewportOnly, elements outside the viewport are replaced by
+   * [offscreen] counts; their refs from earlier snapshots stay usable too.
+   * Partial (scoped, depth-limited, budgeted or viewport-only) snapshots do
+   * not replace the diff baseline.
+   *
+   * @param options - Optional scope (ref, ancestorLevel), depth limit (levels below the scope), budget and viewport filter
+   */
+  async snapshot(options: SnapshotOptions = {}): Promise<Snapshot> {
+    const { ref, ancestorLevel, depth, maxLines, maxTokens } = options;
+    if (depth !== undefined && (!Number.isInteger(depth) || depth < 0)) {
+      throw new Error(`depth must be a non-negative integer, got ${depth}`);
+    }
+    const { viewportMargin } = options;
+    if (
+      viewportMargin !== undefined &&
+      (!Number.isInteger(viewportMargin) || viewportMargin < 0)
+    ) {
+      throw new Error(
+        `viewportMargin must be a non-negative integer, got ${viewportMargin}`
+      );
+    }
+    if (viewportMargin !== undefined && !options.viewportOnly) {
+      throw new Error("viewportMargin requires viewportOnly");
+    }
+    // Margin in pixels when only the viewport is captured
+    const margin = options.viewportOnly ? viewportMargin ?? 0 : undefined;
+    if (ancestorLevel !== undefined && !ref) {
+      throw new Error("ancestorLevel requires a ref");
+    }
+    const budget = this.validateBudget({ maxLines, maxTokens });
+
     try {
       const context = await this.ensureCurrentRoleContext();
 
-      // Get main frame snapshot (with iframe markers from bridge)
-      const mainSnapshot = (await context.bridgeInjector.callBridgeMethod(
+      const pending = this.getActiveTab(context).pendingDialog;
+      if (pending) {
+        return this.blockedSnapshot(context, pending);
+      }
+
+      // Scoped snapshots start in the frame that owns the ref
+      const scope = ref ? this.parseRef(ref, context) : null;
+      const rootFrameId = scope?.frameId ?? context.mainFrameId;
+      const rootOrdinal = ref ? RefFormatter.parse(ref).frameOrdinal : 0;
+
+      // Get root frame snapshot (with iframe nodes from bridge)
+      const rootSnapshot = (await context.bridgeInjector.callBridgeMethod(
         context.cdpSession,
         "snapshot",
-        [],
-        context.mainFrameId
-      )) as Snapshot;
+        [scope?.localRef, ancestorLevel ?? 0, margin],
+        rootFrameId
+      )) as SnapshotResult;
 
       // Build refIndex for interaction routing (Phase 6)
-      const refIndex = new Map<string, RefIndexEntry>();
+      // A partial snapshot only adds to the existing index
+      const partial = !!scope || margin !== undefined;
+      const refIndex = new Map<string, RefIndexEntry>(
+        partial ? context.refIndex : undefined
+      );
+      const frameOwners = new Map<string, RefIndexEntry>(
+        partial ? context.frameOwners : undefined
+      );
 
-      // Populate with main frame refs first
-      const mainFrameRefs = mainSnapshot.text.matchAll(/\[ref=([^\]]+)\]/g);
-      for (const match of mainFrameRefs) {
-        const ref = match[1];
-        refIndex.set(ref, { frameId: context.mainFrameId, localRef: ref });
-      }
+      // Frames inside the snapshot keep the ordinals they already have
+      const knownOrdinals = partial
+        ? this.getFrameOrdinals(refIndex)
+        : undefined;
 
-      // Recursively expand iframe markers
+      // Recursively expand iframe nodes
       const expanded = await this.expandIframes(
         context,
-        mainSnapshot.text,
-        context.mainFrameId,
-        0, // ordinal counter starts at 0
-        refIndex
+        rootSnapshot.tree,
+        rootFrameId,
+        knownOrdinals ? Math.max(0, ...knownOrdinals.values()) : 0, // ordinal counter starts at 0
+        refIndex,
+        frameOwners,
+        knownOrdinals,
+        margin
       );
 
+      // Index the root frame's refs (child frame refs are already qualified)
+      const indexRootFrameRefs = (node: SnapshotNode) => {
+        if (node.ref && RefFormatter.isLocal(node.ref)) {
+          const localRef = node.ref;
+          node.ref = RefFormatter.toGlobal(rootOrdinal, localRef);
+          refIndex.set(node.ref, { frameId: rootFrameId, localRef });
+        }
+        for (const child of node.children) {
+          if (typeof child !== "string") indexRootFrameRefs(child);
+        }
+      };
+      indexRootFrameRefs(rootSnapshot.tree);
+
       // Store refIndex on context for interaction routing (Phase 6)
       context.refIndex = refIndex;
+      context.frameOwners = frameOwners;
 
       // NEW: Track expansion errors
       if (expanded.errors.length > 0) {
@@ -935,15 +1804,43 @@ export class MultiContextBrowser {
         );
       }
 
+      if (depth !== undefined) {
+        for (const child of rootSnapshot.tree.children) {
+          if (typeof child !== "string") this.limitDepth(child, depth);
+        }
+      }
+
+      // Over budget: collapse low-value regions, kept for browser_expand_region.
+      // A full snapshot without a budget replaces what they were cut from.
+      let collapsedIds: string[] | undefined;
+      if (budget) {
+        const regions = SnapshotCollapser.collapse(rootSnapshot.tree, budget);
+        context.collapsedRegions = {
+          regions,
+          loaderId: await this.getMainFrameLoaderId(context),
+        };
+        collapsedIds = [...regions.keys()];
+      } else if (!partial) {
+        context.collapsedRegions = undefined;
+      }
+
       const snapshot: Snapshot = {
-        text: expanded.text,
-        elementCount: mainSnapshot.elementCount + expanded.elementCount,
+        text: SnapshotRenderer.render(rootSnapshot.tree),
+        // The bridge counts every element it knows in the frame - count the snapshot's own
+        elementCount: partial
+          ? this.countRefs(rootSnapshot.tree)
+          : rootSnapshot.elementCount + expanded.elementCount,
+        tree: rootSnapshot.tree,
         pageContext: {
           url: context.page.url(),
           title: await context.page.title(),
         },
       };
 
+      if (collapsedIds?.length) {
+        snapshot.collapsedRegions = collapsedIds;
+      }
+
       // Add expansion errors to snapshot if any
       if (expanded.errors.length > 0) {
         snapshot.expansionErrors = expanded.errors;
@@ -952,8 +1849,18 @@ export class MultiContextBrowser {
       // Build warnings from FailureLog
       snapshot.warnings = this.buildWarningsFromFailureLog(context);
 
+      // Remember this snapshot as the baseline for the next diff
+      if (!partial && depth === undefined && !budget) {
+        context.lastSnapshot = {
+          text: snapshot.text,
+          loaderId: await this.getMainFrameLoaderId(context),
+        };
+      }
+
       return snapshot;
     } catch (error) {
+      // Unknown scope refs keep their type for the LLM-facing error message
+      if (error instanceof UnknownRefError) throw error;
       throw new Error(
         `Snapshot failed for role '${this.currentRole}': ${
           error instanceof Error ? error.message : String(error)
@@ -962,17 +1869,406 @@ export class MultiContextBrowser {
     }
   }
 
+  /**
+   * Show the full content of a region collapsed by a budgeted snapshot.
+   * With a budget, regions inside it may be collapsed again (with new ids).
+   *
+   * A region whose root has a ref is read again from the live page (a scoped
+   * snapshot), so it shows the current content; others come from the stored
+   * subtree. Regions of an earlier document are unknown.
+   *
+   * @param id - Region id from the snapshot's [collapsed=cN] marker
+   * @param budget - Optional maxLines / maxTokens for the expanded content
+   */
+  async expandRegion(
+    id: string,
+    budget: SnapshotBudget = {}
+  ): Promise<Snapshot> {
+    const limits = this.validateBudget(budget);
+    const context = await this.ensureUnblockedRoleContext();
+
+    const collapsed = context.collapsedRegions;
+    if (
+      collapsed &&
+      collapsed.loaderId !== (await this.getMainFrameLoaderId(context))
+    ) {
+      context.collapsedRegions = undefined;
+    }
+    const region = context.collapsedRegions?.regions.get(id);
+    if (!collapsed || !region) {
+      throw new Error(
+        `Unknown collapsed region '${id}' - region ids come from the latest browser_snapshot taken with maxLines or maxTokens`
+      );
+    }
+
+    const tree: SnapshotNode = region.ref
+      ? (await this.snapshot({ ref: region.ref })).tree!
+      : // Copy, so the stored region can be expanded again in full
+        { role: "WebArea", name: "", children: [structuredClone(region)] };
+
+    let collapsedIds: string[] = [];
+    if (limits) {
+      const nested = SnapshotCollapser.collapse(
+        tree,
+        limits,
+        collapsed.regions.size + 1
+      );
+      for (const [nestedId, node] of nested) {
+        collapsed.regions.set(nestedId, node);
+      }
+      collapsedIds = [...nested.keys()];
+    }
+
+    const snapshot: Snapshot = {
+      text: SnapshotRenderer.render(tree),
+      elementCount: this.countRefs(tree),
+      tree,
+      pageContext: {
+        url: context.page.url(),
+        title: await context.page.title(),
+      },
+    };
+    if (collapsedIds.length > 0) {
+      snapshot.collapsedRegions = collapsedIds;
+    }
+    return snapshot;
+  }
+
+  /**
+   * Check maxLines / maxTokens; returns null when no budget was given
+   */
+  private validateBudget(budget: SnapshotBudget): SnapshotBudget | null {
+    for (const [key, value] of Object.entries(budget)) {
+      if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+        throw new Error(`${key} must be a positive integer, got ${value}`);
+      }
+    }
+    return budget.maxLines !== undefined || budget.maxTokens !== undefined
+      ? budget
+      : null;
+  }
+
+  /**
+   * Frame ordinal of every frame with refs in the index (f2_e5 → frame 2)
+   */
+  private getFrameOrdinals(refIndex: GlobalRefIndex): Map<string, number> {
+    const ordinals = new Map<string, number>();
+    for (const [globalRef, entry] of refIndex) {
+      ordinals.set(entry.frameId, RefFormatter.parse(globalRef).frameOrdinal);
+    }
+    return ordinals;
+  }
+
+  private countRefs(node: SnapshotNode): number {
+    return node.children.reduce(
+      (sum, child) =>
+        typeof child === "string" ? sum : sum + this.countRefs(child),
+      node.ref ? 1 : 0
+    );
+  }
+
+  /**
+   * Drop the descendants of `node` that are more than `depth` levels below it.
+   * Nodes that lost children record how many nodes were hidden in `truncated`.
+   */
+  private limitDepth(node: SnapshotNode, depth: number): void {
+    if (depth === 0) {
+      delete node.offscreen;
+      if (node.children.length > 0) {
+        const count = (n: SnapshotNode | string): number =>
+          typeof n === "string"
+            ? 1
+            : 1 + n.children.reduce((sum, c) => sum + count(c), 0);
+        node.truncated = node.children.reduce((sum, c) => sum + count(c), 0);
+        node.children = [];
+      }
+      return;
+    }
+    for (const child of node.children) {
+      if (typeof child !== "string") this.limitDepth(child, depth - 1);
+    }
+  }
+
+  /**
+   * Take a snapshot and attach the changes since the previous snapshot.
+   *
+   * The previous snapshot is kept per role. Refs are only comparable within one
+   * document, so `diff` is left undefined when there is no earlier snapshot or
+   * the main frame has loaded a new document since (cross-document navigation).
+   * Same-document navigation (SPA routing) keeps the baseline.
+   *
+   * @returns Full snapshot with `diff` set when a baseline was available
+   */
+  async snapshotDiff(): Promise<Snapshot> {
+    const context = await this.ensureUnblockedRoleContext();
+    const previous = context.lastSnapshot;
+
+    const snapshot = await this.snapshot();
+
+    if (previous && previous.loaderId === context.lastSnapshot?.loaderId) {
+      snapshot.diff = SnapshotDiffer.compute(previous.text, snapshot.text);
+    }
+
+    return snapshot;
+  }
+
+  /**
+   * Capture a PNG of the viewport, the full page or one element.
+   *
+   * Element boxes come from DOM.getContentQuads, which reports main-frame
+   * viewport coordinates (iframe offsets included), so refs inside iframes are
+   * cropped correctly. With `marks`, every ref of the latest snapshot is drawn
+   * onto a temporary overlay in the main frame, which is removed afterwards.
+   *
+   * @param options - Target (ref, fullPage or viewport) and overlay
+   * @throws Error if ref and fullPage are combined or the element has no box
+   */
+  async screenshot(options: ScreenshotOptions = {}): Promise<ScreenshotResult> {
+    const context = await this.ensureUnblockedRoleContext();
+
+    if (options.ref && options.fullPage) {
+      throw new Error(
+        "browser_screenshot: ref and fullPage cannot be combined - pass one or neither"
+      );
+    }
+
+    let clip: { x: number; y: number; width: number; height: number } | null =
+      null;
+    if (options.ref) {
+      const { frameId, localRef } = this.parseRef(options.ref, context);
+      const box = await this.getElementBox(context, frameId, localRef, true);
+      if (!box) {
+        throw new Error(
+          `Element ${options.ref} has no visible box to capture (hidden or zero-size)`
+        );
+      }
+      // Clip is in document coordinates, boxes are relative to the viewport
+      const { cssVisualViewport } = await context.cdpSession.send(
+        "Page.getLayoutMetrics"
+      );
+      clip = {
+        x: box.x + cssVisualViewport.pageX,
+        y: box.y + cssVisualViewport.pageY,
+        width: box.width,
+        height: box.height,
+      };
+    }
+
+    const markCount = options.marks
+      ? await this.drawRefMarks(context)
+      : undefined;
+
+    try {
+      const data = (await context.page.screenshot({
+        type: "png",
+        encoding: "base64",
+        fullPage: options.fullPage ?? false,
+        ...(clip ? { clip } : {}),
+      })) as string;
+
+      // PNG IHDR: width and height are big-endian uint32 at bytes 16 and 20
+      const header = Buffer.from(data.slice(0, 44), "base64");
+
+      return {
+        data,
+        mimeType: "image/png",
+        width: header.readUInt32BE(16),
+        height: header.readUInt32BE(20),
+        markCount,
+      };
+    } finally {
+      if (options.marks) {
+        await context.page
+          .evaluate((id: string) => {
+            document.getElementById(id)?.remove();
+          }, MARKS_OVERLAY_ID)
+          .catch((error) => logAndContinue(error, "screenshot marks cleanup"));
+      }
+    }
+  }
+
+  /**
+   * Bounding box of an element in main-frame viewport coordinates.
+   * Returns null when the element has no layout box (hidden, display: none).
+   */
+  private async getElementBox(
+    context: RoleContext,
+    frameId: string,
+    localRef: string,
+    scrollIntoView: boolean
+  ): Promise<{ x: number; y: number; width: number; height: number } | null> {
+    const quads = await this.getContentQuads(
+      context,
+      frameId,
+      localRef,
+      scrollIntoView
+    );
+    const xs = quads.flatMap((quad) => [quad[0], quad[2], quad[4], quad[6]]);
+    const ys = quads.flatMap((quad) => [quad[1], quad[3], quad[5], quad[7]]);
+    if (xs.length === 0) return null;
+
+    const x = Math.min(...xs);
+    const y = Math.min(...ys);
+    const width = Math.max(...xs) - x;
+    const height = Math.max(...ys) - y;
+    return width >= 1 && height >= 1 ? { x, y, width, height } : null;
+  }
+
+  /**
+   * Content quads of an element in viewport coordinates, one per line box.
+   * The element's remote object is released afterwards, so the CDP session
+   * does not keep the node alive until its document goes away.
+   *
+   * @returns No quads if the element has no layout object (display: none,
+   *   detached shadow content, etc.)
+   */
+  private async getContentQuads(
+    context: RoleContext,
+    frameId: string,
+    localRef: string,
+    scrollIntoView: boolean
+  ): Promise<number[][]> {
+    const objectId = await context.bridgeInjector.getElementHandle(
+      context.cdpSession,
+      localRef,
+      frameId
+    );
+
+    try {
+      if (scrollIntoView) {
+        await context.cdpSession.send("DOM.scrollIntoViewIfNeeded", {
+          objectId,
+        });
+      }
+      const { quads } = await context.cdpSession.send("DOM.getContentQuads", {
+        objectId,
+      });
+      return quads;
+    } catch (error) {
+      logAndContinue(error, "getContentQuads");
+      return [];
+    } finally {
+      await context.cdpSession
+        .send("Runtime.releaseObject", { objectId })
+        .catch(() => {
+          /* Object already gone with its context */
+        });
+    }
+  }
+
+  /**
+   * Draw a labeled outline over every element of the latest snapshot.
+   * Takes a snapshot first if there is none, so labels always match refs
+   * the model can use.
+   *
+   * @returns Number of elements labeled (refs without a visible box are skipped)
+   */
+  private async drawRefMarks(context: RoleContext): Promise<number> {
+    if (!context.refIndex || context.refIndex.size === 0) {
+      await this.snapshot();
+    }
+
+    const marks: Array<{
+      ref: string;
+      x: number;
+      y: number;
+      width: number;
+      height: number;
+    }> = [];
+    for (const [ref, { frameId, localRef }] of context.refIndex ?? []) {
+      const box = await this.getElementBox(
+        context,
+        frameId,
+        localRef,
+        false
+      ).catch(() => null); // Stale ref - element is gone
+      if (box) marks.push({ ref, ...box });
+    }
+
+    await context.page.evaluate(
+      (id: string, items: typeof marks) => {
+        document.getElementById(id)?.remove();
+
+        // Absolute in document coordinates, so marks stay put for full-page captures
+        const root = document.createElement("div");
+        root.id = id;
+        root.style.cssText =
+          "all:initial;position:absolute;left:0;top:0;width:0;height:0;z-index:2147483647;pointer-events:none;";
+
+        for (const item of items) {
+          const left = item.x + window.scrollX;
+          const top = item.y + window.scrollY;
+
+          const outline = document.createElement("div");
+          outline.style.cssText = `all:initial;position:absolute;box-sizing:border-box;left:${left}px;top:${top}px;width:${item.width}px;height:${item.height}px;border:2px solid #e6194b;`;
+
+          const label = document.createElement("div");
+          label.textContent = item.ref;
+          label.style.cssText = `all:initial;position:absolute;left:${left}px;top:${Math.max(
+            top - 14,
+            0
+          )}px;padding:0 3px;background:#e6194b;color:#fff;font:bold 11px/14px monospace;white-space:nowrap;`;
+
+          root.append(outline, label);
+        }
+
+        document.documentElement.appendChild(root);
+      },
+      MARKS_OVERLAY_ID,
+      marks
+    );
+
+    return marks.length;
+  }
+
+  /**
+   * Loader ID of the main frame's current document (changes on every
+   * cross-document navigation, stays the same for history.pushState).
+   */
+  private async getMainFrameLoaderId(context: RoleContext): Promise<string> {
+    const { frameTree } = await context.cdpSession.send("Page.getFrameTree");
+    return frameTree.frame.loaderId;
+  }
+
+  /**
+   * Stand-in snapshot while a dialog blocks the page - the bridge cannot run
+   */
+  private blockedSnapshot(
+    context: RoleContext,
+    pending: NonNullable<TabState["pendingDialog"]>
+  ): Snapshot {
+    pending.reported = true;
+    const { info } = pending;
+    return {
+      text: `[Page blocked by ${info.type} dialog: "${info.message}" - answer it with browser_handle_dialog]`,
+      elementCount: 0,
+      tree: { role: "WebArea", name: "", children: [] },
+      pageContext: { url: info.url, title: "" },
+      warnings: this.buildWarningsFromFailureLog(context),
+    };
+  }
+
   /**
    * Build warnings for snapshot from FailureLog.
    * Returns undefined if no warnings.
    */
   private buildWarningsFromFailureLog(context: RoleContext) {
-    const failures = context.failures;
-    if (!failures) return undefined;
-
     const warnings: any = {};
     let hasWarnings = false;
 
+    // Check for a dialog blocking the active tab
+    const pending = this.getActiveTab(context).pendingDialog;
+    if (pending) {
+      warnings.dialog = pending.info;
+      warnings.details = [
+        `${pending.info.type} dialog open: "${pending.info.message}"`,
+      ];
+      hasWarnings = true;
+    }
+
+    const failures = context.failures;
+    if (!failures) return hasWarnings ? warnings : undefined;
+
     // Check for inaccessible frames (non-main frames that failed)
     const inaccessibleFrames = failures.frameInjectionFailures.filter(
       (f) => !f.isMainFrame
@@ -995,6 +2291,19 @@ export class MultiContextBrowser {
       hasWarnings = true;
     }
 
+    // Check for storage that could not be restored from the auth file
+    const failedOrigins =
+      failures.authOrigins?.filter((o) => o.status === "failed") ?? [];
+    if (failedOrigins.length > 0) {
+      warnings.details = warnings.details || [];
+      failedOrigins.forEach((o) => {
+        warnings.details.push(
+          `Auth storage not restored for ${o.origin}: ${o.error}`
+        );
+      });
+      hasWarnings = true;
+    }
+
     // Check for partial content (frame expansion failures)
     if (failures.frameExpansionFailures.length > 0) {
       warnings.partialContent = true;
@@ -1066,41 +2375,308 @@ export class MultiContextBrowser {
   }
 
   /**
-   * Click an interactive element.
-   *
-   * **Navigation Handling**:
-   * - Sets up navigation listener BEFORE clicking (prevents race)
-   * - Waits up to 1 second for navigation (fast feedback for non-nav clicks)
-   * - Uses networkidle2 for real-world app compatibility
-   *
-   * **Why 1 Second Timeout?**:
-   * - Most clicks don't navigate (buttons, accordions, modals)
-   * - 1s is long enough to detect navigation start
-   * - If navigation starts, we wait full networkidle2 duration
-   * - Balances responsiveness with reliability
-   *
-   * **Cross-Frame Support**:
-   * - Ref is parsed to determine target frame
-   * - Click is routed to correct iframe if needed
+   * Console messages, uncaught exceptions and browser log entries of the
+   * current role's tabs. Works while a dialog blocks the page.
    *
-   * @param ref - Global element reference (e.g. "e1" or "f2_e5")
+   * @param options - Minimum level, only messages since the previous call, limit
    */
-  async click(ref: string): Promise<void> {
+  async getConsoleMessages(
+    options: ConsoleOptions = {}
+  ): Promise<ConsoleResult> {
     const context = await this.ensureCurrentRoleContext();
+    return ConsoleCollector.query(context.consoleLog, options);
+  }
 
-    // Parse ref to get frame and local ref
-    const { frameId, localRef } = this.parseRef(ref, context);
+  /**
+   * Number of console errors of the current role not yet reported by a hint
+   * or browser_console. Never creates a role context.
+   */
+  async takeNewConsoleErrorCount(): Promise<number> {
+    const context = await this._roleContexts
+      .get(this.currentRole)
+      ?.catch(() => null);
+    return context ? ConsoleCollector.takeNewErrorCount(context.consoleLog) : 0;
+  }
 
-    // Set up navigation listener BEFORE clicking (prevents race condition)
-    // networkidle2: Waits for ≤2 network connections for 500ms (good for real-world apps)
-    // 1s timeout: Fast feedback for non-navigating clicks (most common case)
-    const navigationPromise = context.page
-      .waitForNavigation({
-        waitUntil: "networkidle2",
-        timeout: 1000,
-      })
+  /**
+   * Requests made by the current role's tabs, with responses, timing and
+   * (for text XHR/fetch/document responses) bodies up to the body limit.
+   *
+   * @param filter - URL pattern, status, resource type, since-last-call and limit
+   */
+  async getNetworkRequests(
+    filter: NetworkRequestFilter = {}
+  ): Promise<NetworkRequestsResult> {
+    const context = await this.ensureCurrentRoleContext();
+    return NetworkRecorder.query(context.networkLog, filter);
+  }
+
+  /**
+   * The current role's network log as a HAR 1.2 archive
+   *
+   * @param filter - Only export requests matching URL, status and resource type
+   * @param options - Whether to include response bodies
+   */
+  async exportHar(
+    filter: Pick<NetworkRequestFilter, "url" | "status" | "resourceType"> = {},
+    options: ExportHarOptions = {}
+  ): Promise<Har> {
+    const context = await this.ensureCurrentRoleContext();
+    const requests = NetworkRecorder.filter(
+      context.networkLog.requests,
+      filter
+    );
+    return HarExporter.toHar(requests, options);
+  }
+
+  /**
+   * Intercept the current role's requests matching a URL pattern: fulfill
+   * them with a mocked response, abort them or continue them with modified
+   * headers. Applies to every tab of the role, including ones opened later.
+   *
+   * @param options - URL pattern, method and what to do with the request
+   * @returns The new route
+   */
+  async route(options: RouteOptions): Promise<RouteInfo> {
+    const context = await this.ensureCurrentRoleContext();
+    const route = await RequestRouter.add(context.routes, options);
+    await this.syncRoutes(context);
+    console.log(
+      `🔀 Role '${context.role}' routes ${route.url} (${route.action})`
+    );
+    return route;
+  }
+
+  /**
+   * Remove routes of the current role by id or URL pattern, or all of them
+   *
+   * @returns The removed routes
+   */
+  async unroute(
+    target: { id?: string; url?: string } = {}
+  ): Promise<RouteInfo[]> {
+    const context = await this.ensureCurrentRoleContext();
+    const removed = RequestRouter.remove(context.routes, target);
+    await this.syncRoutes(context);
+    return removed;
+  }
+
+  /**
+   * Active routes of a role. Never creates a role context.
+   */
+  async getRoutes(role: string): Promise<RouteInfo[]> {
+    const context = await this._roleContexts.get(role)?.catch(() => null);
+    return context ? RequestRouter.list(context.routes) : [];
+  }
+
+  private async syncRoutes(context: RoleContext): Promise<void> {
+    await Promise.all(
+      context.tabs.map((tab) =>
+        RequestRouter.sync(tab.cdpSession, context.routes).catch((error) =>
+          logAndContinue(error, `syncRoutes(${tab.id})`)
+        )
+      )
+    );
+  }
+
+  /**
+   * Change the device and environment the current role emulates: a device
+   * preset or viewport, scale factor, mobile and touch, user agent, locale,
+   * time zone, geolocation and color scheme. Fields merge into the role's
+   * current emulation; reset starts again from its roles configuration.
+   * Applies to every tab of the role, including ones opened later.
+   *
+   * @returns The role's emulation with the device preset expanded
+   * @throws Error for an unknown device or invalid values, before anything changes
+   */
+  async emulate(
+    settings: EmulationSettings,
+    reset = false
+  ): Promise<EmulationSettings> {
+    DeviceEmulation.validate(settings);
+    const context = await this.ensureCurrentRoleContext();
+    const base = reset
+      ? DeviceEmulation.pick(this.rolesConfig?.roles[context.role] ?? {})
+      : context.emulation;
+    const emulation = { ...base, ...DeviceEmulation.pick(settings) };
+    if (settings.device) {
+      emulation.device = DeviceEmulation.findDevice(settings.device);
+    }
+
+    const defaultViewport = this.getDefaultViewport();
+    await Promise.all(
+      context.tabs.map((tab) =>
+        DeviceEmulation.apply(tab.page, emulation, defaultViewport)
+      )
+    );
+    context.emulation = emulation;
+    console.log(`📱 Role '${context.role}' emulation updated`);
+    return DeviceEmulation.resolve(emulation);
+  }
+
+  /**
+   * Current emulation of a role, device preset expanded. Never creates a
+   * role context; falls back to the roles configuration.
+   */
+  async getEmulation(role: string): Promise<EmulationSettings> {
+    const context = await this._roleContexts.get(role)?.catch(() => null);
+    return DeviceEmulation.resolve(
+      context?.emulation ?? this.rolesConfig?.roles[role] ?? {}
+    );
+  }
+
+  /**
+   * Click an interactive element.
+   *
+   * **Navigation Handling**:
+   * - Sets up navigation listener BEFORE clicking (prevents race)
+   * - Waits up to 1 second for navigation (fast feedback for non-nav clicks)
+   * - Uses networkidle2 for real-world app compatibility
+   *
+   * **Why 1 Second Timeout?**:
+   * - Most clicks don't navigate (buttons, accordions, modals)
+   * - 1s is long enough to detect navigation start
+   * - If navigation starts, we wait full networkidle2 duration
+   * - Balances responsiveness with reliability
+   *
+   * **Cross-Frame Support**:
+   * - Ref is parsed to determine target frame
+   * - Click is routed to correct iframe if needed
+   *
+   * **Input Mode**:
+   * - "trusted": scrolls the element into view and clicks its center via CDP
+   * - Falls back to the bridge's synthetic element.click() when the element
+   *   has no clickable box (hidden, zero-size) or in "synthetic" mode
+   *
+   * **New Tabs**:
+   * - Pages the click opened (target=_blank, window.open) are returned;
+   *   the active tab stays the same until switchTab()
+   *
+   * @param ref - Global element reference (e.g. "e1" or "f2_e5")
+   */
+  async click(ref: string): Promise<ClickResult> {
+    const context = await this.ensureUnblockedRoleContext();
+    const tabId = context.activeTabId;
+    const tabsBefore = new Set(context.tabs);
+
+    // Parse ref to get frame and local ref
+    const { frameId, localRef } = this.parseRef(ref, context);
+
+    // Resolve the locator first - the click may navigate away from the element
+    const locator = await this.getRecordingLocator(ref);
+
+    await this.withNavigationWait(context, async () => {
+      const point = await this.getClickablePoint(context, frameId, localRef);
+      if (point) {
+        await InputDriver.click(context.cdpSession, point);
+        return;
+      }
+
+      // Synthetic fallback (routes to correct frame!)
+      await context.bridgeInjector.callBridgeMethod(
+        context.cdpSession,
+        "click",
+        [localRef],
+        frameId
+      );
+    });
+
+    this.record({
+      type: "click",
+      role: this.currentRole,
+      tab: tabId,
+      ref,
+      locator,
+    });
+
+    const newTabs = await this.collectNewTabs(context, tabsBefore, tabId);
+    return {
+      newTabs: await Promise.all(
+        newTabs.map((tab) => this.describeTab(context, tab))
+      ),
+    };
+  }
+
+  /**
+   * Tabs opened since `tabsBefore`, recorded right after the action that
+   * opened them, so export_test can wait for the popup around that action
+   */
+  private async collectNewTabs(
+    context: RoleContext,
+    tabsBefore: Set<TabState>,
+    opener: string
+  ): Promise<TabState[]> {
+    // Popups open asynchronously - the navigation wait usually covers them
+    await Promise.all(context.pendingTabs);
+    const newTabs = context.tabs.filter((tab) => !tabsBefore.has(tab));
+    for (const tab of newTabs) {
+      this.record({
+        type: "openTab",
+        role: this.currentRole,
+        tab: tab.id,
+        opener,
+      });
+    }
+    return newTabs;
+  }
+
+  /**
+   * Compute where a trusted pointer event should land for an element.
+   *
+   * Resolves the element through the bridge (so stale/unknown refs throw as usual),
+   * scrolls it into view and returns the center of its first non-empty content quad.
+   * Quads are in main-frame viewport coordinates, so iframe offsets are included.
+   *
+   * @returns The point, or null when trusted input is disabled or the element
+   *          has no box (caller falls back to synthetic events)
+   */
+  private async getClickablePoint(
+    context: RoleContext,
+    frameId: string,
+    localRef: string
+  ): Promise<Point | null> {
+    if (this.getInputMode() !== "trusted") return null;
+
+    const quads = await this.getContentQuads(context, frameId, localRef, true);
+    for (const quad of quads) {
+      const xs = [quad[0], quad[2], quad[4], quad[6]];
+      const ys = [quad[1], quad[3], quad[5], quad[7]];
+      const width = Math.max(...xs) - Math.min(...xs);
+      const height = Math.max(...ys) - Math.min(...ys);
+      if (width >= 1 && height >= 1) {
+        return {
+          x: xs.reduce((a, b) => a + b, 0) / 4,
+          y: ys.reduce((a, b) => a + b, 0) / 4,
+        };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Run an interaction that may trigger a navigation, waiting for it if it does.
+   *
+   * Sets up the navigation listener BEFORE the action (prevents race) and waits
+   * up to 1 second for a navigation to start. See click() for the rationale.
+   *
+   * A dialog opened by the action blocks it until answered, so the wait ends
+   * early and resolves to undefined; the dialog is reported by the caller.
+   */
+  private async withNavigationWait<T>(
+    context: RoleContext,
+    action: () => Promise<T>
+  ): Promise<T | undefined> {
+    const tab = this.getActiveTab(context);
+    // Set up navigation listener BEFORE acting (prevents race condition)
+    // networkidle2: Waits for ≤2 network connections for 500ms (good for real-world apps)
+    // 1s timeout: Fast feedback for non-navigating actions (most common case)
+    const navigationPromise = context.page
+      .waitForNavigation({
+        waitUntil: "networkidle2",
+        timeout: 1000,
+      })
       .catch((error) => {
-        // Only suppress timeout errors (expected for non-navigating clicks)
+        // Only suppress timeout errors (expected for non-navigating actions)
         if (
           error.message?.includes("Timeout") ||
           error.message?.includes("timeout")
@@ -1112,90 +2688,948 @@ export class MultiContextBrowser {
       });
 
     try {
-      // Execute the click (routes to correct frame!)
+      const pending = action();
+      const outcome = await Promise.race([
+        pending.then((value) => ({ value })),
+        tab.dialogOpened.then(() => null),
+      ]);
+      if (!outcome) {
+        // The action finishes (or fails) once the dialog is answered
+        pending.catch((error) =>
+          logAndContinue(error, "dialog-blocked action")
+        );
+        await navigationPromise.catch(() => null);
+        return undefined;
+      }
+      const result = outcome.value;
+
+      // Wait for navigation to complete (if it happens)
+      // For cross-document navigation, this resolves when page is loaded
+      // For same-document navigation (SPA/Remix), this times out and returns null
+      await navigationPromise;
+
+      // No additional wait needed - networkidle2 already waits 500ms after network settles
+      // Bridge is automatically re-injected via CDP events for cross-document navigation
+      // Bridge context stays valid for same-document navigation (SPA/Remix)
+      return result;
+    } catch (error) {
+      // CRITICAL: Await navigationPromise even on error to prevent "Navigating frame was detached"
+      // If we don't wait for it, the promise keeps running during browser cleanup
+      await navigationPromise.catch(() => {
+        /* Ignore navigation errors when the action itself failed */
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the content of an input, textarea or contenteditable element.
+   *
+   * In "trusted" mode the element is focused with its content selected, then the
+   * text is committed with Input.insertText so frameworks see real input events.
+   * In "synthetic" mode the bridge assigns the value and dispatches input/change.
+   *
+   * @param ref - Global element reference (e.g. "e1" or "f2_e5")
+   * @param text - Text that replaces the current content
+   */
+  async type(ref: string, text: string): Promise<void> {
+    const context = await this.ensureUnblockedRoleContext();
+    const tabId = context.activeTabId;
+
+    // Parse ref to get frame and local ref
+    const { frameId, localRef } = this.parseRef(ref, context);
+
+    const locator = await this.getRecordingLocator(ref);
+
+    if (this.getInputMode() === "trusted") {
       await context.bridgeInjector.callBridgeMethod(
         context.cdpSession,
-        "click",
+        "focus",
+        [localRef, true],
+        frameId
+      );
+      if (text) {
+        await InputDriver.insertText(context.cdpSession, text);
+      } else {
+        // Nothing to insert - delete the selected content instead
+        await InputDriver.press(context.cdpSession, "Delete");
+      }
+    } else {
+      // Route to correct frame!
+      await context.bridgeInjector.callBridgeMethod(
+        context.cdpSession,
+        "type",
+        [localRef, text],
+        frameId
+      );
+    }
+
+    this.record({
+      type: "type",
+      role: this.currentRole,
+      tab: tabId,
+      ref,
+      locator,
+      text,
+    });
+  }
+
+  /**
+   * Move the pointer over an element (for menus and tooltips that open on hover).
+   *
+   * @param ref - Global element reference (e.g. "e1" or "f2_e5")
+   */
+  async hover(ref: string): Promise<void> {
+    const context = await this.ensureUnblockedRoleContext();
+    const tabId = context.activeTabId;
+
+    // Parse ref to get frame and local ref
+    const { frameId, localRef } = this.parseRef(ref, context);
+
+    const locator = await this.getRecordingLocator(ref);
+
+    // Trusted pointer move also triggers CSS :hover rules
+    const point = await this.getClickablePoint(context, frameId, localRef);
+    if (point) {
+      await InputDriver.moveTo(context.cdpSession, point);
+    } else {
+      // Synthetic fallback (routes to correct frame!)
+      await context.bridgeInjector.callBridgeMethod(
+        context.cdpSession,
+        "hover",
+        [localRef],
+        frameId
+      );
+    }
+
+    this.record({
+      type: "hover",
+      role: this.currentRole,
+      tab: tabId,
+      ref,
+      locator,
+    });
+  }
+
+  /**
+   * Select options in a native <select> element.
+   * Each value is matched against option values first, then option labels.
+   *
+   * @param ref - Global element reference of the <select>
+   * @param values - Option values or labels (several only for multi-selects)
+   * @returns Values of the options that are selected afterwards
+   */
+  async selectOption(ref: string, values: string[]): Promise<string[]> {
+    const context = await this.ensureUnblockedRoleContext();
+    const tabId = context.activeTabId;
+
+    // Parse ref to get frame and local ref
+    const { frameId, localRef } = this.parseRef(ref, context);
+
+    const locator = await this.getRecordingLocator(ref);
+
+    // Route to correct frame!
+    const selected = (await context.bridgeInjector.callBridgeMethod(
+      context.cdpSession,
+      "selectOption",
+      [localRef, values],
+      frameId
+    )) as string[];
+
+    this.record({
+      type: "selectOption",
+      role: this.currentRole,
+      tab: tabId,
+      ref,
+      locator,
+      values,
+    });
+
+    return selected;
+  }
+
+  /**
+   * Press a key or key combination ("Enter", "Control+A", "Shift+Tab").
+   * Waits for navigation like click(), since Enter commonly submits forms.
+   *
+   * @param key - Key name, optionally prefixed with modifiers joined by "+"
+   * @param ref - Element to focus before pressing; defaults to the focused element
+   */
+  async pressKey(key: string, ref?: string): Promise<void> {
+    const context = await this.ensureUnblockedRoleContext();
+    const tabId = context.activeTabId;
+    const tabsBefore = new Set(context.tabs);
+
+    // Without a ref, the key goes to whatever is focused in the main frame
+    const { frameId, localRef } = ref
+      ? this.parseRef(ref, context)
+      : { frameId: context.mainFrameId, localRef: null };
+
+    const locator = ref ? await this.getRecordingLocator(ref) : null;
+
+    await this.withNavigationWait(context, async () => {
+      if (this.getInputMode() === "trusted") {
+        if (localRef) {
+          await context.bridgeInjector.callBridgeMethod(
+            context.cdpSession,
+            "focus",
+            [localRef],
+            frameId
+          );
+        }
+        await InputDriver.press(context.cdpSession, key);
+        return;
+      }
+
+      await context.bridgeInjector.callBridgeMethod(
+        context.cdpSession,
+        "press",
+        [localRef, key],
+        frameId
+      );
+    });
+
+    this.record({
+      type: "pressKey",
+      role: this.currentRole,
+      tab: tabId,
+      ref,
+      locator,
+      key,
+    });
+
+    // Enter on a target=_blank link opens a tab like a click does
+    await this.collectNewTabs(context, tabsBefore, tabId);
+  }
+
+  /**
+   * Scroll the page by viewport heights, to its top or bottom, or until an
+   * element is in the middle of the viewport.
+   *
+   * Pages whose document does not scroll (fixed-height app shells) are
+   * scrolled through their largest scrollable container instead.
+   *
+   * @param options - One of ref, to, or direction/pages (default: one page down)
+   * @returns Scroll position of the main frame afterwards
+   */
+  async scroll(options: ScrollOptions = {}): Promise<ScrollPosition> {
+    const { ref, to, direction, pages } = options;
+    const targets = [ref, to, direction ?? pages].filter(
+      (target) => target !== undefined
+    );
+    if (targets.length > 1) {
+      throw new Error("Use only one of ref, to, or direction/pages to scroll");
+    }
+    if (pages !== undefined && !(pages > 0)) {
+      throw new Error(`pages must be a positive number, got ${pages}`);
+    }
+
+    const context = await this.ensureUnblockedRoleContext();
+
+    if (ref) {
+      const { frameId, localRef } = this.parseRef(ref, context);
+      await context.bridgeInjector.callBridgeMethod(
+        context.cdpSession,
+        "scrollIntoView",
         [localRef],
         frameId
       );
+    }
+
+    // Amount 0 only reports the position (after scrolling a ref into view)
+    const by = ref ? 0 : to ?? (direction === "up" ? -1 : 1) * (pages ?? 1);
+
+    return (await context.bridgeInjector.callBridgeMethod(
+      context.cdpSession,
+      "scroll",
+      [by],
+      context.mainFrameId
+    )) as ScrollPosition;
+  }
+
+  /**
+   * Wait until page conditions hold, then return a fresh snapshot.
+   *
+   * All given conditions must hold; they are awaited in order against one
+   * shared deadline. Every wait is event-driven:
+   * - text/textGone/ref: MutationObserver inside the bridge (re-armed after navigation)
+   * - url: Page.frameNavigated / Page.navigatedWithinDocument CDP events
+   * - networkIdle: Puppeteer's network idle tracking (500ms without requests)
+   *
+   * @param options - Conditions and timeout (default 10000ms)
+   * @returns Snapshot taken after all conditions are met
+   * @throws WaitTimeoutError naming the first condition that was not met
+   */
+  async waitFor(options: WaitForOptions): Promise<Snapshot> {
+    const context = await this.ensureUnblockedRoleContext();
+    const timeout = options.timeout ?? 10000;
+    const deadline = Date.now() + timeout;
+    const remaining = () => Math.max(deadline - Date.now(), 0);
+
+    if (options.url !== undefined) {
+      const met = await this.waitForUrl(context, options.url, remaining());
+      if (!met) {
+        throw new WaitTimeoutError(`URL matching "${options.url}"`, timeout);
+      }
+    }
+
+    const domConditions: Array<{
+      condition: BridgeWaitCondition;
+      frameId: string;
+      description: string;
+    }> = [];
+
+    if (options.text !== undefined) {
+      domConditions.push({
+        condition: { kind: "text", text: options.text, present: true },
+        frameId: context.mainFrameId,
+        description: `text "${options.text}" to appear`,
+      });
+    }
+
+    if (options.textGone !== undefined) {
+      domConditions.push({
+        condition: { kind: "text", text: options.textGone, present: false },
+        frameId: context.mainFrameId,
+        description: `text "${options.textGone}" to disappear`,
+      });
+    }
+
+    if (options.ref !== undefined) {
+      const state = options.state ?? "visible";
+      const { frameId, localRef } = this.parseRef(options.ref, context);
+      domConditions.push({
+        condition: { kind: "ref", ref: localRef, state },
+        frameId,
+        description: `element ${options.ref} to be ${state}`,
+      });
+    }
+
+    for (const { condition, frameId, description } of domConditions) {
+      const met = await this.waitForDomCondition(
+        context,
+        condition,
+        frameId,
+        remaining()
+      );
+      if (!met) {
+        throw new WaitTimeoutError(description, timeout);
+      }
+    }
+
+    if (options.networkIdle) {
+      try {
+        await context.page.waitForNetworkIdle({
+          idleTime: 500,
+          timeout: remaining(),
+        });
+      } catch (error) {
+        throw new WaitTimeoutError("network to be idle", timeout);
+      }
+    }
+
+    return await this.snapshot();
+  }
+
+  /**
+   * Wait for a DOM condition in a frame via the bridge's MutationObserver.
+   *
+   * A cross-document navigation destroys the bridge's context mid-wait. For text
+   * conditions the wait is re-armed in the new document; for element conditions
+   * the element is gone, which satisfies "hidden"/"detached" and fails otherwise.
+   */
+  private async waitForDomCondition(
+    context: RoleContext,
+    condition: BridgeWaitCondition,
+    frameId: string,
+    timeout: number
+  ): Promise<boolean> {
+    const deadline = Date.now() + timeout;
+
+    while (true) {
+      try {
+        return (await context.bridgeInjector.callBridgeMethod(
+          context.cdpSession,
+          "waitFor",
+          [condition, Math.max(deadline - Date.now(), 0)],
+          frameId
+        )) as boolean;
+      } catch (error) {
+        if (!this.isFrameDetachedError(error) || Date.now() >= deadline) {
+          throw error;
+        }
+        if (condition.kind === "ref") {
+          return condition.state === "detached" || condition.state === "hidden";
+        }
+        // Text condition: retry in the new document (bridge is re-injected on demand)
+      }
+    }
+  }
+
+  /**
+   * Wait for the main frame URL to match a pattern, driven by CDP navigation events.
+   */
+  private async waitForUrl(
+    context: RoleContext,
+    pattern: string,
+    timeout: number
+  ): Promise<boolean> {
+    if (UrlPattern.matches(context.page.url(), pattern)) {
+      return true;
+    }
+
+    const matched = new ManualPromise<boolean>();
+    const check = (url: string) => {
+      if (UrlPattern.matches(url, pattern)) matched.resolve(true);
+    };
+
+    // Cross-document navigation of the main frame
+    const onFrameNavigated = (evt: any) => {
+      if (!evt.frame.parentId)
+        check(evt.frame.url + (evt.frame.urlFragment ?? ""));
+    };
+    // Same-document navigation (history.pushState, hash changes)
+    const onSameDocument = (evt: any) => {
+      if (evt.frameId === context.mainFrameId) check(evt.url);
+    };
+
+    context.cdpSession.on("Page.frameNavigated", onFrameNavigated);
+    context.cdpSession.on("Page.navigatedWithinDocument", onSameDocument);
+    const timer = setTimeout(() => matched.resolve(false), timeout);
+
+    try {
+      return await matched;
+    } finally {
+      clearTimeout(timer);
+      context.cdpSession.off("Page.frameNavigated", onFrameNavigated);
+      context.cdpSession.off("Page.navigatedWithinDocument", onSameDocument);
+    }
+  }
+
+  async resolve_container(ref: string): Promise<any> {
+    const context = await this.ensureUnblockedRoleContext();
+
+    // Parse ref to get frame and local ref
+    const { frameId, localRef } = this.parseRef(ref, context);
+
+    // Route to correct frame!
+    return await context.bridgeInjector.callBridgeMethod(
+      context.cdpSession,
+      "resolve_container",
+      [localRef],
+      frameId
+    );
+  }
+
+  async inspect_pattern(ref: string, ancestorLevel: number): Promise<any> {
+    const context = await this.ensureUnblockedRoleContext();
+
+    // Parse ref to get frame and local ref
+    const { frameId, localRef } = this.parseRef(ref, context);
+
+    // Route to correct frame!
+    return await context.bridgeInjector.callBridgeMethod(
+      context.cdpSession,
+      "inspect_pattern",
+      [localRef, ancestorLevel],
+      frameId
+    );
+  }
+
+  async extract_anchors(ref: string, ancestorLevel: number): Promise<any> {
+    const context = await this.ensureUnblockedRoleContext();
+
+    // Parse ref to get frame and local ref
+    const { frameId, localRef } = this.parseRef(ref, context);
+
+    // Route to correct frame!
+    return await context.bridgeInjector.callBridgeMethod(
+      context.cdpSession,
+      "extract_anchors",
+      [localRef, ancestorLevel],
+      frameId
+    );
+  }
+  /**
+   * Generate ranked Playwright locators for an element.
+   *
+   * Candidates are generated and uniqueness-checked by the bridge in the
+   * element's own frame. For elements inside iframes, each candidate is
+   * prefixed with the best locator for the owning iframe element(s) and
+   * `.contentFrame()`, so the result can be used directly from `page`.
+   */
+  async generate_locator(ref: string): Promise<LocatorResult> {
+    const context = await this.ensureUnblockedRoleContext();
+
+    // Parse ref to get frame and local ref
+    const { frameId, localRef } = this.parseRef(ref, context);
+
+    const result = (await context.bridgeInjector.callBridgeMethod(
+      context.cdpSession,
+      "generate_locator",
+      [localRef],
+      frameId
+    )) as LocatorResult;
+
+    const framePrefix = await this.buildFrameLocatorPrefix(context, frameId);
+    if (framePrefix) {
+      for (const candidate of result.candidates) {
+        candidate.locator = candidate.locator.replace(/^page\./, framePrefix);
+      }
+    }
+
+    return { ...result, ref };
+  }
+
+  /**
+   * Evaluate a Playwright locator against the current page.
+   *
+   * The bridge parses and evaluates the locator in the main frame. Chains that
+   * continue with `.contentFrame()` are evaluated inside every iframe matched
+   * so far (using the frame tree from the latest snapshot) and merged.
+   * Refs in the result are global refs (e.g. "f1_e2").
+   */
+  async validate_locator(locator: string): Promise<LocatorValidationResult> {
+    const context = await this.ensureUnblockedRoleContext();
+    return await this.validateLocatorInFrame(
+      context,
+      locator,
+      context.mainFrameId
+    );
+  }
+
+  private async validateLocatorInFrame(
+    context: RoleContext,
+    locator: string,
+    frameId: string
+  ): Promise<LocatorValidationResult> {
+    const result = (await context.bridgeInjector.callBridgeMethod(
+      context.cdpSession,
+      "validate_locator",
+      [locator],
+      frameId
+    )) as LocatorValidationResult;
+
+    const toGlobal = (localRef: string) =>
+      this.findGlobalRef(context, frameId, localRef);
+
+    if (result.remainder === undefined) {
+      return {
+        ...result,
+        refs: result.refs.map(toGlobal).filter((ref): ref is string => !!ref),
+        matches: result.matches.map((match) => ({
+          ...match,
+          ref: match.ref ? toGlobal(match.ref) : undefined,
+        })),
+      };
+    }
+
+    // Continue inside each matched iframe
+    const frameResults: LocatorValidationResult[] = [];
+    for (const iframeRef of result.frameRefs ?? []) {
+      const childFrameId = [...(context.frameOwners?.entries() ?? [])].find(
+        ([, owner]) => owner.frameId === frameId && owner.localRef === iframeRef
+      )?.[0];
+      if (!childFrameId) continue;
+
+      frameResults.push(
+        await this.validateLocatorInFrame(
+          context,
+          result.remainder,
+          childFrameId
+        )
+      );
+    }
 
-      // Wait for navigation to complete (if it happens)
-      // For cross-document navigation, this resolves when page is loaded
-      // For same-document navigation (SPA/Remix), this times out and returns null
-      await navigationPromise;
+    const frameLocator = `${
+      result.steps[result.steps.length - 1].locator
+    }.contentFrame()`;
+    const childSteps = frameResults[0]?.steps ?? [];
+    const matchCount = frameResults.reduce((sum, r) => sum + r.matchCount, 0);
+
+    const merged: LocatorValidationResult = {
+      locator: result.locator,
+      matchCount,
+      refs: frameResults.flatMap((r) => r.refs),
+      matches: frameResults.flatMap((r) => r.matches).slice(0, 10),
+      steps: [
+        ...result.steps,
+        ...childSteps.map((step, index) => ({
+          locator: step.locator.replace(/^page\./, `${frameLocator}.`),
+          matchCount: frameResults.reduce(
+            (sum, r) => sum + (r.steps[index]?.matchCount ?? 0),
+            0
+          ),
+        })),
+      ],
+    };
 
-      // No additional wait needed - networkidle2 already waits 500ms after network settles
-      // Bridge is automatically re-injected via CDP events for cross-document navigation
-      // Bridge context stays valid for same-document navigation (SPA/Remix)
-    } catch (error) {
-      // CRITICAL: Await navigationPromise even on error to prevent "Navigating frame was detached"
-      // If we don't wait for it, the promise keeps running during browser cleanup
-      await navigationPromise.catch(() => {
-        /* Ignore navigation errors when click itself failed */
-      });
-      throw error;
+    if (matchCount > 1) {
+      const reasons = new Set(frameResults.flatMap((r) => r.ambiguity ?? []));
+      const framesWithMatches = frameResults.filter((r) => r.matchCount > 0);
+      if (framesWithMatches.length > 1) {
+        reasons.add(
+          `${framesWithMatches.length} iframes matched by ${frameLocator} contain matches. Make the iframe locator unique.`
+        );
+      }
+      merged.ambiguity = [...reasons];
     }
+
+    return merged;
   }
 
-  async type(ref: string, text: string): Promise<void> {
-    const context = await this.ensureCurrentRoleContext();
+  /**
+   * Map a frame-local ref back to its global ref via the snapshot's refIndex
+   */
+  private findGlobalRef(
+    context: RoleContext,
+    frameId: string,
+    localRef: string
+  ): string | undefined {
+    for (const [globalRef, entry] of context.refIndex ?? []) {
+      if (entry.frameId === frameId && entry.localRef === localRef) {
+        return globalRef;
+      }
+    }
+    return undefined;
+  }
 
-    // Parse ref to get frame and local ref
-    const { frameId, localRef } = this.parseRef(ref, context);
+  /**
+   * Build "page.<iframe locator>.contentFrame()." for a child frame,
+   * walking up through nested iframes. Returns null for the main frame.
+   */
+  private async buildFrameLocatorPrefix(
+    context: RoleContext,
+    frameId: string
+  ): Promise<string | null> {
+    const owner = context.frameOwners?.get(frameId);
+    if (!owner) return null;
 
-    // Route to correct frame!
-    await context.bridgeInjector.callBridgeMethod(
+    const iframeResult = (await context.bridgeInjector.callBridgeMethod(
       context.cdpSession,
-      "type",
-      [localRef, text],
-      frameId
+      "generate_locator",
+      [owner.localRef],
+      owner.frameId
+    )) as LocatorResult;
+
+    const iframeLocator =
+      iframeResult.candidates[0]?.locator ?? "page.locator('iframe')";
+    const parentPrefix = await this.buildFrameLocatorPrefix(
+      context,
+      owner.frameId
     );
+    const fullIframeLocator = parentPrefix
+      ? iframeLocator.replace(/^page\./, parentPrefix)
+      : iframeLocator;
+
+    return `${fullIframeLocator}.contentFrame().`;
   }
 
-  async resolve_container(ref: string): Promise<any> {
-    const context = await this.ensureCurrentRoleContext();
+  // Session recording API
 
-    // Parse ref to get frame and local ref
-    const { frameId, localRef } = this.parseRef(ref, context);
+  /**
+   * Start recording actions for export_test. Recording is off until then,
+   * since every recorded action runs generate_locator for its element.
+   * A fresh recording starts with a navigation to the current role's page,
+   * so the exported test opens where the session is.
+   *
+   * @param clear - Discard the actions recorded so far (default true)
+   */
+  async startRecording(options: { clear?: boolean } = {}): Promise<void> {
+    if (options.clear ?? true) this.clearRecording();
+    this.recording = true;
 
-    // Route to correct frame!
-    return await context.bridgeInjector.callBridgeMethod(
-      context.cdpSession,
-      "resolve_container",
-      [localRef],
-      frameId
-    );
+    const contextPromise = this._roleContexts.get(this.currentRole);
+    const context = contextPromise && (await contextPromise.catch(() => null));
+    const url = context?.page.url();
+    if (
+      context &&
+      url &&
+      url !== "about:blank" &&
+      !this.recordedActions.length
+    ) {
+      this.record({
+        type: "navigate",
+        role: this.currentRole,
+        tab: context.activeTabId,
+        url,
+      });
+    }
   }
 
-  async inspect_pattern(ref: string, ancestorLevel: number): Promise<any> {
-    const context = await this.ensureCurrentRoleContext();
+  /**
+   * Stop recording; the actions recorded so far stay available for export
+   */
+  stopRecording(): void {
+    this.recording = false;
+  }
 
-    // Parse ref to get frame and local ref
-    const { frameId, localRef } = this.parseRef(ref, context);
+  /**
+   * Whether actions are being recorded, how many were kept, and how many
+   * were dropped after the recording reached its limit
+   */
+  getRecordingState(): {
+    recording: boolean;
+    actions: number;
+    dropped: number;
+    limit: number;
+  } {
+    return {
+      recording: this.recording,
+      actions: this.recordedActions.length,
+      dropped: this.droppedActions,
+      limit: MAX_RECORDED_ACTIONS,
+    };
+  }
 
-    // Route to correct frame!
-    return await context.bridgeInjector.callBridgeMethod(
-      context.cdpSession,
-      "inspect_pattern",
-      [localRef, ancestorLevel],
-      frameId
+  /**
+   * Actions recorded since start_recording (up to MAX_RECORDED_ACTIONS).
+   * navigate, click, type, hover, selectOption, pressKey, selectRole and tab
+   * opens, switches and closes are recorded after they succeed, across all
+   * roles, in session order, each with the tab it ran in.
+   */
+  getRecordedActions(): RecordedAction[] {
+    return [...this.recordedActions];
+  }
+
+  /**
+   * Discard recorded actions (e.g. to start a new test from the current page)
+   */
+  clearRecording(): void {
+    this.recordedActions = [];
+    this.droppedActions = 0;
+  }
+
+  /**
+   * Export the recorded session as a Playwright test file.
+   * Roles with an authPath in the roles configuration get it as storageState.
+   *
+   * @param testName - Name of the generated test
+   * @returns Source of a `.spec.ts` file
+   */
+  exportTest(testName?: string): string {
+    const authPaths: Record<string, string> = {};
+    for (const [role, config] of Object.entries(
+      this.rolesConfig?.roles ?? {}
+    )) {
+      if (config.authPath) authPaths[role] = config.authPath;
+    }
+
+    return TestExporter.toPlaywrightTest(this.recordedActions, {
+      testName,
+      authPaths,
+    });
+  }
+
+  /**
+   * Keep an action for export_test while recording. A full recording keeps
+   * its beginning, which the exported test cannot do without.
+   */
+  private record(
+    action: RecordedAction,
+    at = this.recordedActions.length
+  ): void {
+    if (!this.recording) return;
+    if (this.recordedActions.length >= MAX_RECORDED_ACTIONS) {
+      this.droppedActions++;
+      return;
+    }
+    this.recordedActions.splice(
+      Math.min(at, this.recordedActions.length),
+      0,
+      action
     );
   }
 
-  async extract_anchors(ref: string, ancestorLevel: number): Promise<any> {
+  /**
+   * Record a dialog answer in front of the action that opened the dialog,
+   * so the exported test registers its handler before that action runs.
+   * Playwright dismisses dialogs nobody handles.
+   */
+  private recordDialog(
+    context: RoleContext,
+    info: DialogInfo,
+    at: number
+  ): void {
+    const accept = info.outcome === "accepted";
+    this.record(
+      {
+        type: "dialog",
+        role: context.role,
+        tab: info.tabId,
+        accept,
+        promptText:
+          accept && info.type === "prompt"
+            ? info.promptText ?? info.defaultValue
+            : undefined,
+      },
+      at
+    );
+  }
+
+  /**
+   * Best locator for a ref at the time of an action, for the recording.
+   * Only computed while recording. Never fails the action itself - returns
+   * null if no locator can be generated.
+   */
+  private async getRecordingLocator(ref: string): Promise<string | null> {
+    if (!this.recording) return null;
+    try {
+      const result = await this.generate_locator(ref);
+      return result.candidates[0]?.locator ?? null;
+    } catch (error) {
+      logAndContinue(error, `getRecordingLocator(${ref})`);
+      return null;
+    }
+  }
+
+  /**
+   * Capture the current role's cookies and web storage in Playwright's
+   * storageState format (the format `--role` auth files are read in).
+   *
+   * - Cookies come from `Storage.getCookies` for the role's browser context
+   * - localStorage and sessionStorage are read from the frames currently loaded
+   * - localStorage of other visited origins is read from a scratch page in the
+   *   same context whose requests are answered with an empty document, so
+   *   nothing is fetched from the server. sessionStorage only lives as long as
+   *   its tab, so it is only captured for loaded origins.
+   */
+  async getStorageState(): Promise<StorageState> {
     const context = await this.ensureCurrentRoleContext();
+    context.lastUsed = Date.now();
 
-    // Parse ref to get frame and local ref
-    const { frameId, localRef } = this.parseRef(ref, context);
+    const cookies = await this.getRoleCookies(context);
 
-    // Route to correct frame!
-    return await context.bridgeInjector.callBridgeMethod(
-      context.cdpSession,
-      "extract_anchors",
-      [localRef, ancestorLevel],
-      frameId
+    const origins = new Map<string, StorageStateOrigin>();
+    for (const frame of context.page.frames()) {
+      let origin: string;
+      try {
+        origin = new URL(frame.url()).origin;
+      } catch {
+        continue;
+      }
+      if (!/^https?:\/\//.test(origin) || origins.has(origin)) continue;
+
+      try {
+        const storage = await frame.evaluate(() => ({
+          localStorage: Object.entries(localStorage),
+          sessionStorage: Object.entries(sessionStorage),
+        }));
+        origins.set(origin, {
+          origin,
+          localStorage: storage.localStorage.map(([name, value]) => ({
+            name,
+            value,
+          })),
+          sessionStorage: storage.sessionStorage.map(([name, value]) => ({
+            name,
+            value,
+          })),
+        });
+      } catch (error) {
+        // Sandboxed or detached frames have no readable storage
+        logAndContinue(error, `getStorageState(${origin})`);
+      }
+    }
+
+    const unloaded = [...(context.visitedOrigins ?? [])].filter(
+      (origin) => !origins.has(origin)
     );
+    if (unloaded.length > 0) {
+      for (const entry of await this.readLocalStorage(context, unloaded)) {
+        origins.set(entry.origin, entry);
+      }
+    }
+
+    return {
+      cookies,
+      // Origins without any stored items would only add noise to the file
+      origins: [...origins.values()].filter(
+        (entry) =>
+          entry.localStorage.length > 0 ||
+          (entry.sessionStorage?.length ?? 0) > 0
+      ),
+    };
+  }
+
+  /**
+   * Cookies of the role's browser context, converted to storageState cookies
+   */
+  private async getRoleCookies(
+    context: RoleContext
+  ): Promise<StorageStateCookie[]> {
+    if (!this.browser) {
+      throw new Error("Browser not initialized - call initialize() first");
+    }
+
+    // Storage.getCookies is a browser-level command; the default context has no id
+    const session = await this.browser.target().createCDPSession();
+    try {
+      const { cookies } = await session.send("Storage.getCookies", {
+        browserContextId: context.browserContext.id,
+      });
+      return cookies.map((cookie) => ({
+        name: cookie.name,
+        value: cookie.value,
+        domain: cookie.domain,
+        path: cookie.path,
+        expires: cookie.session ? -1 : cookie.expires,
+        httpOnly: cookie.httpOnly,
+        secure: cookie.secure,
+        sameSite: cookie.sameSite ?? "Lax",
+      }));
+    } finally {
+      await session.detach().catch(logAndContinue);
+    }
+  }
+
+  /**
+   * localStorage of origins that are no longer loaded in the role's page
+   */
+  private async readLocalStorage(
+    context: RoleContext,
+    origins: string[]
+  ): Promise<StorageStateOrigin[]> {
+    return this.withScratchPage(context.browserContext, async (page) => {
+      const result: StorageStateOrigin[] = [];
+      for (const origin of origins) {
+        try {
+          await page.goto(origin);
+          const items = await page.evaluate(() => Object.entries(localStorage));
+          result.push({
+            origin,
+            localStorage: items.map(([name, value]) => ({ name, value })),
+          });
+        } catch (error) {
+          logAndContinue(error, `readLocalStorage(${origin})`);
+        }
+      }
+      return result;
+    });
+  }
+
+  /**
+   * Run `fn` with a hidden page in `browserContext` whose requests are all
+   * answered with an empty document. Navigating it to an origin gives access
+   * to that origin's localStorage without contacting the server or touching
+   * the role's page.
+   */
+  private async withScratchPage<T>(
+    browserContext: BrowserContext,
+    fn: (page: Page) => Promise<T>
+  ): Promise<T> {
+    const page = await browserContext.newPage();
+    try {
+      await page.setRequestInterception(true);
+      page.on("request", (request) => {
+        request
+          .respond({ status: 200, contentType: "text/html", body: "" })
+          .catch(logAndContinue);
+      });
+      return await fn(page);
+    } finally {
+      await page.close().catch(logAndContinue);
+    }
   }
 
   // Role management API (kept for compatibility)
@@ -1214,6 +3648,165 @@ export class MultiContextBrowser {
     return Array.from(this._roleContexts.keys());
   }
 
+  /**
+   * List the current role's open tabs in opening order
+   */
+  async listTabs(): Promise<TabInfo[]> {
+    const context = await this.ensureCurrentRoleContext();
+    await Promise.all(context.pendingTabs);
+    return Promise.all(
+      context.tabs.map((tab) => this.describeTab(context, tab))
+    );
+  }
+
+  /**
+   * Make another tab of the current role the active one and snapshot it.
+   * Refs and the diff baseline are kept per tab, so switching back restores them.
+   *
+   * @param id - Tab id from listTabs (t1, t2, ...)
+   */
+  async switchTab(id: string): Promise<Snapshot> {
+    const context = await this.ensureCurrentRoleContext();
+    const tab = await this.findTab(context, id);
+
+    this.activateTab(context, tab);
+    await tab.page.bringToFront();
+
+    const snapshot = await this.snapshot();
+    this.record({ type: "switchTab", role: this.currentRole, tab: tab.id });
+    return snapshot;
+  }
+
+  /**
+   * Close a tab of the current role (the active one by default). When the
+   * active tab closes, its opener becomes active. The last tab cannot be closed.
+   *
+   * @param id - Tab id from listTabs
+   * @returns The remaining tabs
+   */
+  async closeTab(id?: string): Promise<TabInfo[]> {
+    const context = await this.ensureCurrentRoleContext();
+    const tab = await this.findTab(context, id ?? context.activeTabId);
+    if (context.tabs.length === 1) {
+      throw new Error(
+        `Tab ${tab.id} is the role's last tab - use browser_close to close the browser`
+      );
+    }
+
+    await tab.bridgeInjector
+      .dispose(tab.cdpSession)
+      .catch((error: unknown) => logAndContinue(error, "closeTab"));
+    await tab.page.close();
+    // The close event normally did this already
+    this.removeTab(context, tab);
+    this.record({ type: "closeTab", role: this.currentRole, tab: tab.id });
+
+    return Promise.all(context.tabs.map((t) => this.describeTab(context, t)));
+  }
+
+  private async findTab(context: RoleContext, id: string): Promise<TabState> {
+    await Promise.all(context.pendingTabs);
+    const tab = context.tabs.find((t) => t.id === id);
+    if (!tab) {
+      throw new Error(
+        `Unknown tab '${id}' for role '${
+          context.role
+        }'. Open tabs: ${context.tabs.map((t) => t.id).join(", ")}`
+      );
+    }
+    return tab;
+  }
+
+  private async describeTab(
+    context: RoleContext,
+    tab: TabState
+  ): Promise<TabInfo> {
+    const info: TabInfo = {
+      id: tab.id,
+      url: tab.page.url(),
+      // Reading the title would wait for the dialog to be answered
+      title: tab.pendingDialog ? "" : await tab.page.title().catch(() => ""),
+      active: tab.id === context.activeTabId,
+    };
+    if (tab.openerId) info.openerId = tab.openerId;
+    return info;
+  }
+
+  /**
+   * Answer the dialog open in the current role, preferring the active tab.
+   * Waits for a navigation the answer triggers (e.g. a confirmed "Leave page?").
+   *
+   * @param accept - Accept (OK) or dismiss (Cancel) the dialog
+   * @param promptText - Text to enter in a prompt() dialog (defaults to its default value)
+   * @returns The dialog with its outcome
+   */
+  async handleDialog(
+    accept: boolean,
+    promptText?: string
+  ): Promise<DialogInfo> {
+    const context = await this.ensureCurrentRoleContext();
+    const active = this.getActiveTab(context);
+    const tab = active.pendingDialog
+      ? active
+      : context.tabs.find((t) => t.pendingDialog);
+    if (!tab?.pendingDialog) {
+      throw new Error(`No dialog is open in role '${context.role}'`);
+    }
+
+    const { info, dialog, recordAt } = tab.pendingDialog;
+    if (promptText !== undefined && info.type !== "prompt") {
+      throw new Error(
+        `promptText only applies to prompt dialogs, this is a ${info.type} dialog`
+      );
+    }
+
+    tab.pendingDialog = undefined;
+    tab.dialogOpened = new ManualPromise<void>();
+
+    const answer = () =>
+      accept
+        ? dialog.accept(promptText ?? info.defaultValue)
+        : dialog.dismiss();
+    if (tab === active) {
+      await this.withNavigationWait(context, answer);
+    } else {
+      await answer();
+    }
+
+    info.outcome = accept ? "accepted" : "dismissed";
+    if (accept && info.type === "prompt") {
+      info.promptText = promptText ?? info.defaultValue;
+    }
+    this.recordDialog(context, info, recordAt);
+    return info;
+  }
+
+  /**
+   * Dialogs of the current role the client has not heard about yet:
+   * newly opened ones still waiting for an answer, and ones the role's
+   * dialog policy answered automatically. Each is returned once.
+   * Never creates a role context.
+   */
+  async takeDialogNotices(): Promise<{
+    pending: DialogInfo[];
+    answered: DialogInfo[];
+  }> {
+    const context = await this._roleContexts
+      .get(this.currentRole)
+      ?.catch(() => null);
+    if (!context) return { pending: [], answered: [] };
+
+    const pending: DialogInfo[] = [];
+    for (const tab of context.tabs) {
+      if (tab.pendingDialog && !tab.pendingDialog.reported) {
+        tab.pendingDialog.reported = true;
+        pending.push(tab.pendingDialog.info);
+      }
+    }
+    const answered = context.answeredDialogs.splice(0);
+    return { pending, answered };
+  }
+
   /**
    * Switch to a different role
    */
@@ -1225,6 +3818,7 @@ export class MultiContextBrowser {
 
     // Remember old role for rollback
     const oldRole = this.currentRole;
+    let navigatedTo: string | null = null;
 
     try {
       // Switch role pointer
@@ -1251,9 +3845,20 @@ export class MultiContextBrowser {
 
           // Mark as navigated (injector handles bridge lifecycle)
           context.hasNavigated = true;
+          navigatedTo = context.defaultUrl;
         }
       }
 
+      this.record({ type: "selectRole", role });
+      if (navigatedTo) {
+        this.record({
+          type: "navigate",
+          role,
+          tab: context.activeTabId,
+          url: navigatedTo,
+        });
+      }
+
       console.log(`✅ Switched to role: ${role}`);
     } catch (error) {
       // CRITICAL: Rollback on failure
@@ -1266,6 +3871,25 @@ export class MultiContextBrowser {
     }
   }
 
+  /**
+   * Run `task` with `role` as the current role. Tasks run one at a time, so
+   * sessions sharing this browser each keep a current role of their own.
+   * Resolves to the task's result and the role it left current.
+   */
+  async withRole<T>(
+    role: string,
+    task: () => Promise<T>
+  ): Promise<{ result: T; role: string }> {
+    const run = async () => {
+      await this.selectRole(role);
+      const result = await task();
+      return { result, role: this.currentRole };
+    };
+    const turn = this.roleTurns.then(run, run);
+    this.roleTurns = turn.catch(() => undefined);
+    return turn;
+  }
+
   async close() {
     console.log("🧹 Starting browser cleanup...");
 
@@ -1287,11 +3911,20 @@ export class MultiContextBrowser {
       this._roleContexts.clear();
     }
 
-    // Close browser
+    // The recording belongs to this browser session
+    this.recording = false;
+    this.clearRecording();
+
+    // Close browser - a running browser Verdex connected to is only disconnected
     if (this.browser) {
       try {
-        await this.browser.close();
+        if (this.connected) {
+          await this.browser.disconnect();
+        } else {
+          await this.browser.close();
+        }
         this.browser = null;
+        this.connected = false;
       } catch (error) {
         console.error("Failed to close browser:", error);
       }
@@ -1309,6 +3942,17 @@ export class MultiContextBrowser {
       const failures = this.ensureFailureLog(context);
 
       // Track each cleanup step
+      for (const tab of context.tabs) {
+        try {
+          await this.stopSessionStorageRestore(tab.page);
+        } catch (error) {
+          failures.cleanupErrors.push({
+            step: `session-storage-restore(${tab.id})`,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+
       if (context.bridgeInjector) {
         try {
           await context.bridgeInjector.dispose(context.cdpSession);
@@ -1331,7 +3975,7 @@ export class MultiContextBrowser {
         }
       }
 
-      if (context.page && !context.page.isClosed()) {
+      if (context.page && !context.page.isClosed() && !context.adopted) {
         try {
           await context.page.close();
         } catch (error) {
@@ -1342,7 +3986,21 @@ export class MultiContextBrowser {
         }
       }
 
-      if (context.browserContext && role !== "default") {
+      // Tabs the role opened (the active one is handled above)
+      for (const tab of [...context.tabs]) {
+        if (tab.page.isClosed() || tab.page === context.page) continue;
+        try {
+          await tab.cdpSession.detach();
+          if (!context.adopted) await tab.page.close();
+        } catch (error) {
+          failures.cleanupErrors.push({
+            step: `tab-close(${tab.id})`,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+
+      if (context.browserContext && role !== "default" && !context.adopted) {
         try {
           await context.browserContext.close();
         } catch (error) {
@@ -0,0 +1,240 @@
+/**
+ * Records the requests of a role's pages from CDP Network events.
+ *
+ * Every request gets an entry when it is sent; the response, timing, size and
+ * failure are filled in as the events arrive. Text bodies of XHR/fetch and
+ * document responses are kept up to a size limit, so "what did the API
+ * return?" can be answered after the fact.
+ */
+import type { CDPSession } from "puppeteer";
+import type {
+  NetworkRequest,
+  NetworkRequestFilter,
+  NetworkRequestsResult,
+} from "../shared-types.js";
+import { UrlPattern } from "../utils/UrlPattern.js";
+import { logAndContinue } from "../utils/logging.js";
+import type { NetworkLog } from "./types.js";
+
+const MAX_REQUESTS = 1000;
+const DEFAULT_LIMIT = 50;
+
+// Only these responses are worth keeping a body for
+const BODY_RESOURCE_TYPES = ["XHR", "Fetch", "Document"];
+const TEXT_MIME_TYPE =
+  /json|text|xml|javascript|graphql|x-www-form-urlencoded/i;
+
+export class NetworkRecorder {
+  static createLog(): NetworkLog {
+    return { requests: [], nextId: 1, dropped: 0, readUpTo: 0 };
+  }
+
+  /**
+   * Start recording a tab's requests into the role's log.
+   * @param maxBodySize - Characters of each response body to keep (0 = no bodies)
+   */
+  static async attach(
+    cdp: CDPSession,
+    tab: { id: string; mainFrameId: string },
+    log: NetworkLog,
+    maxBodySize: number
+  ): Promise<void> {
+    // CDP request id -> entry of the latest hop (redirects reuse the id)
+    const inFlight = new Map<
+      string,
+      { entry: NetworkRequest; start: number }
+    >();
+
+    const finish = (requestId: string, timestamp: number) => {
+      const pending = inFlight.get(requestId);
+      if (!pending) return null;
+      inFlight.delete(requestId);
+      pending.entry.duration = Math.round((timestamp - pending.start) * 1000);
+      return pending.entry;
+    };
+
+    cdp.on("Network.requestWillBeSent", (event: any) => {
+      if (event.request.url.startsWith("data:")) return;
+
+      // The previous hop of a redirect ends with the redirect response
+      if (event.redirectResponse) {
+        const previous = inFlight.get(event.requestId);
+        if (previous) {
+          this.applyResponse(previous.entry, event.redirectResponse);
+          finish(event.requestId, event.timestamp);
+        }
+      }
+
+      const entry: NetworkRequest = {
+        id: log.nextId++,
+        tabId: tab.id,
+        url: event.request.url,
+        method: event.request.method,
+        resourceType: event.type ?? "Other",
+        requestHeaders: event.request.headers ?? {},
+        startedAt: Math.round(event.wallTime * 1000),
+      };
+      if (event.frameId && event.frameId !== tab.mainFrameId) {
+        entry.frameId = event.frameId;
+      }
+      if (event.request.postData !== undefined) {
+        entry.postData = event.request.postData;
+      }
+
+      inFlight.set(event.requestId, { entry, start: event.timestamp });
+      log.requests.push(entry);
+      if (log.requests.length > MAX_REQUESTS) {
+        log.requests.shift();
+        log.dropped++;
+      }
+    });
+
+    cdp.on("Network.responseReceived", (event: any) => {
+      const pending = inFlight.get(event.requestId);
+      if (pending) this.applyResponse(pending.entry, event.response);
+    });
+
+    cdp.on("Network.loadingFinished", (event: any) => {
+      const entry = finish(event.requestId, event.timestamp);
+      if (!entry) return;
+      entry.encodedDataLength = event.encodedDataLength;
+
+      if (
+        maxBodySize > 0 &&
+        BODY_RESOURCE_TYPES.includes(entry.resourceType) &&
+        TEXT_MIME_TYPE.test(entry.mimeType ?? "")
+      ) {
+        this.captureBody(cdp, event.requestId, entry, maxBodySize).catch(
+          (error) => logAndContinue(error, `captureBody(${entry.url})`)
+        );
+      }
+    });
+
+    cdp.on("Network.loadingFailed", (event: any) => {
+      const entry = finish(event.requestId, event.timestamp);
+      if (entry) entry.failure = event.errorText;
+    });
+
+    await cdp.send("Network.enable");
+  }
+
+  /**
+   * Requests matching the filters, most recent last
+   * @param filter - URL pattern, status, resource type, since-last-call and limit
+   */
+  static query(
+    log: NetworkLog,
+    filter: NetworkRequestFilter = {}
+  ): NetworkRequestsResult {
+    const { url, status, resourceType, sinceLast = false } = filter;
+    const limit = filter.limit ?? DEFAULT_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new Error(`limit must be a positive integer, got ${limit}`);
+    }
+
+    const matching = this.filter(log.requests, { url, status, resourceType });
+    const since = sinceLast ? log.readUpTo : 0;
+    const recent = matching.filter((request) => request.id > since);
+
+    log.readUpTo = log.nextId - 1;
+    return {
+      requests: recent.slice(-limit),
+      matched: recent.length,
+      dropped: log.dropped,
+    };
+  }
+
+  /**
+   * Requests matching URL, status and resource type filters
+   * @throws Error for an unknown status filter or an invalid URL regex
+   */
+  static filter(
+    requests: NetworkRequest[],
+    filter: Pick<NetworkRequestFilter, "url" | "status" | "resourceType">
+  ): NetworkRequest[] {
+    const { url, resourceType } = filter;
+    const matchesStatus = this.statusMatcher(filter.status);
+    // Validates a regex pattern once, before filtering
+    if (url) UrlPattern.toRegExp(url);
+
+    return requests.filter(
+      (request) =>
+        (!url || UrlPattern.matches(request.url, url)) &&
+        (!resourceType ||
+          request.resourceType.toLowerCase() === resourceType.toLowerCase()) &&
+        matchesStatus(request)
+    );
+  }
+
+  private static statusMatcher(
+    status: string | undefined
+  ): (request: NetworkRequest) => boolean {
+    if (status === undefined) return () => true;
+    if (status === "failed") return (request) => !!request.failure;
+    if (status === "errors") {
+      return (request) =>
+        !!request.failure ||
+        (request.status !== undefined && request.status >= 400);
+    }
+
+    const exact = status.match(/^[1-5]\d\d$/);
+    if (exact) return (request) => request.status === Number(status);
+
+    const range = status.match(/^([1-5])xx$/i);
+    if (range) {
+      const hundreds = Number(range[1]);
+      return (request) =>
+        request.status !== undefined &&
+        Math.floor(request.status / 100) === hundreds;
+    }
+
+    throw new Error(
+      `status must be a status code ("404"), a class ("4xx"), "errors" or "failed", got ${status}`
+    );
+  }
+
+  private static applyResponse(entry: NetworkRequest, response: any): void {
+    entry.status = response.status;
+    entry.statusText = response.statusText;
+    entry.mimeType = response.mimeType;
+    entry.responseHeaders = response.headers ?? {};
+    if (response.protocol) entry.httpVersion = response.protocol;
+    if (response.remoteIPAddress) {
+      entry.remoteAddress = response.remoteIPAddress;
+    }
+    if (response.fromDiskCache || response.fromPrefetchCache) {
+      entry.fromCache = true;
+    }
+    if (response.timing) {
+      // requestTime (the base of the offsets) is dropped
+      const offsets = response.timing;
+      entry.timing = {
+        dnsStart: offsets.dnsStart,
+        dnsEnd: offsets.dnsEnd,
+        connectStart: offsets.connectStart,
+        connectEnd: offsets.connectEnd,
+        sslStart: offsets.sslStart,
+        sslEnd: offsets.sslEnd,
+        sendStart: offsets.sendStart,
+        sendEnd: offsets.sendEnd,
+        receiveHeadersEnd: offsets.receiveHeadersEnd,
+      };
+    }
+  }
+
+  private static async captureBody(
+    cdp: CDPSession,
+    requestId: string,
+    entry: NetworkRequest,
+    maxBodySize: number
+  ): Promise<void> {
+    const { body, base64Encoded } = await cdp.send("Network.getResponseBody", {
+      requestId,
+    });
+    const text = base64Encoded
+      ? Buffer.from(body, "base64").toString("utf8")
+      : body;
+    entry.responseBody = text.slice(0, maxBodySize);
+    if (text.length > maxBodySize) entry.responseBodyTruncated = true;
+  }
+}
@@ -0,0 +1,280 @@
+/**
+ * Intercepts the requests of a role's pages with the CDP Fetch domain.
+ *
+ * While a role has routes, every request of its tabs is paused and matched
+ * against them, newest route first. A matching request is fulfilled with a
+ * mocked response, failed with a network error or continued with modified
+ * headers; the others continue untouched. Without routes the Fetch domain is
+ * disabled again, so requests are not paused for nothing.
+ */
+import { readFile } from "fs/promises";
+import { extname, resolve } from "path";
+import type { CDPSession } from "puppeteer";
+import type {
+  RouteErrorReason,
+  RouteInfo,
+  RouteOptions,
+} from "../shared-types.js";
+import { UrlPattern } from "../utils/UrlPattern.js";
+import { logAndContinue } from "../utils/logging.js";
+import type { RouteTable } from "./types.js";
+
+const ACTIONS = ["fulfill", "abort", "continue"];
+
+const ERROR_REASONS: RouteErrorReason[] = [
+  "Failed",
+  "Aborted",
+  "TimedOut",
+  "AccessDenied",
+  "ConnectionClosed",
+  "ConnectionReset",
+  "ConnectionRefused",
+  "ConnectionAborted",
+  "ConnectionFailed",
+  "NameNotResolved",
+  "InternetDisconnected",
+  "AddressUnreachable",
+  "BlockedByClient",
+  "BlockedByResponse",
+];
+
+// Content-Type of a body file without one in the route's headers
+const CONTENT_TYPES: Record<string, string> = {
+  ".json": "application/json",
+  ".html": "text/html; charset=utf-8",
+  ".htm": "text/html; charset=utf-8",
+  ".txt": "text/plain; charset=utf-8",
+  ".js": "text/javascript",
+  ".css": "text/css",
+  ".xml": "application/xml",
+  ".svg": "image/svg+xml",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+};
+
+export class RequestRouter {
+  static createTable(): RouteTable {
+    return { routes: [], nextId: 1 };
+  }
+
+  /**
+   * Handle a tab's paused requests with the role's routes. Interception
+   * starts right away if the role already has routes (tabs opened later).
+   */
+  static async attach(cdp: CDPSession, table: RouteTable): Promise<void> {
+    cdp.on("Fetch.requestPaused", (event: any) => {
+      this.handle(cdp, table, event).catch((error) =>
+        logAndContinue(error, `route(${event.request.url})`)
+      );
+    });
+    if (table.routes.length > 0) await this.sync(cdp, table);
+  }
+
+  /**
+   * Pause a tab's requests while the role has routes, stop when it has none
+   */
+  static async sync(cdp: CDPSession, table: RouteTable): Promise<void> {
+    if (table.routes.length === 0) {
+      await cdp.send("Fetch.disable");
+      return;
+    }
+    await cdp.send("Fetch.enable", {
+      patterns: [{ urlPattern: "*", requestStage: "Request" }],
+    });
+  }
+
+  /**
+   * Validate a route and add it to the table. A body file is read once, here.
+   * @returns The new route
+   * @throws Error for invalid options or an unreadable body file
+   */
+  static async add(
+    table: RouteTable,
+    options: RouteOptions
+  ): Promise<RouteInfo> {
+    const { url, method, action, status, headers, body, bodyPath } = options;
+    if (!url) {
+      throw new Error("url is required");
+    }
+    // Validates a regex pattern before any request is matched against it
+    UrlPattern.toRegExp(url);
+    if (!ACTIONS.includes(action)) {
+      throw new Error(
+        `action must be "fulfill", "abort" or "continue", got ${action}`
+      );
+    }
+
+    const info: RouteInfo = { id: `r${table.nextId}`, url, action, hits: 0 };
+    if (method) info.method = method.toUpperCase();
+    let responseBody: Buffer | undefined;
+
+    if (action === "fulfill") {
+      if (
+        status !== undefined &&
+        (!Number.isInteger(status) || status < 100 || status > 599)
+      ) {
+        throw new Error(`status must be an HTTP status code, got ${status}`);
+      }
+      if (body !== undefined && bodyPath) {
+        throw new Error("Give either body or bodyPath, not both");
+      }
+
+      let contentType: string;
+      if (bodyPath) {
+        info.bodyPath = resolve(bodyPath);
+        responseBody = await readFile(info.bodyPath).catch((error) => {
+          throw new Error(
+            `Cannot read body file ${info.bodyPath}: ${error.message}`
+          );
+        });
+        contentType =
+          CONTENT_TYPES[extname(bodyPath).toLowerCase()] ??
+          "application/octet-stream";
+      } else {
+        responseBody = Buffer.from(body ?? "");
+        contentType = this.isJson(body ?? "")
+          ? "application/json"
+          : "text/plain; charset=utf-8";
+      }
+
+      info.status = status ?? 200;
+      info.bodySize = responseBody.length;
+      info.headers = { ...headers };
+      if (this.findHeader(info.headers, "content-type") === undefined) {
+        info.headers["Content-Type"] = contentType;
+      }
+    } else if (action === "abort") {
+      const errorReason = options.errorReason ?? "Failed";
+      if (!ERROR_REASONS.includes(errorReason)) {
+        throw new Error(
+          `errorReason must be one of ${ERROR_REASONS.join(
+            ", "
+          )}, got ${errorReason}`
+        );
+      }
+      info.errorReason = errorReason;
+    } else if (headers) {
+      info.headers = { ...headers };
+    }
+
+    table.nextId++;
+    table.routes.push({ info, body: responseBody });
+    return info;
+  }
+
+  /**
+   * Remove routes by id or URL pattern (as given to browser_route), or all
+   * of them when neither is given
+   * @returns The removed routes
+   * @throws Error if the id or pattern matches no route
+   */
+  static remove(
+    table: RouteTable,
+    target: { id?: string; url?: string } = {}
+  ): RouteInfo[] {
+    const { id, url } = target;
+    const removed = table.routes.filter(
+      ({ info }) =>
+        (id === undefined || info.id === id) &&
+        (url === undefined || info.url === url)
+    );
+    if (removed.length === 0 && (id !== undefined || url !== undefined)) {
+      throw new Error(
+        `No route ${
+          id !== undefined ? id : `for "${url}"`
+        } - list_current_roles shows the active routes`
+      );
+    }
+
+    table.routes = table.routes.filter((route) => !removed.includes(route));
+    return removed.map((route) => route.info);
+  }
+
+  static list(table: RouteTable): RouteInfo[] {
+    return table.routes.map((route) => ({ ...route.info }));
+  }
+
+  private static async handle(
+    cdp: CDPSession,
+    table: RouteTable,
+    event: any
+  ): Promise<void> {
+    const { requestId, request } = event;
+    // Newest route first, so a later route overrides an earlier one
+    const route = [...table.routes]
+      .reverse()
+      .find(
+        ({ info }) =>
+          (!info.method || info.method === request.method) &&
+          UrlPattern.matches(request.url, info.url)
+      );
+
+    if (!route) {
+      await cdp.send("Fetch.continueRequest", { requestId });
+      return;
+    }
+
+    const { info } = route;
+    info.hits++;
+    if (info.action === "fulfill") {
+      await cdp.send("Fetch.fulfillRequest", {
+        requestId,
+        responseCode: info.status!,
+        responseHeaders: this.toHeaderEntries(info.headers ?? {}),
+        body: route.body!.toString("base64"),
+      });
+    } else if (info.action === "abort") {
+      await cdp.send("Fetch.failRequest", {
+        requestId,
+        errorReason: info.errorReason!,
+      });
+    } else if (info.headers) {
+      // Route headers replace request headers of the same name
+      const headers: Record<string, string> = { ...request.headers };
+      for (const [name, value] of Object.entries(info.headers)) {
+        const existing = this.findHeader(headers, name);
+        if (existing !== undefined) delete headers[existing];
+        headers[name] = value;
+      }
+      await cdp.send("Fetch.continueRequest", {
+        requestId,
+        headers: this.toHeaderEntries(headers),
+      });
+    } else {
+      await cdp.send("Fetch.continueRequest", { requestId });
+    }
+  }
+
+  /**
+   * Name of a header in `headers`, matched case-insensitively
+   */
+  private static findHeader(
+    headers: Record<string, string>,
+    name: string
+  ): string | undefined {
+    return Object.keys(headers).find(
+      (key) => key.toLowerCase() === name.toLowerCase()
+    );
+  }
+
+  private static toHeaderEntries(
+    headers: Record<string, string>
+  ): Array<{ name: string; value: string }> {
+    return Object.entries(headers).map(([name, value]) => ({
+      name,
+      value: String(value),
+    }));
+  }
+
+  private static isJson(text: string): boolean {
+    try {
+      JSON.parse(text);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -2,5 +2,5 @@
  * Auto-generated bridge bundle
  * DO NOT EDIT - Generated by build/bundle-bridge.ts
  */
-export const BRIDGE_BUNDLE = "// Verdex Bridge Bundle v0.1.6\n// Generated: 2025-11-30T22:09:38.045Z\n\"use strict\";(()=>{var w=Object.defineProperty;var L=(d,e,t)=>e in d?w(d,e,{enumerable:!0,configurable:!0,writable:!0,value:t}):d[e]=t;var g=(d,e,t)=>L(d,typeof e!=\"symbol\"?e+\"\":e,t);var f=class{static getRole(e){let t=this.getExplicitRole(e);if(t){if(t===\"none\"||t===\"presentation\"){let r=this.getImplicitRole(e);if(this.hasPresentationConflictResolution(e))return r||\"generic\"}return t}return this.getImplicitRole(e)||\"generic\"}static getExplicitRole(e){let t=e.getAttribute(\"role\");return t&&t.split(/\\s+/).map(n=>n.trim()).find(n=>this.VALID_ROLES.includes(n))||null}static getImplicitRole(e){switch(e.tagName.toUpperCase()){case\"A\":return e.hasAttribute(\"href\")?\"link\":null;case\"AREA\":return e.hasAttribute(\"href\")?\"link\":null;case\"ARTICLE\":return\"article\";case\"ASIDE\":return\"complementary\";case\"BLOCKQUOTE\":return\"blockquote\";case\"BUTTON\":return\"button\";case\"CAPTION\":return\"caption\";case\"CODE\":return\"code\";case\"DATALIST\":return\"listbox\";case\"DD\":return\"definition\";case\"DEL\":return\"deletion\";case\"DETAILS\":return\"group\";case\"DFN\":return\"term\";case\"DIALOG\":return\"dialog\";case\"DT\":return\"term\";case\"EM\":return\"emphasis\";case\"FIELDSET\":return\"group\";case\"FIGURE\":return\"figure\";case\"FOOTER\":return this.isInLandmarkContext(e)?null:\"contentinfo\";case\"FORM\":return this.hasAccessibleName(e)?\"form\":null;case\"H1\":case\"H2\":case\"H3\":case\"H4\":case\"H5\":case\"H6\":return\"heading\";case\"HEADER\":return this.isInLandmarkContext(e)?null:\"banner\";case\"HR\":return\"separator\";case\"HTML\":return\"document\";case\"IFRAME\":return\"iframe\";case\"IMG\":return e.getAttribute(\"alt\")===\"\"&&!e.getAttribute(\"title\")&&!this.hasGlobalAriaAttribute(e)?\"presentation\":\"img\";case\"INPUT\":return this.getInputRole(e);case\"INS\":return\"insertion\";case\"LI\":return\"listitem\";case\"MAIN\":return\"main\";case\"MARK\":return\"mark\";case\"MATH\":return\"math\";case\"MENU\":return\"list\";case\"METER\":return\"meter\";case\"NAV\":return\"navigation\";case\"OL\":return\"list\";case\"OPTGROUP\":return\"group\";case\"OPTION\":return\"option\";case\"OUTPUT\":return\"status\";case\"P\":return\"paragraph\";case\"PROGRESS\":return\"progressbar\";case\"SEARCH\":return\"search\";case\"SECTION\":return this.hasAccessibleName(e)?\"region\":null;case\"SELECT\":return e.multiple||e.size>1?\"listbox\":\"combobox\";case\"STRONG\":return\"strong\";case\"SUB\":return\"subscript\";case\"SUP\":return\"superscript\";case\"SVG\":return\"img\";case\"TABLE\":return\"table\";case\"TBODY\":return\"rowgroup\";case\"TD\":return this.isInGridContext(e)?\"gridcell\":\"cell\";case\"TEXTAREA\":return\"textbox\";case\"TFOOT\":return\"rowgroup\";case\"TH\":return e.getAttribute(\"scope\")===\"col\"?\"columnheader\":e.getAttribute(\"scope\")===\"row\"?\"rowheader\":this.isInGridContext(e)?\"gridcell\":\"cell\";case\"THEAD\":return\"rowgroup\";case\"TIME\":return\"time\";case\"TR\":return\"row\";case\"UL\":return\"list\";default:return null}}static getInputRole(e){switch(e.type.toLowerCase()){case\"search\":return e.hasAttribute(\"list\")?\"combobox\":\"searchbox\";case\"email\":case\"tel\":case\"text\":case\"url\":case\"\":return e.list?\"combobox\":\"textbox\";case\"hidden\":return\"none\";case\"file\":return\"button\";case\"button\":case\"image\":case\"reset\":case\"submit\":return\"button\";case\"checkbox\":return\"checkbox\";case\"radio\":return\"radio\";case\"range\":return\"slider\";case\"number\":return\"spinbutton\";default:return\"textbox\"}}static hasAccessibleName(e){return e.hasAttribute(\"aria-label\")||e.hasAttribute(\"aria-labelledby\")||e.hasAttribute(\"title\")}static hasGlobalAriaAttribute(e){return[\"aria-atomic\",\"aria-busy\",\"aria-controls\",\"aria-current\",\"aria-describedby\",\"aria-details\",\"aria-dropeffect\",\"aria-flowto\",\"aria-grabbed\",\"aria-hidden\",\"aria-keyshortcuts\",\"aria-label\",\"aria-labelledby\",\"aria-live\",\"aria-owns\",\"aria-relevant\",\"aria-roledescription\"].some(r=>e.hasAttribute(r))}static isInLandmarkContext(e){return!!e.closest(\"article, aside, main, nav, section, [role=article], [role=complementary], [role=main], [role=navigation], [role=region]\")}static isInGridContext(e){let t=e.closest(\"table\");if(!t)return!1;let r=this.getExplicitRole(t);return r===\"grid\"||r===\"treegrid\"}static hasPresentationConflictResolution(e){return this.hasGlobalAriaAttribute(e)||this.isFocusable(e)}static isFocusable(e){if(e.hasAttribute(\"tabindex\")){let r=parseInt(e.getAttribute(\"tabindex\")||\"0\",10);return!isNaN(r)}let t=e.tagName.toUpperCase();return[\"BUTTON\",\"DETAILS\",\"SELECT\",\"TEXTAREA\"].includes(t)?!e.disabled:t===\"A\"||t===\"AREA\"?e.hasAttribute(\"href\"):t===\"INPUT\"?!e.disabled&&e.type!==\"hidden\":!1}static getName(e){let t=this.getRole(e);if(this.NAMING_PROHIBITED_ROLES.includes(t))return\"\";let r=e.getAttribute(\"aria-labelledby\");if(r){let o=r.split(/\\s+/).map(a=>document.getElementById(a)).filter(a=>a!==null).map(a=>this.getTextContent(a)).filter(a=>a.length>0);if(o.length>0)return o.join(\" \").trim()}let n=e.getAttribute(\"aria-label\");if(n&&n.trim())return n.trim();let i=this.getNativeLabel(e);if(i)return i;if(this.NAME_FROM_CONTENT_ROLES.includes(t)){let o=this.getTextContent(e);if(o)return o}let s=e.getAttribute(\"title\");if(s&&s.trim())return s.trim();if(e.tagName===\"INPUT\"||e.tagName===\"TEXTAREA\"){let o=e.getAttribute(\"placeholder\");if(o&&o.trim())return o.trim()}return\"\"}static getNativeLabel(e){let t=e.tagName.toUpperCase();if([\"INPUT\",\"TEXTAREA\",\"SELECT\"].includes(t)){let r=e.id;if(r){let i=document.querySelector(`label[for=\"${r}\"]`);if(i)return this.getTextContent(i)}let n=e.closest(\"label\");if(n)return this.getTextContent(n)}if(t===\"IMG\"){let r=e.getAttribute(\"alt\");if(r!==null)return r}return\"\"}static getTextContent(e){if(e instanceof HTMLInputElement){if([\"submit\",\"reset\",\"button\"].includes(e.type))return e.value||e.type;if(e.type===\"image\")return e.alt||e.value||\"Submit\"}return e instanceof HTMLButtonElement,e.textContent?.trim()||\"\"}static getAriaProperties(e,t){let r={};if([\"checkbox\",\"radio\",\"menuitemcheckbox\",\"menuitemradio\",\"option\",\"switch\"].includes(t)){let l=e.getAttribute(\"aria-checked\");l===\"mixed\"?r.checked=\"mixed\":l===\"true\"?r.checked=!0:l===\"false\"?r.checked=!1:e instanceof HTMLInputElement&&(r.checked=e.checked)}if([\"button\",\"checkbox\",\"combobox\",\"gridcell\",\"link\",\"listbox\",\"menuitem\",\"menuitemcheckbox\",\"menuitemradio\",\"option\",\"radio\",\"searchbox\",\"slider\",\"spinbutton\",\"switch\",\"tab\",\"textbox\",\"treeitem\"].includes(t)&&(e.getAttribute(\"aria-disabled\")===\"true\"?r.disabled=!0:(e instanceof HTMLInputElement||e instanceof HTMLButtonElement||e instanceof HTMLSelectElement||e instanceof HTMLTextAreaElement)&&(r.disabled=e.disabled)),[\"button\",\"combobox\",\"gridcell\",\"link\",\"menuitem\",\"row\",\"rowheader\",\"tab\",\"treeitem\"].includes(t)){let l=e.getAttribute(\"aria-expanded\");l===\"true\"?r.expanded=!0:l===\"false\"&&(r.expanded=!1)}if([\"heading\",\"listitem\",\"row\",\"treeitem\"].includes(t)){let l=e.getAttribute(\"aria-level\");if(l){let m=parseInt(l,10);isNaN(m)||(r.level=m)}else t===\"heading\"&&/^H[1-6]$/.test(e.tagName)&&(r.level=parseInt(e.tagName[1],10))}if([\"button\"].includes(t)){let l=e.getAttribute(\"aria-pressed\");l===\"mixed\"?r.pressed=\"mixed\":l===\"true\"?r.pressed=!0:l===\"false\"&&(r.pressed=!1)}if([\"gridcell\",\"option\",\"row\",\"tab\",\"treeitem\"].includes(t)){let l=e.getAttribute(\"aria-selected\");l===\"true\"?r.selected=!0:l===\"false\"&&(r.selected=!1)}return r.active=document.activeElement===e,r}static isVisibleForAria(e){if(this.IGNORED_ELEMENTS.includes(e.tagName))return!1;let t=e;for(;t;){if(t.getAttribute(\"aria-hidden\")===\"true\")return!1;t=t.parentElement}return this.isElementVisible(e)}static isElementVisible(e){let t=e;for(;t;){let r=window.getComputedStyle(t);if(r.display===\"none\"||r.display===\"contents\"&&t.nodeName!==\"SLOT\"&&!Array.from(t.children).some(i=>this.isElementVisible(i))||r.visibility===\"hidden\"&&!(t.tagName===\"OPTION\"&&t.closest(\"select\")))return!1;t=t.parentElement}return!(e.parentElement?.shadowRoot&&!e.assignedSlot)}static isInteractive(e,t){let n=window.getComputedStyle(e).pointerEvents!==\"none\",i=this.isFocusable(e),s=this.INTERACTIVE_ROLES.includes(t),o=this.INTERACTIVE_ELEMENTS.includes(e.tagName);return n&&(i||s||o)}};g(f,\"VALID_ROLES\",[\"alert\",\"alertdialog\",\"application\",\"article\",\"banner\",\"blockquote\",\"button\",\"caption\",\"cell\",\"checkbox\",\"code\",\"columnheader\",\"combobox\",\"complementary\",\"contentinfo\",\"definition\",\"deletion\",\"dialog\",\"directory\",\"document\",\"emphasis\",\"feed\",\"figure\",\"form\",\"generic\",\"grid\",\"gridcell\",\"group\",\"heading\",\"img\",\"insertion\",\"link\",\"list\",\"listbox\",\"listitem\",\"log\",\"main\",\"mark\",\"marquee\",\"math\",\"meter\",\"menu\",\"menubar\",\"menuitem\",\"menuitemcheckbox\",\"menuitemradio\",\"navigation\",\"none\",\"note\",\"option\",\"paragraph\",\"presentation\",\"progressbar\",\"radio\",\"radiogroup\",\"region\",\"row\",\"rowgroup\",\"rowheader\",\"scrollbar\",\"search\",\"searchbox\",\"separator\",\"slider\",\"spinbutton\",\"status\",\"strong\",\"subscript\",\"superscript\",\"switch\",\"tab\",\"table\",\"tablist\",\"tabpanel\",\"term\",\"textbox\",\"time\",\"timer\",\"toolbar\",\"tooltip\",\"tree\",\"treegrid\",\"treeitem\"]),g(f,\"NAME_FROM_CONTENT_ROLES\",[\"button\",\"cell\",\"checkbox\",\"columnheader\",\"gridcell\",\"heading\",\"link\",\"menuitem\",\"menuitemcheckbox\",\"menuitemradio\",\"option\",\"radio\",\"row\",\"rowheader\",\"switch\",\"tab\",\"tooltip\",\"treeitem\"]),g(f,\"NAMING_PROHIBITED_ROLES\",[\"caption\",\"code\",\"definition\",\"deletion\",\"emphasis\",\"generic\",\"insertion\",\"mark\",\"paragraph\",\"presentation\",\"strong\",\"subscript\",\"superscript\",\"term\",\"time\"]),g(f,\"INTERACTIVE_ROLES\",[\"button\",\"link\",\"textbox\",\"checkbox\",\"radio\",\"combobox\",\"listbox\",\"menuitem\",\"menuitemcheckbox\",\"menuitemradio\",\"tab\",\"switch\",\"slider\",\"spinbutton\",\"searchbox\",\"option\"]),g(f,\"IGNORED_ELEMENTS\",[\"SCRIPT\",\"STYLE\",\"NOSCRIPT\",\"TEMPLATE\"]),g(f,\"INTERACTIVE_ELEMENTS\",[\"A\",\"BUTTON\",\"INPUT\",\"SELECT\",\"TEXTAREA\",\"DETAILS\",\"IFRAME\"]);var A=class{constructor(e,t={}){g(this,\"bridge\");g(this,\"config\");g(this,\"visited\",new Set);this.bridge=e,this.config=t}generate(){console.log(\"Starting snapshot...\");try{for(let[n,i]of this.bridge.elements.entries())i.element.isConnected||(delete i.element._verdexRef,this.bridge.elements.delete(n));this.visited.clear();let t={role:\"WebArea\",name:\"\",children:this.buildAriaTree(document.body,!0),element:document.body};this.normalizeGenericRoles(t);let r=[];return this.renderTree(t,r,\"\"),{text:r.join(`\n`),elementCount:this.bridge.elements.size}}catch(e){return console.error(\"Snapshot error:\",e),{text:`Error: ${e.message}`,elementCount:0}}}buildAriaTree(e,t){if(this.visited.has(e))return[];if(this.visited.add(e),e.nodeType===Node.TEXT_NODE&&e.nodeValue){if(!t)return[];let o=this.normalizeWhitespace(e.nodeValue);if(o&&o.length>0){let a=e.parentElement;if(a&&f.getRole(a)!==\"textbox\")return[o]}return[]}if(e.nodeType!==Node.ELEMENT_NODE)return[];let r=e,n=f.isVisibleForAria(r);if(!n)return this.buildChildrenTree(r,!1);let i=this.createAriaNode(r);if(!i)return this.buildChildrenTree(r,n);let s=this.getInputValue(r);if(s!==null&&s.length>0){i.children=[s];let o=this.buildAriaOwnedTree(r);i.children.push(...o)}else{let o=this.buildChildrenTree(r,n),a=this.buildAriaOwnedTree(r);i.children=[...o,...a]}return[i]}createAriaNode(e){let t=f.getRole(e);if(!t||t===\"presentation\"||t===\"none\")return null;let r=f.getName(e),n=f.getAriaProperties(e,t);if(t===\"generic\"){let s=window.getComputedStyle(e);if((s.display===\"inline\"||s.display===\"inline-block\")&&e.childNodes.length===1&&e.childNodes[0].nodeType===Node.TEXT_NODE)return null}let i={role:t,name:r,children:[],element:e,...n};if(this.extractElementProperties(e,i),f.isInteractive(e,t)){let s=e._verdexRef;s&&this.bridge.elements.has(s)||(s=`e${++this.bridge.counter}`,e._verdexRef=s),i.ref=s;let o={element:e,tagName:e.tagName,role:t,name:r,attributes:this.bridge.getAttributes(e)};this.bridge.elements.set(s,o)}return i}buildNodeLine(e,t){let r=`${t}- ${e.role}`;if(e.name&&(r+=` ${this.yamlEscapeValueIfNeeded(e.name)}`),e.checked===\"mixed\"?r+=\" [checked=mixed]\":e.checked===!0&&(r+=\" [checked]\"),e.disabled&&(r+=\" [disabled]\"),e.expanded&&(r+=\" [expanded]\"),e.active&&(r+=\" [active]\"),e.level&&(r+=` [level=${e.level}]`),e.pressed===\"mixed\"?r+=\" [pressed=mixed]\":e.pressed===!0&&(r+=\" [pressed]\"),e.selected&&(r+=\" [selected]\"),e.props&&Object.keys(e.props).length>0){let n=Object.entries(e.props).map(([i,s])=>`${i}=\"${s.replace(/\"/g,'\\\\\"')}\"`).join(\" \");r+=` [${n}]`}return e.ref&&(r+=` [ref=${e.ref}]`),r}extractElementProperties(e,t){let r={};if(t.role===\"link\"&&e.hasAttribute(\"href\")&&(r.url=e.getAttribute(\"href\")),t.role===\"textbox\"||t.role===\"searchbox\"){let n=e.getAttribute(\"placeholder\");n&&(r.placeholder=n)}if(e instanceof HTMLImageElement&&e.src&&(r.src=e.src),t.role===\"button\"){let n=e.getAttribute(\"type\");(n===\"submit\"||n===\"reset\")&&(r.type=n)}if(t.role===\"combobox\"){let n=e.getAttribute(\"autocomplete\");n&&(r.autocomplete=n)}Object.keys(r).length>0&&(t.props=r)}getInputValue(e){return!(e instanceof HTMLInputElement||e instanceof HTMLTextAreaElement)||e instanceof HTMLInputElement&&[\"checkbox\",\"radio\",\"file\",\"button\",\"submit\",\"reset\",\"image\",\"hidden\"].includes(e.type)?null:e.value}buildChildrenTree(e,t){let r=[];if(t){let n=this.getCSSContent(e,\"::before\");n&&r.push(n)}if(e.nodeName===\"SLOT\"){let i=e.assignedNodes();if(i.length>0){if(i.forEach(s=>{r.push(...this.buildAriaTree(s,t))}),t){let s=this.getCSSContent(e,\"::after\");s&&r.push(s)}return r}}if(Array.from(e.childNodes).forEach(n=>{n.assignedSlot||r.push(...this.buildAriaTree(n,t))}),e.shadowRoot&&Array.from(e.shadowRoot.childNodes).forEach(n=>{r.push(...this.buildAriaTree(n,t))}),t){let n=this.getCSSContent(e,\"::after\");n&&r.push(n)}return r}buildAriaOwnedTree(e){let t=e.getAttribute(\"aria-owns\");if(!t)return[];let r=t.split(/\\s+/).map(i=>document.getElementById(i)).filter(i=>i!==null),n=[];return r.forEach(i=>{n.push(...this.buildAriaTree(i,!0))}),n}normalizeGenericRoles(e){let t=[];for(let n of e.children||[]){if(typeof n==\"string\"){t.push(n);continue}let i=this.normalizeGenericRoles(n);t.push(...i)}return e.role===\"generic\"&&!e.name&&!e.ref&&t.length===1?t:(e.children=t,[e])}renderTree(e,t,r){if(typeof e==\"string\"){let i=this.yamlEscapeValueIfNeeded(e);t.push(`${r}- text: ${i}`);return}if(e.role===\"WebArea\"){for(let i of e.children)this.renderTree(i,t,r);return}let n=this.buildNodeLine(e,r);t.push(n);for(let i of e.children)this.renderTree(i,t,r+\"  \")}normalizeWhitespace(e){return e.replace(/[\\u200b\\u00ad]/g,\"\").replace(/[\\r\\n\\s\\t]+/g,\" \").trim()}getCSSContent(e,t){let n=window.getComputedStyle(e,t).content;if(!n||n===\"none\"||n===\"normal\")return\"\";let i=n.replace(/^[\"']|[\"']$/g,\"\");return i=i.replace(/\\\\([0-9a-fA-F]{1,6})\\s?/g,(s,o)=>String.fromCharCode(parseInt(o,16))),i}yamlEscapeKeyIfNeeded(e){return/[:\\[\\]{}#&*!|>'\"%@`]/.test(e)||e.startsWith(\"-\")?JSON.stringify(e):e}yamlEscapeValueIfNeeded(e){return e?/^(true|false|null|~)$/i.test(e)||/^[0-9]/.test(e)||/[:\\[\\]{}#&*!|>'\"%@`\\n\\r]/.test(e)?JSON.stringify(e):e:'\"\"'}};var p=class{static buildShallowOutline(e,t=6,r){let n=[],i=new Set,s=[\":scope > h1\",\":scope > h2\",\":scope > h3\",\":scope > h4\",\":scope > h5\",\":scope > h6\",\":scope > button\",\":scope > a\",\":scope > label\",\":scope > [data-testid]\",\":scope > span\",\":scope > strong\",\":scope > em\"].join(\",\"),o=Array.from(e.querySelectorAll(s)),a;if(r){let c=new Set(o);a=new Map,r.forEach(l=>{c.has(l.element)&&a.set(l.element,l)})}for(let c of o){if(n.length>=t)break;let l=c.getAttribute(\"role\")||void 0,m,h=a?.get(c);h&&(l=l||h.role||void 0,m=h.name||void 0);let N=l?.toLowerCase(),u=c.tagName?.toLowerCase(),T=(c.textContent||\"\").trim(),R=c.getAttribute(\"data-testid\")||void 0,S=c.getAttribute(\"aria-label\")||void 0,y=(T&&T.length<=200?T:void 0)||m||S;if(!y&&!R&&!N)continue;let C=`${N||u}|${y||\"\"}|${R||\"\"}`;i.has(C)||(i.add(C),n.push({role:l,tag:u,text:y,testid:R}))}return n}static getRelevantAttributes(e){let t={};return this.RELEVANT_ATTRIBUTES.forEach(r=>{let n=e.getAttribute(r);n&&(t[r]=n)}),t}static findContainedRefs(e,t){let r=[];return t.forEach((n,i)=>{e.contains(n.element)&&n.element!==e&&r.push(i)}),r}static extractMeaningfulTexts(e){let t=[],r=document.createTreeWalker(e,NodeFilter.SHOW_TEXT|NodeFilter.SHOW_ELEMENT,{acceptNode:s=>{if(s.nodeType===Node.TEXT_NODE){let o=s.textContent?.trim();if(o&&o.length>0)return NodeFilter.FILTER_ACCEPT}else if(s.nodeType===Node.ELEMENT_NODE){let o=s;if(this.SEMANTIC_ELEMENTS.includes(o.tagName))return NodeFilter.FILTER_ACCEPT}return NodeFilter.FILTER_SKIP}}),n;for(;n=r.nextNode();)if(n.nodeType===Node.TEXT_NODE){let s=n.textContent?.trim();s&&s.length>0&&t.push(s)}else if(n.nodeType===Node.ELEMENT_NODE){let s=n.textContent?.trim();s&&s.length>0&&t.push(s)}return[...new Set(t)].filter(s=>s.length>1&&s.trim().length>0)}static getAllAttributes(e){let t={};for(let r=0;r<e.attributes.length;r++){let n=e.attributes[r];t[n.name]=n.value}return t}static getSiblingIndex(e){return e.parentElement?Array.from(e.parentElement.children).indexOf(e):0}static findParentRef(e,t){let r=e.parentElement;for(;r;){for(let[n,i]of t.entries())if(i.element===r)return n;r=r.parentElement}return null}};g(p,\"RELEVANT_ATTRIBUTES\",[\"class\",\"id\",\"data-testid\",\"role\",\"aria-label\"]),g(p,\"SEMANTIC_ELEMENTS\",[\"H1\",\"H2\",\"H3\",\"H4\",\"H5\",\"H6\",\"BUTTON\",\"A\",\"LABEL\"]);var b=class{constructor(e,t={}){g(this,\"bridge\");g(this,\"config\");this.bridge=e,this.config=t}resolveContainer(e){let t=this.bridge.elements.get(e);if(!t)throw new Error(`Element ${e} not found in bridge elements map`);let r=[],n=t.element.parentElement,i=1;for(;n&&n!==document.body;){let s={level:i,tagName:n.tagName.toLowerCase(),attributes:p.getRelevantAttributes(n),childElements:n.children.length,containsRefs:p.findContainedRefs(n,this.bridge.elements)};r.push(s),n=n.parentElement,i++}return{target:{ref:e,tagName:t.tagName.toLowerCase(),text:t.element.textContent?.trim()||\"\"},ancestors:r}}inspectPattern(e,t){let r=this.bridge.elements.get(e);if(!r)throw new Error(`Element ${e} not found in bridge elements map`);let n=r.element;for(let c=0;c<t;c++){if(!n?.parentElement||n.parentElement===document.body)throw new Error(`Ancestor level ${t} is too high - reached document.body at level ${c+1}`);n=n.parentElement}if(!n)throw new Error(`Failed to find container at ancestor level ${t}`);let i=r.element;for(let c=0;c<Math.max(t-1,0)&&i?.parentElement;c++)i=i.parentElement;let s=i&&i instanceof Element&&i.parentElement===n?i:null,o=s&&n?Array.from(n.children).indexOf(s):null,a=Array.from(n.children).map((c,l)=>({index:l,tagName:c.tagName.toLowerCase(),attributes:p.getRelevantAttributes(c),containsRefs:p.findContainedRefs(c,this.bridge.elements),containsText:p.extractMeaningfulTexts(c),outline:p.buildShallowOutline(c,this.config.maxOutlineItems??6,this.bridge.elements)}));return{ancestorLevel:t,containerAt:{tagName:n.tagName.toLowerCase(),attributes:p.getRelevantAttributes(n)},targetSiblingIndex:o,siblings:a}}extractAnchors(e,t){let r=this.bridge.elements.get(e);if(!r)throw new Error(`Element ${e} not found in bridge elements map`);let n=r.element;for(let a=0;a<t;a++){if(!n.parentElement||n.parentElement===document.body)throw new Error(`Ancestor level ${t} is too high - reached document.body at level ${a+1}`);n=n.parentElement}let i=this.config.maxDepth??4,s=this.traverseDescendants(n,i,0,0),o=0;if(s&&s.length>0){let a=s.map(c=>c?.depth||1);o=Math.max(...a)}return{ancestorAt:{level:t,tagName:n.tagName.toLowerCase(),attributes:p.getRelevantAttributes(n)},descendants:s||[],totalDescendants:s?s.length:0,maxDepthReached:o}}traverseDescendants(e,t=4,r=0,n=0){let i=this.config.maxDescendants??100;if(r>=t||!e?.children||n>=i)return[];let s=[],o=this.config.maxSiblings??15;return Array.from(e.children).slice(0,o).forEach((a,c)=>{let l={depth:r+1,index:c,tagName:a.tagName.toLowerCase(),attributes:p.getRelevantAttributes(a)},m=Array.from(this.bridge.elements.entries()).find(([u,T])=>T.element===a)?.[0];if(m){l.ref=m;let u=this.bridge.elements.get(m);u&&(l.role=u.role,l.name=u.name)}let h=a?.childNodes?Array.from(a.childNodes).filter(u=>u.nodeType===Node.TEXT_NODE).map(u=>u.textContent?.trim()).filter(u=>u&&u.length>0).join(\" \"):\"\";if(h&&h.length>0&&h.length<200&&(l.directText=h),[\"H1\",\"H2\",\"H3\",\"H4\",\"H5\",\"H6\",\"P\",\"SPAN\",\"LABEL\",\"BUTTON\",\"A\"].includes(a.tagName)){let u=a.textContent?.trim();u&&u.length>0&&u.length<200&&u!==h&&(l.fullText=u)}if(a?.children&&a.children.length>0){l.childCount=a.children.length;let u=this.traverseDescendants(a,t,r+1,n+s.length);u&&u.length>0&&(l.descendants=u)}s.push(l)}),s}};var E=class extends Error{constructor(t,r){super(`Element ${t} (${r.role} \"${r.name}\") was removed from DOM. Take a new snapshot() to refresh refs.`);this.ref=t;this.elementInfo=r;this.name=\"StaleRefError\"}},x=class extends Error{constructor(t){super(`Unknown element reference: ${t}. Ref may be stale after navigation. Take a new snapshot to get fresh refs.`);this.ref=t;this.name=\"UnknownRefError\"}};var I=class{static create(e={}){let t=n=>{let i=r.elements.get(n);if(!i)throw new x(n);if(!i.element.isConnected)throw r.elements.delete(n),new E(n,{role:i.role,name:i.name,tagName:i.tagName});return i.element},r={elements:new Map,counter:0,snapshot(){return new A(this,e).generate()},click(n){t(n).click()},type(n,i){let o=t(n);o.focus(),o.value=i,o.dispatchEvent(new Event(\"input\",{bubbles:!0})),o.dispatchEvent(new Event(\"change\",{bubbles:!0}))},resolve_container(n){return t(n),new b(this,e).resolveContainer(n)},inspect_pattern(n,i){return t(n),new b(this,e).inspectPattern(n,i)},extract_anchors(n,i){return t(n),new b(this,e).extractAnchors(n,i)},getAttributes(n){return p.getAllAttributes(n)}};return r}};var v=\"0.1.6\";function O(d){return I.create(d)}function ee(){let d=globalThis.__VerdexBridgeFactory__;if(!d)throw new Error(\"Verdex bridge factory not initialized\");return d}(function(){let e=Object.freeze({create:O,version:v}),t=globalThis.__VerdexBridgeFactory__;(!t||t.version!==v)&&(t&&delete globalThis.__VerdexBridgeFactory__,Object.defineProperty(globalThis,\"__VerdexBridgeFactory__\",{value:e,writable:!1,enumerable:!1,configurable:!0}))})();})();\n";
+export const BRIDGE_BUNDLE = "// Verdex Bridge Bundle v0.1.6\n// Generated: 2026-10-19T10:30:19.607Z\n\"use strict\";(()=>{var _=Object.defineProperty;var D=(g,e,t)=>e in g?_(g,e,{enumerable:!0,configurable:!0,writable:!0,value:t}):g[e]=t;var u=(g,e,t)=>D(g,typeof e!=\"symbol\"?e+\"\":e,t);var d=class{static getRole(e){let t=this.getExplicitRole(e);if(t){if(t===\"none\"||t===\"presentation\"){let r=this.getImplicitRole(e);if(this.hasPresentationConflictResolution(e))return r||\"generic\"}return t}return this.getImplicitRole(e)||\"generic\"}static getExplicitRole(e){let t=e.getAttribute(\"role\");return t&&t.split(/\\s+/).map(n=>n.trim()).find(n=>this.VALID_ROLES.includes(n))||null}static getImplicitRole(e){switch(e.tagName.toUpperCase()){case\"A\":return e.hasAttribute(\"href\")?\"link\":null;case\"AREA\":return e.hasAttribute(\"href\")?\"link\":null;case\"ARTICLE\":return\"article\";case\"ASIDE\":return\"complementary\";case\"BLOCKQUOTE\":return\"blockquote\";case\"BUTTON\":return\"button\";case\"CAPTION\":return\"caption\";case\"CODE\":return\"code\";case\"DATALIST\":return\"listbox\";case\"DD\":return\"definition\";case\"DEL\":return\"deletion\";case\"DETAILS\":return\"group\";case\"DFN\":return\"term\";case\"DIALOG\":return\"dialog\";case\"DT\":return\"term\";case\"EM\":return\"emphasis\";case\"FIELDSET\":return\"group\";case\"FIGURE\":return\"figure\";case\"FOOTER\":return this.isInLandmarkContext(e)?null:\"contentinfo\";case\"FORM\":return this.hasAccessibleName(e)?\"form\":null;case\"H1\":case\"H2\":case\"H3\":case\"H4\":case\"H5\":case\"H6\":return\"heading\";case\"HEADER\":return this.isInLandmarkContext(e)?null:\"banner\";case\"HR\":return\"separator\";case\"HTML\":return\"document\";case\"IFRAME\":return\"iframe\";case\"IMG\":return e.getAttribute(\"alt\")===\"\"&&!e.getAttribute(\"title\")&&!this.hasGlobalAriaAttribute(e)?\"presentation\":\"img\";case\"INPUT\":return this.getInputRole(e);case\"INS\":return\"insertion\";case\"LI\":return\"listitem\";case\"MAIN\":return\"main\";case\"MARK\":return\"mark\";case\"MATH\":return\"math\";case\"MENU\":return\"list\";case\"METER\":return\"meter\";case\"NAV\":return\"navigation\";case\"OL\":return\"list\";case\"OPTGROUP\":return\"group\";case\"OPTION\":return\"option\";case\"OUTPUT\":return\"status\";case\"P\":return\"paragraph\";case\"PROGRESS\":return\"progressbar\";case\"SEARCH\":return\"search\";case\"SECTION\":return this.hasAccessibleName(e)?\"region\":null;case\"SELECT\":return e.multiple||e.size>1?\"listbox\":\"combobox\";case\"STRONG\":return\"strong\";case\"SUB\":return\"subscript\";case\"SUP\":return\"superscript\";case\"SVG\":return\"img\";case\"TABLE\":return\"table\";case\"TBODY\":return\"rowgroup\";case\"TD\":return this.isInGridContext(e)?\"gridcell\":\"cell\";case\"TEXTAREA\":return\"textbox\";case\"TFOOT\":return\"rowgroup\";case\"TH\":return e.getAttribute(\"scope\")===\"col\"?\"columnheader\":e.getAttribute(\"scope\")===\"row\"?\"rowheader\":this.isInGridContext(e)?\"gridcell\":\"cell\";case\"THEAD\":return\"rowgroup\";case\"TIME\":return\"time\";case\"TR\":return\"row\";case\"UL\":return\"list\";default:return null}}static getInputRole(e){switch(e.type.toLowerCase()){case\"search\":return e.hasAttribute(\"list\")?\"combobox\":\"searchbox\";case\"email\":case\"tel\":case\"text\":case\"url\":case\"\":return e.list?\"combobox\":\"textbox\";case\"hidden\":return\"none\";case\"file\":return\"button\";case\"button\":case\"image\":case\"reset\":case\"submit\":return\"button\";case\"checkbox\":return\"checkbox\";case\"radio\":return\"radio\";case\"range\":return\"slider\";case\"number\":return\"spinbutton\";default:return\"textbox\"}}static hasAccessibleName(e){return e.hasAttribute(\"aria-label\")||e.hasAttribute(\"aria-labelledby\")||e.hasAttribute(\"title\")}static hasGlobalAriaAttribute(e){return[\"aria-atomic\",\"aria-busy\",\"aria-controls\",\"aria-current\",\"aria-describedby\",\"aria-details\",\"aria-dropeffect\",\"aria-flowto\",\"aria-grabbed\",\"aria-hidden\",\"aria-keyshortcuts\",\"aria-label\",\"aria-labelledby\",\"aria-live\",\"aria-owns\",\"aria-relevant\",\"aria-roledescription\"].some(r=>e.hasAttribute(r))}static isInLandmarkContext(e){return!!e.closest(\"article, aside, main, nav, section, [role=article], [role=complementary], [role=main], [role=navigation], [role=region]\")}static isInGridContext(e){let t=e.closest(\"table\");if(!t)return!1;let r=this.getExplicitRole(t);return r===\"grid\"||r===\"treegrid\"}static hasPresentationConflictResolution(e){return this.hasGlobalAriaAttribute(e)||this.isFocusable(e)}static isFocusable(e){if(e.hasAttribute(\"tabindex\")){let r=parseInt(e.getAttribute(\"tabindex\")||\"0\",10);return!isNaN(r)}let t=e.tagName.toUpperCase();return[\"BUTTON\",\"DETAILS\",\"SELECT\",\"TEXTAREA\"].includes(t)?!e.disabled:t===\"A\"||t===\"AREA\"?e.hasAttribute(\"href\"):t===\"INPUT\"?!e.disabled&&e.type!==\"hidden\":!1}static getName(e){let t=this.getRole(e);if(this.NAMING_PROHIBITED_ROLES.includes(t))return\"\";let r=e.getAttribute(\"aria-labelledby\");if(r){let a=r.split(/\\s+/).map(o=>document.getElementById(o)).filter(o=>o!==null).map(o=>this.getTextContent(o)).filter(o=>o.length>0);if(a.length>0)return a.join(\" \").trim()}let n=e.getAttribute(\"aria-label\");if(n&&n.trim())return n.trim();let i=this.getNativeLabel(e);if(i)return i;if(this.NAME_FROM_CONTENT_ROLES.includes(t)){let a=this.getTextContent(e);if(a)return a}let s=e.getAttribute(\"title\");if(s&&s.trim())return s.trim();if(e.tagName===\"INPUT\"||e.tagName===\"TEXTAREA\"){let a=e.getAttribute(\"placeholder\");if(a&&a.trim())return a.trim()}return\"\"}static getNativeLabel(e){let t=e.tagName.toUpperCase();if([\"INPUT\",\"TEXTAREA\",\"SELECT\"].includes(t)){let r=e.id;if(r){let i=document.querySelector(`label[for=\"${r}\"]`);if(i)return this.getTextContent(i)}let n=e.closest(\"label\");if(n)return this.getTextContent(n)}if(t===\"IMG\"){let r=e.getAttribute(\"alt\");if(r!==null)return r}return\"\"}static getTextContent(e){if(e instanceof HTMLInputElement){if([\"submit\",\"reset\",\"button\"].includes(e.type))return e.value||e.type;if(e.type===\"image\")return e.alt||e.value||\"Submit\"}return e instanceof HTMLButtonElement,e.textContent?.trim()||\"\"}static getAriaProperties(e,t){let r={};if([\"checkbox\",\"radio\",\"menuitemcheckbox\",\"menuitemradio\",\"option\",\"switch\"].includes(t)){let l=e.getAttribute(\"aria-checked\");l===\"mixed\"?r.checked=\"mixed\":l===\"true\"?r.checked=!0:l===\"false\"?r.checked=!1:e instanceof HTMLInputElement&&(r.checked=e.checked)}if([\"button\",\"checkbox\",\"combobox\",\"gridcell\",\"link\",\"listbox\",\"menuitem\",\"menuitemcheckbox\",\"menuitemradio\",\"option\",\"radio\",\"searchbox\",\"slider\",\"spinbutton\",\"switch\",\"tab\",\"textbox\",\"treeitem\"].includes(t)&&(e.getAttribute(\"aria-disabled\")===\"true\"?r.disabled=!0:(e instanceof HTMLInputElement||e instanceof HTMLButtonElement||e instanceof HTMLSelectElement||e instanceof HTMLTextAreaElement)&&(r.disabled=e.disabled)),[\"button\",\"combobox\",\"gridcell\",\"link\",\"menuitem\",\"row\",\"rowheader\",\"tab\",\"treeitem\"].includes(t)){let l=e.getAttribute(\"aria-expanded\");l===\"true\"?r.expanded=!0:l===\"false\"&&(r.expanded=!1)}if([\"heading\",\"listitem\",\"row\",\"treeitem\"].includes(t)){let l=e.getAttribute(\"aria-level\");if(l){let h=parseInt(l,10);isNaN(h)||(r.level=h)}else t===\"heading\"&&/^H[1-6]$/.test(e.tagName)&&(r.level=parseInt(e.tagName[1],10))}if([\"button\"].includes(t)){let l=e.getAttribute(\"aria-pressed\");l===\"mixed\"?r.pressed=\"mixed\":l===\"true\"?r.pressed=!0:l===\"false\"&&(r.pressed=!1)}if([\"gridcell\",\"option\",\"row\",\"tab\",\"treeitem\"].includes(t)){let l=e.getAttribute(\"aria-selected\");l===\"true\"?r.selected=!0:l===\"false\"&&(r.selected=!1)}return r.active=document.activeElement===e,r}static isVisibleForAria(e){if(this.IGNORED_ELEMENTS.includes(e.tagName))return!1;let t=e;for(;t;){if(t.getAttribute(\"aria-hidden\")===\"true\")return!1;t=t.parentElement}return this.isElementVisible(e)}static isElementVisible(e){let t=e;for(;t;){let r=window.getComputedStyle(t);if(r.display===\"none\"||r.display===\"contents\"&&t.nodeName!==\"SLOT\"&&!Array.from(t.children).some(i=>this.isElementVisible(i))||r.visibility===\"hidden\"&&!(t.tagName===\"OPTION\"&&t.closest(\"select\")))return!1;t=t.parentElement}return!(e.parentElement?.shadowRoot&&!e.assignedSlot)}static isInteractive(e,t){let n=window.getComputedStyle(e).pointerEvents!==\"none\",i=this.isFocusable(e),s=this.INTERACTIVE_ROLES.includes(t),a=this.INTERACTIVE_ELEMENTS.includes(e.tagName);return n&&(i||s||a)}};u(d,\"VALID_ROLES\",[\"alert\",\"alertdialog\",\"application\",\"article\",\"banner\",\"blockquote\",\"button\",\"caption\",\"cell\",\"checkbox\",\"code\",\"columnheader\",\"combobox\",\"complementary\",\"contentinfo\",\"definition\",\"deletion\",\"dialog\",\"directory\",\"document\",\"emphasis\",\"feed\",\"figure\",\"form\",\"generic\",\"grid\",\"gridcell\",\"group\",\"heading\",\"img\",\"insertion\",\"link\",\"list\",\"listbox\",\"listitem\",\"log\",\"main\",\"mark\",\"marquee\",\"math\",\"meter\",\"menu\",\"menubar\",\"menuitem\",\"menuitemcheckbox\",\"menuitemradio\",\"navigation\",\"none\",\"note\",\"option\",\"paragraph\",\"presentation\",\"progressbar\",\"radio\",\"radiogroup\",\"region\",\"row\",\"rowgroup\",\"rowheader\",\"scrollbar\",\"search\",\"searchbox\",\"separator\",\"slider\",\"spinbutton\",\"status\",\"strong\",\"subscript\",\"superscript\",\"switch\",\"tab\",\"table\",\"tablist\",\"tabpanel\",\"term\",\"textbox\",\"time\",\"timer\",\"toolbar\",\"tooltip\",\"tree\",\"treegrid\",\"treeitem\"]),u(d,\"NAME_FROM_CONTENT_ROLES\",[\"button\",\"cell\",\"checkbox\",\"columnheader\",\"gridcell\",\"heading\",\"link\",\"menuitem\",\"menuitemcheckbox\",\"menuitemradio\",\"option\",\"radio\",\"row\",\"rowheader\",\"switch\",\"tab\",\"tooltip\",\"treeitem\"]),u(d,\"NAMING_PROHIBITED_ROLES\",[\"caption\",\"code\",\"definition\",\"deletion\",\"emphasis\",\"generic\",\"insertion\",\"mark\",\"paragraph\",\"presentation\",\"strong\",\"subscript\",\"superscript\",\"term\",\"time\"]),u(d,\"INTERACTIVE_ROLES\",[\"button\",\"link\",\"textbox\",\"checkbox\",\"radio\",\"combobox\",\"listbox\",\"menuitem\",\"menuitemcheckbox\",\"menuitemradio\",\"tab\",\"switch\",\"slider\",\"spinbutton\",\"searchbox\",\"option\"]),u(d,\"IGNORED_ELEMENTS\",[\"SCRIPT\",\"STYLE\",\"NOSCRIPT\",\"TEMPLATE\"]),u(d,\"INTERACTIVE_ELEMENTS\",[\"A\",\"BUTTON\",\"INPUT\",\"SELECT\",\"TEXTAREA\",\"DETAILS\",\"IFRAME\"]);var H={unavailable:()=>\"[Frame content unavailable]\",detached:()=>\"[Frame detached]\",error:g=>`[Error: ${g}]`},w=class{static render(e){return this.renderLines(e).join(`\n`)}static renderLines(e,t){let r=[];return this.renderNode(e,r,\"\",t),r}static renderLine(e){let t=e.role;e.name&&(t+=` ${this.escapeValue(e.name)}`);let r=e.states??{};if(r.checked===\"mixed\"?t+=\" [checked=mixed]\":r.checked===!0&&(t+=\" [checked]\"),r.disabled&&(t+=\" [disabled]\"),r.expanded&&(t+=\" [expanded]\"),r.active&&(t+=\" [active]\"),r.level&&(t+=` [level=${r.level}]`),r.pressed===\"mixed\"?t+=\" [pressed=mixed]\":r.pressed===!0&&(t+=\" [pressed]\"),r.selected&&(t+=\" [selected]\"),e.props&&Object.keys(e.props).length>0){let n=Object.entries(e.props).map(([i,s])=>`${i}=\"${s.replace(/\"/g,'\\\\\"')}\"`).join(\" \");t+=` [${n}]`}return e.ref&&(t+=` [ref=${e.ref}]`),t}static escapeValue(e){return e?/^(true|false|null|~)$/i.test(e)||/^[0-9]/.test(e)||/[:\\[\\]{}#&*!|>'\"%@`\\n\\r]/.test(e)?JSON.stringify(e):e:'\"\"'}static renderNode(e,t,r,n){if(typeof e==\"string\"){t.push(`${r}- text: ${this.escapeValue(e)}`);return}if(e.role===\"WebArea\"){this.renderChildren(e,t,r,n);return}let i=t.length;if(e.collapsed){t.push(`${r}- ${this.renderLine(e)} (${e.collapsed.summary}) [collapsed=${e.collapsed.id}]`),n?.set(e,[i,t.length]);return}t.push(`${r}- ${this.renderLine(e)}${e.frame?\":\":\"\"}`),e.frame&&e.frame.status!==\"expanded\"&&t.push(`${r}  ${H[e.frame.status](e.frame.error)}`),this.renderChildren(e,t,r+\"  \",n),e.truncated&&t.push(`${r}  - ... (${e.truncated} more)`),n?.set(e,[i,t.length])}static renderChildren(e,t,r,n){e.offscreen?.above.regions&&t.push(`${r}- [offscreen] ${this.describeOffscreen(e.offscreen.above,\"above\")}`);for(let i of e.children)this.renderNode(i,t,r,n);e.offscreen?.below.regions&&t.push(`${r}- [offscreen] ${this.describeOffscreen(e.offscreen.below,\"below\")}`)}static describeOffscreen(e,t){let r=`${e.regions} ${e.regions===1?\"region\":\"regions\"} ${t}`;return e.interactive===0?r:`${r} (${e.interactive} interactive ${e.interactive===1?\"element\":\"elements\"})`}};var R=class g{constructor(e,t={}){u(this,\"bridge\");u(this,\"config\");u(this,\"visited\",new Set);u(this,\"viewportMargin\",null);u(this,\"offscreen\",g.emptyOffscreen());this.bridge=e,this.config=t}generate(e,t){console.log(\"Starting snapshot...\");try{for(let[s,a]of this.bridge.elements.entries())a.element.isConnected||(delete a.element._verdexRef,this.bridge.elements.delete(s));this.visited.clear(),this.viewportMargin=typeof t==\"number\"?t:null,this.offscreen=g.emptyOffscreen();let n={role:\"WebArea\",name:\"\",children:this.buildAriaTree(e??document.body,!0),element:e??document.body};this.attachOffscreen(n,this.offscreen),this.normalizeGenericRoles(n);let i=this.toSnapshotNode(n);return{text:w.render(i),elementCount:this.bridge.elements.size,tree:i}}catch(r){return console.error(\"Snapshot error:\",r),{text:`Error: ${r.message}`,elementCount:0,tree:{role:\"WebArea\",name:\"\",children:[]}}}}buildAriaTree(e,t){if(this.visited.has(e))return[];if(this.visited.add(e),e.nodeType===Node.TEXT_NODE&&e.nodeValue){if(!t)return[];let c=this.normalizeWhitespace(e.nodeValue);if(c&&c.length>0){let l=e.parentElement;if(l&&d.getRole(l)!==\"textbox\")return[c]}return[]}if(e.nodeType!==Node.ELEMENT_NODE)return[];let r=e,n=this.getOffscreenPosition(r);if(n){let{interactive:c,pinned:l}=this.inspectOffscreen(r);if(!l)return d.isVisibleForAria(r)&&(this.offscreen[n].regions++,this.offscreen[n].interactive+=c),[]}let i=d.isVisibleForAria(r);if(!i)return this.buildChildrenTree(r,!1);let s=this.createAriaNode(r);if(!s)return this.buildChildrenTree(r,i);let a=this.offscreen;this.offscreen=g.emptyOffscreen();let o=this.getInputValue(r);if(o!==null&&o.length>0){s.children=[o];let c=this.buildAriaOwnedTree(r);s.children.push(...c)}else{let c=this.buildChildrenTree(r,i),l=this.buildAriaOwnedTree(r);s.children=[...c,...l]}return this.attachOffscreen(s,this.offscreen),this.offscreen=a,[s]}getOffscreenPosition(e){if(this.viewportMargin===null)return null;let t=e.getBoundingClientRect();return t.width===0&&t.height===0?null:t.bottom<-this.viewportMargin?\"above\":t.top>window.innerHeight+this.viewportMargin?\"below\":null}inspectOffscreen(e){let t={interactive:0,pinned:!1},r=n=>{let i=window.getComputedStyle(n);if(i.display===\"none\"||n.getAttribute(\"aria-hidden\")===\"true\")return;if(n!==e&&(i.position===\"fixed\"||i.position===\"sticky\")){t.pinned=!0;return}i.visibility!==\"hidden\"&&d.isInteractive(n,d.getRole(n))&&t.interactive++;let s=[...Array.from(n.shadowRoot?.children??[]),...Array.from(n.children)];for(let a of s){if(t.pinned)return;r(a)}};return r(e),t}attachOffscreen(e,t){(t.above.regions>0||t.below.regions>0)&&(e.offscreen=t)}static emptyOffscreen(){return{above:{regions:0,interactive:0},below:{regions:0,interactive:0}}}createAriaNode(e){let t=d.getRole(e);if(!t||t===\"presentation\"||t===\"none\")return null;let r=d.getName(e),n=d.getAriaProperties(e,t);if(t===\"generic\"){let s=window.getComputedStyle(e);if((s.display===\"inline\"||s.display===\"inline-block\")&&e.childNodes.length===1&&e.childNodes[0].nodeType===Node.TEXT_NODE)return null}let i={role:t,name:r,children:[],element:e,...n};if(this.extractElementProperties(e,i),d.isInteractive(e,t)){let s=e._verdexRef;s&&this.bridge.elements.has(s)||(s=`e${++this.bridge.counter}`,e._verdexRef=s),i.ref=s;let a={element:e,tagName:e.tagName,role:t,name:r,attributes:this.bridge.getAttributes(e)};this.bridge.elements.set(s,a)}return i}extractElementProperties(e,t){let r={};if(t.role===\"link\"&&e.hasAttribute(\"href\")&&(r.url=e.getAttribute(\"href\")),t.role===\"textbox\"||t.role===\"searchbox\"){let n=e.getAttribute(\"placeholder\");n&&(r.placeholder=n)}if(e instanceof HTMLImageElement&&e.src&&(r.src=e.src),t.role===\"button\"){let n=e.getAttribute(\"type\");(n===\"submit\"||n===\"reset\")&&(r.type=n)}if(t.role===\"combobox\"){let n=e.getAttribute(\"autocomplete\");n&&(r.autocomplete=n)}Object.keys(r).length>0&&(t.props=r)}getInputValue(e){return!(e instanceof HTMLInputElement||e instanceof HTMLTextAreaElement)||e instanceof HTMLInputElement&&[\"checkbox\",\"radio\",\"file\",\"button\",\"submit\",\"reset\",\"image\",\"hidden\"].includes(e.type)?null:e.value}buildChildrenTree(e,t){let r=[];if(t){let n=this.getCSSContent(e,\"::before\");n&&r.push(n)}if(e.nodeName===\"SLOT\"){let i=e.assignedNodes();if(i.length>0){if(i.forEach(s=>{r.push(...this.buildAriaTree(s,t))}),t){let s=this.getCSSContent(e,\"::after\");s&&r.push(s)}return r}}if(Array.from(e.childNodes).forEach(n=>{n.assignedSlot||r.push(...this.buildAriaTree(n,t))}),e.shadowRoot&&Array.from(e.shadowRoot.childNodes).forEach(n=>{r.push(...this.buildAriaTree(n,t))}),t){let n=this.getCSSContent(e,\"::after\");n&&r.push(n)}return r}buildAriaOwnedTree(e){let t=e.getAttribute(\"aria-owns\");if(!t)return[];let r=t.split(/\\s+/).map(i=>document.getElementById(i)).filter(i=>i!==null),n=[];return r.forEach(i=>{n.push(...this.buildAriaTree(i,!0))}),n}normalizeGenericRoles(e){let t=[];for(let n of e.children||[]){if(typeof n==\"string\"){t.push(n);continue}let i=this.normalizeGenericRoles(n);t.push(...i)}return e.role===\"generic\"&&!e.name&&!e.ref&&!e.offscreen&&t.length===1?t:(e.children=t,[e])}toSnapshotNode(e){let t={role:e.role,name:e.name,children:e.children.map(n=>typeof n==\"string\"?n:this.toSnapshotNode(n))};e.ref&&(t.ref=e.ref);let r={};return e.checked!==void 0&&(r.checked=e.checked),e.disabled!==void 0&&(r.disabled=e.disabled),e.expanded!==void 0&&(r.expanded=e.expanded),e.level!==void 0&&(r.level=e.level),e.pressed!==void 0&&(r.pressed=e.pressed),e.selected!==void 0&&(r.selected=e.selected),e.active!==void 0&&(r.active=e.active),Object.keys(r).length>0&&(t.states=r),e.props&&(t.props=e.props),e.offscreen&&(t.offscreen=e.offscreen),t}normalizeWhitespace(e){return e.replace(/[\\u200b\\u00ad]/g,\"\").replace(/[\\r\\n\\s\\t]+/g,\" \").trim()}getCSSContent(e,t){let n=window.getComputedStyle(e,t).content;if(!n||n===\"none\"||n===\"normal\")return\"\";let i=n.replace(/^[\"']|[\"']$/g,\"\");return i=i.replace(/\\\\([0-9a-fA-F]{1,6})\\s?/g,(s,a)=>String.fromCharCode(parseInt(a,16))),i}yamlEscapeKeyIfNeeded(e){return/[:\\[\\]{}#&*!|>'\"%@`]/.test(e)||e.startsWith(\"-\")?JSON.stringify(e):e}};var m=class{static buildShallowOutline(e,t=6,r){let n=[],i=new Set,s=[\":scope > h1\",\":scope > h2\",\":scope > h3\",\":scope > h4\",\":scope > h5\",\":scope > h6\",\":scope > button\",\":scope > a\",\":scope > label\",\":scope > [data-testid]\",\":scope > span\",\":scope > strong\",\":scope > em\"].join(\",\"),a=Array.from(e.querySelectorAll(s)),o;if(r){let c=new Set(a);o=new Map,r.forEach(l=>{c.has(l.element)&&o.set(l.element,l)})}for(let c of a){if(n.length>=t)break;let l=c.getAttribute(\"role\")||void 0,h,f=o?.get(c);f&&(l=l||f.role||void 0,h=f.name||void 0);let b=l?.toLowerCase(),p=c.tagName?.toLowerCase(),T=(c.textContent||\"\").trim(),L=c.getAttribute(\"data-testid\")||void 0,P=c.getAttribute(\"aria-label\")||void 0,O=(T&&T.length<=200?T:void 0)||h||P;if(!O&&!L&&!b)continue;let $=`${b||p}|${O||\"\"}|${L||\"\"}`;i.has($)||(i.add($),n.push({role:l,tag:p,text:O,testid:L}))}return n}static getRelevantAttributes(e){let t={};return this.RELEVANT_ATTRIBUTES.forEach(r=>{let n=e.getAttribute(r);n&&(t[r]=n)}),t}static findContainedRefs(e,t){let r=[];return t.forEach((n,i)=>{e.contains(n.element)&&n.element!==e&&r.push(i)}),r}static extractMeaningfulTexts(e){let t=[],r=document.createTreeWalker(e,NodeFilter.SHOW_TEXT|NodeFilter.SHOW_ELEMENT,{acceptNode:s=>{if(s.nodeType===Node.TEXT_NODE){let a=s.textContent?.trim();if(a&&a.length>0)return NodeFilter.FILTER_ACCEPT}else if(s.nodeType===Node.ELEMENT_NODE){let a=s;if(this.SEMANTIC_ELEMENTS.includes(a.tagName))return NodeFilter.FILTER_ACCEPT}return NodeFilter.FILTER_SKIP}}),n;for(;n=r.nextNode();)if(n.nodeType===Node.TEXT_NODE){let s=n.textContent?.trim();s&&s.length>0&&t.push(s)}else if(n.nodeType===Node.ELEMENT_NODE){let s=n.textContent?.trim();s&&s.length>0&&t.push(s)}return[...new Set(t)].filter(s=>s.length>1&&s.trim().length>0)}static getAllAttributes(e){let t={};for(let r=0;r<e.attributes.length;r++){let n=e.attributes[r];t[n.name]=n.value}return t}static getSiblingIndex(e){return e.parentElement?Array.from(e.parentElement.children).indexOf(e):0}static findParentRef(e,t){let r=e.parentElement;for(;r;){for(let[n,i]of t.entries())if(i.element===r)return n;r=r.parentElement}return null}};u(m,\"RELEVANT_ATTRIBUTES\",[\"class\",\"id\",\"data-testid\",\"role\",\"aria-label\"]),u(m,\"SEMANTIC_ELEMENTS\",[\"H1\",\"H2\",\"H3\",\"H4\",\"H5\",\"H6\",\"BUTTON\",\"A\",\"LABEL\"]);var x=class{constructor(e,t={}){u(this,\"bridge\");u(this,\"config\");this.bridge=e,this.config=t}resolveContainer(e){let t=this.bridge.elements.get(e);if(!t)throw new Error(`Element ${e} not found in bridge elements map`);let r=[],n=t.element.parentElement,i=1;for(;n&&n!==document.body;){let s={level:i,tagName:n.tagName.toLowerCase(),attributes:m.getRelevantAttributes(n),childElements:n.children.length,containsRefs:m.findContainedRefs(n,this.bridge.elements)};r.push(s),n=n.parentElement,i++}return{target:{ref:e,tagName:t.tagName.toLowerCase(),text:t.element.textContent?.trim()||\"\"},ancestors:r}}inspectPattern(e,t){let r=this.bridge.elements.get(e);if(!r)throw new Error(`Element ${e} not found in bridge elements map`);let n=r.element;for(let c=0;c<t;c++){if(!n?.parentElement||n.parentElement===document.body)throw new Error(`Ancestor level ${t} is too high - reached document.body at level ${c+1}`);n=n.parentElement}if(!n)throw new Error(`Failed to find container at ancestor level ${t}`);let i=r.element;for(let c=0;c<Math.max(t-1,0)&&i?.parentElement;c++)i=i.parentElement;let s=i&&i instanceof Element&&i.parentElement===n?i:null,a=s&&n?Array.from(n.children).indexOf(s):null,o=Array.from(n.children).map((c,l)=>({index:l,tagName:c.tagName.toLowerCase(),attributes:m.getRelevantAttributes(c),containsRefs:m.findContainedRefs(c,this.bridge.elements),containsText:m.extractMeaningfulTexts(c),outline:m.buildShallowOutline(c,this.config.maxOutlineItems??6,this.bridge.elements)}));return{ancestorLevel:t,containerAt:{tagName:n.tagName.toLowerCase(),attributes:m.getRelevantAttributes(n)},targetSiblingIndex:a,siblings:o}}extractAnchors(e,t){let r=this.bridge.elements.get(e);if(!r)throw new Error(`Element ${e} not found in bridge elements map`);let n=r.element;for(let o=0;o<t;o++){if(!n.parentElement||n.parentElement===document.body)throw new Error(`Ancestor level ${t} is too high - reached document.body at level ${o+1}`);n=n.parentElement}let i=this.config.maxDepth??4,s=this.traverseDescendants(n,i,0,0),a=0;if(s&&s.length>0){let o=s.map(c=>c?.depth||1);a=Math.max(...o)}return{ancestorAt:{level:t,tagName:n.tagName.toLowerCase(),attributes:m.getRelevantAttributes(n)},descendants:s||[],totalDescendants:s?s.length:0,maxDepthReached:a}}traverseDescendants(e,t=4,r=0,n=0){let i=this.config.maxDescendants??100;if(r>=t||!e?.children||n>=i)return[];let s=[],a=this.config.maxSiblings??15;return Array.from(e.children).slice(0,a).forEach((o,c)=>{let l={depth:r+1,index:c,tagName:o.tagName.toLowerCase(),attributes:m.getRelevantAttributes(o)},h=Array.from(this.bridge.elements.entries()).find(([p,T])=>T.element===o)?.[0];if(h){l.ref=h;let p=this.bridge.elements.get(h);p&&(l.role=p.role,l.name=p.name)}let f=o?.childNodes?Array.from(o.childNodes).filter(p=>p.nodeType===Node.TEXT_NODE).map(p=>p.textContent?.trim()).filter(p=>p&&p.length>0).join(\" \"):\"\";if(f&&f.length>0&&f.length<200&&(l.directText=f),[\"H1\",\"H2\",\"H3\",\"H4\",\"H5\",\"H6\",\"P\",\"SPAN\",\"LABEL\",\"BUTTON\",\"A\"].includes(o.tagName)){let p=o.textContent?.trim();p&&p.length>0&&p.length<200&&p!==f&&(l.fullText=p)}if(o?.children&&o.children.length>0){l.childCount=o.children.length;let p=this.traverseDescendants(o,t,r+1,n+s.length);p&&p.length>0&&(l.descendants=p)}s.push(l)}),s}};var v=class extends Error{constructor(t,r){super(`Element ${t} (${r.role} \"${r.name}\") was removed from DOM. Take a new snapshot() to refresh refs.`);this.ref=t;this.elementInfo=r;this.name=\"StaleRefError\"}},E=class extends Error{constructor(t){super(`Unknown element reference: ${t}. Ref may be stale after navigation. Take a new snapshot to get fresh refs.`);this.ref=t;this.name=\"UnknownRefError\"}};var S=class{constructor(e){u(this,\"bridge\");this.bridge=e}waitFor(e,t){if(e.kind===\"ref\"&&!this.bridge.elements.has(e.ref))throw new E(e.ref);return new Promise(r=>{if(this.check(e)){r(!0);return}let n=a=>{i.disconnect(),clearTimeout(s),r(a)},i=new MutationObserver(()=>{this.check(e)&&n(!0)}),s=setTimeout(()=>n(!1),t);i.observe(document,{subtree:!0,childList:!0,attributes:!0,characterData:!0})})}check(e){if(e.kind===\"text\"){let r=(document.body?.innerText??\"\").includes(e.text);return e.present?r:!r}return this.checkElementState(e.ref,e.state)}checkElementState(e,t){let r=this.bridge.elements.get(e)?.element,n=!!r&&r.isConnected;switch(t){case\"detached\":return!n;case\"visible\":return n&&this.isVisible(r);case\"hidden\":return!n||!this.isVisible(r);case\"enabled\":return n&&!r.matches(\":disabled\")&&r.getAttribute(\"aria-disabled\")!==\"true\"}}isVisible(e){let t=e.getBoundingClientRect();if(t.width===0&&t.height===0)return!1;let r=window.getComputedStyle(e);return r.visibility!==\"hidden\"&&r.display!==\"none\"}};var A=class{query(e,t=document){let r=[],n=[t];for(let i of e){if(i.kind===\"filter\")r=r.filter(s=>this.textMatches(this.getText(s),i.hasText,!1));else if(i.kind===\"nth\"){let s=i.index<0?r.length+i.index:i.index;r=r[s]?[r[s]]:[]}else{let s=new Set;for(let a of n)for(let o of this.queryStep(i,a))s.add(o);r=this.sortInDocumentOrder([...s])}n=r}return r}toCode(e){return[\"page\",...e.map(r=>{switch(r.kind){case\"role\":{let n=[];return r.name!==void 0&&n.push(`name: ${this.literal(r.name)}`),r.exact&&n.push(\"exact: true\"),n.length>0?`getByRole(${this.quote(r.role)}, { ${n.join(\", \")} })`:`getByRole(${this.quote(r.role)})`}case\"testid\":return`getByTestId(${this.quote(r.testId)})`;case\"text\":return r.exact?`getByText(${this.literal(r.text)}, { exact: true })`:`getByText(${this.literal(r.text)})`;case\"css\":return`locator(${this.quote(r.selector)})`;case\"filter\":return`filter({ hasText: ${this.literal(r.hasText)} })`;case\"nth\":return r.index===0?\"first()\":r.index===-1?\"last()\":`nth(${r.index})`}})].join(\".\")}getText(e){return(e.textContent??\"\").replace(/\\s+/g,\" \").trim()}queryStep(e,t){switch(e.kind){case\"css\":return Array.from(t.querySelectorAll(e.selector));case\"testid\":return Array.from(t.querySelectorAll(\"[data-testid]\")).filter(r=>r.getAttribute(\"data-testid\")===e.testId);case\"role\":return Array.from(t.querySelectorAll(\"*\")).filter(r=>d.getRole(r)===e.role&&d.isVisibleForAria(r)&&(e.name===void 0||this.textMatches(d.getName(r),e.name,e.exact??!1)));case\"text\":return Array.from(t.querySelectorAll(\"*\")).filter(r=>[\"SCRIPT\",\"STYLE\",\"NOSCRIPT\"].includes(r.tagName)||!this.textMatches(this.getText(r),e.text,!!e.exact)?!1:!Array.from(r.children).some(i=>this.textMatches(this.getText(i),e.text,!!e.exact))&&d.isVisibleForAria(r));default:return[]}}textMatches(e,t,r){let n=e.replace(/\\s+/g,\" \").trim();if(t instanceof RegExp)return t.test(n);let i=t.replace(/\\s+/g,\" \").trim();return r?n===i:n.toLowerCase().includes(i.toLowerCase())}sortInDocumentOrder(e){return e.sort((t,r)=>t.compareDocumentPosition(r)&Node.DOCUMENT_POSITION_FOLLOWING?-1:1)}literal(e){return e instanceof RegExp?e.toString():this.quote(e)}quote(e){return`'${e.replace(/\\\\/g,\"\\\\\\\\\").replace(/'/g,\"\\\\'\")}'`}};var F=[\"listitem\",\"row\",\"article\",\"region\",\"dialog\",\"form\",\"group\",\"navigation\",\"tabpanel\"],M={testid:0,role:1,scoped:2,text:3,nth:4},V=5,C=class{constructor(e,t={}){u(this,\"bridge\");u(this,\"config\");u(this,\"engine\",new A);this.bridge=e,this.config=t}generate(e){let t=this.bridge.elements.get(e);if(!t)throw new Error(`Element ${e} not found in bridge elements map`);let r=t.element,n=d.getRole(r),i=d.getName(r),s=this.buildDrafts(e,r,n,i),a=new Set,o=[];for(let c of s){let l=this.engine.toCode(c.steps);if(a.has(l))continue;a.add(l);let h=this.engine.query(c.steps),f=h.indexOf(r);if(f!==-1&&(o.push({locator:l,strategy:c.strategy,matchCount:h.length,unique:h.length===1,length:c.steps.length}),h.length>1)){let b=[...c.steps,{kind:\"nth\",index:f}],p=this.engine.toCode(b);a.has(p)||(a.add(p),o.push({locator:p,strategy:\"nth\",matchCount:1,unique:!0,length:b.length}))}}return o.sort((c,l)=>Number(l.unique)-Number(c.unique)||M[c.strategy]-M[l.strategy]||c.length-l.length),{ref:e,role:n,name:i,candidates:o.slice(0,V).map(({length:c,...l})=>l)}}buildDrafts(e,t,r,n){let i=[],s=this.buildOwnSteps(t,r,n);for(let a of s)i.push({steps:a,strategy:a[0].kind===\"testid\"?\"testid\":a[0].kind===\"text\"?\"text\":\"role\"});for(let a of this.findContainers(e,t))for(let o of this.buildContainerSteps(a))for(let c of s)i.push({steps:[...o,...c],strategy:\"scoped\"});return i}buildOwnSteps(e,t,r){let n=[],i=e.getAttribute(\"data-testid\");i&&n.push([{kind:\"testid\",testId:i}]),t&&t!==\"generic\"&&n.push(r?[{kind:\"role\",role:t,name:r,exact:!0}]:[{kind:\"role\",role:t}]);let s=this.engine.getText(e);return!r&&s&&s.length<=80&&n.push([{kind:\"text\",text:s,exact:!0}]),n}findContainers(e,t){let r=new x(this.bridge,this.config),{ancestors:n}=r.resolveContainer(e),i=[],s=t;for(let a of n){if(s=s?.parentElement??null,!s)break;(a.attributes[\"data-testid\"]||F.includes(d.getRole(s)))&&i.push(s)}return i}buildContainerSteps(e){let t=e.getAttribute(\"data-testid\"),r=d.getRole(e),n=d.getName(e),i=t?[{kind:\"testid\",testId:t}]:n?[{kind:\"role\",role:r,name:n,exact:!0}]:[{kind:\"role\",role:r}],s=this.engine.query(i);if(s.length<=1)return[i];let a=this.findDistinguishingText(e,s);return a?[i,[...i,{kind:\"filter\",hasText:a}]]:[i]}findDistinguishingText(e,t){let r=t.filter(n=>n!==e);for(let n of m.extractMeaningfulTexts(e)){let i=n.replace(/\\s+/g,\" \");if(i.length>60)continue;let s=i.toLowerCase();if(!r.some(o=>this.engine.getText(o).toLowerCase().includes(s)))return i}return null}};var I=class{constructor(e){this.source=e;u(this,\"tokens\",[]);u(this,\"index\",0)}parse(){this.tokens=this.tokenize(),this.index=0;let e=[[]],t=()=>e[e.length-1];for(this.peekIdent(\"page\")&&(this.next(),this.expectPunct(\".\"));;){let r=this.expectIdent(),n=this.parseArguments();switch(r.value){case\"getByRole\":{let i=this.stringArg(r,n,0),s=this.optionsArg(r,n,1,[\"name\",\"exact\"]);t().push({kind:\"role\",role:i,name:this.matcherOption(r,s,\"name\"),exact:this.booleanOption(r,s,\"exact\")});break}case\"getByTestId\":t().push({kind:\"testid\",testId:this.stringArg(r,n,0)});break;case\"getByText\":{let i=this.optionsArg(r,n,1,[\"exact\"]);t().push({kind:\"text\",text:this.matcherArg(r,n,0),exact:this.booleanOption(r,i,\"exact\")});break}case\"locator\":t().push({kind:\"css\",selector:this.stringArg(r,n,0)});break;case\"filter\":{let i=this.optionsArg(r,n,0,[\"hasText\"]),s=this.matcherOption(r,i,\"hasText\");if(s===void 0)throw this.error(r.pos,\"filter() requires { hasText }\");t().push({kind:\"filter\",hasText:s});break}case\"nth\":{let i=n[0];if(typeof i!=\"number\"||!Number.isInteger(i))throw this.error(r.pos,\"nth() requires an integer index\");t().push({kind:\"nth\",index:i});break}case\"first\":t().push({kind:\"nth\",index:0});break;case\"last\":t().push({kind:\"nth\",index:-1});break;case\"contentFrame\":this.requireSteps(r,t()),e.push([]);break;case\"frameLocator\":t().push({kind:\"css\",selector:this.stringArg(r,n,0)}),e.push([]);break;default:throw this.error(r.pos,`Unsupported method \"${r.value}\". Supported: getByRole, getByTestId, getByText, locator, filter, nth, first, last, contentFrame, frameLocator`)}if(this.index>=this.tokens.length)break;this.expectPunct(\".\")}return this.requireSteps(null,t()),e}requireSteps(e,t){if(t.length===0)throw this.error(e?.pos??this.source.length,\"Expected a locator (e.g. getByRole) before the end of the frame segment\")}parseArguments(){this.expectPunct(\"(\");let e=[];if(this.peekPunct(\")\"))return this.next(),e;for(;;){if(e.push(this.parseValue()),this.peekPunct(\",\")){if(this.next(),this.peekPunct(\")\"))break;continue}break}return this.expectPunct(\")\"),e}parseValue(){let e=this.next();if(!e)throw this.error(this.source.length,\"Unexpected end of locator\");if(e.type===\"string\"||e.type===\"regex\"||e.type===\"number\")return e.value;if(e.type===\"ident\"&&e.value===\"true\")return!0;if(e.type===\"ident\"&&e.value===\"false\")return!1;if(e.type===\"punct\"&&e.value===\"{\")return this.parseObject();throw this.error(e.pos,`Unexpected \"${String(e.value)}\"`)}parseObject(){let e={};for(;!this.peekPunct(\"}\");){let t=this.next();if(!t||t.type!==\"ident\"&&t.type!==\"string\")throw this.error(t?.pos??this.source.length,\"Expected a key\");if(this.expectPunct(\":\"),e[t.value]=this.parseValue(),this.peekPunct(\",\"))this.next();else break}return this.expectPunct(\"}\"),e}stringArg(e,t,r){let n=t[r];if(typeof n!=\"string\")throw this.error(e.pos,`${e.value}() expects a string`);return n}matcherArg(e,t,r){let n=t[r];if(typeof n!=\"string\"&&!(n instanceof RegExp))throw this.error(e.pos,`${e.value}() expects a string or regular expression`);return n}optionsArg(e,t,r,n){let i=t[r];if(i===void 0)return{};if(typeof i!=\"object\"||i instanceof RegExp||i===null)throw this.error(e.pos,`${e.value}() expects an options object`);for(let s of Object.keys(i))if(!n.includes(s))throw this.error(e.pos,`Unsupported option \"${s}\" in ${e.value}(). Supported: ${n.join(\", \")}`);return i}matcherOption(e,t,r){let n=t[r];if(n!==void 0){if(typeof n!=\"string\"&&!(n instanceof RegExp))throw this.error(e.pos,`${r} in ${e.value}() must be a string or regular expression`);return n}}booleanOption(e,t,r){let n=t[r];if(n!==void 0){if(typeof n!=\"boolean\")throw this.error(e.pos,`${r} in ${e.value}() must be true or false`);return n}}tokenize(){let e=[],t=this.source,r=0;for(;r<t.length;){let n=t[r];if(/\\s/.test(n))r++;else if(/[A-Za-z_$]/.test(n)){let i=r;for(;r<t.length&&/[\\w$]/.test(t[r]);)r++;e.push({type:\"ident\",value:t.slice(i,r),pos:i})}else if(/[0-9-]/.test(n)){let i=r;for(r++;r<t.length&&/[0-9]/.test(t[r]);)r++;let s=Number(t.slice(i,r));if(isNaN(s))throw this.error(i,\"Invalid number\");e.push({type:\"number\",value:s,pos:i})}else if(n===\"'\"||n==='\"'||n===\"`\"){let i=r,s=\"\";for(r++;r<t.length&&t[r]!==n;)t[r]===\"\\\\\"&&r+1<t.length&&r++,s+=t[r],r++;if(r>=t.length)throw this.error(i,\"Unterminated string\");r++,e.push({type:\"string\",value:s,pos:i})}else if(n===\"/\"&&this.regexAllowed(e)){let i=r,s=\"\",a=!1;for(r++;r<t.length&&(t[r]!==\"/\"||a);){if(t[r]===\"\\\\\"&&r+1<t.length){s+=t[r]+t[r+1],r+=2;continue}t[r]===\"[\"&&(a=!0),t[r]===\"]\"&&(a=!1),s+=t[r],r++}if(r>=t.length)throw this.error(i,\"Unterminated regex\");r++;let o=\"\";for(;r<t.length&&/[a-z]/.test(t[r]);)o+=t[r++];try{let c=new RegExp(s,o.replace(\"g\",\"\"));e.push({type:\"regex\",value:c,pos:i})}catch(c){throw this.error(i,c.message)}}else if(\"().,{}:\".includes(n))e.push({type:\"punct\",value:n,pos:r}),r++;else throw this.error(r,`Unexpected character \"${n}\"`)}return e}regexAllowed(e){let t=e[e.length-1];return t?.type===\"punct\"&&(t.value===\"(\"||t.value===\",\"||t.value===\":\")}next(){return this.tokens[this.index++]}peekPunct(e){let t=this.tokens[this.index];return t?.type===\"punct\"&&t.value===e}peekIdent(e){let t=this.tokens[this.index];return t?.type===\"ident\"&&t.value===e}expectPunct(e){let t=this.next();if(t?.type!==\"punct\"||t.value!==e)throw this.error(t?.pos??this.source.length,`Expected \"${e}\"`)}expectIdent(){let e=this.next();if(e?.type!==\"ident\")throw this.error(e?.pos??this.source.length,\"Expected a method name\");return e}error(e,t){return new Error(`Invalid locator at position ${e}: ${t}\n  ${this.source}\n  ${\" \".repeat(e)}^`)}};var q=10,N=class{constructor(e){u(this,\"bridge\");u(this,\"engine\",new A);this.bridge=e}validate(e){let t=new I(e).parse(),r=t[0],n=[];for(let o=1;o<=r.length;o++)n.push({locator:this.engine.toCode(r.slice(0,o)),matchCount:this.engine.query(r.slice(0,o)).length});let i=this.engine.query(r),s=i.map(o=>this.getRef(o)).filter(o=>!!o),a={locator:this.toChainCode(t),matchCount:i.length,refs:s,matches:i.slice(0,q).map(o=>this.describe(o)),steps:n};return t.length>1?(a.frameRefs=i.filter(o=>o.tagName===\"IFRAME\").map(o=>this.getRef(o)).filter(o=>!!o),a.remainder=this.toChainCode(t.slice(1)),a):(i.length>1&&(a.ambiguity=this.explainAmbiguity(r,i,n)),a)}explainAmbiguity(e,t,r){let n=[],i=t.map(o=>this.describe(o)),s=e[e.length-1];if((s.kind===\"role\"||s.kind===\"text\")&&!s.exact){let o=s.kind===\"role\"?s.name:s.text,c=[...new Set(t.map(l=>s.kind===\"role\"?d.getName(l):this.engine.getText(l)))];typeof o==\"string\"&&c.length>1&&n.push(`\"${o}\" is a case-insensitive substring match and matches ${c.length} different ${s.kind===\"role\"?\"names\":\"texts\"}: ${c.slice(0,5).map(l=>`\"${l}\"`).join(\", \")}. Use the full text with exact: true.`)}if(new Set(i.map(o=>`${o.role}|${o.name}`)).size===1){let{role:o,name:c}=i[0];n.push(`All ${t.length} matches are identical (${o}${c?` \"${c}\"`:\"\"}). Scope to a container first, e.g. getByTestId('card').filter({ hasText: '...' }), or pick one with nth().`)}for(let o=1;o<e.length;o++){let c=e[o];c.kind===\"filter\"&&r[o].matchCount===r[o-1].matchCount&&n.push(`${this.engine.toCode([c]).replace(/^page\\./,\"\")} did not narrow the matches (${r[o].matchCount} before and after) - every candidate contains that text.`)}for(let o=0;o<e.length-1;o++)if(r[o].matchCount===1){n.push(`The container ${r[o].locator} is unique but contains ${t.length} matching elements. Narrow the inner locator (name, exact: true) or scope to a smaller container.`);break}return n.length===0&&n.push(`${t.length} elements match. Add a container scope, filter({ hasText }) or a more specific name.`),n}describe(e){let t={role:d.getRole(e),name:d.getName(e),tagName:e.tagName.toLowerCase()},r=this.getRef(e);return r&&(t.ref=r),t}getRef(e){let t=e._verdexRef;return t&&this.bridge.elements.get(t)?.element===e?t:void 0}toChainCode(e){return e.map((t,r)=>{let n=this.engine.toCode(t);return r===0?n:n.replace(/^page\\./,\"\")}).join(\".contentFrame().\")}};var y=class{static parseKeyCombo(e,t=navigator.platform){let r=e===\" \"?[e]:e.split(\"+\").map(s=>s.trim());r.length>=2&&r[r.length-1]===\"\"&&r[r.length-2]===\"\"&&r.splice(r.length-2,2,\"+\");let n=r.pop();if(!n)throw new Error(`Invalid key: \"${e}\"`);let i={key:this.normalizeKey(n),code:\"\",ctrlKey:!1,shiftKey:!1,altKey:!1,metaKey:!1};for(let s of r){let a=this.MODIFIER_ALIASES[s.toLowerCase()];if(!a)throw new Error(`Unknown modifier \"${s}\" in \"${e}\". Use Control, Shift, Alt, Meta or ControlOrMeta.`);a===\"Control\"&&(i.ctrlKey=!0),a===\"Shift\"&&(i.shiftKey=!0),a===\"Alt\"&&(i.altKey=!0),a===\"Meta\"&&(i.metaKey=!0),a===\"ControlOrMeta\"&&(/mac/i.test(t)?i.metaKey=!0:i.ctrlKey=!0)}return i.shiftKey&&/^[a-z]$/.test(i.key)&&(i.key=i.key.toUpperCase()),i.code=this.getCode(i.key),i}static isPrintable(e){return e.length===1||e===\"Enter\"}static normalizeKey(e){if(e.length===1)return e;let t=this.NAMED_KEYS[e.toLowerCase()];if(!t)throw new Error(`Unknown key \"${e}\". Use a single character or a key name like Enter, Tab, Escape, ArrowDown, F1.`);return t}static getCode(e){return/^[a-z]$/i.test(e)?`Key${e.toUpperCase()}`:/^[0-9]$/.test(e)?`Digit${e}`:e===\" \"?\"Space\":e}};u(y,\"MODIFIER_ALIASES\",{control:\"Control\",ctrl:\"Control\",shift:\"Shift\",alt:\"Alt\",option:\"Alt\",meta:\"Meta\",cmd:\"Meta\",command:\"Meta\",controlormeta:\"ControlOrMeta\"}),u(y,\"NAMED_KEYS\",{enter:\"Enter\",return:\"Enter\",tab:\"Tab\",escape:\"Escape\",esc:\"Escape\",backspace:\"Backspace\",delete:\"Delete\",space:\" \",arrowup:\"ArrowUp\",arrowdown:\"ArrowDown\",arrowleft:\"ArrowLeft\",arrowright:\"ArrowRight\",home:\"Home\",end:\"End\",pageup:\"PageUp\",pagedown:\"PageDown\",insert:\"Insert\",capslock:\"CapsLock\",numlock:\"NumLock\",scrolllock:\"ScrollLock\",pause:\"Pause\",printscreen:\"PrintScreen\",contextmenu:\"ContextMenu\",control:\"Control\",shift:\"Shift\",alt:\"Alt\",meta:\"Meta\",...Object.fromEntries(Array.from({length:12},(e,t)=>[`f${t+1}`,`F${t+1}`]))});var k=class{static create(e={}){let t=i=>{let s=n.elements.get(i);if(!s)throw new E(i);if(!s.element.isConnected)throw n.elements.delete(i),new v(i,{role:s.role,name:s.name,tagName:s.tagName});return s.element},r=()=>{let i=document.scrollingElement??document.documentElement;if(i.scrollHeight>i.clientHeight)return i;let s=i,a=0;for(let o of Array.from(document.querySelectorAll(\"*\"))){if(o.scrollHeight<=o.clientHeight)continue;let c=window.getComputedStyle(o).overflowY;if(c!==\"auto\"&&c!==\"scroll\")continue;let l=o.clientWidth*o.clientHeight;l>a&&(s=o,a=l)}return s},n={elements:new Map,counter:0,snapshot(i,s=0,a){let o=i?t(i):void 0;for(let l=0;o&&l<s;l++){if(!o.parentElement||o.parentElement===document.body)throw new Error(`Ancestor level ${s} is too high - reached document.body at level ${l+1}`);o=o.parentElement}return new R(this,e).generate(o,a)},click(i){t(i).click()},type(i,s){let o=t(i);o.focus(),o.value=s,o.dispatchEvent(new Event(\"input\",{bubbles:!0})),o.dispatchEvent(new Event(\"change\",{bubbles:!0}))},focus(i,s=!1){let a=t(i);if(a.focus(),!!s){if(a instanceof HTMLInputElement||a instanceof HTMLTextAreaElement)a.select();else if(a.isContentEditable){let o=document.createRange();o.selectNodeContents(a);let c=window.getSelection();c?.removeAllRanges(),c?.addRange(o)}}},hover(i){let s=t(i),a=s.getBoundingClientRect(),o={bubbles:!0,cancelable:!0,composed:!0,view:window,clientX:a.left+a.width/2,clientY:a.top+a.height/2};s.dispatchEvent(new PointerEvent(\"pointerover\",o)),s.dispatchEvent(new PointerEvent(\"pointerenter\",{...o,bubbles:!1})),s.dispatchEvent(new MouseEvent(\"mouseover\",o)),s.dispatchEvent(new MouseEvent(\"mouseenter\",{...o,bubbles:!1})),s.dispatchEvent(new PointerEvent(\"pointermove\",o)),s.dispatchEvent(new MouseEvent(\"mousemove\",o))},selectOption(i,s){let a=t(i);if(!(a instanceof HTMLSelectElement))throw new Error(`Element ${i} is not a <select> element (got <${a.tagName.toLowerCase()}>)`);if(a.disabled)throw new Error(`Element ${i} is disabled`);if(!a.multiple&&s.length>1)throw new Error(`Element ${i} is a single-select; got ${s.length} values`);let o=Array.from(a.options),c=s.map(l=>{let h=o.find(f=>f.value===l)??o.find(f=>f.label.trim()===l.trim());if(!h){let f=o.map(b=>`\"${b.label.trim()}\"`).join(\", \");throw new Error(`Option \"${l}\" not found in ${i}. Available options: ${f}`)}return h});a.focus();for(let l of o)l.selected=c.includes(l);return a.dispatchEvent(new Event(\"input\",{bubbles:!0})),a.dispatchEvent(new Event(\"change\",{bubbles:!0})),Array.from(a.selectedOptions).map(l=>l.value)},press(i,s){let a=i?t(i):document.activeElement??document.body;i&&a.focus();let o=y.parseKeyCombo(s),c={...o,bubbles:!0,cancelable:!0,composed:!0},l=a.dispatchEvent(new KeyboardEvent(\"keydown\",c));l&&y.isPrintable(o.key)&&a.dispatchEvent(new KeyboardEvent(\"keypress\",c)),l&&o.key===\"Enter\"&&a instanceof HTMLInputElement&&a.form&&a.form.requestSubmit(),a.dispatchEvent(new KeyboardEvent(\"keyup\",c))},scrollIntoView(i){t(i).scrollIntoView({block:\"center\",inline:\"nearest\",behavior:\"instant\"})},scroll(i){let s=r(),a=i===\"top\"?0:i===\"bottom\"?s.scrollHeight:s.scrollTop+i*s.clientHeight;s.scrollTo({top:a,behavior:\"instant\"});let o=s.scrollHeight-s.clientHeight;return{scrollY:Math.round(s.scrollTop),scrollHeight:s.scrollHeight,viewportHeight:s.clientHeight,atTop:s.scrollTop<=1,atBottom:s.scrollTop>=o-1}},waitFor(i,s){return new S(this).waitFor(i,s)},getElement(i){return t(i)},resolve_container(i){return t(i),new x(this,e).resolveContainer(i)},inspect_pattern(i,s){return t(i),new x(this,e).inspectPattern(i,s)},extract_anchors(i,s){return t(i),new x(this,e).extractAnchors(i,s)},generate_locator(i){return t(i),new C(this,e).generate(i)},validate_locator(i){return new N(this).validate(i)},getAttributes(i){return m.getAllAttributes(i)}};return n}};var B=\"0.1.6\";function U(g){return k.create(g)}function De(){let g=globalThis.__VerdexBridgeFactory__;if(!g)throw new Error(\"Verdex bridge factory not initialized\");return g}(function(){let e=Object.freeze({create:U,version:B}),t=globalThis.__VerdexBridgeFactory__;(!t||t.version!==B)&&(t&&delete globalThis.__VerdexBridgeFactory__,Object.defineProperty(globalThis,\"__VerdexBridgeFactory__\",{value:e,writable:!1,enumerable:!1,configurable:!0}))})();})();\n";
 export const BRIDGE_VERSION = "0.1.6";
@@ -4,7 +4,17 @@
  * Node/Puppeteer-specific types.
  */
 
-import { BrowserContext, CDPSession, Page } from "puppeteer";
+import { BrowserContext, CDPSession, Dialog, Page } from "puppeteer";
+import type {
+  ConsoleMessage,
+  DialogInfo,
+  DialogPolicy,
+  EmulationSettings,
+  NetworkRequest,
+  RouteInfo,
+  SnapshotNode,
+} from "../shared-types.js";
+import type { ManualPromise } from "../utils/ManualPromise.js";
 
 /**
  * Represents information about an interactive element stored in the Node.js runtime.
@@ -40,6 +50,19 @@ export type RefIndexEntry = {
  */
 export type GlobalRefIndex = Map<string, RefIndexEntry>;
 
+/**
+ * Outcome of restoring one origin's web storage from a role's auth file.
+ * sessionStorage is applied when the origin is first loaded in the role's page.
+ */
+export type AuthOriginRestore = {
+  origin: string;
+  status: "restored" | "failed";
+  localStorage: number; // Items in the auth file
+  sessionStorage: number;
+  error?: string;
+  timestamp: number;
+};
+
 /**
  * Tracks operational failures for debugging and decision-making.
  *
@@ -70,6 +93,7 @@ export type FailureLog = {
     authPath: string;
     timestamp: number;
   };
+  authOrigins?: AuthOriginRestore[]; // Web storage restored from the auth file, per origin
   cleanupErrors: Array<{
     step: string;
     error: string;
@@ -80,6 +104,68 @@ export type FailureLog = {
   successfulFrames?: number;
 };
 
+/**
+ * Console messages of all of a role's tabs, oldest first (bounded buffer)
+ */
+export type ConsoleLog = {
+  messages: ConsoleMessage[];
+  nextId: number;
+  dropped: number;
+  readUpTo: number; // Last id returned by browser_console (for sinceLast)
+  hintedUpTo: number; // Last id counted in a "new console errors" hint
+};
+
+/**
+ * Requests of all of a role's tabs, oldest first (bounded buffer)
+ */
+export type NetworkLog = {
+  requests: NetworkRequest[];
+  nextId: number;
+  dropped: number;
+  readUpTo: number; // Last id returned by browser_network_requests (for sinceLast)
+};
+
+/**
+ * Routes of a role, shared by all its tabs. Newer routes take precedence.
+ */
+export type RouteTable = {
+  routes: Array<{ info: RouteInfo; body?: Buffer }>;
+  nextId: number;
+};
+
+/**
+ * A page (tab or popup) in a role's browser context, with its own CDP session,
+ * bridge and snapshot state. The active tab's resources are also the
+ * RoleContext's own fields, so everything that uses `context.page` or
+ * `context.refIndex` works on the active tab; the snapshot state is saved
+ * back here when another tab becomes active.
+ */
+export type TabState = {
+  id: string; // t1, t2, ... in opening order
+  page: Page;
+  cdpSession: CDPSession;
+  bridgeInjector: any; // BridgeInjector from runtime module (avoid circular import)
+  mainFrameId: string;
+  openerId?: string; // Tab that opened this one (window.open, target=_blank)
+  openedAt: number;
+
+  // Unanswered dialog - the page is blocked until it is accepted or dismissed
+  pendingDialog?: {
+    info: DialogInfo;
+    dialog: Dialog;
+    reported: boolean;
+    recordAt: number; // Recording index of the action that opened it
+  };
+  // Resolves when a dialog is left open, so waits on a blocked page can stop
+  dialogOpened: ManualPromise<void>;
+
+  // Snapshot state while the tab is in the background
+  refIndex?: GlobalRefIndex;
+  frameOwners?: GlobalRefIndex;
+  lastSnapshot?: RoleContext["lastSnapshot"];
+  collapsedRegions?: RoleContext["collapsedRegions"];
+};
+
 /**
  * Context for a specific role in multi-role browser management.
  * Contains all the Puppeteer resources needed for a role-specific browser session.
@@ -99,22 +185,92 @@ export type RoleContext = {
 
   // NEW: Multi-frame state
   refIndex?: GlobalRefIndex;
+  frameOwners?: GlobalRefIndex; // child frameId -> iframe element (parent frameId + local ref)
   navigationTimestamp?: number;
 
   // Error recovery
   lastErrorSnapshot?: any; // Snapshot type (avoid circular import)
 
+  // Snapshot diffing: text of the most recent snapshot and the document it came from
+  lastSnapshot?: {
+    text: string;
+    loaderId: string;
+  };
+
+  // Subtrees hidden by the latest budgeted snapshot, by region id (c1, c2, ...),
+  // and the document they came from
+  collapsedRegions?: {
+    regions: Map<string, SnapshotNode>;
+    loaderId: string;
+  };
+
+  // Origins the role's pages have loaded (main frame and iframes), for save_auth_state
+  visitedOrigins?: Set<string>;
+
+  // Console messages and exceptions of every tab, for browser_console
+  consoleLog: ConsoleLog;
+
+  // Requests and responses of every tab, for browser_network_requests and export_har
+  networkLog: NetworkLog;
+
+  // Requests intercepted by browser_route, on every tab
+  routes: RouteTable;
+
+  // Device and environment every tab emulates (roles config, then browser_emulate)
+  emulation: EmulationSettings;
+
+  // Every open page of the role; page/cdpSession/bridgeInjector above are the active one's
+  tabs: TabState[];
+  activeTabId: string;
+  tabCounter: number;
+  // Tabs still being set up after a popup opened (awaited before reporting new tabs)
+  pendingTabs: Set<Promise<TabState | null>>;
+
+  // Dialogs answered by the role's policy, not yet reported in a tool response
+  answeredDialogs: DialogInfo[];
+
+  // Pages and browser context existed before Verdex connected - left open on close
+  adopted?: boolean;
+
   // Failure tracking (single source of truth)
   failures?: FailureLog;
 };
 
+/**
+ * How interactions (click, type, hover, press) are delivered to the page.
+ * - "trusted": real input events via the CDP Input domain (event.isTrusted === true)
+ * - "synthetic": DOM events dispatched by the bridge (no layout or focus requirements)
+ */
+export type InputMode = "trusted" | "synthetic";
+
+/**
+ * How the browser is launched, or which running browser to connect to.
+ * Unset fields fall back to VERDEX_* environment variables, then to the
+ * defaults (headless Chrome from Puppeteer, 1280x720).
+ */
+export type LaunchConfig = {
+  cdpEndpoint?: string; // ws:// endpoint of a running browser - connect instead of launching
+  browserURL?: string; // http:// DevTools address of a running browser (http://localhost:9222)
+  headless?: boolean;
+  executablePath?: string; // Browser binary, e.g. a pinned Chromium in CI
+  channel?: "chrome" | "chrome-beta" | "chrome-dev" | "chrome-canary"; // Installed Chrome
+  args?: string[]; // Extra command line switches, added to the defaults
+  viewport?: { width: number; height: number } | null; // null: pages follow the window size
+  slowMo?: number; // Milliseconds added to every browser operation
+  devtools?: boolean; // Open DevTools for each tab (implies headed)
+  userDataDir?: string; // Profile directory of the default role's context
+};
+
 /**
  * Configuration for a single role.
  */
-export type RoleConfig = {
-  authPath: string;
+export type RoleConfig = EmulationSettings & {
+  authPath?: string; // Playwright storageState file
   defaultUrl?: string;
   authRequired?: boolean; // If true, role cannot be created without auth
+  extraHTTPHeaders?: Record<string, string>; // Sent with every request
+  dialogPolicy?: DialogPolicy; // Default "manual": dialogs wait for browser_handle_dialog
+  attachTo?: string; // Connected browser: drive the open page whose URL matches this pattern
 };
 
 /**
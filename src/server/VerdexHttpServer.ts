@@ -0,0 +1,280 @@
+import {
+  createServer,
+  IncomingMessage,
+  Server as HttpServer,
+  ServerResponse,
+} from "http";
+import type { AddressInfo } from "net";
+import { randomUUID } from "crypto";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import type { LaunchConfig, RolesConfiguration } from "../runtime/types.js";
+import { MultiContextBrowser } from "../runtime/MultiContextBrowser.js";
+import { RolesConfigParser } from "./config/RolesConfigParser.js";
+import { LaunchConfigParser } from "./config/LaunchConfigParser.js";
+import type { TransportConfig } from "./config/TransportConfigParser.js";
+import { VerdexMCPServer } from "./VerdexMCPServer.js";
+import { logAndContinue } from "../utils/logging.js";
+
+type HttpTransportConfig = Extract<TransportConfig, { type: "http" }>;
+
+type HttpSession = {
+  server: VerdexMCPServer;
+  transport: StreamableHTTPServerTransport;
+  lastActivity: number;
+};
+
+const MCP_PATH = "/mcp";
+const LOOPBACK_HOSTS = ["127.0.0.1", "localhost", "::1"];
+
+/**
+ * Serves the MCP server over Streamable HTTP (POST/GET/DELETE on /mcp).
+ *
+ * Every MCP session gets its own VerdexMCPServer and, unless sharedBrowser is
+ * set, its own MultiContextBrowser. With sharedBrowser, all sessions drive the
+ * same browser and its roles: each session keeps its own current role, tool
+ * calls of different sessions run one at a time, and browser_close leaves the
+ * browser open.
+ *
+ * Sessions end when the client sends DELETE, or after idleTimeoutMs without
+ * requests. Closing a session closes its browser (never the shared one).
+ */
+export class VerdexHttpServer {
+  private httpServer: HttpServer | null = null;
+  private sessions = new Map<string, HttpSession>();
+  private sharedBrowser: MultiContextBrowser | null;
+  private rolesConfig: RolesConfiguration | null;
+  private launchConfig: LaunchConfig;
+  private idleTimer: NodeJS.Timeout | null = null;
+
+  constructor(private config: HttpTransportConfig) {
+    this.rolesConfig = RolesConfigParser.parse();
+    this.launchConfig = LaunchConfigParser.parse();
+    this.sharedBrowser = config.sharedBrowser
+      ? new MultiContextBrowser()
+      : null;
+    this.sharedBrowser?.setLaunchConfiguration(this.launchConfig);
+  }
+
+  /**
+   * Start listening. Resolves once the port is bound.
+   */
+  async start(): Promise<void> {
+    const httpServer = createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        console.error("❌ HTTP request failed:", error);
+        if (!res.headersSent) {
+          this.sendJsonRpcError(res, 500, -32603, "Internal server error");
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once("error", reject);
+      httpServer.listen(this.config.port, this.config.host, () => {
+        httpServer.off("error", reject);
+        resolve();
+      });
+    });
+    this.httpServer = httpServer;
+
+    // Sweep at least once a minute, more often for short timeouts
+    this.idleTimer = setInterval(
+      () => this.closeIdleSessions(),
+      Math.min(this.config.idleTimeoutMs, 60_000)
+    );
+    this.idleTimer.unref();
+
+    console.error(
+      `Multi-Role Browser MCP Server running on http://${
+        this.config.host
+      }:${this.getPort()}${MCP_PATH} (${
+        this.sharedBrowser ? "shared browser" : "browser per session"
+      })`
+    );
+  }
+
+  /**
+   * Close all sessions, the shared browser and the HTTP listener
+   */
+  async stop(): Promise<void> {
+    if (this.idleTimer) {
+      clearInterval(this.idleTimer);
+      this.idleTimer = null;
+    }
+
+    await Promise.all(
+      [...this.sessions.keys()].map((id) => this.closeSession(id, "shutdown"))
+    );
+
+    if (this.sharedBrowser) {
+      await this.sharedBrowser.close();
+    }
+
+    if (this.httpServer) {
+      const httpServer = this.httpServer;
+      this.httpServer = null;
+      httpServer.closeAllConnections();
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Port the server is bound to (useful with port 0)
+   */
+  getPort(): number {
+    const address = this.httpServer?.address() as AddressInfo | null;
+    return address?.port ?? this.config.port;
+  }
+
+  /**
+   * IDs of the open MCP sessions
+   */
+  getSessionIds(): string[] {
+    return [...this.sessions.keys()];
+  }
+
+  private async handleRequest(
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<void> {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    if (pathname !== MCP_PATH) {
+      res.writeHead(404).end(`Not found - MCP endpoint is ${MCP_PATH}`);
+      return;
+    }
+
+    let body: unknown;
+    if (req.method === "POST") {
+      try {
+        body = await this.readJsonBody(req);
+      } catch {
+        this.sendJsonRpcError(res, 400, -32700, "Parse error: invalid JSON");
+        return;
+      }
+    }
+
+    const sessionId = req.headers["mcp-session-id"];
+    let session =
+      typeof sessionId === "string" ? this.sessions.get(sessionId) : undefined;
+
+    if (sessionId !== undefined && !session) {
+      this.sendJsonRpcError(
+        res,
+        404,
+        -32001,
+        "Session not found - it was closed or timed out. Reconnect to start a new session."
+      );
+      return;
+    }
+
+    if (!session) {
+      if (req.method !== "POST" || !isInitializeRequest(body)) {
+        this.sendJsonRpcError(
+          res,
+          400,
+          -32000,
+          "Bad Request: no session ID - send an initialize request first"
+        );
+        return;
+      }
+      session = await this.createSession();
+    }
+
+    session.lastActivity = Date.now();
+    await session.transport.handleRequest(req, res, body);
+  }
+
+  /**
+   * Create the server/transport pair for a new MCP session.
+   * The session is registered once the transport has assigned its ID.
+   */
+  private async createSession(): Promise<HttpSession> {
+    const server = new VerdexMCPServer({
+      browser: this.sharedBrowser ?? undefined,
+      rolesConfig: this.rolesConfig,
+      launchConfig: this.launchConfig,
+    });
+
+    const isLoopback = LOOPBACK_HOSTS.includes(this.config.host);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        this.sessions.set(id, session);
+        console.error(`🔌 MCP session started: ${id}`);
+      },
+      // Browsers on the same machine must not reach a loopback server via DNS rebinding
+      enableDnsRebindingProtection: isLoopback,
+      allowedHosts: isLoopback
+        ? LOOPBACK_HOSTS.map((host) =>
+            host.includes(":")
+              ? `[${host}]:${this.getPort()}`
+              : `${host}:${this.getPort()}`
+          )
+        : undefined,
+    });
+
+    const session: HttpSession = {
+      server,
+      transport,
+      lastActivity: Date.now(),
+    };
+
+    // DELETE from the client or transport shutdown
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this.closeSession(transport.sessionId, "closed").catch((error) =>
+          logAndContinue(error, "closeSession")
+        );
+      }
+    };
+
+    await server.connect(transport);
+    return session;
+  }
+
+  private async closeSession(id: string, reason: string): Promise<void> {
+    const session = this.sessions.get(id);
+    if (!session) return;
+
+    // Remove first - closing the server closes the transport, which calls back here
+    this.sessions.delete(id);
+    console.error(`🔌 MCP session ${reason}: ${id}`);
+
+    try {
+      await session.server.close();
+    } catch (error) {
+      logAndContinue(error, `closeSession(${id})`);
+    }
+  }
+
+  private async closeIdleSessions(): Promise<void> {
+    const cutoff = Date.now() - this.config.idleTimeoutMs;
+    const idle = [...this.sessions.entries()]
+      .filter(([, session]) => session.lastActivity < cutoff)
+      .map(([id]) => id);
+
+    await Promise.all(idle.map((id) => this.closeSession(id, "timed out")));
+  }
+
+  private async readJsonBody(req: IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  }
+
+  private sendJsonRpcError(
+    res: ServerResponse,
+    status: number,
+    code: number,
+    message: string
+  ): void {
+    res
+      .writeHead(status, { "Content-Type": "application/json" })
+      .end(
+        JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null })
+      );
+  }
+}
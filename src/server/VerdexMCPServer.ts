@@ -1,16 +1,19 @@
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
-import type { RolesConfiguration } from "../runtime/types.js";
+import type { LaunchConfig, RolesConfiguration } from "../runtime/types.js";
 import { MultiContextBrowser } from "../runtime/MultiContextBrowser.js";
 import { RolesConfigParser } from "./config/RolesConfigParser.js";
+import { LaunchConfigParser } from "./config/LaunchConfigParser.js";
 import { TOOL_DEFINITIONS } from "./tools/ToolDefinitions.js";
 import { BrowserHandlers } from "./handlers/BrowserHandlers.js";
 import { AnalysisHandlers } from "./handlers/AnalysisHandlers.js";
 import { RoleHandlers } from "./handlers/RoleHandlers.js";
+import { RecordingHandlers } from "./handlers/RecordingHandlers.js";
 import {
   StaleRefError,
   UnknownRefError,
@@ -18,17 +21,41 @@ import {
   FrameInjectionError,
   NavigationError,
   AuthenticationError,
+  WaitTimeoutError,
+  DialogPendingError,
 } from "../shared-types.js";
+import type {
+  ConsoleOptions,
+  EmulationSettings,
+  NetworkRequestFilter,
+  RouteOptions,
+  ScreenshotOptions,
+  ScrollOptions,
+  WaitForOptions,
+} from "../shared-types.js";
+
+type ToolResult = {
+  content: Array<{ type: string; [key: string]: unknown }>;
+};
+
+export type VerdexMCPServerOptions = {
+  browser?: MultiContextBrowser; // Shared browser; the server creates (and owns) one if omitted
+  rolesConfig?: RolesConfiguration | null; // Pre-parsed roles; parsed from --role arguments if omitted
+  launchConfig?: LaunchConfig; // Launch settings of an owned browser; parsed from CLI flags if omitted
+};
 
 export class VerdexMCPServer {
   private server: Server;
   private browser: MultiContextBrowser;
+  private ownsBrowser: boolean;
+  private role = "default"; // This session's current role on a shared browser
   private rolesConfig: RolesConfiguration | null = null;
   private browserHandlers: BrowserHandlers;
   private analysisHandlers: AnalysisHandlers;
   private roleHandlers: RoleHandlers;
+  private recordingHandlers: RecordingHandlers;
 
-  constructor() {
+  constructor(options: VerdexMCPServerOptions = {}) {
     this.server = new Server(
       {
         name: "verdex-mcp-server",
@@ -41,8 +68,17 @@ export class VerdexMCPServer {
       }
     );
 
-    this.browser = new MultiContextBrowser();
-    this.rolesConfig = RolesConfigParser.parse();
+    this.browser = options.browser ?? new MultiContextBrowser();
+    this.ownsBrowser = !options.browser;
+    if (this.ownsBrowser) {
+      this.browser.setLaunchConfiguration(
+        options.launchConfig ?? LaunchConfigParser.parse()
+      );
+    }
+    this.rolesConfig =
+      options.rolesConfig !== undefined
+        ? options.rolesConfig
+        : RolesConfigParser.parse();
 
     // Pass roles configuration to bridge if available
     if (this.rolesConfig) {
@@ -50,9 +86,10 @@ export class VerdexMCPServer {
     }
 
     // Initialize handlers
-    this.browserHandlers = new BrowserHandlers(this.browser);
+    this.browserHandlers = new BrowserHandlers(this.browser, this.ownsBrowser);
     this.analysisHandlers = new AnalysisHandlers(this.browser);
     this.roleHandlers = new RoleHandlers(this.browser, this.rolesConfig);
+    this.recordingHandlers = new RecordingHandlers(this.browser);
 
     this.setupHandlers();
   }
@@ -68,81 +105,265 @@ export class VerdexMCPServer {
     // Register tool call handler
     this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
       const { name, arguments: args } = request.params;
+      const respond = async () =>
+        // Dialogs opened or auto-answered meanwhile are reported with any tool
+        this.appendDialogNotices(await this.callTool(name, args));
+      if (this.ownsBrowser) return respond();
+
+      // Sessions take turns on a shared browser, each in its own role
+      const { result, role } = await this.browser.withRole(this.role, respond);
+      this.role = role;
+      return result;
+    });
+  }
 
-      try {
-        switch (name) {
-          // Core browser functionality
-          case "browser_initialize":
-            return await this.browserHandlers.handleInitialize();
-
-          case "browser_navigate":
-            return await this.browserHandlers.handleNavigate(
-              args as { url: string }
-            );
-
-          case "browser_snapshot":
-            return await this.browserHandlers.handleSnapshot();
-
-          case "browser_click":
-            return await this.browserHandlers.handleClick(
-              args as { ref: string }
-            );
-
-          case "browser_type":
-            return await this.browserHandlers.handleType(
-              args as { ref: string; text: string }
-            );
-
-          case "wait_for_browser":
-            return await this.browserHandlers.handleWait(
-              args as { milliseconds?: number }
-            );
-
-          case "browser_close":
-            return await this.browserHandlers.handleClose();
-
-          // Element analysis tools
-          case "resolve_container":
-            return await this.analysisHandlers.handleGetAncestors(
-              args as { ref: string }
-            );
-
-          case "inspect_pattern":
-            return await this.analysisHandlers.handleGetSiblings(
-              args as { ref: string; ancestorLevel: number }
-            );
-
-          case "extract_anchors":
-            return await this.analysisHandlers.handleGetDescendants(
-              args as { ref: string; ancestorLevel: number }
-            );
-
-          // Multi-role functionality
-          case "get_current_role":
-            return await this.roleHandlers.handleGetCurrentRole();
-
-          case "list_current_roles":
-            return await this.roleHandlers.handleListRoles();
-
-          case "select_role":
-            return await this.roleHandlers.handleSelectRole(
-              args as { role: string }
-            );
-
-          default:
-            throw new Error(`Unknown tool: ${name}`);
-        }
-      } catch (error) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: this.formatErrorForLLM(error),
-            },
-          ],
-        };
+  /**
+   * Route a tool call to its handler; errors become LLM-readable text
+   */
+  private async callTool(
+    name: string,
+    args: Record<string, unknown> | undefined
+  ): Promise<ToolResult> {
+    try {
+      switch (name) {
+        // Core browser functionality
+        case "browser_initialize":
+          return await this.browserHandlers.handleInitialize();
+
+        case "browser_navigate":
+          return await this.browserHandlers.handleNavigate(
+            args as { url: string }
+          );
+
+        case "browser_go_back":
+          return await this.browserHandlers.handleGoBack();
+
+        case "browser_go_forward":
+          return await this.browserHandlers.handleGoForward();
+
+        case "browser_reload":
+          return await this.browserHandlers.handleReload();
+
+        case "browser_snapshot":
+          return await this.browserHandlers.handleSnapshot(
+            args as {
+              diff?: boolean;
+              format?: "text" | "json";
+              ref?: string;
+              ancestorLevel?: number;
+              depth?: number;
+              maxLines?: number;
+              maxTokens?: number;
+              viewportOnly?: boolean;
+              viewportMargin?: number;
+            }
+          );
+
+        case "browser_expand_region":
+          return await this.browserHandlers.handleExpandRegion(
+            args as { id: string; maxLines?: number; maxTokens?: number }
+          );
+
+        case "browser_screenshot":
+          return await this.browserHandlers.handleScreenshot(
+            args as ScreenshotOptions
+          );
+
+        case "browser_click":
+          return await this.browserHandlers.handleClick(
+            args as { ref: string; diff?: boolean }
+          );
+
+        case "browser_type":
+          return await this.browserHandlers.handleType(
+            args as { ref: string; text: string; diff?: boolean }
+          );
+
+        case "browser_hover":
+          return await this.browserHandlers.handleHover(
+            args as { ref: string }
+          );
+
+        case "browser_select_option":
+          return await this.browserHandlers.handleSelectOption(
+            args as { ref: string; values: string[] }
+          );
+
+        case "browser_press_key":
+          return await this.browserHandlers.handlePressKey(
+            args as { key: string; ref?: string }
+          );
+
+        case "browser_scroll":
+          return await this.browserHandlers.handleScroll(args as ScrollOptions);
+
+        case "browser_list_tabs":
+          return await this.browserHandlers.handleListTabs();
+
+        case "browser_switch_tab":
+          return await this.browserHandlers.handleSwitchTab(
+            args as { id: string }
+          );
+
+        case "browser_close_tab":
+          return await this.browserHandlers.handleCloseTab(
+            args as { id?: string }
+          );
+
+        case "browser_console":
+          return await this.browserHandlers.handleConsole(
+            args as ConsoleOptions
+          );
+
+        case "browser_network_requests":
+          return await this.browserHandlers.handleNetworkRequests(
+            args as NetworkRequestFilter & { includeBodies?: boolean }
+          );
+
+        case "browser_route":
+          return await this.browserHandlers.handleRoute(args as RouteOptions);
+
+        case "browser_unroute":
+          return await this.browserHandlers.handleUnroute(
+            args as { id?: string; url?: string }
+          );
+
+        case "browser_emulate":
+          return await this.browserHandlers.handleEmulate(
+            args as EmulationSettings & { reset?: boolean }
+          );
+
+        case "browser_handle_dialog":
+          return await this.browserHandlers.handleHandleDialog(
+            args as { action: "accept" | "dismiss"; promptText?: string }
+          );
+
+        case "browser_wait_for":
+          return await this.browserHandlers.handleWaitFor(
+            args as WaitForOptions
+          );
+
+        case "wait_for_browser":
+          return await this.browserHandlers.handleWait(
+            args as { milliseconds?: number }
+          );
+
+        case "browser_close":
+          return await this.browserHandlers.handleClose();
+
+        // Element analysis tools
+        case "resolve_container":
+          return await this.analysisHandlers.handleGetAncestors(
+            args as { ref: string }
+          );
+
+        case "inspect_pattern":
+          return await this.analysisHandlers.handleGetSiblings(
+            args as { ref: string; ancestorLevel: number }
+          );
+
+        case "extract_anchors":
+          return await this.analysisHandlers.handleGetDescendants(
+            args as { ref: string; ancestorLevel: number }
+          );
+
+        case "generate_locator":
+          return await this.analysisHandlers.handleGenerateLocator(
+            args as { ref: string }
+          );
+
+        case "validate_locator":
+          return await this.analysisHandlers.handleValidateLocator(
+            args as { locator: string }
+          );
+
+        // Session recording
+        case "start_recording":
+          return await this.recordingHandlers.handleStartRecording(
+            args as { clear?: boolean }
+          );
+
+        case "stop_recording":
+          return await this.recordingHandlers.handleStopRecording();
+
+        case "export_test":
+          return await this.recordingHandlers.handleExportTest(
+            args as {
+              testName?: string;
+              outputPath?: string;
+              clear?: boolean;
+            }
+          );
+
+        case "export_har":
+          return await this.recordingHandlers.handleExportHar(
+            args as {
+              outputPath: string;
+              url?: string;
+              status?: string;
+              resourceType?: string;
+              includeBodies?: boolean;
+            }
+          );
+
+        // Multi-role functionality
+        case "get_current_role":
+          return await this.roleHandlers.handleGetCurrentRole();
+
+        case "list_current_roles":
+          return await this.roleHandlers.handleListRoles();
+
+        case "select_role":
+          return await this.roleHandlers.handleSelectRole(
+            args as { role: string }
+          );
+
+        case "save_auth_state":
+          return await this.roleHandlers.handleSaveAuthState(
+            args as { path?: string }
+          );
+
+        default:
+          throw new Error(`Unknown tool: ${name}`);
       }
-    });
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: this.formatErrorForLLM(error),
+          },
+        ],
+      };
+    }
+  }
+
+  /**
+   * Add a note about JavaScript dialogs of the current role that the agent
+   * has not heard about yet: ones left open, and ones the role's dialog
+   * policy answered automatically.
+   */
+  private async appendDialogNotices(result: ToolResult): Promise<ToolResult> {
+    const { pending, answered } = await this.browser.takeDialogNotices();
+    const notices = [
+      ...pending.map(
+        (dialog) =>
+          `💬 ${dialog.type} dialog open in tab ${dialog.tabId}: "${
+            dialog.message
+          }"${
+            dialog.defaultValue ? ` (default: "${dialog.defaultValue}")` : ""
+          } - the page is blocked until browser_handle_dialog accepts or dismisses it`
+      ),
+      ...answered.map(
+        (dialog) =>
+          `💬 ${dialog.type} dialog "${dialog.message}" was ${dialog.outcome} automatically (dialog policy)`
+      ),
+    ];
+    if (notices.length === 0) return result;
+
+    return {
+      content: [...result.content, { type: "text", text: notices.join("\n") }],
+    };
   }
 
   /**
@@ -276,6 +497,39 @@ Possible causes:
 • Try a different URL or retry after a moment`;
     }
 
+    // An open dialog blocks the page until it is answered
+    if (error instanceof DialogPendingError) {
+      return `❌ Page Blocked by a Dialog
+
+Role: ${error.role}
+Tab: ${error.dialog.tabId}
+Dialog: ${error.dialog.type} - "${error.dialog.message}"
+
+The page cannot be read or interacted with until the dialog is answered.
+
+🔧 Action Required:
+• Call browser_handle_dialog({ action: "accept" }) or ({ action: "dismiss" })
+• For prompt dialogs, pass promptText with the text to enter
+• Then retry your previous action`;
+    }
+
+    // Wait condition not met before the deadline
+    if (error instanceof WaitTimeoutError) {
+      return `❌ Wait Timed Out
+
+Waited ${error.timeout}ms for ${error.condition}
+
+Possible causes:
+• The action that should trigger the change did not happen
+• The text or URL differs slightly from what you expected
+• The page is slower than the timeout allows
+
+🔧 Action Required:
+• Call browser_snapshot() to see the current page state
+• Adjust the condition to match what is actually on the page
+• Retry with a larger timeout if the page is still loading`;
+    }
+
     // Generic error fallback
     if (error instanceof Error) {
       return `❌ Error
@@ -299,7 +553,24 @@ This is an unexpected error type. Please report this issue with context about wh
 
   async run() {
     const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+    await this.connect(transport);
     console.error("Multi-Role Browser MCP Server running on stdio");
   }
+
+  /**
+   * Serve MCP requests over any transport (one transport per server instance)
+   */
+  async connect(transport: Transport) {
+    await this.server.connect(transport);
+  }
+
+  /**
+   * Close the transport and, unless it was shared, the browser
+   */
+  async close() {
+    await this.server.close();
+    if (this.ownsBrowser) {
+      await this.browser.close();
+    }
+  }
 }
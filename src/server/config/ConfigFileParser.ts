@@ -0,0 +1,397 @@
+import { existsSync, readFileSync } from "fs";
+import { dirname, extname, resolve } from "path";
+import yaml from "js-yaml";
+import type { RoleConfig } from "../../runtime/types.js";
+import { DeviceEmulation } from "../../runtime/DeviceEmulation.js";
+import type { ColorScheme, DialogPolicy } from "../../shared-types.js";
+
+/**
+ * Error thrown when a --config file cannot be read or fails validation.
+ * Lists every problem at once so the file can be fixed in one pass.
+ */
+export class ConfigValidationError extends Error {
+  constructor(public configPath: string, public problems: string[]) {
+    super(
+      `Invalid config file ${configPath}:\n${problems
+        .map((problem) => `  • ${problem}`)
+        .join("\n")}`
+    );
+    this.name = "ConfigValidationError";
+  }
+}
+
+const TOP_LEVEL_KEYS = ["$schema", "roles"];
+const ROLE_KEYS = [
+  "authPath",
+  "defaultUrl",
+  "authRequired",
+  "viewport",
+  "locale",
+  "userAgent",
+  "extraHTTPHeaders",
+  "dialogPolicy",
+  "attachTo",
+  "device",
+  "deviceScaleFactor",
+  "isMobile",
+  "hasTouch",
+  "timezone",
+  "geolocation",
+  "colorScheme",
+];
+const DIALOG_POLICIES = ["accept", "dismiss", "manual"];
+const COLOR_SCHEMES = ["light", "dark", "no-preference"];
+
+/**
+ * Loads roles from a JSON or YAML config file (--config verdex.config.json).
+ *
+ * Example (YAML):
+ *   roles:
+ *     admin:
+ *       authPath: ./auth/admin.json      # relative to the config file
+ *       defaultUrl: https://admin.example.com
+ *       authRequired: true
+ *       viewport: { width: 1440, height: 900 }
+ *       locale: de-DE
+ *       extraHTTPHeaders: { X-Test-Run: "1" }
+ *       dialogPolicy: accept             # answer alert/confirm/prompt automatically
+ *     shopper:
+ *       device: iPhone 15                # preset: viewport, scale, mobile, touch, UA
+ *       timezone: America/New_York
+ *       geolocation: { latitude: 40.71, longitude: -74.01 }
+ *       colorScheme: dark
+ *     developer:
+ *       attachTo: "**\/localhost:3000/**"   # open page of a --cdp-endpoint browser
+ */
+export class ConfigFileParser {
+  /**
+   * Read, parse and validate a config file.
+   * @param configPath - Path to a .json, .yaml or .yml file
+   * @returns Validated roles, with authPath resolved against the file's directory
+   * @throws ConfigValidationError listing every problem found
+   */
+  static load(configPath: string): Record<string, RoleConfig> {
+    const absolutePath = resolve(configPath);
+
+    let raw: string;
+    try {
+      raw = readFileSync(absolutePath, "utf8");
+    } catch (error) {
+      throw new ConfigValidationError(configPath, [
+        `cannot read file: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      ]);
+    }
+
+    let data: unknown;
+    try {
+      const ext = extname(absolutePath).toLowerCase();
+      data =
+        ext === ".yaml" || ext === ".yml" ? yaml.load(raw) : JSON.parse(raw);
+    } catch (error) {
+      throw new ConfigValidationError(configPath, [
+        `cannot parse file: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      ]);
+    }
+
+    const problems: string[] = [];
+    const roles = this.validate(data, problems);
+    if (problems.length > 0) {
+      throw new ConfigValidationError(configPath, problems);
+    }
+
+    // Auth files are relative to the config file, not the working directory
+    const baseDir = dirname(absolutePath);
+    for (const [name, role] of Object.entries(roles)) {
+      if (role.authPath) {
+        role.authPath = resolve(baseDir, role.authPath);
+        if (!existsSync(role.authPath)) {
+          console.warn(
+            `⚠️ Warning: Auth file not found for role "${name}": ${role.authPath}`
+          );
+        }
+      }
+    }
+
+    return roles;
+  }
+
+  private static validate(
+    data: unknown,
+    problems: string[]
+  ): Record<string, RoleConfig> {
+    if (!this.isObject(data)) {
+      problems.push("expected an object with a `roles` section");
+      return {};
+    }
+
+    for (const key of Object.keys(data)) {
+      if (!TOP_LEVEL_KEYS.includes(key)) {
+        problems.push(
+          `${key}: unknown key (expected ${TOP_LEVEL_KEYS.join(", ")})`
+        );
+      }
+    }
+
+    if (!this.isObject(data.roles)) {
+      problems.push("roles: expected an object mapping role names to settings");
+      return {};
+    }
+
+    const roles: Record<string, RoleConfig> = {};
+    for (const [name, value] of Object.entries(data.roles)) {
+      const role = this.validateRole(`roles.${name}`, value, problems);
+      if (role) roles[name] = role;
+    }
+    return roles;
+  }
+
+  private static validateRole(
+    path: string,
+    value: unknown,
+    problems: string[]
+  ): RoleConfig | null {
+    if (!this.isObject(value)) {
+      problems.push(`${path}: expected an object`);
+      return null;
+    }
+
+    for (const key of Object.keys(value)) {
+      if (!ROLE_KEYS.includes(key)) {
+        problems.push(
+          `${path}.${key}: unknown key (expected ${ROLE_KEYS.join(", ")})`
+        );
+      }
+    }
+
+    const role: RoleConfig = {};
+
+    if (value.authPath !== undefined) {
+      if (typeof value.authPath !== "string" || value.authPath.trim() === "") {
+        problems.push(`${path}.authPath: expected a non-empty string`);
+      } else {
+        role.authPath = value.authPath;
+      }
+    }
+
+    if (value.defaultUrl !== undefined) {
+      if (
+        typeof value.defaultUrl !== "string" ||
+        !this.isUrl(value.defaultUrl)
+      ) {
+        problems.push(
+          `${path}.defaultUrl: expected an absolute URL (e.g. "https://app.example.com")`
+        );
+      } else {
+        role.defaultUrl = value.defaultUrl;
+      }
+    }
+
+    if (value.authRequired !== undefined) {
+      if (typeof value.authRequired !== "boolean") {
+        problems.push(`${path}.authRequired: expected true or false`);
+      } else if (value.authRequired && value.authPath === undefined) {
+        problems.push(`${path}.authRequired: requires authPath`);
+      } else {
+        role.authRequired = value.authRequired;
+      }
+    }
+
+    if (value.viewport !== undefined) {
+      const viewport = value.viewport;
+      if (
+        !this.isObject(viewport) ||
+        !this.isPositiveInteger(viewport.width) ||
+        !this.isPositiveInteger(viewport.height) ||
+        Object.keys(viewport).some((k) => k !== "width" && k !== "height")
+      ) {
+        problems.push(
+          `${path}.viewport: expected { width, height } with positive integers`
+        );
+      } else {
+        role.viewport = {
+          width: viewport.width as number,
+          height: viewport.height as number,
+        };
+      }
+    }
+
+    if (value.locale !== undefined) {
+      if (typeof value.locale !== "string" || !this.isLocale(value.locale)) {
+        problems.push(
+          `${path}.locale: expected a BCP 47 language tag (e.g. "en-US")`
+        );
+      } else {
+        role.locale = value.locale;
+      }
+    }
+
+    if (value.userAgent !== undefined) {
+      if (
+        typeof value.userAgent !== "string" ||
+        value.userAgent.trim() === ""
+      ) {
+        problems.push(`${path}.userAgent: expected a non-empty string`);
+      } else {
+        role.userAgent = value.userAgent;
+      }
+    }
+
+    if (value.device !== undefined) {
+      const device =
+        typeof value.device === "string"
+          ? DeviceEmulation.findDevice(value.device)
+          : undefined;
+      if (!device) {
+        problems.push(
+          `${path}.device: expected a device preset (e.g. "iPhone 15", "Pixel 5", "Desktop HiDPI")`
+        );
+      } else {
+        role.device = device;
+      }
+    }
+
+    if (value.deviceScaleFactor !== undefined) {
+      if (
+        typeof value.deviceScaleFactor !== "number" ||
+        value.deviceScaleFactor <= 0
+      ) {
+        problems.push(`${path}.deviceScaleFactor: expected a positive number`);
+      } else {
+        role.deviceScaleFactor = value.deviceScaleFactor;
+      }
+    }
+
+    for (const key of ["isMobile", "hasTouch"] as const) {
+      if (value[key] === undefined) continue;
+      if (typeof value[key] !== "boolean") {
+        problems.push(`${path}.${key}: expected true or false`);
+      } else {
+        role[key] = value[key] as boolean;
+      }
+    }
+
+    if (value.timezone !== undefined) {
+      if (
+        typeof value.timezone !== "string" ||
+        !DeviceEmulation.isTimezone(value.timezone)
+      ) {
+        problems.push(
+          `${path}.timezone: expected an IANA time zone (e.g. "Europe/Berlin")`
+        );
+      } else {
+        role.timezone = value.timezone;
+      }
+    }
+
+    if (value.geolocation !== undefined) {
+      const geolocation = value.geolocation;
+      if (
+        !this.isObject(geolocation) ||
+        !this.isInRange(geolocation.latitude, -90, 90) ||
+        !this.isInRange(geolocation.longitude, -180, 180) ||
+        (geolocation.accuracy !== undefined &&
+          !this.isInRange(geolocation.accuracy, 0, Infinity)) ||
+        Object.keys(geolocation).some(
+          (k) => !["latitude", "longitude", "accuracy"].includes(k)
+        )
+      ) {
+        problems.push(
+          `${path}.geolocation: expected { latitude, longitude, accuracy? } with latitude -90..90 and longitude -180..180`
+        );
+      } else {
+        role.geolocation = {
+          latitude: geolocation.latitude as number,
+          longitude: geolocation.longitude as number,
+        };
+        if (geolocation.accuracy !== undefined) {
+          role.geolocation.accuracy = geolocation.accuracy as number;
+        }
+      }
+    }
+
+    if (value.colorScheme !== undefined) {
+      if (
+        typeof value.colorScheme !== "string" ||
+        !COLOR_SCHEMES.includes(value.colorScheme)
+      ) {
+        problems.push(
+          `${path}.colorScheme: expected one of ${COLOR_SCHEMES.join(", ")}`
+        );
+      } else {
+        role.colorScheme = value.colorScheme as ColorScheme;
+      }
+    }
+
+    if (value.extraHTTPHeaders !== undefined) {
+      const headers = value.extraHTTPHeaders;
+      if (
+        !this.isObject(headers) ||
+        Object.values(headers).some((v) => typeof v !== "string")
+      ) {
+        problems.push(
+          `${path}.extraHTTPHeaders: expected an object of header names to string values`
+        );
+      } else {
+        role.extraHTTPHeaders = headers as Record<string, string>;
+      }
+    }
+
+    if (value.dialogPolicy !== undefined) {
+      if (
+        typeof value.dialogPolicy !== "string" ||
+        !DIALOG_POLICIES.includes(value.dialogPolicy)
+      ) {
+        problems.push(
+          `${path}.dialogPolicy: expected one of ${DIALOG_POLICIES.join(", ")}`
+        );
+      } else {
+        role.dialogPolicy = value.dialogPolicy as DialogPolicy;
+      }
+    }
+
+    if (value.attachTo !== undefined) {
+      if (typeof value.attachTo !== "string" || value.attachTo.trim() === "") {
+        problems.push(
+          `${path}.attachTo: expected a URL pattern of an open page (glob, /regex/ or substring)`
+        );
+      } else {
+        role.attachTo = value.attachTo;
+      }
+    }
+
+    return role;
+  }
+
+  private static isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+  }
+
+  private static isPositiveInteger(value: unknown): boolean {
+    return typeof value === "number" && Number.isInteger(value) && value > 0;
+  }
+
+  private static isInRange(value: unknown, min: number, max: number): boolean {
+    return typeof value === "number" && value >= min && value <= max;
+  }
+
+  private static isUrl(value: string): boolean {
+    try {
+      new URL(value);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private static isLocale(value: string): boolean {
+    try {
+      return Intl.getCanonicalLocales(value).length === 1;
+    } catch {
+      return false;
+    }
+  }
+}
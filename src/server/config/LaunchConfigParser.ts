@@ -0,0 +1,102 @@
+import type { LaunchConfig } from "../../runtime/types.js";
+
+const CHANNELS = ["chrome", "chrome-beta", "chrome-dev", "chrome-canary"];
+
+export class LaunchConfigParser {
+  /**
+   * Parse --cdp-endpoint, --browser-url, --headed, --executable-path, --channel,
+   * --browser-args, --viewport, --slow-mo, --devtools and --user-data-dir.
+   * Only flags that are present end up in the result, so VERDEX_* environment
+   * variables can fill the rest. Throws on invalid values, like the transport flags.
+   */
+  static parse(args: string[] = process.argv): LaunchConfig {
+    const config: LaunchConfig = {};
+
+    // Connect to a running browser instead of launching one
+    const cdpEndpoint = this.getValue(args, "--cdp-endpoint");
+    const browserURL = this.getValue(args, "--browser-url");
+    if (cdpEndpoint && browserURL) {
+      throw new Error("Use either --cdp-endpoint or --browser-url, not both");
+    }
+    if (cdpEndpoint) {
+      if (!/^wss?:\/\//.test(cdpEndpoint)) {
+        throw new Error(
+          `Invalid --cdp-endpoint "${cdpEndpoint}": expected a ws:// or wss:// URL`
+        );
+      }
+      config.cdpEndpoint = cdpEndpoint;
+    }
+    if (browserURL) {
+      if (!/^https?:\/\//.test(browserURL)) {
+        throw new Error(
+          `Invalid --browser-url "${browserURL}": expected an http:// or https:// URL`
+        );
+      }
+      config.browserURL = browserURL;
+    }
+
+    if (args.includes("--headed")) config.headless = false;
+    if (args.includes("--devtools")) config.devtools = true;
+
+    const executablePath = this.getValue(args, "--executable-path");
+    const channel = this.getValue(args, "--channel");
+    if (executablePath && channel) {
+      throw new Error("Use either --executable-path or --channel, not both");
+    }
+    if (executablePath) config.executablePath = executablePath;
+    if (channel) {
+      if (!CHANNELS.includes(channel)) {
+        throw new Error(
+          `Invalid --channel "${channel}": expected ${CHANNELS.join(", ")}`
+        );
+      }
+      config.channel = channel as LaunchConfig["channel"];
+    }
+
+    // The value is itself a list of switches, so it may start with "--"
+    const browserArgs = this.getValue(args, "--browser-args", true);
+    if (browserArgs) config.args = browserArgs.split(/\s+/).filter(Boolean);
+
+    const viewport = this.getValue(args, "--viewport");
+    if (viewport === "none") {
+      config.viewport = null;
+    } else if (viewport !== undefined) {
+      const size = viewport.match(/^(\d+)x(\d+)$/);
+      if (!size || Number(size[1]) === 0 || Number(size[2]) === 0) {
+        throw new Error(
+          `Invalid --viewport "${viewport}": expected <width>x<height> or "none"`
+        );
+      }
+      config.viewport = { width: Number(size[1]), height: Number(size[2]) };
+    }
+
+    const slowMo = this.getValue(args, "--slow-mo");
+    if (slowMo !== undefined) {
+      const value = Number(slowMo);
+      if (!Number.isInteger(value) || value < 0) {
+        throw new Error(`Invalid --slow-mo "${slowMo}"`);
+      }
+      config.slowMo = value;
+    }
+
+    const userDataDir = this.getValue(args, "--user-data-dir");
+    if (userDataDir) config.userDataDir = userDataDir;
+
+    return config;
+  }
+
+  private static getValue(
+    args: string[],
+    flag: string,
+    allowDashes = false
+  ): string | undefined {
+    const index = args.indexOf(flag);
+    if (index === -1) return undefined;
+
+    const value = args[index + 1];
+    if (value === undefined || (!allowDashes && value.startsWith("--"))) {
+      throw new Error(`Missing value for ${flag}`);
+    }
+    return value;
+  }
+}
@@ -1,11 +1,53 @@
 import { existsSync } from "fs";
 import type { RolesConfiguration, RoleConfig } from "../../runtime/types.js";
+import { ConfigFileParser } from "./ConfigFileParser.js";
 
 export class RolesConfigParser {
-  static parse(): RolesConfiguration | null {
+  /**
+   * Build the roles configuration from --config and --role arguments.
+   *
+   * Precedence: a --role argument overrides the authPath (and defaultUrl, if
+   * given) of the config file's role with the same name; settings only the
+   * file can express (authRequired, viewport, ...) are kept.
+   *
+   * @throws ConfigValidationError if the --config file is missing or invalid
+   */
+  static parse(args: string[] = process.argv): RolesConfiguration | null {
+    const configIndex = args.indexOf("--config");
+    const configPath = configIndex !== -1 ? args[configIndex + 1] : undefined;
+    if (configIndex !== -1 && (!configPath || configPath.startsWith("--"))) {
+      throw new Error("Missing value for --config");
+    }
+
+    const fileRoles = configPath ? ConfigFileParser.load(configPath) : {};
+    if (configPath) {
+      console.log(
+        `📄 Loaded config file ${configPath}: ${
+          Object.keys(fileRoles).join(", ") || "no roles"
+        }`
+      );
+    }
+
+    const cliRoles = this.parseRoleArgs(args)?.roles ?? {};
+
+    const roles: Record<string, RoleConfig> = { ...fileRoles };
+    for (const [name, cliRole] of Object.entries(cliRoles)) {
+      roles[name] = {
+        ...fileRoles[name],
+        authPath: cliRole.authPath,
+        defaultUrl: cliRole.defaultUrl ?? fileRoles[name]?.defaultUrl,
+      };
+    }
+
+    return Object.keys(roles).length > 0 || configPath ? { roles } : null;
+  }
+
+  /**
+   * Parse --role <name> <auth_path> [default_url] arguments
+   */
+  private static parseRoleArgs(args: string[]): RolesConfiguration | null {
     try {
       const roles: Record<string, RoleConfig> = {};
-      const args = process.argv;
 
       // Parse --role <name> <auth_path> [default_url] arguments
       for (let i = 0; i < args.length; i++) {
@@ -0,0 +1,87 @@
+/**
+ * How the MCP server is exposed.
+ * - "stdio": one client, spawned by the MCP host (default)
+ * - "http": Streamable HTTP on /mcp, many clients, each with its own session
+ */
+export type TransportConfig =
+  | { type: "stdio" }
+  | {
+      type: "http";
+      port: number;
+      host: string;
+      sharedBrowser: boolean; // One MultiContextBrowser for all sessions
+      idleTimeoutMs: number; // Close sessions without requests for this long
+    };
+
+const DEFAULT_PORT = 3000;
+const DEFAULT_HOST = "127.0.0.1";
+const DEFAULT_IDLE_TIMEOUT_SECONDS = 30 * 60;
+
+export class TransportConfigParser {
+  /**
+   * Parse --transport, --port, --host, --shared-browser and --idle-timeout.
+   * Throws on invalid values - a server that silently falls back to another
+   * transport or port is harder to debug than one that refuses to start.
+   */
+  static parse(args: string[] = process.argv): TransportConfig {
+    const transport = this.getValue(args, "--transport") ?? "stdio";
+
+    if (transport === "stdio") {
+      return { type: "stdio" };
+    }
+
+    if (transport !== "http") {
+      throw new Error(
+        `Invalid --transport "${transport}": expected "stdio" or "http"`
+      );
+    }
+
+    const port = this.parseInteger(
+      args,
+      "--port",
+      DEFAULT_PORT,
+      (value) => value >= 0 && value <= 65535
+    );
+    const idleTimeoutSeconds = this.parseInteger(
+      args,
+      "--idle-timeout",
+      DEFAULT_IDLE_TIMEOUT_SECONDS,
+      (value) => value > 0
+    );
+
+    return {
+      type: "http",
+      port,
+      host: this.getValue(args, "--host") ?? DEFAULT_HOST,
+      sharedBrowser: args.includes("--shared-browser"),
+      idleTimeoutMs: idleTimeoutSeconds * 1000,
+    };
+  }
+
+  private static getValue(args: string[], flag: string): string | undefined {
+    const index = args.indexOf(flag);
+    if (index === -1) return undefined;
+
+    const value = args[index + 1];
+    if (value === undefined || value.startsWith("--")) {
+      throw new Error(`Missing value for ${flag}`);
+    }
+    return value;
+  }
+
+  private static parseInteger(
+    args: string[],
+    flag: string,
+    defaultValue: number,
+    isValid: (value: number) => boolean
+  ): number {
+    const raw = this.getValue(args, flag);
+    if (raw === undefined) return defaultValue;
+
+    const value = Number(raw);
+    if (!Number.isInteger(value) || !isValid(value)) {
+      throw new Error(`Invalid ${flag} "${raw}"`);
+    }
+    return value;
+  }
+}
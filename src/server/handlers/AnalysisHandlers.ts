@@ -3,6 +3,8 @@ import type {
   ContainerInfo,
   PatternInfo,
   AnchorInfo,
+  LocatorCandidate,
+  LocatorMatch,
 } from "../../shared-types.js";
 
 export class AnalysisHandlers {
@@ -234,4 +236,92 @@ export class AnalysisHandlers {
       ],
     };
   }
+
+  async handleGenerateLocator(args: { ref: string }) {
+    const { ref } = args;
+    // Note: Errors are thrown and caught by global MCP error handler
+    const result = await this.browser.generate_locator(ref);
+
+    let output = `Locator candidates for element ${ref} (Role: ${this.browser.getCurrentRole()}):\n\n`;
+    output += `🎯 Target: ${result.role}${
+      result.name ? ` "${result.name}"` : ""
+    }\n\n`;
+
+    if (result.candidates.length === 0) {
+      output += `📍 No locator matched the element. Use resolve_container to find a stable container.\n`;
+    } else {
+      result.candidates.forEach(
+        (candidate: LocatorCandidate, index: number) => {
+          const status = candidate.unique
+            ? "✅ unique"
+            : `⚠️ ${candidate.matchCount} matches`;
+          output += `${index + 1}. ${candidate.locator}\n`;
+          output += `   Strategy: ${candidate.strategy} | ${status}\n`;
+        }
+      );
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: output,
+        },
+      ],
+    };
+  }
+
+  async handleValidateLocator(args: { locator: string }) {
+    const { locator } = args;
+    // Note: Errors are thrown and caught by global MCP error handler
+    const result = await this.browser.validate_locator(locator);
+
+    let output = `Locator validation (Role: ${this.browser.getCurrentRole()}):\n`;
+    output += `   ${result.locator}\n\n`;
+
+    if (result.matchCount === 0) {
+      output += `❌ No matches\n`;
+    } else if (result.matchCount === 1) {
+      output += `✅ Unique: matches exactly 1 element\n`;
+    } else {
+      output += `⚠️ Ambiguous: matches ${result.matchCount} elements\n`;
+    }
+
+    if (result.matches.length > 0) {
+      output += `\n🎯 Matches:\n`;
+      result.matches.forEach((match: LocatorMatch) => {
+        output += `   ${match.ref ?? "(no ref)"} ${match.role}${
+          match.name ? ` "${match.name}"` : ""
+        } <${match.tagName}>\n`;
+      });
+      if (result.matchCount > result.matches.length) {
+        output += `   ... and ${
+          result.matchCount - result.matches.length
+        } more\n`;
+      }
+    }
+
+    if (result.steps.length > 1 || result.matchCount === 0) {
+      output += `\n📋 Matches per step:\n`;
+      result.steps.forEach((step) => {
+        output += `   ${step.matchCount} ← ${step.locator}\n`;
+      });
+    }
+
+    if (result.ambiguity && result.ambiguity.length > 0) {
+      output += `\n🤔 Why it is ambiguous:\n`;
+      result.ambiguity.forEach((reason) => {
+        output += `   • ${reason}\n`;
+      });
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: output,
+        },
+      ],
+    };
+  }
 }
@@ -1,7 +1,23 @@
 import type { MultiContextBrowser } from "../../runtime/MultiContextBrowser.js";
+import type {
+  ConsoleOptions,
+  EmulationSettings,
+  NetworkRequestFilter,
+  RouteInfo,
+  RouteOptions,
+  ScreenshotOptions,
+  ScrollOptions,
+  Snapshot,
+  TabInfo,
+  WaitForOptions,
+} from "../../shared-types.js";
+import { SnapshotDiffer } from "../../utils/SnapshotDiffer.js";
 
 export class BrowserHandlers {
-  constructor(private browser: MultiContextBrowser) {}
+  constructor(
+    private browser: MultiContextBrowser,
+    private ownsBrowser = true // False when other sessions share the browser
+  ) {}
 
   async handleInitialize() {
     await this.browser.initialize();
@@ -9,7 +25,9 @@ export class BrowserHandlers {
       content: [
         {
           type: "text",
-          text: "Multi-role browser initialized successfully",
+          text: this.browser.isConnected()
+            ? "Multi-role browser connected to the running browser successfully"
+            : "Multi-role browser initialized successfully",
         },
       ],
     };
@@ -18,14 +36,50 @@ export class BrowserHandlers {
   async handleNavigate(args: { url: string }) {
     const { url } = args;
     const snapshot = await this.browser.navigate(url);
+    return this.navigationResponse(
+      snapshot,
+      "Navigation",
+      `Navigated to ${url}`
+    );
+  }
+
+  async handleGoBack() {
+    const snapshot = await this.browser.goBack();
+    return this.navigationResponse(snapshot, "Back navigation", "Went back");
+  }
+
+  async handleGoForward() {
+    const snapshot = await this.browser.goForward();
+    return this.navigationResponse(
+      snapshot,
+      "Forward navigation",
+      "Went forward"
+    );
+  }
+
+  async handleReload() {
+    const snapshot = await this.browser.reload();
+    return this.navigationResponse(snapshot, "Reload", "Reloaded the page");
+  }
 
+  /**
+   * Navigation details plus the page snapshot
+   * @param label - Names the navigation in the header ("Navigation successful")
+   * @param fallback - Header for snapshots without navigation metadata
+   */
+  private async navigationResponse(
+    snapshot: Snapshot,
+    label: string,
+    fallback: string
+  ) {
+    const hint = await this.consoleHint();
     let responseText = "";
 
     if (snapshot.navigation) {
       const nav = snapshot.navigation;
-      responseText = `Navigation ${
+      responseText = `${label} ${
         nav.success ? "successful" : "failed"
-      } (Role: ${this.browser.getCurrentRole()})
+      } (Role: ${this.browser.getCurrentRole()})${hint}
 
 📍 Navigation Details:
    Requested URL: ${nav.requestedUrl}
@@ -54,7 +108,7 @@ ${snapshot.text}
 Found ${snapshot.elementCount} interactive elements`;
     } else {
       // Fallback for snapshots without navigation metadata
-      responseText = `Navigated to ${url} (Role: ${this.browser.getCurrentRole()})
+      responseText = `${fallback} (Role: ${this.browser.getCurrentRole()})${hint}
 
 Page Snapshot:
 ${snapshot.text}
@@ -72,10 +126,81 @@ Found ${snapshot.elementCount} interactive elements`;
     };
   }
 
-  async handleSnapshot() {
-    const snapshot = await this.browser.snapshot();
+  async handleSnapshot(
+    args: {
+      diff?: boolean;
+      format?: "text" | "json";
+      ref?: string;
+      ancestorLevel?: number;
+      depth?: number;
+      maxLines?: number;
+      maxTokens?: number;
+      viewportOnly?: boolean;
+      viewportMargin?: number;
+    } = {}
+  ) {
+    const { diff, format, ...scope } = args;
+    if (
+      diff &&
+      (scope.ref ||
+        scope.depth !== undefined ||
+        scope.maxLines !== undefined ||
+        scope.maxTokens !== undefined ||
+        scope.viewportOnly ||
+        scope.viewportMargin !== undefined)
+    ) {
+      throw new Error(
+        "diff compares full snapshots - it cannot be combined with ref, depth, maxLines, maxTokens, viewportOnly or viewportMargin"
+      );
+    }
+
+    if (format === "json") {
+      const snapshot = diff
+        ? await this.browser.snapshotDiff()
+        : await this.browser.snapshot(scope);
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({
+              role: this.browser.getCurrentRole(),
+              url: snapshot.pageContext?.url,
+              title: snapshot.pageContext?.title,
+              elementCount: snapshot.elementCount,
+              tree: snapshot.tree,
+              ...(diff ? { diff: snapshot.diff ?? null } : {}),
+              ...(snapshot.collapsedRegions
+                ? { collapsedRegions: snapshot.collapsedRegions }
+                : {}),
+              ...(snapshot.warnings ? { warnings: snapshot.warnings } : {}),
+            }),
+          },
+        ],
+      };
+    }
+
+    if (diff) {
+      const snapshot = await this.browser.snapshotDiff();
+      return {
+        content: [
+          {
+            type: "text",
+            text: this.formatSnapshotDiff(snapshot),
+          },
+        ],
+      };
+    }
+
+    const snapshot = await this.browser.snapshot(scope);
 
-    let responseText = `📄 Current Page (Role: ${this.browser.getCurrentRole()}):\n`;
+    const target = scope.ref
+      ? scope.ancestorLevel
+        ? `Container of ${scope.ref} (level ${scope.ancestorLevel})`
+        : `Element ${scope.ref}`
+      : scope.viewportOnly
+      ? "Current Viewport"
+      : "Current Page";
+    let responseText = `📄 ${target} (Role: ${this.browser.getCurrentRole()}):\n`;
 
     if (snapshot.pageContext) {
       responseText += `   URL: ${snapshot.pageContext.url}\n`;
@@ -83,6 +208,7 @@ Found ${snapshot.elementCount} interactive elements`;
     }
 
     responseText += `${snapshot.text}\n\nFound ${snapshot.elementCount} interactive elements`;
+    responseText += this.formatCollapsedHint(snapshot);
 
     return {
       content: [
@@ -94,27 +220,190 @@ Found ${snapshot.elementCount} interactive elements`;
     };
   }
 
-  async handleClick(args: { ref: string }) {
-    const { ref } = args;
-    await this.browser.click(ref);
+  async handleExpandRegion(args: {
+    id: string;
+    maxLines?: number;
+    maxTokens?: number;
+  }) {
+    const { id, ...budget } = args;
+    const snapshot = await this.browser.expandRegion(id, budget);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `📂 Region ${id} (Role: ${this.browser.getCurrentRole()}):\n\n${
+            snapshot.text
+          }\n\nFound ${
+            snapshot.elementCount
+          } interactive elements${this.formatCollapsedHint(snapshot)}`,
+        },
+      ],
+    };
+  }
+
+  private formatCollapsedHint(snapshot: Snapshot): string {
+    if (!snapshot.collapsedRegions?.length) return "";
+    return `\n🗜️ Collapsed ${
+      snapshot.collapsedRegions.length
+    } regions to fit the budget (${snapshot.collapsedRegions.join(
+      ", "
+    )}) - use browser_expand_region({ id }) to see one`;
+  }
+
+  async handleScroll(args: ScrollOptions = {}) {
+    const position = await this.browser.scroll(args);
+    const snapshot = await this.browser.snapshot({ viewportOnly: true });
+
+    const scrolled = args.ref
+      ? `Scrolled ${args.ref} into view`
+      : args.to
+      ? `Scrolled to the ${args.to}`
+      : `Scrolled ${args.direction ?? "down"} ${args.pages ?? 1} ${
+          (args.pages ?? 1) === 1 ? "page" : "pages"
+        }`;
+    const edge = position.atBottom
+      ? " - reached the bottom"
+      : position.atTop
+      ? " - at the top"
+      : "";
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `${scrolled} (Role: ${this.browser.getCurrentRole()})
+   Position: ${position.scrollY}px of ${position.scrollHeight}px (viewport ${
+            position.viewportHeight
+          }px)${edge}
+
+📄 Current Viewport:
+${snapshot.text}
+
+Found ${snapshot.elementCount} interactive elements`,
+        },
+      ],
+    };
+  }
+
+  async handleScreenshot(args: ScreenshotOptions = {}) {
+    const screenshot = await this.browser.screenshot(args);
+
+    const target = args.ref
+      ? `element ${args.ref}`
+      : args.fullPage
+      ? "full page"
+      : "viewport";
+    let responseText = `📸 Screenshot of ${target} (${screenshot.width}x${
+      screenshot.height
+    }, Role: ${this.browser.getCurrentRole()})`;
+    if (screenshot.markCount !== undefined) {
+      responseText += `
+🏷️ ${screenshot.markCount} elements labeled with their refs (same refs as browser_snapshot)`;
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: responseText,
+        },
+        {
+          type: "image",
+          data: screenshot.data,
+          mimeType: screenshot.mimeType,
+        },
+      ],
+    };
+  }
+
+  async handleClick(args: { ref: string; diff?: boolean }) {
+    const { ref, diff } = args;
+    const { newTabs } = await this.browser.click(ref);
+
+    let responseText = `Clicked element ${ref} (Role: ${this.browser.getCurrentRole()})`;
+    for (const tab of newTabs) {
+      responseText += `\n🗂️ Opened new tab ${tab.id}: ${tab.url} - use browser_switch_tab({ id: "${tab.id}" }) to work in it`;
+    }
+    responseText += await this.consoleHint();
+    if (diff) {
+      responseText += `\n\n${this.formatSnapshotDiff(
+        await this.browser.snapshotDiff()
+      )}`;
+    }
+
     return {
       content: [
         {
           type: "text",
-          text: `Clicked element ${ref} (Role: ${this.browser.getCurrentRole()})`,
+          text: responseText,
         },
       ],
     };
   }
 
-  async handleType(args: { ref: string; text: string }) {
-    const { ref, text } = args;
+  async handleType(args: { ref: string; text: string; diff?: boolean }) {
+    const { ref, text, diff } = args;
     await this.browser.type(ref, text);
+
+    let responseText = `Typed "${text}" into element ${ref} (Role: ${this.browser.getCurrentRole()})`;
+    responseText += await this.consoleHint();
+    if (diff) {
+      responseText += `\n\n${this.formatSnapshotDiff(
+        await this.browser.snapshotDiff()
+      )}`;
+    }
+
     return {
       content: [
         {
           type: "text",
-          text: `Typed "${text}" into element ${ref} (Role: ${this.browser.getCurrentRole()})`,
+          text: responseText,
+        },
+      ],
+    };
+  }
+
+  async handleHover(args: { ref: string }) {
+    const { ref } = args;
+    await this.browser.hover(ref);
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Hovered over element ${ref} (Role: ${this.browser.getCurrentRole()})`,
+        },
+      ],
+    };
+  }
+
+  async handleSelectOption(args: { ref: string; values: string[] }) {
+    const { ref, values } = args;
+    const selected = await this.browser.selectOption(ref, values);
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Selected ${
+            selected.length > 0
+              ? selected.map((v) => `"${v}"`).join(", ")
+              : "no options"
+          } in element ${ref} (Role: ${this.browser.getCurrentRole()})`,
+        },
+      ],
+    };
+  }
+
+  async handlePressKey(args: { key: string; ref?: string }) {
+    const { key, ref } = args;
+    await this.browser.pressKey(key, ref);
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Pressed ${key}${
+            ref ? ` on element ${ref}` : ""
+          } (Role: ${this.browser.getCurrentRole()})`,
         },
       ],
     };
@@ -133,15 +422,438 @@ Found ${snapshot.elementCount} interactive elements`;
     };
   }
 
+  async handleWaitFor(args: WaitForOptions) {
+    const started = Date.now();
+    const snapshot = await this.browser.waitFor(args);
+    const elapsed = Date.now() - started;
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Conditions met after ${elapsed}ms (Role: ${this.browser.getCurrentRole()})
+
+📄 Page Snapshot:
+${snapshot.text}
+
+Found ${snapshot.elementCount} interactive elements`,
+        },
+      ],
+    };
+  }
+
+  async handleListTabs() {
+    const tabs = await this.browser.listTabs();
+    return {
+      content: [
+        {
+          type: "text",
+          text: `🗂️ Tabs (Role: ${this.browser.getCurrentRole()}):\n${this.formatTabs(
+            tabs
+          )}`,
+        },
+      ],
+    };
+  }
+
+  async handleSwitchTab(args: { id: string }) {
+    const { id } = args;
+    const snapshot = await this.browser.switchTab(id);
+
+    let responseText = `🗂️ Switched to tab ${id} (Role: ${this.browser.getCurrentRole()})\n`;
+    if (snapshot.pageContext) {
+      responseText += `   URL: ${snapshot.pageContext.url}\n`;
+      responseText += `   Title: "${snapshot.pageContext.title}"\n`;
+    }
+    responseText += `\n📄 Page Snapshot:\n${snapshot.text}\n\nFound ${snapshot.elementCount} interactive elements`;
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: responseText,
+        },
+      ],
+    };
+  }
+
+  async handleCloseTab(args: { id?: string } = {}) {
+    const tabs = await this.browser.closeTab(args.id);
+    return {
+      content: [
+        {
+          type: "text",
+          text: `🗂️ Closed ${
+            args.id ? `tab ${args.id}` : "the active tab"
+          }. Remaining tabs:\n${this.formatTabs(tabs)}`,
+        },
+      ],
+    };
+  }
+
+  async handleHandleDialog(args: {
+    action: "accept" | "dismiss";
+    promptText?: string;
+  }) {
+    const { action, promptText } = args;
+    if (action !== "accept" && action !== "dismiss") {
+      throw new Error(`action must be "accept" or "dismiss", got ${action}`);
+    }
+    const dialog = await this.browser.handleDialog(
+      action === "accept",
+      promptText
+    );
+
+    let responseText = `💬 ${
+      dialog.outcome === "accepted" ? "Accepted" : "Dismissed"
+    } ${dialog.type} dialog "${dialog.message}" in tab ${
+      dialog.tabId
+    } (Role: ${this.browser.getCurrentRole()})`;
+    if (dialog.promptText !== undefined) {
+      responseText += `
+   Entered: "${dialog.promptText}"`;
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: responseText,
+        },
+      ],
+    };
+  }
+
+  async handleConsole(args: ConsoleOptions = {}) {
+    const { level, sinceLast } = args;
+    const result = await this.browser.getConsoleMessages(args);
+
+    const filters = [
+      level ? `level ≥ ${level}` : "",
+      sinceLast ? "since last call" : "",
+    ].filter(Boolean);
+    let responseText = `🖥️ Console (Role: ${this.browser.getCurrentRole()}): ${
+      result.messages.length < result.matched
+        ? `last ${result.messages.length} of ${result.matched}`
+        : result.matched
+    } messages${filters.length ? ` [${filters.join(", ")}]` : ""}`;
+    if (result.dropped > 0) {
+      responseText += `\n   (${result.dropped} older messages were discarded)`;
+    }
+
+    for (const message of result.messages) {
+      const time = new Date(message.timestamp).toISOString().slice(11, 23);
+      const where = message.frameId
+        ? `${message.tabId} iframe ${message.frameId}`
+        : message.tabId;
+      const location = message.url
+        ? ` (${message.url}${
+            message.lineNumber ? `:${message.lineNumber}` : ""
+          })`
+        : "";
+      // Exception stacks span several lines
+      const text = message.text.replace(/\n/g, "\n    ");
+      responseText += `\n[${message.level}] ${time} ${where} ${text}${location}`;
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: responseText,
+        },
+      ],
+    };
+  }
+
+  async handleNetworkRequests(
+    args: NetworkRequestFilter & { includeBodies?: boolean } = {}
+  ) {
+    const { includeBodies = false, ...filter } = args;
+    const result = await this.browser.getNetworkRequests(filter);
+
+    const filters = [
+      filter.url ? `url ~ "${filter.url}"` : "",
+      filter.status ? `status ${filter.status}` : "",
+      filter.resourceType ? `type ${filter.resourceType}` : "",
+      filter.sinceLast ? "since last call" : "",
+    ].filter(Boolean);
+    let responseText = `🌐 Network (Role: ${this.browser.getCurrentRole()}): ${
+      result.requests.length < result.matched
+        ? `last ${result.requests.length} of ${result.matched}`
+        : result.matched
+    } requests${filters.length ? ` [${filters.join(", ")}]` : ""}`;
+    if (result.dropped > 0) {
+      responseText += `\n   (${result.dropped} older requests were discarded)`;
+    }
+
+    for (const request of result.requests) {
+      const outcome = request.failure
+        ? `FAILED ${request.failure}`
+        : request.status ?? "pending";
+      const details = [
+        request.resourceType,
+        request.duration !== undefined ? `${request.duration}ms` : "",
+        request.encodedDataLength !== undefined
+          ? this.formatBytes(request.encodedDataLength)
+          : "",
+        request.fromCache ? "cache" : "",
+        request.frameId ? `iframe ${request.frameId}` : "",
+      ].filter(Boolean);
+      responseText += `\n#${request.id} ${request.tabId} ${
+        request.method
+      } ${outcome} ${request.url} (${details.join(", ")})`;
+
+      if (includeBodies) {
+        if (request.postData) {
+          responseText += `\n    → ${this.preview(request.postData)}`;
+        }
+        if (request.responseBody) {
+          responseText += `\n    ← ${this.preview(request.responseBody)}${
+            request.responseBodyTruncated ? " (truncated)" : ""
+          }`;
+        }
+      }
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: responseText,
+        },
+      ],
+    };
+  }
+
+  async handleRoute(args: RouteOptions) {
+    const route = await this.browser.route(args);
+    return {
+      content: [
+        {
+          type: "text",
+          text: `🔀 Added route (Role: ${this.browser.getCurrentRole()}):
+${this.formatRoute(route)}`,
+        },
+      ],
+    };
+  }
+
+  async handleUnroute(args: { id?: string; url?: string } = {}) {
+    const removed = await this.browser.unroute(args);
+    const remaining = await this.browser.getRoutes(
+      this.browser.getCurrentRole()
+    );
+
+    let responseText = `🔀 Removed ${removed.length} route${
+      removed.length === 1 ? "" : "s"
+    } (Role: ${this.browser.getCurrentRole()})`;
+    for (const route of removed) {
+      responseText += `\n${this.formatRoute(route)}`;
+    }
+    responseText += `\n${remaining.length} route${
+      remaining.length === 1 ? "" : "s"
+    } still active`;
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: responseText,
+        },
+      ],
+    };
+  }
+
+  async handleEmulate(args: EmulationSettings & { reset?: boolean } = {}) {
+    const { reset, ...settings } = args;
+    const emulation = await this.browser.emulate(settings, reset);
+    const lines = this.formatEmulation(emulation);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `📱 Emulation ${
+            reset ? "reset" : "updated"
+          } (Role: ${this.browser.getCurrentRole()}):
+${lines.length > 0 ? lines.join("\n") : "Browser defaults - no emulation"}`,
+        },
+      ],
+    };
+  }
+
+  private formatEmulation(emulation: EmulationSettings): string[] {
+    const lines: string[] = [];
+    if (emulation.device) lines.push(`Device: ${emulation.device}`);
+    if (emulation.viewport) {
+      const traits = [
+        emulation.isMobile && "mobile",
+        emulation.hasTouch && "touch",
+      ].filter(Boolean);
+      lines.push(
+        `Viewport: ${emulation.viewport.width}x${emulation.viewport.height} @${
+          emulation.deviceScaleFactor ?? 1
+        }x${traits.length > 0 ? `, ${traits.join(", ")}` : ""}`
+      );
+    }
+    if (emulation.userAgent) lines.push(`User agent: ${emulation.userAgent}`);
+    if (emulation.locale) lines.push(`Locale: ${emulation.locale}`);
+    if (emulation.timezone) lines.push(`Timezone: ${emulation.timezone}`);
+    if (emulation.geolocation) {
+      const { latitude, longitude, accuracy } = emulation.geolocation;
+      lines.push(
+        `Geolocation: ${latitude}, ${longitude}${
+          accuracy ? ` (±${accuracy} m)` : ""
+        }`
+      );
+    }
+    if (emulation.colorScheme) {
+      lines.push(`Color scheme: ${emulation.colorScheme}`);
+    }
+    return lines;
+  }
+
+  private formatRoute(route: RouteInfo): string {
+    let outcome: string;
+    if (route.action === "fulfill") {
+      outcome = `fulfill ${route.status} ${
+        route.bodyPath ? `from ${route.bodyPath}` : "inline"
+      } (${this.formatBytes(route.bodySize ?? 0)})`;
+    } else if (route.action === "abort") {
+      outcome = `abort ${route.errorReason}`;
+    } else {
+      outcome = `continue${
+        route.headers ? ` with ${Object.keys(route.headers).join(", ")}` : ""
+      }`;
+    }
+    return `${route.id} ${route.method ?? "*"} ${route.url} → ${outcome}, ${
+      route.hits
+    } hit${route.hits === 1 ? "" : "s"}`;
+  }
+
+  private formatBytes(bytes: number): string {
+    return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+  }
+
+  /**
+   * A request or response body on one line, cut to keep the listing readable
+   */
+  private preview(body: string): string {
+    const line = body.replace(/\s+/g, " ").trim();
+    return line.length > 500 ? `${line.slice(0, 500)}…` : line;
+  }
+
+  /**
+   * One-line notice about console errors since the last notice or browser_console call
+   */
+  private async consoleHint(): Promise<string> {
+    const count = await this.browser.takeNewConsoleErrorCount();
+    if (count === 0) return "";
+    return `\n⚠️ ${count} new console error${
+      count === 1 ? "" : "s"
+    } - call browser_console({ level: "error" }) to see ${
+      count === 1 ? "it" : "them"
+    }`;
+  }
+
+  private formatTabs(tabs: TabInfo[]): string {
+    return tabs
+      .map(
+        (tab) =>
+          `${tab.active ? "→" : " "} ${tab.id}: ${
+            tab.title ? `"${tab.title}" ` : ""
+          }${tab.url}${tab.openerId ? ` (opened by ${tab.openerId})` : ""}${
+            tab.active ? " [active]" : ""
+          }`
+      )
+      .join("\n");
+  }
+
   async handleClose() {
+    if (!this.ownsBrowser) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: "The browser is shared with other sessions and stays open - it closes when the server stops",
+          },
+        ],
+      };
+    }
+    const connected = this.browser.isConnected();
     await this.browser.close();
     return {
       content: [
         {
           type: "text",
-          text: "Multi-role browser closed successfully",
+          text: connected
+            ? "Disconnected from the running browser (its pages stay open)"
+            : "Multi-role browser closed successfully",
         },
       ],
     };
   }
+
+  /**
+   * Format a diff-mode snapshot. Falls back to the full snapshot when there
+   * was no earlier snapshot of the same document to compare against.
+   */
+  private formatSnapshotDiff(snapshot: Snapshot): string {
+    const role = this.browser.getCurrentRole();
+    const url = snapshot.pageContext?.url ?? "";
+
+    if (!snapshot.diff) {
+      return `📄 Page Snapshot (Role: ${role}, no previous snapshot of this page to diff against):
+   URL: ${url}
+
+${snapshot.text}
+
+Found ${snapshot.elementCount} interactive elements`;
+    }
+
+    const diff = snapshot.diff;
+    if (SnapshotDiffer.isEmpty(diff)) {
+      return `📝 No changes since last snapshot (Role: ${role}, ${diff.unchangedCount} elements unchanged)`;
+    }
+
+    const sections: string[] = [];
+    if (diff.added.length > 0) {
+      sections.push(
+        `Added:\n${diff.added.map((n) => `  + ${n.line}`).join("\n")}`
+      );
+    }
+    if (diff.removed.length > 0) {
+      sections.push(
+        `Removed:\n${diff.removed.map((n) => `  - ${n.line}`).join("\n")}`
+      );
+    }
+    if (diff.changed.length > 0) {
+      sections.push(
+        `Changed:\n${diff.changed
+          .map(
+            (c) =>
+              `  ~ ${c.ref}\n      before: ${c.before}\n      after:  ${c.after}`
+          )
+          .join("\n")}`
+      );
+    }
+    if (diff.textAdded.length > 0) {
+      sections.push(
+        `Text added:\n${diff.textAdded.map((t) => `  + ${t}`).join("\n")}`
+      );
+    }
+    if (diff.textRemoved.length > 0) {
+      sections.push(
+        `Text removed:\n${diff.textRemoved.map((t) => `  - ${t}`).join("\n")}`
+      );
+    }
+
+    return `📝 Changes since last snapshot (Role: ${role}):
+   URL: ${url}
+
+${sections.join("\n\n")}
+
+${diff.unchangedCount} elements unchanged`;
+  }
 }
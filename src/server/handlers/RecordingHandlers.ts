@@ -0,0 +1,139 @@
+import { mkdir, writeFile } from "fs/promises";
+import { dirname, resolve } from "path";
+import type { MultiContextBrowser } from "../../runtime/MultiContextBrowser.js";
+
+export class RecordingHandlers {
+  constructor(private browser: MultiContextBrowser) {}
+
+  async handleStartRecording(args: { clear?: boolean }) {
+    await this.browser.startRecording({ clear: args.clear });
+    const { actions } = this.browser.getRecordingState();
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `⏺️ Recording started (Role: ${this.browser.getCurrentRole()}, ${actions} actions so far)
+Actions are recorded with their locators until stop_recording or browser_close. Call export_test to get the Playwright test.`,
+        },
+      ],
+    };
+  }
+
+  async handleStopRecording() {
+    this.browser.stopRecording();
+    const { actions } = this.browser.getRecordingState();
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `⏹️ Recording stopped with ${actions} actions - export_test still exports them`,
+        },
+      ],
+    };
+  }
+
+  async handleExportTest(args: {
+    testName?: string;
+    outputPath?: string;
+    clear?: boolean;
+  }) {
+    const { testName, outputPath, clear = false } = args;
+    const actions = this.browser.getRecordedActions();
+    const { recording, dropped, limit } = this.browser.getRecordingState();
+
+    if (actions.length === 0) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: recording
+              ? "No actions recorded yet. Use browser_navigate, browser_click, browser_type or select_role first, then call export_test."
+              : "Recording is off. Call start_recording, then browser_navigate, browser_click, browser_type or select_role, then export_test.",
+          },
+        ],
+      };
+    }
+
+    const code = this.browser.exportTest(testName);
+    const roles = [...new Set(actions.map((action) => action.role))];
+    const missingLocators = actions.filter(
+      (action) => "locator" in action && action.ref && !action.locator
+    ).length;
+
+    let output = `✅ Exported ${
+      actions.length
+    } recorded actions as a Playwright test (roles: ${roles.join(", ")})\n`;
+
+    if (outputPath) {
+      const absolutePath = resolve(outputPath);
+      await mkdir(dirname(absolutePath), { recursive: true });
+      await writeFile(absolutePath, code, "utf8");
+      output += `📁 Written to: ${absolutePath}\n`;
+    }
+
+    if (dropped > 0) {
+      output += `⚠️ The recording reached its limit of ${limit} actions - the last ${dropped} actions are missing from the test\n`;
+    }
+
+    if (missingLocators > 0) {
+      output += `⚠️ ${missingLocators} actions have no locator - see the TODO comments and use generate_locator to fill them in\n`;
+    }
+
+    if (clear) {
+      this.browser.clearRecording();
+      output += `🧹 Recording cleared\n`;
+    }
+
+    output += `\n\`\`\`typescript\n${code}\`\`\``;
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: output,
+        },
+      ],
+    };
+  }
+
+  async handleExportHar(args: {
+    outputPath: string;
+    url?: string;
+    status?: string;
+    resourceType?: string;
+    includeBodies?: boolean;
+  }) {
+    const { outputPath, includeBodies = true, ...filter } = args;
+    const har = await this.browser.exportHar(filter, { includeBodies });
+    const { entries } = har.log;
+
+    const absolutePath = resolve(outputPath);
+    await mkdir(dirname(absolutePath), { recursive: true });
+    await writeFile(absolutePath, JSON.stringify(har, null, 2), "utf8");
+
+    const failed = entries.filter(
+      (entry) => entry.response._error || entry.response.status >= 400
+    ).length;
+    let output = `✅ Exported ${
+      entries.length
+    } requests as HAR 1.2 (Role: ${this.browser.getCurrentRole()})\n`;
+    output += `📁 Written to: ${absolutePath}\n`;
+    if (failed > 0) {
+      output += `⚠️ ${failed} requests failed or returned an error status\n`;
+    }
+    if (entries.length === 0) {
+      output += `No requests matched - the log only covers requests made since the role's browser context was created\n`;
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: output,
+        },
+      ],
+    };
+  }
+}
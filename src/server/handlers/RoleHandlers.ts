@@ -1,3 +1,5 @@
+import { mkdir, writeFile } from "fs/promises";
+import { dirname, resolve } from "path";
 import type { MultiContextBrowser } from "../../runtime/MultiContextBrowser.js";
 import type { RolesConfiguration } from "../../runtime/types.js";
 
@@ -45,12 +47,28 @@ export class RoleHandlers {
         const isCurrent = role === currentRole;
         const roleConfig = this.rolesConfig.roles[role];
         output += `• ${role}${isCurrent ? " (current)" : ""}\n`;
-        output += `  📁 Auth file: ${roleConfig.authPath}\n`;
+        output += `  📁 Auth file: ${roleConfig.authPath ?? "(none)"}\n`;
         if (roleConfig.defaultUrl) {
           output += `  🌐 Default URL: ${roleConfig.defaultUrl}\n`;
         } else {
           output += `  🌐 Default URL: (none)\n`;
         }
+        if (roleConfig.authRequired) {
+          output += `  🔒 Auth required\n`;
+        }
+        output += await this.formatEmulation(role);
+        if (roleConfig.extraHTTPHeaders) {
+          output += `  📨 Extra headers: ${Object.keys(
+            roleConfig.extraHTTPHeaders
+          ).join(", ")}\n`;
+        }
+        if (roleConfig.dialogPolicy) {
+          output += `  💬 Dialogs: ${roleConfig.dialogPolicy}\n`;
+        }
+        if (roleConfig.attachTo) {
+          output += `  🔌 Attaches to open page: ${roleConfig.attachTo}\n`;
+        }
+        output += await this.formatRoutes(role);
       }
     }
 
@@ -70,6 +88,8 @@ export class RoleHandlers {
       for (const role of sortedManualRoles) {
         const isCurrent = role === currentRole;
         output += `• ${role}${isCurrent ? " (current)" : ""}\n`;
+        output += await this.formatEmulation(role);
+        output += await this.formatRoutes(role);
       }
     }
 
@@ -98,6 +118,60 @@ export class RoleHandlers {
     };
   }
 
+  /**
+   * Current device and environment emulation of a role (roles configuration,
+   * then browser_emulate changes), one line per setting
+   */
+  private async formatEmulation(role: string): Promise<string> {
+    const emulation = await this.browser.getEmulation(role);
+    let output = "";
+    if (emulation.device) {
+      output += `  📱 Device: ${emulation.device}\n`;
+    }
+    if (emulation.viewport) {
+      output += `  🖥️ Viewport: ${emulation.viewport.width}x${emulation.viewport.height}`;
+      if (emulation.deviceScaleFactor && emulation.deviceScaleFactor !== 1) {
+        output += ` @${emulation.deviceScaleFactor}x`;
+      }
+      if (emulation.isMobile) output += ", mobile";
+      if (emulation.hasTouch) output += ", touch";
+      output += "\n";
+    }
+    if (emulation.locale) {
+      output += `  🌍 Locale: ${emulation.locale}\n`;
+    }
+    if (emulation.timezone) {
+      output += `  🕐 Timezone: ${emulation.timezone}\n`;
+    }
+    if (emulation.geolocation) {
+      output += `  📍 Geolocation: ${emulation.geolocation.latitude}, ${emulation.geolocation.longitude}\n`;
+    }
+    if (emulation.colorScheme) {
+      output += `  🎨 Color scheme: ${emulation.colorScheme}\n`;
+    }
+    if (emulation.userAgent) {
+      output += `  🕵️ User agent: ${emulation.userAgent}\n`;
+    }
+    return output;
+  }
+
+  /**
+   * Active browser_route routes of a role, one line per route
+   */
+  private async formatRoutes(role: string): Promise<string> {
+    const routes = await this.browser.getRoutes(role);
+    return routes
+      .map(
+        (route) =>
+          `  🔀 Route ${route.id}: ${route.method ? `${route.method} ` : ""}${
+            route.url
+          } → ${route.action}${
+            route.action === "fulfill" ? ` ${route.status}` : ""
+          } (${route.hits} hit${route.hits === 1 ? "" : "s"})\n`
+      )
+      .join("");
+  }
+
   async handleSelectRole(args: { role: string }) {
     const { role } = args;
     await this.browser.selectRole(role);
@@ -110,4 +184,50 @@ export class RoleHandlers {
       ],
     };
   }
+
+  async handleSaveAuthState(args: { path?: string }) {
+    const role = this.browser.getCurrentRole();
+    const targetPath = args.path ?? this.rolesConfig?.roles[role]?.authPath;
+
+    if (!targetPath) {
+      throw new Error(
+        `Role '${role}' has no authPath configured - pass a path to save_auth_state`
+      );
+    }
+
+    const state = await this.browser.getStorageState();
+    const absolutePath = resolve(targetPath);
+    await mkdir(dirname(absolutePath), { recursive: true });
+    await writeFile(absolutePath, JSON.stringify(state, null, 2), "utf8");
+
+    let output = `✅ Saved auth state for role '${role}'\n`;
+    output += `📁 Written to: ${absolutePath}\n`;
+    output += `🍪 Cookies: ${state.cookies.length}\n`;
+
+    if (state.origins.length === 0) {
+      output += `💾 Web storage: (none)\n`;
+    } else {
+      output += `💾 Web storage:\n`;
+      for (const origin of state.origins) {
+        output += `  • ${origin.origin} - ${
+          origin.localStorage.length
+        } localStorage, ${
+          origin.sessionStorage?.length ?? 0
+        } sessionStorage items\n`;
+      }
+    }
+
+    if (!this.rolesConfig?.roles[role]?.authPath) {
+      output += `\n💡 Start the server with --role ${role} ${absolutePath} to reuse this login`;
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: output.trim(),
+        },
+      ],
+    };
+  }
 }
@@ -3,7 +3,7 @@ export const TOOL_DEFINITIONS = [
   {
     name: "browser_initialize",
     description:
-      "Initialize browser instance. Required before any browser operations (browser_navigate, browser_click, browser_snapshot, select_role etc.).",
+      "Initialize browser instance (or connect to the running browser given by --cdp-endpoint / --browser-url). Required before any browser operations (browser_navigate, browser_click, browser_snapshot, select_role etc.).",
     inputSchema: {
       type: "object",
       properties: {},
@@ -30,6 +30,30 @@ Note: Refs are temporary identifiers valid for the current page state. They chan
       required: ["url"],
     },
   },
+  {
+    name: "browser_go_back",
+    description: `Go back one page in the active tab's history, like the browser's Back button (keeps form state and history, unlike navigating to the URL again). Returns navigation details and a fresh snapshot.`,
+    inputSchema: {
+      type: "object",
+      properties: {},
+    },
+  },
+  {
+    name: "browser_go_forward",
+    description: `Go forward one page in the active tab's history. Returns navigation details and a fresh snapshot.`,
+    inputSchema: {
+      type: "object",
+      properties: {},
+    },
+  },
+  {
+    name: "browser_reload",
+    description: `Reload the active tab. Returns navigation details and a fresh snapshot; refs from earlier snapshots are no longer valid.`,
+    inputSchema: {
+      type: "object",
+      properties: {},
+    },
+  },
   {
     name: "browser_snapshot",
     description: `Capture the current page state as an accessibility tree with interactive elements labeled with reference IDs (e1, e2, etc.).
@@ -44,10 +68,122 @@ Example output:
   heading "Products" [level=1]
   button "Add to Cart" [ref=e25]
   button "Add to Cart" [ref=e26]
-  link "Checkout" [ref=e30]`,
+  link "Checkout" [ref=e30]
+
+Set diff: true to return only what changed since the previous snapshot of this page (added, removed and changed elements by ref, plus new or removed text).
+
+Set format: "json" for machine-readable output: { role, url, title, elementCount, tree } where each tree node is { role, name, ref?, states?, props?, children } and strings in children are text. Iframe nodes contain their frame's tree (refs like f1_e3). With diff: true the JSON also has a "diff" field.
+
+On large pages, scope the snapshot to one element with ref (e.g. a dialog, or an element inside an iframe like "f1_e3"), or to its container with ancestorLevel (levels from resolve_container). depth limits how many levels below the scope are shown; deeper content is summarized as "- ... (N more)". Refs from earlier snapshots stay valid.
+
+Set maxLines and/or maxTokens to cap the size. Over budget, navigation/footer landmarks, long runs of similar items and then the largest subtrees are collapsed into summary lines such as:
+  - list "Results" (48 similar listitems, refs e40–e320) [collapsed=c3]
+Refs inside collapsed regions stay valid; use browser_expand_region({ id: "c3" }) to see the content.
+
+For long feeds and documents, set viewportOnly: true to capture only what is currently on screen (optionally viewportMargin pixels around it). Skipped content is summarized as "- [offscreen] 3 regions below (40 interactive elements)"; fixed and sticky content such as modals stays in. use browser_scroll to move through the page.`,
     inputSchema: {
       type: "object",
-      properties: {},
+      properties: {
+        diff: {
+          type: "boolean",
+          description:
+            "Return only changes since the previous snapshot instead of the full tree",
+          default: false,
+        },
+        format: {
+          type: "string",
+          enum: ["text", "json"],
+          description:
+            "Output format: YAML-like text (default) or the JSON accessibility tree",
+          default: "text",
+        },
+        ref: {
+          type: "string",
+          description:
+            "Only snapshot this element's subtree (e.g., 'e12' or 'f1_e3')",
+        },
+        ancestorLevel: {
+          type: "number",
+          description:
+            "With ref: snapshot the ref's container this many levels up instead (1 = parent), as in resolve_container",
+        },
+        depth: {
+          type: "number",
+          description:
+            "Maximum levels below the scope (or below the page's top-level nodes) to include",
+        },
+        maxLines: {
+          type: "number",
+          description:
+            "Collapse low-value regions until the snapshot has at most this many lines",
+        },
+        maxTokens: {
+          type: "number",
+          description:
+            "Collapse low-value regions until the snapshot is at most this many tokens (estimated as characters / 4)",
+        },
+        viewportOnly: {
+          type: "boolean",
+          description:
+            "Only include elements that intersect the viewport (default: false)",
+        },
+        viewportMargin: {
+          type: "number",
+          description:
+            "With viewportOnly: also include elements within this many pixels above or below the viewport",
+        },
+      },
+    },
+  },
+  {
+    name: "browser_expand_region",
+    description: `Show the content of a region collapsed by a budgeted browser_snapshot (the [collapsed=cN] marker). Pass maxLines/maxTokens to collapse regions inside it again; those get new ids.`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: "string",
+          description: "Region id from the snapshot (e.g., 'c3')",
+        },
+        maxLines: {
+          type: "number",
+          description: "Maximum lines for the expanded content",
+        },
+        maxTokens: {
+          type: "number",
+          description:
+            "Maximum tokens for the expanded content (estimated as characters / 4)",
+        },
+      },
+      required: ["id"],
+    },
+  },
+  {
+    name: "browser_screenshot",
+    description: `Take a PNG screenshot of the viewport (default), the full scrollable page, or a single element by ref (elements inside iframes are cropped correctly).
+
+Set marks: true to outline every element from the latest snapshot and label it with its ref (e.g. "e25"), so what you see can be matched to snapshot refs. The overlay is removed after capture and never appears in the page.`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        ref: {
+          type: "string",
+          description:
+            "Element reference ID to crop to (e.g., 'e1', 'f1_e3'); cannot be combined with fullPage",
+        },
+        fullPage: {
+          type: "boolean",
+          description:
+            "Capture the whole scrollable page instead of the viewport",
+          default: false,
+        },
+        marks: {
+          type: "boolean",
+          description:
+            "Draw each element's ref label from the latest snapshot onto the image",
+          default: false,
+        },
+      },
     },
   },
   {
@@ -62,6 +198,12 @@ Example: browser_click("e25") clicks the element labeled [ref=e25] in the most r
           type: "string",
           description: "Element reference ID (e.g., 'e1', 'e2')",
         },
+        diff: {
+          type: "boolean",
+          description:
+            "Also return the page changes caused by the click (snapshot diff)",
+          default: false,
+        },
       },
       required: ["ref"],
     },
@@ -82,15 +224,456 @@ Example: browser_type("e1", "test@example.com") types into the element labeled [
           type: "string",
           description: "Text to type into the element",
         },
+        diff: {
+          type: "boolean",
+          description:
+            "Also return the page changes caused by typing (snapshot diff)",
+          default: false,
+        },
       },
       required: ["ref", "text"],
     },
   },
+  {
+    name: "browser_hover",
+    description: `Move the mouse over an element using its reference ID from the snapshot. Use for menus, tooltips and other content that only appears on hover.
+
+Example: browser_hover("e12") hovers the element labeled [ref=e12]. Take a new browser_snapshot() afterwards to see revealed content.`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        ref: {
+          type: "string",
+          description: "Element reference ID (e.g., 'e1', 'f1_e2')",
+        },
+      },
+      required: ["ref"],
+    },
+  },
+  {
+    name: "browser_select_option",
+    description: `Select one or more options in a native <select> dropdown using its reference ID from the snapshot.
+
+Each value is matched against option values first, then visible option labels. Pass several values only for multi-selects; options not listed are deselected.
+
+Example: browser_select_option("e7", ["Germany"]) selects the "Germany" option in [ref=e7].`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        ref: {
+          type: "string",
+          description: "Element reference ID of the <select> element",
+        },
+        values: {
+          type: "array",
+          items: { type: "string" },
+          description: "Option values or labels to select",
+        },
+      },
+      required: ["ref", "values"],
+    },
+  },
+  {
+    name: "browser_press_key",
+    description: `Press a key or key combination, optionally focusing an element first.
+
+Keys use Playwright names: "Enter", "Escape", "Tab", "ArrowDown", "F5", "a". Combine modifiers with "+": "Control+A", "Shift+Tab", "ControlOrMeta+Enter".
+
+Example: browser_press_key("Enter", "e3") focuses [ref=e3] and presses Enter (submits the surrounding form).`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        key: {
+          type: "string",
+          description:
+            "Key or key combination to press (e.g., 'Enter', 'Control+A')",
+        },
+        ref: {
+          type: "string",
+          description:
+            "Element reference ID to focus before pressing (defaults to the currently focused element)",
+        },
+      },
+      required: ["key"],
+    },
+  },
+  {
+    name: "browser_scroll",
+    description: `Scroll the page and return a snapshot of the viewport afterwards.
+
+- direction / pages: scroll up or down by viewport heights (default: one page down)
+- to: "top" or "bottom" of the page
+- ref: scroll an element into the middle of the viewport
+
+The response reports the scroll position and whether the bottom was reached. Infinite-scroll feeds usually load more content after scrolling down; follow with browser_wait_for if it loads slowly.`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        direction: {
+          type: "string",
+          enum: ["up", "down"],
+          description: "Direction to scroll by pages (default: down)",
+        },
+        pages: {
+          type: "number",
+          description: "Number of viewport heights to scroll (default: 1)",
+        },
+        to: {
+          type: "string",
+          enum: ["top", "bottom"],
+          description: "Scroll to the top or bottom of the page",
+        },
+        ref: {
+          type: "string",
+          description:
+            "Element reference ID to scroll into view (e.g., 'e42' or 'f1_e3')",
+        },
+      },
+    },
+  },
+  {
+    name: "browser_list_tabs",
+    description: `List the current role's tabs: its first page and every page opened from it (target=_blank links, window.open, OAuth popups). The active tab (→) is the one snapshots and interactions work on.`,
+    inputSchema: {
+      type: "object",
+      properties: {},
+    },
+  },
+  {
+    name: "browser_switch_tab",
+    description: `Make another tab of the current role active and return its snapshot. Refs are kept per tab - refs from the previous tab work again after switching back.
+
+Example: browser_click reports "Opened new tab t2" → browser_switch_tab({ id: "t2" }) to continue in the popup.`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: "string",
+          description: "Tab id from browser_list_tabs (e.g., 't2')",
+        },
+      },
+      required: ["id"],
+    },
+  },
+  {
+    name: "browser_close_tab",
+    description: `Close a tab of the current role (the active tab by default). If the active tab closes, the tab that opened it becomes active. The role's last tab cannot be closed.`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: "string",
+          description:
+            "Tab id from browser_list_tabs (default: the active tab)",
+        },
+      },
+    },
+  },
+  {
+    name: "browser_handle_dialog",
+    description: `Answer a JavaScript dialog (alert, confirm, prompt, beforeunload) that is blocking the current role's page. While a dialog is open the page cannot be read or interacted with; responses mention new dialogs with a 💬 line. Roles can answer dialogs automatically with dialogPolicy in the config file.`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        action: {
+          type: "string",
+          enum: ["accept", "dismiss"],
+          description: "accept (OK) or dismiss (Cancel) the dialog",
+        },
+        promptText: {
+          type: "string",
+          description:
+            "Text to enter before accepting a prompt() dialog (default: the prompt's default value)",
+        },
+      },
+      required: ["action"],
+    },
+  },
+  {
+    name: "browser_console",
+    description: `Read the current role's console: console.* messages, uncaught exceptions and browser log entries (failed requests, CSP violations) from all of its tabs and iframes. Use it when a click or form submit seems to do nothing - the cause is often a JavaScript error. Click, type and navigate responses mention new console errors.`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        level: {
+          type: "string",
+          enum: ["debug", "log", "info", "warning", "error"],
+          description:
+            "Minimum severity, e.g. 'warning' returns warnings and errors (default: everything)",
+        },
+        sinceLast: {
+          type: "boolean",
+          description:
+            "Only messages that arrived after the previous browser_console call (default: false)",
+        },
+        limit: {
+          type: "number",
+          description: "Most recent messages to return (default: 50)",
+        },
+      },
+    },
+  },
+  {
+    name: "browser_network_requests",
+    description: `List the requests made by the current role's tabs: method, status, URL, type, timing and size. Use it to see which XHR/fetch calls a click triggered and what they returned (includeBodies shows request and response bodies of API and document requests).
+
+Example output:
+  #12 t1 POST 500 https://shop.example.com/api/cart (Fetch, 84ms, 312 B)
+      ← {"error":"Out of stock"}`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        url: {
+          type: "string",
+          description:
+            'Only URLs matching this substring, glob ("**/api/*") or regex ("/cart\\/\\d+/")',
+        },
+        status: {
+          type: "string",
+          description:
+            'Only this status: a code ("404"), a class ("4xx"), "errors" (>= 400 or failed) or "failed" (network errors)',
+        },
+        resourceType: {
+          type: "string",
+          description:
+            "Only this resource type, e.g. XHR, Fetch, Document, Script, Image",
+        },
+        sinceLast: {
+          type: "boolean",
+          description:
+            "Only requests made after the previous browser_network_requests call (default: false)",
+        },
+        limit: {
+          type: "number",
+          description: "Most recent requests to return (default: 50)",
+        },
+        includeBodies: {
+          type: "boolean",
+          description:
+            "Show request and captured response bodies (default: false)",
+        },
+      },
+    },
+  },
+  {
+    name: "browser_route",
+    description: `Intercept the current role's requests matching a URL pattern, on all its tabs, until browser_unroute. Use it to mock API responses, simulate failures or add request headers:
+- fulfill: answer with a status, headers and a body (inline or read from a fixture file) without touching the server
+- abort: fail the request with a network error
+- continue: send it on with extra or replaced request headers
+
+The newest matching route wins. Active routes are shown by list_current_roles.
+
+Example: browser_route({ url: "**/api/cart", action: "fulfill", status: 500, body: '{"error":"Out of stock"}' })`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        url: {
+          type: "string",
+          description:
+            'URLs to intercept: glob ("**/api/*"), regex ("/cart\\/\\d+/") or substring',
+        },
+        method: {
+          type: "string",
+          description: "Only requests with this HTTP method (default: any)",
+        },
+        action: {
+          type: "string",
+          enum: ["fulfill", "abort", "continue"],
+          description: "What to do with matching requests",
+        },
+        status: {
+          type: "number",
+          description: "fulfill: response status (default: 200)",
+        },
+        headers: {
+          type: "object",
+          additionalProperties: { type: "string" },
+          description:
+            "fulfill: response headers (Content-Type is guessed if missing); continue: request headers to add or replace",
+        },
+        body: {
+          type: "string",
+          description: "fulfill: response body",
+        },
+        bodyPath: {
+          type: "string",
+          description:
+            "fulfill: file to read the response body from, e.g. fixtures/cart.json",
+        },
+        errorReason: {
+          type: "string",
+          enum: [
+            "Failed",
+            "Aborted",
+            "TimedOut",
+            "AccessDenied",
+            "ConnectionClosed",
+            "ConnectionReset",
+            "ConnectionRefused",
+            "ConnectionAborted",
+            "ConnectionFailed",
+            "NameNotResolved",
+            "InternetDisconnected",
+            "AddressUnreachable",
+            "BlockedByClient",
+            "BlockedByResponse",
+          ],
+          description: 'abort: network error (default: "Failed")',
+        },
+      },
+      required: ["url", "action"],
+    },
+  },
+  {
+    name: "browser_unroute",
+    description:
+      "Remove routes of the current role added by browser_route: one by id, those with a URL pattern, or all of them when neither is given.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: "string",
+          description: "Route id from browser_route (e.g. r1)",
+        },
+        url: {
+          type: "string",
+          description: "Remove routes added with exactly this URL pattern",
+        },
+      },
+    },
+  },
+  {
+    name: "browser_emulate",
+    description: `Change the device and environment the current role emulates, on all its tabs (and tabs opened later): a device preset or viewport, scale factor, mobile and touch, user agent, locale, time zone, geolocation and color scheme.
+
+Given fields are merged into the role's current emulation; reset: true starts again from the role's configuration. Fields set explicitly win over the device preset. Use it to check responsive layouts, localized dates and prices, location-based features or dark mode without a separate role.
+
+Example: browser_emulate({ device: "iPhone 15", locale: "de-DE", timezone: "Europe/Berlin", colorScheme: "dark" })`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        device: {
+          type: "string",
+          description:
+            'Device preset: "Desktop", "Desktop HiDPI", "Desktop 1080p" or a Puppeteer device such as "iPhone 15", "iPhone 15 Pro landscape", "Pixel 5", "Galaxy S9+", "iPad Pro 11"',
+        },
+        viewport: {
+          type: "object",
+          properties: {
+            width: { type: "number" },
+            height: { type: "number" },
+          },
+          required: ["width", "height"],
+          description: "Viewport size in CSS pixels",
+        },
+        deviceScaleFactor: {
+          type: "number",
+          description: "Device pixels per CSS pixel (e.g. 2 for retina)",
+        },
+        isMobile: {
+          type: "boolean",
+          description:
+            "Emulate a mobile browser (meta viewport, overlay scrollbars)",
+        },
+        hasTouch: {
+          type: "boolean",
+          description: "Support touch events",
+        },
+        userAgent: {
+          type: "string",
+          description: "User agent string",
+        },
+        locale: {
+          type: "string",
+          description:
+            'BCP 47 language tag for navigator.language, Intl and Accept-Language (e.g. "de-DE")',
+        },
+        timezone: {
+          type: "string",
+          description: 'IANA time zone (e.g. "America/New_York")',
+        },
+        geolocation: {
+          type: "object",
+          properties: {
+            latitude: { type: "number" },
+            longitude: { type: "number" },
+            accuracy: {
+              type: "number",
+              description: "Accuracy in meters (default: 0)",
+            },
+          },
+          required: ["latitude", "longitude"],
+          description:
+            "Position reported by navigator.geolocation (permission is granted)",
+        },
+        colorScheme: {
+          type: "string",
+          enum: ["light", "dark", "no-preference"],
+          description: "prefers-color-scheme media feature",
+        },
+        reset: {
+          type: "boolean",
+          description:
+            "Drop earlier browser_emulate changes and start from the role's configuration",
+        },
+      },
+    },
+  },
+  {
+    name: "browser_wait_for",
+    description: `Wait until the page reaches a state, then return a fresh snapshot.
+
+Conditions (all given conditions must hold):
+- text / textGone: visible text appears or disappears
+- ref + state: element becomes visible, hidden, enabled or detached
+- url: current URL matches a substring, glob ("**/checkout/*") or regex ("/order\\/\\d+/")
+- networkIdle: no network requests for 500ms
+
+Resolves as soon as the conditions are met - prefer this over wait_for_browser.
+
+Example: browser_wait_for({ text: "Order confirmed" }) after clicking "Place order".`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        text: {
+          type: "string",
+          description: "Text to wait for on the page",
+        },
+        textGone: {
+          type: "string",
+          description: "Text to wait to disappear from the page",
+        },
+        ref: {
+          type: "string",
+          description: "Element reference ID to wait on (use with state)",
+        },
+        state: {
+          type: "string",
+          enum: ["visible", "hidden", "enabled", "detached"],
+          description: "Element state to wait for (default: visible)",
+        },
+        url: {
+          type: "string",
+          description: "URL substring, glob or /regex/ to wait for",
+        },
+        networkIdle: {
+          type: "boolean",
+          description: "Wait until there are no network requests for 500ms",
+        },
+        timeout: {
+          type: "number",
+          description: "Maximum time to wait in milliseconds",
+          default: 10000,
+        },
+      },
+    },
+  },
   {
     name: "wait_for_browser",
     description: `Wait for a specified number of milliseconds.
 
-Default: 1000ms (1 second) if not specified.`,
+Default: 1000ms (1 second) if not specified. Prefer browser_wait_for, which waits for a condition instead of a fixed delay.`,
     inputSchema: {
       type: "object",
       properties: {
@@ -105,7 +688,7 @@ Default: 1000ms (1 second) if not specified.`,
   {
     name: "browser_close",
     description:
-      "Close browser instance and clean up resources. Terminates the browser context created by browser_initialize.",
+      "Close browser instance and clean up resources. Terminates the browser context created by browser_initialize; a running browser Verdex connected to is only disconnected.",
     inputSchema: {
       type: "object",
       properties: {},
@@ -211,6 +794,142 @@ Example output:
       required: ["ref", "ancestorLevel"],
     },
   },
+  {
+    name: "generate_locator",
+    description: `Generate ranked Playwright locators for an element, checked against the live page.
+
+Candidates use getByTestId, getByRole with the accessible name, and chains scoped to containers (test ids, list items, rows, dialogs) narrowed with filter({ hasText }). Each candidate reports how many elements it matches; unique candidates are listed first.
+
+Example output:
+  1. page.getByTestId('product-card').filter({ hasText: 'iPhone 15 Pro' }).getByRole('button', { name: 'Add to Cart', exact: true })  ✅ unique
+  2. page.getByRole('button', { name: 'Add to Cart', exact: true })  ⚠️ 12 matches`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        ref: {
+          type: "string",
+          description: "Element reference ID (e.g., 'e1', 'f1_e2')",
+        },
+      },
+      required: ["ref"],
+    },
+  },
+  {
+    name: "validate_locator",
+    description: `Check a proposed Playwright locator against the live page: how many elements it matches, their refs, and why it is ambiguous.
+
+Supported syntax (with or without "page."): getByRole(role, { name, exact }), getByTestId(id), getByText(text, { exact }), locator(css), filter({ hasText }), nth(n), first(), last(), contentFrame(), frameLocator(css). Names and texts can be strings or regexes.
+
+Example: validate_locator("page.getByTestId('product-card').filter({ hasText: 'iPhone' }).getByRole('button')")
+  ⚠️ 2 matches: e25 button "Add to Cart", e26 button "Add to Wishlist"
+  Why: "button" role matches 2 different names - add { name: 'Add to Cart', exact: true }`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        locator: {
+          type: "string",
+          description:
+            "Playwright locator expression (e.g., \"page.getByRole('button', { name: 'Save' })\")",
+        },
+      },
+      required: ["locator"],
+    },
+  },
+  // Session recording
+  {
+    name: "start_recording",
+    description: `Start recording actions for export_test. Recording is off by default: while it is on, every click, type, hover, select_option and press_key also computes the element's best locator, which makes interactions slower.
+
+The recording starts at the current page (its first step is a goto to the current URL) and keeps up to 1000 actions.`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        clear: {
+          type: "boolean",
+          description:
+            "Discard actions recorded before; false continues the previous recording",
+          default: true,
+        },
+      },
+    },
+  },
+  {
+    name: "stop_recording",
+    description:
+      "Stop recording actions. What was recorded stays available to export_test.",
+    inputSchema: {
+      type: "object",
+      properties: {},
+    },
+  },
+  {
+    name: "export_test",
+    description: `Export the actions recorded since start_recording (navigate, click, type, hover, select_option, press_key, select_role) as a runnable Playwright test.
+
+Each element is addressed by the best locator from generate_locator at the time of the action. Sessions that used several roles open one browser.newContext({ storageState }) per role, using the role's auth file. Popups and tabs opened by a click or key press are awaited with waitForEvent('popup') and used through their own variable. Dialog answers become page.once('dialog', ...) handlers registered before the action that opened the dialog.
+
+Example output:
+  test('checkout', async ({ page }) => {
+    await page.goto('https://shop.example.com');
+    await page.getByTestId('product-card').filter({ hasText: 'iPhone 15 Pro' }).getByRole('button', { name: 'Add to Cart', exact: true }).click();
+  });
+
+The recording is discarded by browser_close, so export before closing.`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        testName: {
+          type: "string",
+          description: "Name of the generated test",
+          default: "recorded session",
+        },
+        outputPath: {
+          type: "string",
+          description:
+            "Write the test to this file (e.g., 'tests/checkout.spec.ts'); the code is returned either way",
+        },
+        clear: {
+          type: "boolean",
+          description:
+            "Clear the recording after exporting, so the next export starts fresh",
+          default: false,
+        },
+      },
+    },
+  },
+  {
+    name: "export_har",
+    description: `Write the current role's network log as a HAR 1.2 file, which opens in browser DevTools (Network panel → Import) and HAR viewers. Contains every request since the role's browser context was created, with headers, timing and captured response bodies.`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        outputPath: {
+          type: "string",
+          description: "File to write, e.g. 'artifacts/checkout.har'",
+        },
+        url: {
+          type: "string",
+          description:
+            "Only export URLs matching this substring, glob or regex",
+        },
+        status: {
+          type: "string",
+          description:
+            'Only export this status: a code ("404"), a class ("4xx"), "errors" or "failed"',
+        },
+        resourceType: {
+          type: "string",
+          description: "Only export this resource type, e.g. XHR or Fetch",
+        },
+        includeBodies: {
+          type: "boolean",
+          description: "Include captured response bodies",
+          default: true,
+        },
+      },
+      required: ["outputPath"],
+    },
+  },
   // Multi-role functionality
   {
     name: "get_current_role",
@@ -224,7 +943,7 @@ Example output:
   {
     name: "list_current_roles",
     description:
-      "List all available browser roles/contexts. Use this to see what roles are configured and available for switching.",
+      "List all available browser roles/contexts with their emulation settings and active browser_route routes. Use this to see what roles are configured and available for switching.",
     inputSchema: {
       type: "object",
       properties: {},
@@ -245,4 +964,20 @@ Example output:
       required: ["role"],
     },
   },
+  {
+    name: "save_auth_state",
+    description: `Save the current role's login (cookies plus localStorage/sessionStorage of every visited origin) as a Playwright storageState file.
+
+Log in once with browser_navigate/browser_type/browser_click, then call this to persist the role. The file is written to the role's configured auth file unless a path is given, and is loaded the next time the role is created.`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: {
+          type: "string",
+          description:
+            "Write to this file instead of the role's auth file (e.g., 'auth/admin.json')",
+        },
+      },
+    },
+  },
 ];
@@ -134,17 +134,139 @@ export type AnchorsResult = {
   maxDepthReached: number;
 };
 
+// ============================================================================
+// generate_locator types
+// ============================================================================
+
+/**
+ * A candidate Playwright locator for an element, checked against the live DOM.
+ */
+export type LocatorCandidate = {
+  locator: string; // Playwright code, e.g. "page.getByRole('button', { name: 'Add' })"
+  strategy: "testid" | "role" | "text" | "scoped" | "nth";
+  matchCount: number; // Elements the locator matches in the element's frame
+  unique: boolean; // Exactly one match, and it is the target element
+};
+
+/**
+ * Ranked locator candidates for an element (unique candidates first).
+ * Returned by the generate_locator tool/method.
+ */
+export type LocatorResult = {
+  ref: string;
+  role: string;
+  name: string;
+  candidates: LocatorCandidate[];
+};
+
+/**
+ * An element matched by a locator.
+ */
+export type LocatorMatch = {
+  ref?: string; // Only elements that appear in the snapshot have refs
+  role: string;
+  name: string;
+  tagName: string;
+};
+
+/**
+ * Result of evaluating a Playwright locator against the live page.
+ * Returned by the validate_locator tool/method.
+ */
+export type LocatorValidationResult = {
+  locator: string; // Normalized Playwright code
+  matchCount: number;
+  refs: string[]; // Refs of matched elements (global refs at the runtime level)
+  matches: LocatorMatch[]; // First matches, for context
+  steps: Array<{ locator: string; matchCount: number }>; // Count after each step of the chain
+  ambiguity?: string[]; // Why more than one element matches
+  // Set by the bridge when the chain continues inside iframes (contentFrame())
+  frameRefs?: string[];
+  remainder?: string;
+};
+
 // ============================================================================
 // Snapshot types
 // ============================================================================
 
+/**
+ * A node of the accessibility tree, as returned by browser_snapshot({ format: "json" }).
+ * Strings in `children` are text content.
+ *
+ * After frame expansion, iframe nodes carry `frame`: their children are the
+ * child frame's tree (refs rewritten to f1_e3 form), or empty with a status
+ * explaining why the frame could not be read.
+ */
+export type SnapshotNode = {
+  role: string;
+  name: string;
+  ref?: string;
+  states?: {
+    checked?: boolean | "mixed";
+    disabled?: boolean;
+    expanded?: boolean;
+    level?: number;
+    pressed?: boolean | "mixed";
+    selected?: boolean;
+    active?: boolean;
+  };
+  props?: Record<string, string>;
+  children: Array<SnapshotNode | string>;
+  frame?: {
+    status: "expanded" | "unavailable" | "detached" | "error";
+    error?: string;
+  };
+  truncated?: number; // Descendants hidden by a depth limit
+  collapsed?: {
+    id: string; // Pass to browser_expand_region (c1, c2, ...)
+    summary: string; // e.g. "48 similar listitems, refs e40–e320"
+  };
+  offscreen?: {
+    above: OffscreenCount; // Skipped by a viewport-only snapshot
+    below: OffscreenCount;
+  };
+};
+
+/**
+ * Content a viewport-only snapshot skipped on one side of the viewport
+ */
+export type OffscreenCount = {
+  regions: number; // Child subtrees skipped whole
+  interactive: number; // Interactive elements inside them
+};
+
+/**
+ * Options for browser_snapshot: capture one element's (or container's) subtree
+ * and/or limit depth.
+ */
+export type SnapshotOptions = {
+  ref?: string; // Scope to this element (e5 or frame-qualified f1_e3)
+  ancestorLevel?: number; // Scope to the ref's ancestor instead (as in resolve_container, 1 = parent)
+  depth?: number; // Levels below the scope (or the page's top-level nodes) to include
+  viewportOnly?: boolean; // Only elements that intersect the viewport
+  viewportMargin?: number; // Pixels above and below the viewport to include as well
+} & SnapshotBudget;
+
+/**
+ * Size limit for a snapshot. Over budget, low-value regions (navigation and
+ * footer landmarks, long runs of similar siblings, then the largest subtrees)
+ * are collapsed into summary lines that browser_expand_region can reopen.
+ * Tokens are estimated as characters / 4.
+ */
+export type SnapshotBudget = {
+  maxLines?: number;
+  maxTokens?: number;
+};
+
 /**
  * Basic snapshot result containing page text and element count.
- * Used by the snapshot operation.
+ * Used by the snapshot operation. `tree` is the virtual "WebArea" root
+ * whose children are the page's top-level nodes; `text` is its rendering.
  */
 export type SnapshotResult = {
   text: string;
   elementCount: number;
+  tree: SnapshotNode;
 };
 
 /**
@@ -171,6 +293,7 @@ export type SnapshotWarnings = {
   inaccessibleFrames?: number;
   authStatus?: "unauthenticated";
   partialContent?: boolean;
+  dialog?: DialogInfo; // Open dialog blocking the active tab
   details?: string[];
 };
 
@@ -181,6 +304,8 @@ export type SnapshotWarnings = {
 export type Snapshot = {
   text: string;
   elementCount: number;
+  tree?: SnapshotNode; // Same content as `text`, with iframes expanded
+  collapsedRegions?: string[]; // Ids of regions collapsed to fit a budget
   pageContext?: {
     url: string;
     title: string;
@@ -199,6 +324,488 @@ export type Snapshot = {
   }>;
   // NEW: Non-critical warnings
   warnings?: SnapshotWarnings;
+  // Changes since the previous snapshot of the same document (diff mode only)
+  diff?: SnapshotDiff;
+};
+
+/**
+ * A node in a snapshot diff, identified by its ref.
+ * `line` is the node's snapshot line plus the ref-less content it owns
+ * (e.g. input values), joined with " | ".
+ */
+export type SnapshotDiffNode = {
+  ref: string;
+  line: string;
+};
+
+/**
+ * Changes between two snapshots of the same document.
+ * Nodes with refs are matched by ref; text without a ref owner
+ * (toasts, headings, status messages) is compared line by line.
+ */
+export type SnapshotDiff = {
+  added: SnapshotDiffNode[];
+  removed: SnapshotDiffNode[];
+  changed: Array<{ ref: string; before: string; after: string }>;
+  textAdded: string[];
+  textRemoved: string[];
+  unchangedCount: number;
+};
+
+// ============================================================================
+// browser_screenshot types
+// ============================================================================
+
+/**
+ * What browser_screenshot captures. `ref` and `fullPage` are exclusive;
+ * without either, the visible viewport is captured.
+ */
+export type ScreenshotOptions = {
+  ref?: string; // Crop to this element (frame-aware, e.g. "f1_e3")
+  fullPage?: boolean; // Capture the whole scrollable page
+  marks?: boolean; // Draw each ref from the latest snapshot onto its element
+};
+
+export type ScreenshotResult = {
+  data: string; // Base64-encoded PNG
+  mimeType: "image/png";
+  width: number;
+  height: number;
+  markCount?: number; // Elements labeled (only with marks: true)
+};
+
+// ============================================================================
+// browser_scroll types
+// ============================================================================
+
+/**
+ * Where browser_scroll moves. Exactly one of `ref`, `to` or a page-wise
+ * scroll (`direction`, `pages`) applies; the default is one page down.
+ */
+export type ScrollOptions = {
+  direction?: "up" | "down";
+  pages?: number; // Viewport heights to scroll (default 1)
+  ref?: string; // Scroll this element into the middle of the viewport
+  to?: "top" | "bottom";
+};
+
+/**
+ * Scroll position of the page's main scroller after browser_scroll.
+ */
+export type ScrollPosition = {
+  scrollY: number;
+  scrollHeight: number;
+  viewportHeight: number;
+  atTop: boolean;
+  atBottom: boolean;
+};
+
+// ============================================================================
+// Tab types
+// ============================================================================
+
+/**
+ * A page of the current role: its first page, or one opened from it
+ * (window.open, target=_blank links, OAuth popups).
+ */
+export type TabInfo = {
+  id: string; // t1, t2, ... - pass to browser_switch_tab / browser_close_tab
+  url: string;
+  title: string;
+  active: boolean; // The tab snapshots and interactions work on
+  openerId?: string; // Tab that opened it
+};
+
+/**
+ * Outcome of browser_click. Pages the click opened are reported but not
+ * switched to.
+ */
+export type ClickResult = {
+  newTabs: TabInfo[];
+};
+
+// ============================================================================
+// Dialog types
+// ============================================================================
+
+export type DialogType = "alert" | "confirm" | "prompt" | "beforeunload";
+
+/**
+ * What happens when a page of a role opens a JavaScript dialog:
+ * answered automatically ("accept" / "dismiss"), or left open until
+ * browser_handle_dialog answers it ("manual", the default).
+ */
+export type DialogPolicy = "accept" | "dismiss" | "manual";
+
+/**
+ * A JavaScript dialog opened by one of the current role's tabs
+ */
+export type DialogInfo = {
+  tabId: string;
+  type: DialogType;
+  message: string;
+  defaultValue?: string; // Prefilled text of a prompt()
+  url: string; // Page that opened it
+  openedAt: number;
+  outcome?: "accepted" | "dismissed"; // Set once answered
+  promptText?: string; // Text entered into a prompt()
+  auto?: boolean; // Answered by the role's dialog policy
+};
+
+// ============================================================================
+// browser_console types
+// ============================================================================
+
+/**
+ * Severity of a console message, lowest first
+ */
+export type ConsoleLevel = "debug" | "log" | "info" | "warning" | "error";
+
+/**
+ * A console message, uncaught exception or browser log entry
+ * (network errors, CSP violations, deprecations) from one of the role's tabs
+ */
+export type ConsoleMessage = {
+  id: number; // Increases per role, in arrival order
+  tabId: string;
+  frameId?: string; // Only set for messages from iframes
+  level: ConsoleLevel;
+  source: "console" | "exception" | "browser";
+  text: string;
+  url?: string; // Script or resource the message points at
+  lineNumber?: number; // 1-based
+  timestamp: number;
+};
+
+/**
+ * Filters for browser_console
+ */
+export type ConsoleOptions = {
+  level?: ConsoleLevel; // Minimum severity (default: everything)
+  sinceLast?: boolean; // Only messages that arrived after the previous call
+  limit?: number; // Most recent messages to return (default: 50)
+};
+
+export type ConsoleResult = {
+  messages: ConsoleMessage[];
+  matched: number; // Messages matching the filters, before the limit
+  dropped: number; // Oldest messages discarded because the buffer was full
+};
+
+// ============================================================================
+// browser_network_requests / export_har types
+// ============================================================================
+
+/**
+ * Connection timing of a response, from CDP's ResourceTiming.
+ * Offsets are milliseconds after the request started; -1 when not applicable
+ * (e.g. no DNS lookup on a reused connection).
+ */
+export type NetworkTiming = {
+  dnsStart: number;
+  dnsEnd: number;
+  connectStart: number;
+  connectEnd: number;
+  sslStart: number;
+  sslEnd: number;
+  sendStart: number;
+  sendEnd: number;
+  receiveHeadersEnd: number;
+};
+
+/**
+ * A request made by one of the role's tabs, with its response once received.
+ * Each hop of a redirect chain is its own request.
+ */
+export type NetworkRequest = {
+  id: number; // Increases per role, in request order
+  tabId: string;
+  frameId?: string; // Initiating iframe (not set for the main frame)
+  url: string;
+  method: string;
+  resourceType: string; // Document, XHR, Fetch, Script, Image, ...
+  requestHeaders: Record<string, string>;
+  postData?: string;
+  startedAt: number; // Epoch milliseconds
+
+  status?: number; // Missing until the response arrives, and for failed requests
+  statusText?: string;
+  mimeType?: string;
+  responseHeaders?: Record<string, string>;
+  httpVersion?: string;
+  remoteAddress?: string;
+  fromCache?: boolean;
+  timing?: NetworkTiming;
+
+  duration?: number; // Milliseconds until loading finished or failed
+  encodedDataLength?: number; // Bytes received over the wire
+  failure?: string; // Network error, e.g. "net::ERR_CONNECTION_REFUSED"
+  responseBody?: string; // Text responses, up to the body size limit
+  responseBodyTruncated?: boolean;
+};
+
+/**
+ * Filters for browser_network_requests and export_har
+ */
+export type NetworkRequestFilter = {
+  url?: string; // Substring, glob ("**\/api/*") or regex ("/cart\/\d+/")
+  status?: string; // "404", "4xx", "errors" (>= 400 or failed) or "failed"
+  resourceType?: string; // e.g. "XHR", "Fetch", "Document" (case-insensitive)
+  sinceLast?: boolean; // Only requests made after the previous call
+  limit?: number; // Most recent requests to return (default: 50)
+};
+
+export type NetworkRequestsResult = {
+  requests: NetworkRequest[];
+  matched: number; // Requests matching the filters, before the limit
+  dropped: number; // Oldest requests discarded because the buffer was full
+};
+
+/**
+ * Options for turning the network log into a HAR file.
+ */
+export type ExportHarOptions = {
+  includeBodies?: boolean; // Include captured response bodies (default: true)
+  creatorVersion?: string;
+};
+
+// ============================================================================
+// browser_route types
+// ============================================================================
+
+/**
+ * What a route does with a matching request.
+ * - "fulfill": answer it with a mocked response, without touching the network
+ * - "abort": fail it with a network error
+ * - "continue": send it on, with modified headers
+ */
+export type RouteAction = "fulfill" | "abort" | "continue";
+
+/**
+ * Network error a request can be aborted with (CDP Network.ErrorReason).
+ */
+export type RouteErrorReason =
+  | "Failed"
+  | "Aborted"
+  | "TimedOut"
+  | "AccessDenied"
+  | "ConnectionClosed"
+  | "ConnectionReset"
+  | "ConnectionRefused"
+  | "ConnectionAborted"
+  | "ConnectionFailed"
+  | "NameNotResolved"
+  | "InternetDisconnected"
+  | "AddressUnreachable"
+  | "BlockedByClient"
+  | "BlockedByResponse";
+
+/**
+ * Options for intercepting the current role's requests.
+ */
+export type RouteOptions = {
+  url: string; // Glob ("**/api/cart*"), regex ("/cart\/\d+/") or substring
+  method?: string; // Only requests with this HTTP method (default: any)
+  action: RouteAction;
+  status?: number; // fulfill: response status (default: 200)
+  headers?: Record<string, string>; // fulfill: response headers; continue: request headers to set
+  body?: string; // fulfill: response body
+  bodyPath?: string; // fulfill: file to read the response body from
+  errorReason?: RouteErrorReason; // abort: network error (default: "Failed")
+};
+
+/**
+ * An active route of a role.
+ */
+export type RouteInfo = {
+  id: string; // r1, r2, ... in creation order
+  url: string;
+  method?: string;
+  action: RouteAction;
+  status?: number;
+  headers?: Record<string, string>;
+  bodyPath?: string;
+  bodySize?: number; // Bytes of the fulfill body
+  errorReason?: RouteErrorReason;
+  hits: number; // Requests handled so far
+};
+
+// ============================================================================
+// browser_emulate types
+// ============================================================================
+
+/**
+ * prefers-color-scheme media feature a role's pages see.
+ */
+export type ColorScheme = "light" | "dark" | "no-preference";
+
+/**
+ * Device and environment a role's pages emulate. A device preset fills in
+ * viewport, scale factor, mobile, touch and user agent; fields set
+ * explicitly win over the preset.
+ */
+export type EmulationSettings = {
+  device?: string; // Preset name, e.g. "iPhone 15", "Pixel 5", "Desktop HiDPI"
+  viewport?: { width: number; height: number };
+  deviceScaleFactor?: number; // Device pixels per CSS pixel
+  isMobile?: boolean; // Mobile viewport meta handling and overlay scrollbars
+  hasTouch?: boolean; // Touch events and (pointer: coarse)
+  userAgent?: string;
+  locale?: string; // navigator.language, Intl default and Accept-Language
+  timezone?: string; // IANA time zone, e.g. "Europe/Berlin"
+  geolocation?: { latitude: number; longitude: number; accuracy?: number };
+  colorScheme?: ColorScheme;
+};
+
+// ============================================================================
+// browser_wait_for types
+// ============================================================================
+
+/**
+ * State an element can be waited for.
+ */
+export type ElementWaitState = "visible" | "hidden" | "enabled" | "detached";
+
+/**
+ * A DOM condition evaluated inside a frame by the bridge.
+ * Text conditions match against rendered text (innerText).
+ */
+export type BridgeWaitCondition =
+  | { kind: "text"; text: string; present: boolean }
+  | { kind: "ref"; ref: string; state: ElementWaitState };
+
+/**
+ * Conditions accepted by browser_wait_for. All given conditions must hold.
+ */
+export type WaitForOptions = {
+  text?: string; // Wait until this text is rendered
+  textGone?: string; // Wait until this text is no longer rendered
+  ref?: string; // Wait until this element reaches `state`
+  state?: ElementWaitState; // Defaults to "visible"
+  url?: string; // Substring, glob (`**/checkout/*`) or /regex/
+  networkIdle?: boolean; // No network activity for 500ms
+  timeout?: number; // Overall timeout in milliseconds
+};
+
+// ============================================================================
+// export_test types
+// ============================================================================
+
+/**
+ * An action recorded during a session, replayed by export_test.
+ * `locator` is the best generate_locator candidate for the ref at the time of
+ * the action, or null when none could be generated. `tab` is the id of the
+ * role's tab the action ran in (the role's first tab when missing); openTab
+ * follows the action that opened the tab, and a dialog answer precedes the
+ * action that opened the dialog.
+ */
+export type RecordedAction =
+  | { type: "navigate"; role: string; tab?: string; url: string }
+  | {
+      type: "click";
+      role: string;
+      tab?: string;
+      ref: string;
+      locator: string | null;
+    }
+  | {
+      type: "hover";
+      role: string;
+      tab?: string;
+      ref: string;
+      locator: string | null;
+    }
+  | {
+      type: "type";
+      role: string;
+      tab?: string;
+      ref: string;
+      locator: string | null;
+      text: string;
+    }
+  | {
+      type: "selectOption";
+      role: string;
+      tab?: string;
+      ref: string;
+      locator: string | null;
+      values: string[];
+    }
+  | {
+      type: "pressKey";
+      role: string;
+      tab?: string;
+      ref?: string;
+      locator: string | null;
+      key: string;
+    }
+  | { type: "goBack" | "goForward" | "reload"; role: string; tab?: string }
+  | { type: "openTab"; role: string; tab: string; opener: string }
+  | { type: "switchTab" | "closeTab"; role: string; tab: string }
+  | {
+      type: "dialog";
+      role: string;
+      tab: string;
+      accept: boolean;
+      promptText?: string;
+    }
+  | { type: "selectRole"; role: string };
+
+/**
+ * Options for turning a recorded session into a Playwright test file.
+ */
+export type ExportTestOptions = {
+  testName?: string; // Defaults to "recorded session"
+  authPaths?: Record<string, string>; // Role -> storage state file
+};
+
+// ============================================================================
+// save_auth_state types
+// ============================================================================
+
+/**
+ * A cookie in Playwright's storageState format.
+ * `expires` is a Unix timestamp in seconds, -1 for session cookies.
+ */
+export type StorageStateCookie = {
+  name: string;
+  value: string;
+  domain: string;
+  path: string;
+  expires: number;
+  httpOnly: boolean;
+  secure: boolean;
+  sameSite: "Strict" | "Lax" | "None";
+};
+
+/**
+ * Web storage of one origin. `sessionStorage` is a Verdex extension -
+ * Playwright ignores it when loading the file.
+ */
+export type StorageStateOrigin = {
+  origin: string;
+  localStorage: Array<{ name: string; value: string }>;
+  sessionStorage?: Array<{ name: string; value: string }>;
+};
+
+/**
+ * Playwright-compatible storage state, as read by `--role` auth files
+ * and written by save_auth_state.
+ */
+export type StorageState = {
+  cookies: StorageStateCookie[];
+  origins: StorageStateOrigin[];
+};
+
+export type SaveAuthStateResult = {
+  role: string;
+  path: string;
+  cookieCount: number;
+  origins: Array<{
+    origin: string;
+    localStorageCount: number;
+    sessionStorageCount: number;
+  }>;
 };
 
 // ============================================================================
@@ -279,3 +886,25 @@ export class AuthenticationError extends Error {
     this.name = "AuthenticationError";
   }
 }
+
+/**
+ * Error thrown when the active tab is blocked by an unanswered JavaScript dialog
+ */
+export class DialogPendingError extends Error {
+  constructor(public role: string, public dialog: DialogInfo) {
+    super(
+      `Role '${role}' has an open ${dialog.type} dialog in tab ${dialog.tabId}: "${dialog.message}"`
+    );
+    this.name = "DialogPendingError";
+  }
+}
+
+/**
+ * Error thrown when a browser_wait_for condition is not met in time
+ */
+export class WaitTimeoutError extends Error {
+  constructor(public condition: string, public timeout: number) {
+    super(`Timed out after ${timeout}ms waiting for ${condition}`);
+    this.name = "WaitTimeoutError";
+  }
+}
@@ -0,0 +1,236 @@
+/**
+ * Utility for turning a role's network log into a HAR 1.2 archive.
+ *
+ * The archive opens in browser DevTools, Charles, Fiddler and HAR viewers.
+ * Timings are derived from CDP's ResourceTiming; phases that did not happen
+ * (no DNS lookup on a reused connection) are -1 as the spec requires.
+ * See http://www.softwareishard.com/blog/har-12-spec/
+ */
+import type { ExportHarOptions, NetworkRequest } from "../shared-types.js";
+
+type HarHeader = { name: string; value: string };
+
+export type HarEntry = {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    cookies: [];
+    headers: HarHeader[];
+    queryString: HarHeader[];
+    postData?: { mimeType: string; text: string };
+    headersSize: -1;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    cookies: [];
+    headers: HarHeader[];
+    content: {
+      size: number;
+      mimeType: string;
+      text?: string;
+      comment?: string;
+    };
+    redirectURL: string;
+    headersSize: -1;
+    bodySize: number;
+    _error?: string;
+  };
+  cache: Record<string, never>;
+  timings: {
+    blocked: number;
+    dns: number;
+    connect: number;
+    ssl: number;
+    send: number;
+    wait: number;
+    receive: number;
+  };
+  serverIPAddress?: string;
+  _resourceType: string;
+};
+
+export type Har = {
+  log: {
+    version: "1.2";
+    creator: { name: string; version: string };
+    pages: [];
+    entries: HarEntry[];
+  };
+};
+
+export class HarExporter {
+  /**
+   * Build a HAR archive from recorded requests
+   * @param requests - Requests in the order they were made
+   * @param options - Whether to include response bodies, creator version
+   * @returns HAR object, ready for JSON.stringify
+   */
+  static toHar(
+    requests: NetworkRequest[],
+    options: ExportHarOptions = {}
+  ): Har {
+    const includeBodies = options.includeBodies ?? true;
+    return {
+      log: {
+        version: "1.2",
+        creator: { name: "verdex", version: options.creatorVersion ?? "" },
+        pages: [],
+        entries: requests.map((request) =>
+          this.toEntry(request, includeBodies)
+        ),
+      },
+    };
+  }
+
+  private static toEntry(
+    request: NetworkRequest,
+    includeBodies: boolean
+  ): HarEntry {
+    const httpVersion = this.httpVersion(request.httpVersion);
+    const responseHeaders = request.responseHeaders ?? {};
+    const time = request.duration ?? 0;
+
+    const entry: HarEntry = {
+      startedDateTime: new Date(request.startedAt).toISOString(),
+      time,
+      request: {
+        method: request.method,
+        url: request.url,
+        httpVersion,
+        cookies: [],
+        headers: this.toHeaders(request.requestHeaders),
+        queryString: this.toQueryString(request.url),
+        headersSize: -1,
+        bodySize: request.postData ? Buffer.byteLength(request.postData) : 0,
+      },
+      response: {
+        status: request.status ?? 0,
+        statusText: request.statusText ?? "",
+        httpVersion,
+        cookies: [],
+        headers: this.toHeaders(responseHeaders),
+        content: {
+          size: request.responseBody
+            ? Buffer.byteLength(request.responseBody)
+            : 0,
+          mimeType: request.mimeType ?? "x-unknown",
+        },
+        redirectURL: this.header(responseHeaders, "location") ?? "",
+        headersSize: -1,
+        bodySize: request.encodedDataLength ?? -1,
+      },
+      cache: {},
+      timings: this.toTimings(request, time),
+      _resourceType: request.resourceType.toLowerCase(),
+    };
+
+    if (request.postData !== undefined) {
+      entry.request.postData = {
+        mimeType:
+          this.header(request.requestHeaders, "content-type") ??
+          "application/octet-stream",
+        text: request.postData,
+      };
+    }
+    if (includeBodies && request.responseBody !== undefined) {
+      entry.response.content.text = request.responseBody;
+      if (request.responseBodyTruncated) {
+        entry.response.content.comment = "Body truncated by Verdex";
+      }
+    }
+    if (request.failure) entry.response._error = request.failure;
+    if (request.remoteAddress) {
+      // CDP reports IPv6 addresses in brackets
+      entry.serverIPAddress = request.remoteAddress.replace(/^\[|\]$/g, "");
+    }
+
+    return entry;
+  }
+
+  /**
+   * Split the total time into HAR phases. `ssl` is part of `connect`.
+   */
+  private static toTimings(
+    request: NetworkRequest,
+    time: number
+  ): HarEntry["timings"] {
+    const timing = request.timing;
+    if (!timing) {
+      return {
+        blocked: -1,
+        dns: -1,
+        connect: -1,
+        ssl: -1,
+        send: 0,
+        wait: time,
+        receive: 0,
+      };
+    }
+
+    const span = (start: number, end: number) =>
+      start >= 0 && end >= start ? this.round(end - start) : -1;
+    const firstPhase = [
+      timing.dnsStart,
+      timing.connectStart,
+      timing.sendStart,
+    ].find((offset) => offset >= 0);
+
+    return {
+      blocked: firstPhase !== undefined ? this.round(firstPhase) : -1,
+      dns: span(timing.dnsStart, timing.dnsEnd),
+      connect: span(timing.connectStart, timing.connectEnd),
+      ssl: span(timing.sslStart, timing.sslEnd),
+      send: Math.max(0, this.round(timing.sendEnd - timing.sendStart)),
+      wait: Math.max(0, this.round(timing.receiveHeadersEnd - timing.sendEnd)),
+      receive: Math.max(0, this.round(time - timing.receiveHeadersEnd)),
+    };
+  }
+
+  private static toHeaders(headers: Record<string, string>): HarHeader[] {
+    // Chrome joins repeated headers (Set-Cookie) with newlines
+    return Object.entries(headers).flatMap(([name, value]) =>
+      String(value)
+        .split("\n")
+        .map((line) => ({ name, value: line }))
+    );
+  }
+
+  private static toQueryString(url: string): HarHeader[] {
+    try {
+      return [...new URL(url).searchParams].map(([name, value]) => ({
+        name,
+        value,
+      }));
+    } catch {
+      return [];
+    }
+  }
+
+  private static header(
+    headers: Record<string, string>,
+    name: string
+  ): string | undefined {
+    const key = Object.keys(headers).find((k) => k.toLowerCase() === name);
+    return key ? headers[key] : undefined;
+  }
+
+  /**
+   * "h2" / "http/1.1" from CDP to the HAR form ("HTTP/2", "HTTP/1.1")
+   */
+  private static httpVersion(protocol: string | undefined): string {
+    if (!protocol) return "";
+    if (protocol === "h2") return "HTTP/2";
+    if (protocol === "h3") return "HTTP/3";
+    return protocol.toUpperCase();
+  }
+
+  private static round(ms: number): number {
+    return Math.round(ms * 1000) / 1000;
+  }
+}
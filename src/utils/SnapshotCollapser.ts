@@ -0,0 +1,257 @@
+/**
+ * Utility for fitting a snapshot tree into a line/token budget.
+ *
+ * Regions are collapsed in order of how little an agent usually needs them:
+ *   1. Navigation and footer landmarks
+ *   2. Containers whose children are mostly the same role (result lists,
+ *      table rows, card grids) - the repeated-sibling case inspect_pattern
+ *      reports - largest first
+ *   3. Any remaining subtree, largest first - page skeleton nodes holding
+ *      more than half of the page (main, wrappers) only as a last resort
+ * until the rendered text fits. Each collapsed node keeps its own line with a
+ * summary and an id; the original subtree is returned so it can be expanded.
+ */
+import type { SnapshotBudget, SnapshotNode } from "../shared-types.js";
+import { SnapshotRenderer } from "./SnapshotRenderer.js";
+
+const LOW_VALUE_LANDMARKS = ["navigation", "contentinfo"];
+
+// A container is "repetitive" with this many children of one role
+const MIN_SIMILAR_SIBLINGS = 5;
+
+const CHARS_PER_TOKEN = 4;
+
+type Candidate = {
+  node: SnapshotNode;
+  parent: SnapshotNode;
+  ancestors: SnapshotNode[];
+  priority: number;
+  size: number;
+  span: [number, number]; // Lines of the node in the full rendering
+};
+
+// Rendered lines and characters, the "\n" between lines included
+type Usage = { lines: number; length: number };
+
+export class SnapshotCollapser {
+  /**
+   * Collapse regions of `tree` (in place) until its rendering fits the budget
+   *
+   * The tree is rendered once; each collapse then updates the line and
+   * character counts instead of rendering the tree again.
+   * @param tree - Root node, usually the virtual "WebArea"
+   * @param budget - maxLines and/or maxTokens
+   * @param firstId - Number of the first region id (c1, c2, ...)
+   * @returns Original subtree of every collapsed region, by id
+   */
+  static collapse(
+    tree: SnapshotNode,
+    budget: SnapshotBudget,
+    firstId: number = 1
+  ): Map<string, SnapshotNode> {
+    const regions = new Map<string, SnapshotNode>();
+    const spans = new Map<SnapshotNode, [number, number]>();
+    const lines = SnapshotRenderer.renderLines(tree, spans);
+
+    // offsets[i]: characters before line i, each line followed by a "\n"
+    const offsets = [0];
+    for (const line of lines) {
+      offsets.push(offsets[offsets.length - 1] + line.length + 1);
+    }
+    const measure = (start: number, end: number): Usage => ({
+      lines: end - start,
+      length: offsets[end] - offsets[start],
+    });
+
+    // The last line has no "\n" after it
+    const usage = measure(0, lines.length);
+    usage.length = Math.max(usage.length - 1, 0);
+    if (this.withinBudget(usage, budget)) return regions;
+
+    const candidates = this.collectCandidates(tree, spans, measure, usage);
+    const collapsed = new Set<SnapshotNode>();
+    // What each collapse saved, by the span it covered (spans are disjoint)
+    let savings: Array<{ span: [number, number]; saved: Usage }> = [];
+    let nextId = firstId;
+
+    for (const candidate of candidates) {
+      // Content of a region that is already collapsed is no longer rendered
+      if (candidate.ancestors.some((a) => collapsed.has(a))) continue;
+
+      const id = `c${nextId++}`;
+      const index = candidate.parent.children.indexOf(candidate.node);
+      const replacement: SnapshotNode = {
+        ...candidate.node,
+        children: [],
+        truncated: undefined,
+        frame: undefined,
+        collapsed: { id, summary: this.summarize(candidate.node) },
+      };
+      candidate.parent.children[index] = replacement;
+      collapsed.add(candidate.node);
+      regions.set(id, candidate.node);
+
+      // Saved compared to the first rendering; earlier collapses inside this
+      // node are replaced by it
+      const inside = savings.filter(
+        (s) => s.span[0] >= candidate.span[0] && s.span[1] <= candidate.span[1]
+      );
+      const saved = measure(...candidate.span);
+      const firstLine = lines[candidate.span[0]];
+      const indent = firstLine.length - firstLine.trimStart().length;
+      saved.lines -= 1;
+      saved.length -= indent + SnapshotRenderer.render(replacement).length + 1;
+
+      for (const s of inside) {
+        usage.lines += s.saved.lines;
+        usage.length += s.saved.length;
+      }
+      usage.lines -= saved.lines;
+      usage.length -= saved.length;
+      savings = savings.filter((s) => !inside.includes(s));
+      savings.push({ span: candidate.span, saved });
+
+      if (this.withinBudget(usage, budget)) break;
+    }
+
+    return regions;
+  }
+
+  /**
+   * Rough token count of snapshot text (about 4 characters per token)
+   */
+  static estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+  }
+
+  /**
+   * Summary shown on a collapsed node's line
+   * @returns e.g. "48 similar listitems, refs e40–e320"
+   */
+  static summarize(node: SnapshotNode): string {
+    const parts: string[] = [];
+
+    const similar = this.dominantRole(node);
+    if (similar) {
+      parts.push(`${similar.count} similar ${this.plural(similar.role)}`);
+    } else {
+      const count = this.countNodes(node) - 1;
+      parts.push(`${count} ${count === 1 ? "node" : "nodes"}`);
+    }
+
+    const refs = this.collectRefs(node);
+    if (refs.length === 1) {
+      parts.push(`ref ${refs[0]}`);
+    } else if (refs.length > 1) {
+      parts.push(`refs ${refs[0]}–${refs[refs.length - 1]}`);
+    }
+
+    return parts.join(", ");
+  }
+
+  /**
+   * Every collapsible node with its priority and rendered size, in the order
+   * they should be collapsed. Sizes come from the spans of the full
+   * rendering, so no subtree is rendered again.
+   */
+  private static collectCandidates(
+    tree: SnapshotNode,
+    spans: Map<SnapshotNode, [number, number]>,
+    measure: (start: number, end: number) => Usage,
+    total: Usage
+  ): Candidate[] {
+    const candidates: Candidate[] = [];
+
+    const visit = (node: SnapshotNode, ancestors: SnapshotNode[]) => {
+      for (const child of node.children) {
+        if (typeof child === "string") continue;
+
+        const path = [...ancestors, node];
+        const span = spans.get(child);
+        if (span && child.children.length > 0 && !child.collapsed) {
+          const size = measure(span[0], span[1]).length - 1;
+          const priority = LOW_VALUE_LANDMARKS.includes(child.role)
+            ? 0
+            : this.dominantRole(child)
+            ? 1
+            : size * 2 <= total.length
+            ? 2
+            : 3;
+          candidates.push({
+            node: child,
+            parent: node,
+            ancestors: path,
+            priority,
+            size,
+            span,
+          });
+        }
+        visit(child, path);
+      }
+    };
+    visit(tree, []);
+
+    return candidates.sort(
+      (a, b) => a.priority - b.priority || b.size - a.size
+    );
+  }
+
+  private static withinBudget(usage: Usage, budget: SnapshotBudget): boolean {
+    if (budget.maxLines !== undefined && usage.lines > budget.maxLines) {
+      return false;
+    }
+    if (budget.maxTokens !== undefined) {
+      if (Math.ceil(usage.length / CHARS_PER_TOKEN) > budget.maxTokens) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * The role most of `node`'s children share, if there are enough of them
+   */
+  private static dominantRole(
+    node: SnapshotNode
+  ): { role: string; count: number } | null {
+    const counts = new Map<string, number>();
+    for (const child of node.children) {
+      if (typeof child === "string") continue;
+      counts.set(child.role, (counts.get(child.role) ?? 0) + 1);
+    }
+
+    let best: { role: string; count: number } | null = null;
+    for (const [role, count] of counts) {
+      if (!best || count > best.count) best = { role, count };
+    }
+
+    return best &&
+      best.count >= MIN_SIMILAR_SIBLINGS &&
+      best.count * 2 >= node.children.length
+      ? best
+      : null;
+  }
+
+  private static countNodes(node: SnapshotNode | string): number {
+    if (typeof node === "string") return 1;
+    return node.children.reduce(
+      (sum, child) => sum + this.countNodes(child),
+      1
+    );
+  }
+
+  private static collectRefs(
+    node: SnapshotNode,
+    refs: string[] = []
+  ): string[] {
+    if (node.ref) refs.push(node.ref);
+    for (const child of node.children) {
+      if (typeof child !== "string") this.collectRefs(child, refs);
+    }
+    return refs;
+  }
+
+  private static plural(role: string): string {
+    return /(x|s)$/.test(role) ? `${role}es` : `${role}s`;
+  }
+}
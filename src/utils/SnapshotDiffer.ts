@@ -0,0 +1,137 @@
+/**
+ * Utility for comparing two snapshot texts of the same document.
+ *
+ * Refs are stable across snapshots of a document (the bridge reuses
+ * `_verdexRef`), so nodes with refs are matched by ref. Ref-less lines
+ * nested under a ref node (input values, button text) belong to that node;
+ * all other ref-less lines are compared as plain text.
+ */
+import type { SnapshotDiff } from "../shared-types.js";
+
+type ParsedSnapshot = {
+  nodes: Map<string, string>;
+  text: string[];
+};
+
+const REF_PATTERN = /\[ref=([^\]]+)\]/;
+
+export class SnapshotDiffer {
+  /**
+   * Compute the changes from one snapshot text to the next
+   * @param previous - Text of the earlier snapshot
+   * @param current - Text of the later snapshot
+   * @returns Added, removed and changed nodes plus added/removed text
+   */
+  static compute(previous: string, current: string): SnapshotDiff {
+    const before = this.parse(previous);
+    const after = this.parse(current);
+
+    const diff: SnapshotDiff = {
+      added: [],
+      removed: [],
+      changed: [],
+      textAdded: [],
+      textRemoved: [],
+      unchangedCount: 0,
+    };
+
+    for (const [ref, line] of after.nodes) {
+      const previousLine = before.nodes.get(ref);
+      if (previousLine === undefined) {
+        diff.added.push({ ref, line });
+      } else if (previousLine !== line) {
+        diff.changed.push({ ref, before: previousLine, after: line });
+      } else {
+        diff.unchangedCount++;
+      }
+    }
+
+    for (const [ref, line] of before.nodes) {
+      if (!after.nodes.has(ref)) {
+        diff.removed.push({ ref, line });
+      }
+    }
+
+    diff.textAdded = this.subtractLines(after.text, before.text);
+    diff.textRemoved = this.subtractLines(before.text, after.text);
+
+    return diff;
+  }
+
+  /**
+   * Check whether a diff contains any change
+   */
+  static isEmpty(diff: SnapshotDiff): boolean {
+    return (
+      diff.added.length === 0 &&
+      diff.removed.length === 0 &&
+      diff.changed.length === 0 &&
+      diff.textAdded.length === 0 &&
+      diff.textRemoved.length === 0
+    );
+  }
+
+  private static parse(text: string): ParsedSnapshot {
+    const nodes = new Map<string, string>();
+    const freeText: string[] = [];
+    // Ref nodes enclosing the current line (innermost last)
+    const owners: Array<{ indent: number; ref: string | null }> = [];
+
+    for (const rawLine of text.split("\n")) {
+      if (!rawLine.trim()) continue;
+
+      const indent = rawLine.length - rawLine.trimStart().length;
+      const line = this.normalizeLine(rawLine);
+
+      while (owners.length > 0 && owners[owners.length - 1].indent >= indent) {
+        owners.pop();
+      }
+
+      const refMatch = rawLine.match(REF_PATTERN);
+      if (refMatch) {
+        nodes.set(refMatch[1], line);
+        // Expanded iframes contain a whole document - their content is not owned
+        const isIframe = /^iframe\b/.test(line);
+        owners.push({ indent, ref: isIframe ? null : refMatch[1] });
+        continue;
+      }
+
+      const owner = owners[owners.length - 1];
+      if (owner?.ref) {
+        nodes.set(owner.ref, `${nodes.get(owner.ref)} | ${line}`);
+      } else {
+        freeText.push(line);
+      }
+    }
+
+    return { nodes, text: freeText };
+  }
+
+  /**
+   * Strip indentation, the YAML list marker and the iframe expansion colon
+   */
+  private static normalizeLine(line: string): string {
+    return line.trim().replace(/^- /, "").replace(/:$/, "");
+  }
+
+  /**
+   * Lines in `lines` that are not in `other`, respecting duplicates
+   */
+  private static subtractLines(lines: string[], other: string[]): string[] {
+    const remaining = new Map<string, number>();
+    for (const line of other) {
+      remaining.set(line, (remaining.get(line) ?? 0) + 1);
+    }
+
+    const result: string[] = [];
+    for (const line of lines) {
+      const count = remaining.get(line) ?? 0;
+      if (count > 0) {
+        remaining.set(line, count - 1);
+      } else {
+        result.push(line);
+      }
+    }
+    return result;
+  }
+}
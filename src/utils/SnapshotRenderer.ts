@@ -0,0 +1,202 @@
+/**
+ * Utility for rendering snapshot trees as YAML-like text.
+ *
+ * Shared by the bridge (single frame) and the runtime (after iframes are
+ * expanded), so both produce the same format:
+ *   - heading "Products" [level=1]
+ *   - button "Add to Cart" [ref=e25]
+ *   - iframe [ref=e3]:
+ *     - textbox "Card number" [ref=f1_e1]
+ */
+import type { OffscreenCount, SnapshotNode } from "../shared-types.js";
+
+const FRAME_PLACEHOLDERS: Record<
+  Exclude<NonNullable<SnapshotNode["frame"]>["status"], "expanded">,
+  (error?: string) => string
+> = {
+  unavailable: () => "[Frame content unavailable]",
+  detached: () => "[Frame detached]",
+  error: (error) => `[Error: ${error}]`,
+};
+
+export class SnapshotRenderer {
+  /**
+   * Render a tree to text. A "WebArea" root is not rendered itself.
+   * @param node - Root node (or text) to render
+   * @returns One line per node, children indented by two spaces
+   */
+  static render(node: SnapshotNode | string): string {
+    return this.renderLines(node).join("\n");
+  }
+
+  /**
+   * Render a tree to lines, optionally recording which lines each node spans
+   * @param node - Root node (or text) to render
+   * @param spans - Filled with the [first, end) line indexes of every
+   *   rendered element node, its children included
+   */
+  static renderLines(
+    node: SnapshotNode | string,
+    spans?: Map<SnapshotNode, [number, number]>
+  ): string[] {
+    const lines: string[] = [];
+    this.renderNode(node, lines, "", spans);
+    return lines;
+  }
+
+  /**
+   * Render a single node without its children
+   * @param node - Node to render
+   * @returns e.g. `button "Save" [disabled] [ref=e4]`
+   */
+  static renderLine(node: SnapshotNode): string {
+    let line = node.role;
+
+    // Add name if present (with YAML escaping)
+    if (node.name) {
+      line += ` ${this.escapeValue(node.name)}`;
+    }
+
+    // Add ARIA properties
+    const states = node.states ?? {};
+    if (states.checked === "mixed") line += " [checked=mixed]";
+    else if (states.checked === true) line += " [checked]";
+
+    if (states.disabled) line += " [disabled]";
+    if (states.expanded) line += " [expanded]";
+    if (states.active) line += " [active]";
+    if (states.level) line += ` [level=${states.level}]`;
+
+    if (states.pressed === "mixed") line += " [pressed=mixed]";
+    else if (states.pressed === true) line += " [pressed]";
+
+    if (states.selected) line += " [selected]";
+
+    // Add element properties
+    if (node.props && Object.keys(node.props).length > 0) {
+      const propsStr = Object.entries(node.props)
+        .map(([key, value]) => `${key}="${value.replace(/"/g, '\\"')}"`)
+        .join(" ");
+      line += ` [${propsStr}]`;
+    }
+
+    // Add reference
+    if (node.ref) {
+      line += ` [ref=${node.ref}]`;
+    }
+
+    return line;
+  }
+
+  /**
+   * Escape a YAML value if needed (special chars, numbers, booleans)
+   */
+  static escapeValue(value: string): string {
+    // Values with special characters or that look like numbers/booleans
+    if (!value) return '""';
+
+    if (
+      /^(true|false|null|~)$/i.test(value) ||
+      /^[0-9]/.test(value) ||
+      /[:\[\]{}#&*!|>'"%@`\n\r]/.test(value)
+    ) {
+      return JSON.stringify(value);
+    }
+
+    return value;
+  }
+
+  private static renderNode(
+    node: SnapshotNode | string,
+    lines: string[],
+    indent: string,
+    spans?: Map<SnapshotNode, [number, number]>
+  ): void {
+    // Handle text nodes (with YAML escaping)
+    if (typeof node === "string") {
+      lines.push(`${indent}- text: ${this.escapeValue(node)}`);
+      return;
+    }
+
+    // Skip the virtual WebArea root
+    if (node.role === "WebArea") {
+      this.renderChildren(node, lines, indent, spans);
+      return;
+    }
+
+    const start = lines.length;
+
+    // Collapsed regions show a summary instead of their content
+    if (node.collapsed) {
+      lines.push(
+        `${indent}- ${this.renderLine(node)} (${
+          node.collapsed.summary
+        }) [collapsed=${node.collapsed.id}]`
+      );
+      spans?.set(node, [start, lines.length]);
+      return;
+    }
+
+    // Expanded iframes end with a colon, their content follows indented
+    lines.push(`${indent}- ${this.renderLine(node)}${node.frame ? ":" : ""}`);
+
+    if (node.frame && node.frame.status !== "expanded") {
+      lines.push(
+        `${indent}  ${FRAME_PLACEHOLDERS[node.frame.status](node.frame.error)}`
+      );
+    }
+
+    this.renderChildren(node, lines, indent + "  ", spans);
+
+    if (node.truncated) {
+      lines.push(`${indent}  - ... (${node.truncated} more)`);
+    }
+    spans?.set(node, [start, lines.length]);
+  }
+
+  /**
+   * Children, between the markers for regions a viewport-only snapshot skipped
+   */
+  private static renderChildren(
+    node: SnapshotNode,
+    lines: string[],
+    indent: string,
+    spans?: Map<SnapshotNode, [number, number]>
+  ): void {
+    if (node.offscreen?.above.regions) {
+      lines.push(
+        `${indent}- [offscreen] ${this.describeOffscreen(
+          node.offscreen.above,
+          "above"
+        )}`
+      );
+    }
+    for (const child of node.children) {
+      this.renderNode(child, lines, indent, spans);
+    }
+    if (node.offscreen?.below.regions) {
+      lines.push(
+        `${indent}- [offscreen] ${this.describeOffscreen(
+          node.offscreen.below,
+          "below"
+        )}`
+      );
+    }
+  }
+
+  /**
+   * e.g. "1 region below (500 interactive elements)"
+   */
+  private static describeOffscreen(
+    count: OffscreenCount,
+    side: "above" | "below"
+  ): string {
+    const regions = `${count.regions} ${
+      count.regions === 1 ? "region" : "regions"
+    } ${side}`;
+    if (count.interactive === 0) return regions;
+    return `${regions} (${count.interactive} interactive ${
+      count.interactive === 1 ? "element" : "elements"
+    })`;
+  }
+}
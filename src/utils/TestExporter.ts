@@ -0,0 +1,296 @@
+/**
+ * Utility for turning a recorded session into a Playwright test file.
+ *
+ * Single-role sessions use the `page` fixture (with `test.use({ storageState })`
+ * when the role has an auth file). Multi-role sessions open one
+ * `browser.newContext({ storageState })` per role, mirroring the `--role`
+ * auth paths, and interleave actions in the order they were recorded.
+ * Tabs opened during the session get a variable of their own, awaited with
+ * `waitForEvent('popup')` around the action that opened them. Dialog answers
+ * become `once('dialog')` handlers, since Playwright dismisses unhandled ones.
+ */
+import type { RecordedAction, ExportTestOptions } from "../shared-types.js";
+
+export class TestExporter {
+  /**
+   * Generate the source of a runnable Playwright test
+   * @param actions - Recorded actions in session order
+   * @param options - Test name and auth file per role
+   * @returns Contents of a `.spec.ts` file
+   */
+  static toPlaywrightTest(
+    actions: RecordedAction[],
+    options: ExportTestOptions = {}
+  ): string {
+    const testName = options.testName ?? "recorded session";
+    const authPaths = options.authPaths ?? {};
+    const roles = this.collectRoles(actions);
+
+    const lines: string[] = ["import { test } from '@playwright/test';", ""];
+
+    if (roles.length <= 1) {
+      const authPath = roles[0] ? authPaths[roles[0]] : undefined;
+      if (authPath) {
+        lines.push(`test.use({ storageState: ${this.quote(authPath)} });`, "");
+      }
+      lines.push(`test(${this.quote(testName)}, async ({ page }) => {`);
+      const variables = new Map(
+        roles.map((role) => [
+          role,
+          { context: "", page: "page", popup: "popup" },
+        ])
+      );
+      // Nothing to switch between with a single role
+      const steps = actions.filter((action) => action.type !== "selectRole");
+      lines.push(...this.renderActions(steps, variables).map(this.indent));
+      lines.push("});", "");
+      return lines.join("\n");
+    }
+
+    const variables = this.buildVariableNames(roles);
+    lines.push(`test(${this.quote(testName)}, async ({ browser }) => {`);
+
+    for (const role of roles) {
+      const { context, page } = variables.get(role)!;
+      const authPath = authPaths[role];
+      const contextOptions = authPath
+        ? `{ storageState: ${this.quote(authPath)} }`
+        : "";
+      lines.push(
+        this.indent(`// Role: ${role}`),
+        this.indent(
+          `const ${context} = await browser.newContext(${contextOptions});`
+        ),
+        this.indent(`const ${page} = await ${context}.newPage();`)
+      );
+    }
+    lines.push("");
+    lines.push(...this.renderActions(actions, variables).map(this.indent));
+
+    lines.push("");
+    for (const role of roles) {
+      lines.push(this.indent(`await ${variables.get(role)!.context}.close();`));
+    }
+    lines.push("});", "");
+
+    // A role switch right after the setup block would leave two blank lines
+    return lines
+      .filter((line, i) => line !== "" || lines[i - 1] !== "")
+      .join("\n");
+  }
+
+  /**
+   * Render actions in session order, each against the page of its role and
+   * tab. A role's first tab is its page; tabs it opens become popups, whose
+   * `waitForEvent('popup')` starts before the action that opens them.
+   */
+  private static renderActions(
+    actions: RecordedAction[],
+    variables: Map<string, { context: string; page: string; popup: string }>
+  ): string[] {
+    const lines: string[] = [];
+    const pages = new Map<string, Map<string, string>>(); // role -> tab -> variable
+    const used = new Set<string>();
+    const tabsOf = (role: string) => {
+      if (!pages.has(role)) pages.set(role, new Map());
+      return pages.get(role)!;
+    };
+
+    const newPopup = (role: string, tab: string): string => {
+      const base = variables.get(role)!.popup;
+      let name = base;
+      for (let i = 2; used.has(name); i++) name = `${base}${i}`;
+      used.add(name);
+      tabsOf(role).set(tab, name);
+      return name;
+    };
+    const pageOf = (role: string, tab = "t1"): string => {
+      const tabs = tabsOf(role);
+      const known = tabs.get(tab);
+      if (known) return known;
+
+      const main = variables.get(role)!.page;
+      if (tabs.size === 0) {
+        tabs.set(tab, main);
+        return main;
+      }
+      // Opened before the recording started: most likely the newest page
+      const popup = newPopup(role, tab);
+      lines.push(
+        `// TODO: tab ${tab} was opened before the recording started`,
+        `const ${popup} = ${main}.context().pages().at(-1)!;`
+      );
+      return popup;
+    };
+
+    for (let i = 0; i < actions.length; i++) {
+      const action = actions[i];
+      if (action.type === "selectRole" || action.type === "openTab") {
+        lines.push(...this.renderAction(action, ""));
+        continue;
+      }
+
+      const page = pageOf(action.role, action.tab);
+      const opened: Array<{ popup: string; promise: string }> = [];
+      // Tabs the action opened were recorded right after it
+      let next = actions[i + 1];
+      while (next?.type === "openTab") {
+        const popup = newPopup(next.role, next.tab);
+        const opener = pageOf(next.role, next.opener);
+        lines.push(`const ${popup}Promise = ${opener}.waitForEvent('popup');`);
+        opened.push({ popup, promise: `${popup}Promise` });
+        next = actions[++i + 1];
+      }
+
+      lines.push(...this.renderAction(action, page));
+      for (const { popup, promise } of opened) {
+        lines.push(`const ${popup} = await ${promise};`);
+      }
+    }
+
+    return lines;
+  }
+
+  /**
+   * Render one action as statements against `pageVar`
+   */
+  private static renderAction(
+    action: RecordedAction,
+    pageVar: string
+  ): string[] {
+    switch (action.type) {
+      case "navigate":
+        return [`await ${pageVar}.goto(${this.quote(action.url)});`];
+      case "goBack":
+      case "goForward":
+      case "reload":
+        return [`await ${pageVar}.${action.type}();`];
+      case "selectRole":
+        return ["", `// Switch to role: ${action.role}`];
+      case "openTab":
+        // Awaited around the action that opened the tab
+        return [];
+      case "switchTab":
+        return [`await ${pageVar}.bringToFront();`];
+      case "closeTab":
+        return [`await ${pageVar}.close();`];
+      case "dialog": {
+        // Recorded before the action that opens the dialog
+        const answer = action.accept
+          ? `dialog.accept(${
+              action.promptText === undefined
+                ? ""
+                : this.quote(action.promptText)
+            })`
+          : "dialog.dismiss()";
+        return [`${pageVar}.once('dialog', (dialog) => ${answer});`];
+      }
+      case "pressKey":
+        if (!action.ref) {
+          return [
+            `await ${pageVar}.keyboard.press(${this.quote(action.key)});`,
+          ];
+        }
+        return this.renderLocatorCall(
+          action,
+          pageVar,
+          `press(${this.quote(action.key)})`
+        );
+      case "click":
+        return this.renderLocatorCall(action, pageVar, "click()");
+      case "hover":
+        return this.renderLocatorCall(action, pageVar, "hover()");
+      case "type":
+        return this.renderLocatorCall(
+          action,
+          pageVar,
+          `fill(${this.quote(action.text)})`
+        );
+      case "selectOption": {
+        const values =
+          action.values.length === 1
+            ? this.quote(action.values[0])
+            : `[${action.values.map((v) => this.quote(v)).join(", ")}]`;
+        return this.renderLocatorCall(
+          action,
+          pageVar,
+          `selectOption(${values})`
+        );
+      }
+    }
+  }
+
+  private static renderLocatorCall(
+    action: { type: string; ref?: string; locator: string | null },
+    pageVar: string,
+    call: string
+  ): string[] {
+    if (!action.locator) {
+      return [
+        `// TODO: no locator could be generated for ${action.ref} (${action.type}: ${call})`,
+      ];
+    }
+    const locator = action.locator.replace(/^page\./, `${pageVar}.`);
+    return [`await ${locator}.${call};`];
+  }
+
+  /**
+   * Roles in order of first appearance
+   */
+  private static collectRoles(actions: RecordedAction[]): string[] {
+    const roles: string[] = [];
+    for (const action of actions) {
+      if (!roles.includes(action.role)) roles.push(action.role);
+    }
+    return roles;
+  }
+
+  /**
+   * Unique `<role>Context` / `<role>Page` / `<role>Popup` identifiers per role
+   */
+  private static buildVariableNames(
+    roles: string[]
+  ): Map<string, { context: string; page: string; popup: string }> {
+    const variables = new Map<
+      string,
+      { context: string; page: string; popup: string }
+    >();
+    const used = new Set<string>();
+
+    for (const role of roles) {
+      const words = role.split(/[^A-Za-z0-9]+/).filter(Boolean);
+      let base =
+        words
+          .map((word, i) =>
+            i === 0
+              ? word.charAt(0).toLowerCase() + word.slice(1)
+              : word.charAt(0).toUpperCase() + word.slice(1)
+          )
+          .join("") || "role";
+      if (/^[0-9]/.test(base)) base = `role${base}`;
+
+      let name = base;
+      for (let i = 2; used.has(name); i++) name = `${base}${i}`;
+      used.add(name);
+
+      variables.set(role, {
+        context: `${name}Context`,
+        page: `${name}Page`,
+        popup: `${name}Popup`,
+      });
+    }
+
+    return variables;
+  }
+
+  private static indent(line: string): string {
+    return line ? `  ${line}` : line;
+  }
+
+  private static quote(value: string): string {
+    return `'${value
+      .replace(/\\/g, "\\\\")
+      .replace(/'/g, "\\'")
+      .replace(/\n/g, "\\n")}'`;
+  }
+}
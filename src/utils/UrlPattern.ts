@@ -0,0 +1,59 @@
+/**
+ * Utility for matching URLs against user-supplied patterns.
+ *
+ * Pattern format:
+ * - Regex: "/checkout\/\d+/i" (slash-delimited, optional flags)
+ * - Glob: "**\/api/cart*" ("**" matches anything, "*" anything except "/")
+ * - Anything else: substring match
+ */
+export class UrlPattern {
+  /**
+   * Check whether a URL matches a pattern
+   * @param url - URL to test
+   * @param pattern - Regex, glob or substring pattern
+   * @returns True if the URL matches
+   * @throws Error if a regex pattern is invalid
+   */
+  static matches(url: string, pattern: string): boolean {
+    const regex = this.toRegExp(pattern);
+    return regex ? regex.test(url) : url.includes(pattern);
+  }
+
+  /**
+   * Convert a pattern to a RegExp, or null for substring patterns
+   * @param pattern - Regex, glob or substring pattern
+   * @returns RegExp for regex/glob patterns, null for plain substrings
+   */
+  static toRegExp(pattern: string): RegExp | null {
+    const regexMatch = pattern.match(/^\/(.+)\/([a-z]*)$/);
+    if (regexMatch) {
+      try {
+        return new RegExp(regexMatch[1], regexMatch[2]);
+      } catch (error) {
+        throw new Error(
+          `Invalid URL regex ${pattern}: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    }
+
+    if (!pattern.includes("*")) {
+      return null;
+    }
+
+    let source = "";
+    for (let i = 0; i < pattern.length; i++) {
+      const char = pattern[i];
+      if (char === "*" && pattern[i + 1] === "*") {
+        source += ".*";
+        i++;
+      } else if (char === "*") {
+        source += "[^/]*";
+      } else {
+        source += char.replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+      }
+    }
+    return new RegExp(`^${source}$`);
+  }
+}
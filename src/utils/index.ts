@@ -1,2 +1,8 @@
 export { ManualPromise } from "./ManualPromise.js";
 export { RefFormatter } from "./RefFormatter.js";
+export { UrlPattern } from "./UrlPattern.js";
+export { SnapshotDiffer } from "./SnapshotDiffer.js";
+export { TestExporter } from "./TestExporter.js";
+export { SnapshotRenderer } from "./SnapshotRenderer.js";
+export { SnapshotCollapser } from "./SnapshotCollapser.js";
+export { HarExporter } from "./HarExporter.js";
@@ -0,0 +1,54 @@
+import { test, expect } from "@playwright/test";
+import { KeyboardUtils } from "../../src/browser/utils/KeyboardUtils.js";
+
+test.describe("KeyboardUtils", () => {
+  test("parses keys with modifiers", () => {
+    expect(KeyboardUtils.parseKeyCombo("Shift+Tab", "Linux x86_64")).toEqual({
+      key: "Tab",
+      code: "Tab",
+      ctrlKey: false,
+      shiftKey: true,
+      altKey: false,
+      metaKey: false,
+    });
+    expect(KeyboardUtils.parseKeyCombo("Control++", "Win32")).toMatchObject({
+      key: "+",
+      ctrlKey: true,
+    });
+    expect(KeyboardUtils.parseKeyCombo(" ", "Win32").code).toBe("Space");
+  });
+
+  test("ControlOrMeta follows the page's platform", () => {
+    expect(
+      KeyboardUtils.parseKeyCombo("ControlOrMeta+A", "MacIntel")
+    ).toMatchObject({ key: "A", code: "KeyA", metaKey: true, ctrlKey: false });
+    expect(
+      KeyboardUtils.parseKeyCombo("ControlOrMeta+A", "Linux x86_64")
+    ).toMatchObject({ metaKey: false, ctrlKey: true });
+  });
+
+  test("upper-cases letters while Shift is held", () => {
+    expect(KeyboardUtils.parseKeyCombo("Shift+a", "Win32")).toMatchObject({
+      key: "A",
+      code: "KeyA",
+      shiftKey: true,
+    });
+    expect(KeyboardUtils.parseKeyCombo("a", "Win32").key).toBe("a");
+  });
+
+  test("normalizes named keys", () => {
+    expect(KeyboardUtils.parseKeyCombo("f5", "Win32").key).toBe("F5");
+    expect(
+      KeyboardUtils.parseKeyCombo("Control+insert", "Win32")
+    ).toMatchObject({ key: "Insert", ctrlKey: true });
+  });
+
+  test("rejects unknown modifiers and keys", () => {
+    expect(() => KeyboardUtils.parseKeyCombo("Hyper+A", "Win32")).toThrow(
+      /Unknown modifier "Hyper"/
+    );
+    expect(() => KeyboardUtils.parseKeyCombo("F13", "Win32")).toThrow(
+      /Unknown key "F13"/
+    );
+  });
+});
@@ -0,0 +1,96 @@
+import { test, expect } from "@playwright/test";
+import { LocatorParser } from "../../src/browser/core/LocatorParser.js";
+
+const parse = (source: string) => new LocatorParser(source).parse();
+
+test.describe("LocatorParser", () => {
+  test("parses getByRole with name and exact options", () => {
+    expect(
+      parse("page.getByRole('button', { name: 'Add to Cart', exact: true })")
+    ).toEqual([
+      [{ kind: "role", role: "button", name: "Add to Cart", exact: true }],
+    ]);
+  });
+
+  test("page prefix is optional", () => {
+    expect(parse("getByTestId('checkout')")).toEqual([
+      [{ kind: "testid", testId: "checkout" }],
+    ]);
+  });
+
+  test("parses chained filter, nth, first and last", () => {
+    const [steps] = parse(
+      `page.getByTestId("product-card").filter({ hasText: 'iPhone' }).getByRole('button').nth(2).first().last()`
+    );
+    expect(steps.map((s) => s.kind)).toEqual([
+      "testid",
+      "filter",
+      "role",
+      "nth",
+      "nth",
+      "nth",
+    ]);
+    expect(steps[1]).toEqual({ kind: "filter", hasText: "iPhone" });
+    expect(steps[3]).toEqual({ kind: "nth", index: 2 });
+    expect(steps[4]).toEqual({ kind: "nth", index: 0 });
+    expect(steps[5]).toEqual({ kind: "nth", index: -1 });
+  });
+
+  test("parses regex names and texts", () => {
+    const [steps] = parse(
+      "page.getByRole('link', { name: /sign (in|up)/i }).getByText(/^Total/)"
+    );
+    expect(steps[0]).toMatchObject({ kind: "role", role: "link" });
+    expect((steps[0] as any).name).toEqual(/sign (in|up)/i);
+    expect((steps[1] as any).text).toEqual(/^Total/);
+  });
+
+  test("parses locator() css with quotes and escapes", () => {
+    expect(parse(`page.locator('input[name=\\'email\\']')`)).toEqual([
+      [{ kind: "css", selector: "input[name='email']" }],
+    ]);
+  });
+
+  test("contentFrame() and frameLocator() start a new frame segment", () => {
+    expect(
+      parse(
+        "page.getByTestId('payment').contentFrame().getByRole('button', { name: 'Pay' })"
+      )
+    ).toEqual([
+      [{ kind: "testid", testId: "payment" }],
+      [{ kind: "role", role: "button", name: "Pay", exact: undefined }],
+    ]);
+
+    expect(parse("page.frameLocator('#checkout').getByText('Pay')")).toEqual([
+      [{ kind: "css", selector: "#checkout" }],
+      [{ kind: "text", text: "Pay", exact: undefined }],
+    ]);
+  });
+
+  test("rejects unsupported methods with the supported list", () => {
+    expect(() => parse("page.getByLabel('Email')")).toThrow(
+      /Unsupported method "getByLabel"/
+    );
+  });
+
+  test("rejects unsupported options", () => {
+    expect(() => parse("page.getByRole('button', { pressed: true })")).toThrow(
+      /Unsupported option "pressed"/
+    );
+  });
+
+  test("reports the position of syntax errors", () => {
+    expect(() => parse("page.getByRole('button'")).toThrow(
+      /Invalid locator at position \d+: Expected "\)"/
+    );
+    expect(() => parse("page.getByText('unterminated)")).toThrow(
+      /Unterminated string/
+    );
+  });
+
+  test("rejects a chain ending in contentFrame()", () => {
+    expect(() => parse("page.locator('iframe').contentFrame()")).toThrow(
+      /Expected a locator/
+    );
+  });
+});
@@ -0,0 +1,232 @@
+/**
+ * E2E Tests: Auth State Capture
+ *
+ * Tests save_auth_state's storage capture:
+ * - Cookies of the role's browser context
+ * - localStorage and sessionStorage of loaded origins
+ * - localStorage of origins the page has navigated away from
+ * - Saved files load back through the roles configuration
+ * - Every origin's localStorage and sessionStorage is restored without
+ *   navigating the role's page, with the outcome in the FailureLog
+ */
+
+import { test, expect } from "@playwright/test";
+import type { IncomingMessage, Server, ServerResponse } from "http";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { MultiContextBrowser } from "../../src/runtime/MultiContextBrowser.js";
+import { startServer } from "../utils/test-utils.js";
+
+const LOGIN_PAGE = `
+  <h1>Logged in</h1>
+  <script>
+    document.cookie = "session=abc123; path=/";
+    localStorage.setItem("token", "jwt-token");
+    sessionStorage.setItem("tab", "inbox");
+  </script>
+`;
+
+function serveApp(req: IncomingMessage, res: ServerResponse): void {
+  res.writeHead(200, { "Content-Type": "text/html" });
+  res.end(req.url === "/login" ? LOGIN_PAGE : "<h1>Home</h1>");
+}
+
+test.describe("Auth state capture", () => {
+  let browser: MultiContextBrowser;
+  let appServer: { server: Server; origin: string };
+  let otherServer: { server: Server; origin: string };
+
+  test.beforeEach(async () => {
+    appServer = await startServer(serveApp);
+    otherServer = await startServer(serveApp);
+    browser = new MultiContextBrowser();
+    await browser.initialize();
+  });
+
+  test.afterEach(async () => {
+    await browser.close();
+    appServer.server.close();
+    otherServer.server.close();
+  });
+
+  test("captures cookies and web storage of the loaded origin", async () => {
+    await browser.selectRole("user");
+    await browser.navigate(`${appServer.origin}/login`);
+
+    const state = await browser.getStorageState();
+
+    expect(state.cookies).toEqual([
+      expect.objectContaining({
+        name: "session",
+        value: "abc123",
+        domain: "127.0.0.1",
+        path: "/",
+        expires: -1,
+      }),
+    ]);
+    expect(state.origins).toEqual([
+      {
+        origin: appServer.origin,
+        localStorage: [{ name: "token", value: "jwt-token" }],
+        sessionStorage: [{ name: "tab", value: "inbox" }],
+      },
+    ]);
+  });
+
+  test("keeps localStorage of origins navigated away from", async () => {
+    await browser.selectRole("user");
+    await browser.navigate(`${appServer.origin}/login`);
+    await browser.navigate(`${otherServer.origin}/`);
+
+    const state = await browser.getStorageState();
+
+    expect(state.origins).toEqual([
+      {
+        origin: appServer.origin,
+        localStorage: [{ name: "token", value: "jwt-token" }],
+      },
+    ]);
+
+    // The scratch page used for reading is gone again
+    const snapshot = await browser.snapshot();
+    expect(snapshot.text).toContain("Home");
+  });
+
+  test("does not share state between roles", async () => {
+    await browser.selectRole("user");
+    await browser.navigate(`${appServer.origin}/login`);
+
+    await browser.selectRole("guest");
+    const state = await browser.getStorageState();
+
+    expect(state.cookies).toEqual([]);
+    expect(state.origins).toEqual([]);
+  });
+
+  test("saved state is loaded by a new role", async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), "verdex-auth-"));
+    const authPath = path.join(dir, "user.json");
+
+    try {
+      await browser.selectRole("user");
+      await browser.navigate(`${appServer.origin}/login`);
+      writeFileSync(
+        authPath,
+        JSON.stringify(await browser.getStorageState(), null, 2)
+      );
+
+      browser.setRolesConfiguration({ roles: { restored: { authPath } } });
+      await browser.selectRole("restored");
+      await browser.navigate(`${appServer.origin}/`);
+
+      const state = await browser.getStorageState();
+      expect(state.cookies.map((c) => c.name)).toEqual(["session"]);
+      expect(state.origins[0].localStorage).toEqual([
+        { name: "token", value: "jwt-token" },
+      ]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("restores storage for every origin without navigating", async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), "verdex-auth-"));
+    const authPath = path.join(dir, "sso.json");
+    const app = appServer.origin;
+    const idp = otherServer.origin;
+
+    try {
+      writeFileSync(
+        authPath,
+        JSON.stringify({
+          cookies: [],
+          origins: [
+            {
+              origin: app,
+              localStorage: [{ name: "token", value: "app-token" }],
+              sessionStorage: [{ name: "tab", value: "inbox" }],
+            },
+            {
+              origin: idp,
+              localStorage: [{ name: "idp_session", value: "idp-token" }],
+            },
+          ],
+        })
+      );
+      browser.setRolesConfiguration({ roles: { sso: { authPath } } });
+
+      await browser.selectRole("sso");
+      const failures = await browser.getFailures();
+      expect(failures.authOrigins).toEqual([
+        expect.objectContaining({
+          origin: app,
+          status: "restored",
+          localStorage: 1,
+          sessionStorage: 1,
+        }),
+        expect.objectContaining({
+          origin: idp,
+          status: "restored",
+          localStorage: 1,
+          sessionStorage: 0,
+        }),
+      ]);
+
+      // Nothing was loaded in the role's page yet
+      const initial = await browser.getStorageState();
+      expect(initial.origins.map((o) => o.origin)).toEqual([]);
+
+      await browser.navigate(`${app}/`);
+      await browser.navigate(`${idp}/`);
+      await browser.navigate(`${app}/`);
+
+      const state = await browser.getStorageState();
+      expect(state.origins).toEqual([
+        {
+          origin: app,
+          localStorage: [{ name: "token", value: "app-token" }],
+          sessionStorage: [{ name: "tab", value: "inbox" }],
+        },
+        {
+          origin: idp,
+          localStorage: [{ name: "idp_session", value: "idp-token" }],
+        },
+      ]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("reports origins that could not be restored", async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), "verdex-auth-"));
+    const authPath = path.join(dir, "broken.json");
+
+    try {
+      writeFileSync(
+        authPath,
+        JSON.stringify({
+          cookies: [],
+          origins: [
+            {
+              origin: "not-an-origin",
+              localStorage: [{ name: "token", value: "x" }],
+            },
+          ],
+        })
+      );
+      browser.setRolesConfiguration({ roles: { broken: { authPath } } });
+
+      await browser.selectRole("broken");
+
+      const failures = await browser.getFailures();
+      expect(failures.authOrigins).toEqual([
+        expect.objectContaining({ origin: "not-an-origin", status: "failed" }),
+      ]);
+      expect(failures.authOrigins![0].error).toBeTruthy();
+      expect(failures.authLoadError).toBeUndefined();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * E2E Tests: Connecting to a Running Browser
+ *
+ * Tests driving a browser Verdex did not launch:
+ * - Connecting by WebSocket endpoint and by DevTools URL
+ * - The default role reuses the browser's open page
+ * - attachTo maps a role onto an open page of another browser context
+ * - close() disconnects and leaves the browser and its pages running
+ */
+
+import { test, expect } from "@playwright/test";
+import puppeteer, { Browser } from "puppeteer";
+import { MultiContextBrowser } from "../../src/runtime/MultiContextBrowser.js";
+
+const PAGE = (title: string) =>
+  `data:text/html,<title>${title}</title><h1>${title}</h1>`;
+
+test.describe("Connecting to a running browser", () => {
+  let running: Browser;
+  let browser: MultiContextBrowser;
+
+  test.beforeEach(async () => {
+    running = await puppeteer.launch({
+      headless: true,
+      args: [
+        "--no-sandbox",
+        "--disable-setuid-sandbox",
+        "--remote-debugging-port=0",
+      ],
+    });
+    const [page] = await running.pages();
+    await page.goto(PAGE("Developer tab"));
+    browser = new MultiContextBrowser();
+  });
+
+  test.afterEach(async () => {
+    await browser.close();
+    await running.close();
+  });
+
+  test("should drive the open page with the default role", async () => {
+    browser.setLaunchConfiguration({ cdpEndpoint: running.wsEndpoint() });
+    await browser.initialize();
+    expect(browser.isConnected()).toBe(true);
+
+    const snapshot = await browser.snapshot();
+    expect(snapshot.text).toContain("Developer tab");
+  });
+
+  test("should connect by DevTools URL", async () => {
+    const port = new URL(running.wsEndpoint()).port;
+    browser.setLaunchConfiguration({ browserURL: `http://127.0.0.1:${port}` });
+    await browser.initialize();
+
+    const snapshot = await browser.snapshot();
+    expect(snapshot.text).toContain("Developer tab");
+  });
+
+  test("should disconnect on close and leave pages open", async () => {
+    browser.setLaunchConfiguration({ cdpEndpoint: running.wsEndpoint() });
+    await browser.initialize();
+    await browser.snapshot();
+    await browser.selectRole("isolated");
+
+    await browser.close();
+    expect(browser.isConnected()).toBe(false);
+    expect(running.connected).toBe(true);
+
+    const pages = await running.pages();
+    expect(pages.map((page) => page.url())).toEqual([PAGE("Developer tab")]);
+  });
+
+  test("should attach a role to an open page", async () => {
+    const fixtureContext = await running.createBrowserContext();
+    const fixturePage = await fixtureContext.newPage();
+    await fixturePage.goto(PAGE("Fixture page"));
+
+    browser.setRolesConfiguration({
+      roles: { fixture: { attachTo: "Fixture" } },
+    });
+    browser.setLaunchConfiguration({ cdpEndpoint: running.wsEndpoint() });
+    await browser.initialize();
+    await browser.selectRole("fixture");
+
+    const snapshot = await browser.snapshot();
+    expect(snapshot.text).toContain("Fixture page");
+
+    await browser.close();
+    expect(fixturePage.isClosed()).toBe(false);
+  });
+
+  test("should reject attachTo without a running browser", async () => {
+    await running.close();
+    running = await puppeteer.launch({
+      headless: true,
+      args: ["--no-sandbox"],
+    });
+
+    browser.setRolesConfiguration({
+      roles: { fixture: { attachTo: "**" } },
+    });
+    await browser.initialize();
+    await expect(browser.selectRole("fixture")).rejects.toThrow(
+      /needs a running browser/
+    );
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * E2E Tests: Console Capture
+ *
+ * Tests that page output is buffered per role:
+ * - console.* calls and uncaught exceptions from the page and its iframes
+ * - Level and since-last-call filtering
+ * - The new-error count used for response hints
+ * - Roles do not see each other's console
+ */
+
+import { test, expect } from "@playwright/test";
+import type { Server } from "http";
+import { MultiContextBrowser } from "../../src/runtime/MultiContextBrowser.js";
+import { refOf, servePages, startServer } from "../utils/test-utils.js";
+
+const PAGES: Record<string, string> = {
+  "/": `
+    <title>Console</title>
+    <script>console.log('page loaded'); console.warn('slow network');</script>
+    <button onclick="undefinedFunction()">Broken</button>
+    <iframe src="/frame"></iframe>
+  `,
+  "/frame": `<script>console.error('from iframe')</script><p>Frame</p>`,
+};
+
+test.describe("Console capture", () => {
+  let browser: MultiContextBrowser;
+  let server: Server;
+  let origin: string;
+
+  test.beforeEach(async () => {
+    ({ server, origin } = await startServer(servePages(PAGES)));
+    browser = new MultiContextBrowser();
+    await browser.initialize();
+  });
+
+  test.afterEach(async () => {
+    await browser.close();
+    server.close();
+  });
+
+  test("should capture console messages from the page and iframes", async () => {
+    await browser.navigate(origin);
+
+    const { messages } = await browser.getConsoleMessages();
+    const texts = messages.map((m) => m.text);
+    expect(texts).toContain("page loaded");
+    expect(texts).toContain("slow network");
+
+    const fromFrame = messages.find((m) => m.text === "from iframe");
+    expect(fromFrame?.level).toBe("error");
+    expect(fromFrame?.frameId).toBeTruthy();
+  });
+
+  test("should capture uncaught exceptions from a click", async () => {
+    const { text } = await browser.navigate(origin);
+    await browser.getConsoleMessages(); // mark everything as read
+
+    await browser.click(refOf(text, /button "Broken"/));
+
+    expect(await browser.takeNewConsoleErrorCount()).toBe(1);
+    const { messages } = await browser.getConsoleMessages({
+      level: "error",
+      sinceLast: true,
+    });
+    expect(messages).toHaveLength(1);
+    expect(messages[0].source).toBe("exception");
+    expect(messages[0].text).toContain("undefinedFunction is not defined");
+  });
+
+  test("should filter by minimum level", async () => {
+    await browser.navigate(origin);
+
+    const { messages } = await browser.getConsoleMessages({
+      level: "warning",
+    });
+    expect(messages.map((m) => m.level)).not.toContain("log");
+    expect(messages.map((m) => m.text)).toContain("slow network");
+  });
+
+  test("should keep console output per role", async () => {
+    await browser.navigate(origin);
+
+    await browser.selectRole("other");
+    const { matched } = await browser.getConsoleMessages();
+    expect(matched).toBe(0);
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * E2E Tests: JavaScript Dialogs
+ *
+ * Tests alert/confirm/prompt handling:
+ * - A click that opens a dialog returns instead of hanging
+ * - Snapshots and actions report the blocking dialog
+ * - browser_handle_dialog accepts, dismisses and fills prompts
+ * - dialogPolicy answers dialogs automatically per role
+ * - Dialog answers are recorded ahead of the click that opened them
+ */
+
+import { test, expect } from "@playwright/test";
+import type { Server } from "http";
+import { MultiContextBrowser } from "../../src/runtime/MultiContextBrowser.js";
+import { DialogPendingError } from "../../src/shared-types.js";
+import { refOf, servePages, startServer } from "../utils/test-utils.js";
+
+const PAGES: Record<string, string> = {
+  "/": `
+    <title>Dialogs</title>
+    <button onclick="alert('Saved!')">Alert</button>
+    <button onclick="document.getElementById('out').textContent = confirm('Delete?') ? 'deleted' : 'kept'">Confirm</button>
+    <button onclick="document.getElementById('out').textContent = prompt('Name?', 'guest')">Prompt</button>
+    <p id="out">idle</p>
+  `,
+  "/onload": `<title>Welcome</title><script>alert('Welcome!')</script><h1>Loaded</h1>`,
+};
+
+test.describe("JavaScript dialogs", () => {
+  let browser: MultiContextBrowser;
+  let server: Server;
+  let origin: string;
+
+  test.beforeEach(async () => {
+    ({ server, origin } = await startServer(servePages(PAGES)));
+    browser = new MultiContextBrowser();
+    await browser.initialize();
+  });
+
+  test.afterEach(async () => {
+    await browser.close();
+    server.close();
+  });
+
+  test("should return from a click that opens an alert", async () => {
+    const { text } = await browser.navigate(origin);
+
+    await browser.click(refOf(text, /button "Alert"/));
+
+    const notices = await browser.takeDialogNotices();
+    expect(notices.pending).toHaveLength(1);
+    expect(notices.pending[0]).toMatchObject({
+      tabId: "t1",
+      type: "alert",
+      message: "Saved!",
+    });
+
+    // Reported once
+    expect((await browser.takeDialogNotices()).pending).toHaveLength(0);
+  });
+
+  test("should block snapshots and actions until the dialog is answered", async () => {
+    const { text } = await browser.navigate(origin);
+    const confirmRef = refOf(text, /button "Confirm"/);
+    await browser.click(confirmRef);
+
+    const blocked = await browser.snapshot();
+    expect(blocked.text).toContain('Page blocked by confirm dialog: "Delete?"');
+    expect(blocked.warnings?.dialog?.message).toBe("Delete?");
+
+    await expect(browser.click(confirmRef)).rejects.toBeInstanceOf(
+      DialogPendingError
+    );
+
+    const answered = await browser.handleDialog(false);
+    expect(answered.outcome).toBe("dismissed");
+
+    const after = await browser.snapshot();
+    expect(after.text).toContain("kept");
+  });
+
+  test("should enter prompt text when accepting", async () => {
+    const { text } = await browser.navigate(origin);
+    await browser.click(refOf(text, /button "Prompt"/));
+
+    const answered = await browser.handleDialog(true, "Ada");
+    expect(answered).toMatchObject({
+      type: "prompt",
+      defaultValue: "guest",
+      outcome: "accepted",
+      promptText: "Ada",
+    });
+
+    const after = await browser.snapshot();
+    expect(after.text).toContain("Ada");
+  });
+
+  test("should reject promptText for other dialog types", async () => {
+    const { text } = await browser.navigate(origin);
+    await browser.click(refOf(text, /button "Alert"/));
+
+    await expect(browser.handleDialog(true, "text")).rejects.toThrow(
+      /only applies to prompt dialogs/
+    );
+  });
+
+  test("should error when no dialog is open", async () => {
+    await browser.navigate(origin);
+    await expect(browser.handleDialog(true)).rejects.toThrow(
+      /No dialog is open/
+    );
+  });
+
+  test("should finish a navigation blocked by an alert during load", async () => {
+    const snapshot = await browser.navigate(`${origin}/onload`);
+
+    expect(snapshot.text).toContain("Page blocked by alert dialog");
+    expect(snapshot.navigation?.pageTitle).toBe("");
+
+    await browser.handleDialog(true);
+    const after = await browser.snapshot();
+    expect(after.text).toContain("Loaded");
+  });
+
+  test("should answer dialogs automatically with a dialog policy", async () => {
+    browser.setRolesConfiguration({
+      roles: { clicker: { dialogPolicy: "accept" } },
+    });
+    await browser.selectRole("clicker");
+
+    const { text } = await browser.navigate(origin);
+    await browser.click(refOf(text, /button "Confirm"/));
+
+    const notices = await browser.takeDialogNotices();
+    expect(notices.pending).toHaveLength(0);
+    expect(notices.answered).toHaveLength(1);
+    expect(notices.answered[0]).toMatchObject({
+      type: "confirm",
+      outcome: "accepted",
+      auto: true,
+    });
+
+    const after = await browser.snapshot();
+    expect(after.text).toContain("deleted");
+  });
+
+  test("should record dialog answers before the action that opened them", async () => {
+    browser.setRolesConfiguration({
+      roles: { clicker: { dialogPolicy: "accept" } },
+    });
+    await browser.startRecording();
+
+    const { text } = await browser.navigate(origin);
+    await browser.click(refOf(text, /button "Prompt"/));
+    await browser.handleDialog(true, "Ada");
+
+    await browser.selectRole("clicker");
+    const clicker = await browser.navigate(origin);
+    await browser.click(refOf(clicker.text, /button "Confirm"/));
+
+    expect(browser.getRecordedActions().map((action) => action.type)).toEqual([
+      "navigate",
+      "dialog",
+      "click",
+      "selectRole",
+      "navigate",
+      "dialog",
+      "click",
+    ]);
+    expect(browser.getRecordedActions()[1]).toEqual({
+      type: "dialog",
+      role: "default",
+      tab: "t1",
+      accept: true,
+      promptText: "Ada",
+    });
+    expect(browser.getRecordedActions()[5]).toMatchObject({
+      role: "clicker",
+      accept: true,
+    });
+  });
+});
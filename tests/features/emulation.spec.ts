@@ -0,0 +1,137 @@
+/**
+ * E2E Tests: Device and Environment Emulation
+ *
+ * Tests emulation per role:
+ * - Device presets and locale, time zone, geolocation and color scheme from the roles configuration
+ * - Changing the current role's emulation on the fly, and resetting it
+ * - Tabs opened later inheriting the role's emulation
+ */
+
+import { test, expect } from "@playwright/test";
+import { MultiContextBrowser } from "../../src/runtime/MultiContextBrowser.js";
+
+const PAGE = `data:text/html,<title>Environment</title><a href="about:blank" target="_blank">Open tab</a>`;
+
+async function readEnvironment(browser: MultiContextBrowser) {
+  const context = await browser.getOrCreateRole(browser.getCurrentRole());
+  return context.page.evaluate(() => ({
+    width: window.innerWidth,
+    scale: window.devicePixelRatio,
+    touch: "ontouchstart" in window,
+    userAgent: navigator.userAgent,
+    language: navigator.language,
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    dark: matchMedia("(prefers-color-scheme: dark)").matches,
+  }));
+}
+
+test.describe("Emulation", () => {
+  let browser: MultiContextBrowser;
+
+  test.beforeEach(async () => {
+    browser = new MultiContextBrowser();
+    browser.setRolesConfiguration({
+      roles: {
+        mobile: {
+          device: "iPhone 15",
+          locale: "de-DE",
+          timezone: "Europe/Berlin",
+          geolocation: { latitude: 52.52, longitude: 13.405 },
+          colorScheme: "dark",
+        },
+      },
+    });
+    await browser.initialize();
+  });
+
+  test.afterEach(async () => {
+    await browser.close();
+  });
+
+  test("should apply the configured device and environment", async () => {
+    await browser.selectRole("mobile");
+    await browser.navigate(PAGE);
+
+    expect(await readEnvironment(browser)).toMatchObject({
+      width: 393,
+      scale: 3,
+      touch: true,
+      language: "de-DE",
+      timezone: "Europe/Berlin",
+      dark: true,
+    });
+    expect((await readEnvironment(browser)).userAgent).toContain("iPhone");
+
+    const context = await browser.getOrCreateRole("mobile");
+    const position = await context.page.evaluate(
+      () =>
+        new Promise<number[]>((resolve, reject) =>
+          navigator.geolocation.getCurrentPosition(
+            (p) => resolve([p.coords.latitude, p.coords.longitude]),
+            reject
+          )
+        )
+    );
+    expect(position).toEqual([52.52, 13.405]);
+  });
+
+  test("should change the current role's emulation on the fly", async () => {
+    await browser.navigate(PAGE);
+
+    const emulation = await browser.emulate({
+      device: "pixel 5",
+      timezone: "Asia/Tokyo",
+      colorScheme: "dark",
+    });
+    expect(emulation).toMatchObject({
+      device: "Pixel 5",
+      viewport: { width: 393, height: 851 },
+      isMobile: true,
+    });
+    expect(await readEnvironment(browser)).toMatchObject({
+      width: 393,
+      timezone: "Asia/Tokyo",
+      dark: true,
+    });
+
+    // Fields merge into the current emulation
+    await browser.emulate({ colorScheme: "light" });
+    expect(await readEnvironment(browser)).toMatchObject({
+      timezone: "Asia/Tokyo",
+      dark: false,
+    });
+
+    await browser.emulate({}, true);
+    expect(await readEnvironment(browser)).toMatchObject({
+      width: 1280,
+      scale: 1,
+      touch: false,
+    });
+    expect(await browser.getEmulation("default")).toEqual({});
+  });
+
+  test("should apply the role's emulation to new tabs", async () => {
+    await browser.navigate(PAGE);
+    await browser.emulate({ locale: "fr-FR", timezone: "America/New_York" });
+
+    const snapshot = await browser.snapshot();
+    const line = snapshot.text.split("\n").find((l) => /Open tab/.test(l));
+    const { newTabs } = await browser.click(
+      line!.match(/\[ref=([^\]]+)\]/)![1]
+    );
+    await browser.switchTab(newTabs[0].id);
+
+    expect(await readEnvironment(browser)).toMatchObject({
+      language: "fr-FR",
+      timezone: "America/New_York",
+    });
+  });
+
+  test("should reject an unknown device without changing anything", async () => {
+    await browser.selectRole("mobile");
+    await expect(browser.emulate({ device: "Nokia 3310" })).rejects.toThrow(
+      /Unknown device "Nokia 3310"/
+    );
+    expect((await browser.getEmulation("mobile")).device).toBe("iPhone 15");
+  });
+});
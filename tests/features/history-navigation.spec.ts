@@ -0,0 +1,91 @@
+/**
+ * E2E Tests: Back, Forward and Reload
+ *
+ * Tests history navigation of the active tab:
+ * - goBack/goForward move through history and return navigation metadata
+ * - Missing history entries throw a clear error
+ * - reload() re-renders the page and reports the status code
+ * - History navigation is recorded for export_test
+ */
+
+import { test, expect } from "@playwright/test";
+import type { RequestListener, Server } from "http";
+import { MultiContextBrowser } from "../../src/runtime/MultiContextBrowser.js";
+import { startServer } from "../utils/test-utils.js";
+
+function servePages(): RequestListener {
+  let loads = 0;
+  return (req, res) => {
+    loads++;
+    res.writeHead(200, { "Content-Type": "text/html" });
+    res.end(
+      `<title>${req.url}</title><h1>Page ${req.url}</h1><p>Load ${loads}</p><a href="/second">Second</a>`
+    );
+  };
+}
+
+test.describe("History navigation", () => {
+  let browser: MultiContextBrowser;
+  let server: Server;
+  let origin: string;
+
+  test.beforeEach(async () => {
+    ({ server, origin } = await startServer(servePages()));
+    browser = new MultiContextBrowser();
+    await browser.initialize();
+  });
+
+  test.afterEach(async () => {
+    await browser.close();
+    server.close();
+  });
+
+  test("should go back and forward with navigation metadata", async () => {
+    await browser.navigate(`${origin}/first`);
+    await browser.navigate(`${origin}/second`);
+
+    const back = await browser.goBack();
+    expect(back.navigation).toMatchObject({
+      success: true,
+      requestedUrl: `${origin}/first`,
+      finalUrl: `${origin}/first`,
+      pageTitle: "/first",
+    });
+    expect(back.text).toContain("Page /first");
+
+    const forward = await browser.goForward();
+    expect(forward.navigation?.finalUrl).toBe(`${origin}/second`);
+    expect(forward.text).toContain("Page /second");
+  });
+
+  test("should throw when there is no history entry", async () => {
+    await browser.navigate(`${origin}/first`);
+
+    await expect(browser.goForward()).rejects.toThrow(/No next page/);
+  });
+
+  test("should reload the page", async () => {
+    const first = await browser.navigate(`${origin}/first`);
+    expect(first.text).toContain("Load 1");
+
+    const reloaded = await browser.reload();
+    expect(reloaded.navigation).toMatchObject({
+      success: true,
+      requestedUrl: `${origin}/first`,
+      statusCode: 200,
+    });
+    expect(reloaded.text).not.toContain("Load 1");
+  });
+
+  test("should record history navigation", async () => {
+    await browser.startRecording();
+    await browser.navigate(`${origin}/first`);
+    await browser.navigate(`${origin}/second`);
+    await browser.goBack();
+    await browser.reload();
+
+    const code = await browser.exportTest();
+    expect(code).toContain("await page.goBack();");
+    expect(code).toContain("await page.reload();");
+  });
+});
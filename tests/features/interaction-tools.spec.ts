@@ -0,0 +1,173 @@
+/**
+ * Tests for hover, select option and key press interactions
+ *
+ * Verifies that:
+ * 1. Each interaction produces the expected DOM side effects
+ * 2. Frame-qualified refs route the interaction into iframes
+ * 3. Invalid input produces clear, actionable errors
+ */
+
+import { test, expect } from "@playwright/test";
+import { MultiContextBrowser } from "../../src/runtime/MultiContextBrowser.js";
+
+test.describe("Interaction Tools", () => {
+  let browser: MultiContextBrowser;
+
+  test.beforeEach(async () => {
+    browser = new MultiContextBrowser();
+    await browser.initialize();
+  });
+
+  test.afterEach(async () => {
+    await browser.close();
+  });
+
+  test("hover() fires mouse events that reveal hover menus", async () => {
+    const html = `
+      <button id="menu" onmouseenter="document.getElementById('items').hidden = false">Menu</button>
+      <ul id="items" hidden><li><a href="#settings">Settings</a></li></ul>
+    `;
+    const snapshot = await browser.navigate(
+      `data:text/html,${encodeURIComponent(html)}`
+    );
+    expect(snapshot.text).not.toContain("Settings");
+
+    const menuRef = snapshot.text.match(/button "?Menu"?.*\[ref=(e\d+)\]/)?.[1];
+    expect(menuRef).toBeDefined();
+
+    await browser.hover(menuRef!);
+
+    const after = await browser.snapshot();
+    expect(after.text).toContain("Settings");
+  });
+
+  test("selectOption() matches by value and by label", async () => {
+    const html = `
+      <select id="country" onchange="window.changed = this.value">
+        <option value="us">United States</option>
+        <option value="de">Germany</option>
+      </select>
+    `;
+    const snapshot = await browser.navigate(
+      `data:text/html,${encodeURIComponent(html)}`
+    );
+    const selectRef = snapshot.text.match(/combobox.*\[ref=(e\d+)\]/)?.[1];
+    expect(selectRef).toBeDefined();
+
+    expect(await browser.selectOption(selectRef!, ["Germany"])).toEqual(["de"]);
+    expect(await browser.selectOption(selectRef!, ["us"])).toEqual(["us"]);
+
+    const context = await (browser as any)._roleContexts.get("default");
+    const changed = await context.page.evaluate(() => (window as any).changed);
+    expect(changed).toBe("us");
+  });
+
+  test("selectOption() supports multi-selects", async () => {
+    const html = `
+      <select multiple aria-label="Toppings">
+        <option>Cheese</option>
+        <option>Ham</option>
+        <option>Olives</option>
+      </select>
+    `;
+    const snapshot = await browser.navigate(
+      `data:text/html,${encodeURIComponent(html)}`
+    );
+    const selectRef = snapshot.text.match(/listbox.*\[ref=(e\d+)\]/)?.[1];
+    expect(selectRef).toBeDefined();
+
+    const selected = await browser.selectOption(selectRef!, [
+      "Cheese",
+      "Olives",
+    ]);
+    expect(selected).toEqual(["Cheese", "Olives"]);
+  });
+
+  test("selectOption() lists available options when no match", async () => {
+    const html = `<select><option value="a">Alpha</option></select>`;
+    const snapshot = await browser.navigate(
+      `data:text/html,${encodeURIComponent(html)}`
+    );
+    const selectRef = snapshot.text.match(/combobox.*\[ref=(e\d+)\]/)?.[1];
+
+    await expect(browser.selectOption(selectRef!, ["Beta"])).rejects.toThrow(
+      /Option "Beta" not found.*"Alpha"/
+    );
+  });
+
+  test("selectOption() rejects non-select elements", async () => {
+    const snapshot = await browser.navigate(
+      "data:text/html,<button>Not a select</button>"
+    );
+    const buttonRef = snapshot.text.match(/\[ref=(e\d+)\]/)?.[1];
+
+    await expect(browser.selectOption(buttonRef!, ["x"])).rejects.toThrow(
+      /is not a <select> element/
+    );
+  });
+
+  test("pressKey() dispatches modifiers to the focused element", async () => {
+    const html = `
+      <input id="field" onkeydown="window.lastKey = (event.ctrlKey ? 'Control+' : '') + event.key" />
+    `;
+    const snapshot = await browser.navigate(
+      `data:text/html,${encodeURIComponent(html)}`
+    );
+    const inputRef = snapshot.text.match(/textbox.*\[ref=(e\d+)\]/)?.[1];
+
+    await browser.pressKey("Control+A", inputRef!);
+
+    const context = await (browser as any)._roleContexts.get("default");
+    const lastKey = await context.page.evaluate(() => (window as any).lastKey);
+    expect(lastKey).toBe("Control+A");
+  });
+
+  test("pressKey('Enter') submits the surrounding form", async () => {
+    const html = `
+      <form onsubmit="event.preventDefault(); document.title = 'submitted'">
+        <input name="q" aria-label="Search" />
+      </form>
+    `;
+    const snapshot = await browser.navigate(
+      `data:text/html,${encodeURIComponent(html)}`
+    );
+    const inputRef = snapshot.text.match(/textbox.*\[ref=(e\d+)\]/)?.[1];
+
+    await browser.pressKey("Enter", inputRef!);
+
+    const context = await (browser as any)._roleContexts.get("default");
+    expect(await context.page.title()).toBe("submitted");
+  });
+
+  test("interactions route to iframes via frame-qualified refs", async () => {
+    const html = `
+      <iframe srcdoc="
+        <select id='size'><option>Small</option><option>Large</option></select>
+      "></iframe>
+    `;
+    const snapshot = await browser.navigate(
+      `data:text/html,${encodeURIComponent(html)}`
+    );
+    const selectRef = snapshot.text.match(/combobox.*\[ref=(f\d+_e\d+)\]/)?.[1];
+    expect(selectRef).toBeDefined();
+
+    await browser.selectOption(selectRef!, ["Large"]);
+
+    const context = await (browser as any)._roleContexts.get("default");
+    const value = await context.page.evaluate(() => {
+      const iframe = document.querySelector("iframe") as HTMLIFrameElement;
+      return (
+        iframe.contentDocument?.getElementById("size") as HTMLSelectElement
+      )?.value;
+    });
+    expect(value).toBe("Large");
+  });
+
+  test("hover() throws clear error for non-existent ref", async () => {
+    await browser.navigate("data:text/html,<button>Hover me</button>");
+
+    await expect(browser.hover("e999")).rejects.toThrow(
+      /Unknown element reference: e999/
+    );
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * E2E Tests: Locator Generation
+ *
+ * Tests generate_locator against live pages:
+ * - Test ids and role + name locators for unique elements
+ * - Container-scoped chains with filter({ hasText }) for repeated cards
+ * - nth() fallback when nothing else is unique
+ * - iframe elements chained through contentFrame()
+ */
+
+import { test, expect } from "@playwright/test";
+import { MultiContextBrowser } from "../../src/runtime/MultiContextBrowser.js";
+
+test.describe("Locator Generation", () => {
+  let browser: MultiContextBrowser;
+
+  test.beforeEach(async () => {
+    browser = new MultiContextBrowser();
+    await browser.initialize();
+  });
+
+  test.afterEach(async () => {
+    await browser.close();
+  });
+
+  test("prefers a unique test id", async () => {
+    const html = `<button data-testid="checkout">Checkout</button>`;
+    const snapshot = await browser.navigate(
+      `data:text/html,${encodeURIComponent(html)}`
+    );
+    const ref = snapshot.text.match(/Checkout.*\[ref=(e\d+)\]/)?.[1];
+
+    const result = await browser.generate_locator(ref!);
+
+    expect(result.candidates[0]).toEqual({
+      locator: "page.getByTestId('checkout')",
+      strategy: "testid",
+      matchCount: 1,
+      unique: true,
+    });
+    expect(result.candidates.map((c) => c.locator)).toContain(
+      "page.getByRole('button', { name: 'Checkout', exact: true })"
+    );
+  });
+
+  test("scopes repeated buttons to their card with hasText", async () => {
+    const html = `
+      <div data-testid="product-card">
+        <h3>iPhone 15 Pro</h3>
+        <button>Add to Cart</button>
+      </div>
+      <div data-testid="product-card">
+        <h3>Pixel 8</h3>
+        <button>Add to Cart</button>
+      </div>
+    `;
+    const snapshot = await browser.navigate(
+      `data:text/html,${encodeURIComponent(html)}`
+    );
+    const refs = [...snapshot.text.matchAll(/Add to Cart.*\[ref=(e\d+)\]/g)];
+    const pixelRef = refs[1][1];
+
+    const result = await browser.generate_locator(pixelRef);
+    const best = result.candidates[0];
+
+    expect(best.locator).toBe(
+      "page.getByTestId('product-card').filter({ hasText: 'Pixel 8' }).getByRole('button', { name: 'Add to Cart', exact: true })"
+    );
+    expect(best.unique).toBe(true);
+
+    const ambiguous = result.candidates.find(
+      (c) =>
+        c.locator ===
+        "page.getByRole('button', { name: 'Add to Cart', exact: true })"
+    );
+    expect(ambiguous?.matchCount).toBe(2);
+    expect(ambiguous?.unique).toBe(false);
+  });
+
+  test("falls back to nth() when nothing else is unique", async () => {
+    const html = `<button>Delete</button><button>Delete</button>`;
+    const snapshot = await browser.navigate(
+      `data:text/html,${encodeURIComponent(html)}`
+    );
+    const refs = [...snapshot.text.matchAll(/Delete.*\[ref=(e\d+)\]/g)];
+
+    const result = await browser.generate_locator(refs[1][1]);
+
+    expect(result.candidates[0].locator).toBe(
+      "page.getByRole('button', { name: 'Delete', exact: true }).nth(1)"
+    );
+    expect(result.candidates[0].strategy).toBe("nth");
+  });
+
+  test("chains iframe elements through contentFrame()", async () => {
+    const html = `
+      <iframe data-testid="payment" srcdoc="<button>Pay now</button>"></iframe>
+    `;
+    const snapshot = await browser.navigate(
+      `data:text/html,${encodeURIComponent(html)}`
+    );
+    const ref = snapshot.text.match(/Pay now.*\[ref=(f\d+_e\d+)\]/)?.[1];
+    expect(ref).toBeDefined();
+
+    const result = await browser.generate_locator(ref!);
+
+    expect(result.ref).toBe(ref);
+    expect(result.candidates[0].locator).toBe(
+      "page.getByTestId('payment').contentFrame().getByRole('button', { name: 'Pay now', exact: true })"
+    );
+  });
+
+  test("unknown refs throw clear errors", async () => {
+    await browser.navigate("data:text/html,<button>Click me</button>");
+
+    await expect(browser.generate_locator("e999")).rejects.toThrow(
+      /Unknown element reference: e999/
+    );
+  });
+});
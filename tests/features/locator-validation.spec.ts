@@ -0,0 +1,122 @@
+/**
+ * E2E Tests: Locator Validation
+ *
+ * Tests validate_locator against live pages:
+ * - Match counts and refs for unique and ambiguous locators
+ * - Per-step counts and ambiguity explanations
+ * - Chains that continue into iframes via contentFrame()
+ */
+
+import { test, expect } from "@playwright/test";
+import { MultiContextBrowser } from "../../src/runtime/MultiContextBrowser.js";
+
+const PRODUCTS = `
+  <div data-testid="product-card">
+    <h3>iPhone 15 Pro</h3>
+    <button>Add to Cart</button>
+    <button>Add to Wishlist</button>
+  </div>
+  <div data-testid="product-card">
+    <h3>Pixel 8</h3>
+    <button>Add to Cart</button>
+    <button>Add to Wishlist</button>
+  </div>
+`;
+
+test.describe("Locator Validation", () => {
+  let browser: MultiContextBrowser;
+
+  test.beforeEach(async () => {
+    browser = new MultiContextBrowser();
+    await browser.initialize();
+  });
+
+  test.afterEach(async () => {
+    await browser.close();
+  });
+
+  test("unique locator returns its ref", async () => {
+    const snapshot = await browser.navigate(
+      `data:text/html,${encodeURIComponent(PRODUCTS)}`
+    );
+    const pixelCartRef = [
+      ...snapshot.text.matchAll(/Add to Cart.*\[ref=(e\d+)\]/g),
+    ][1][1];
+
+    const result = await browser.validate_locator(
+      "page.getByTestId('product-card').filter({ hasText: 'Pixel' }).getByRole('button', { name: 'Add to Cart' })"
+    );
+
+    expect(result.matchCount).toBe(1);
+    expect(result.refs).toEqual([pixelCartRef]);
+    expect(result.ambiguity).toBeUndefined();
+    expect(result.steps.map((s) => s.matchCount)).toEqual([2, 1, 1]);
+  });
+
+  test("explains substring name matches", async () => {
+    await browser.navigate(`data:text/html,${encodeURIComponent(PRODUCTS)}`);
+
+    const result = await browser.validate_locator(
+      "page.getByTestId('product-card').filter({ hasText: 'iPhone' }).getByRole('button', { name: 'Add' })"
+    );
+
+    expect(result.matchCount).toBe(2);
+    expect(result.refs).toHaveLength(2);
+    expect(result.ambiguity!.join("\n")).toContain(
+      "case-insensitive substring match"
+    );
+    expect(result.ambiguity!.join("\n")).toContain("is unique but contains 2");
+  });
+
+  test("explains identical matches and ineffective filters", async () => {
+    await browser.navigate(`data:text/html,${encodeURIComponent(PRODUCTS)}`);
+
+    const result = await browser.validate_locator(
+      "page.getByTestId('product-card').filter({ hasText: 'Add to Cart' }).getByRole('button', { name: 'Add to Cart', exact: true })"
+    );
+
+    expect(result.matchCount).toBe(2);
+    const reasons = result.ambiguity!.join("\n");
+    expect(reasons).toContain("All 2 matches are identical");
+    expect(reasons).toContain("did not narrow the matches");
+  });
+
+  test("reports zero matches with per-step counts", async () => {
+    await browser.navigate(`data:text/html,${encodeURIComponent(PRODUCTS)}`);
+
+    const result = await browser.validate_locator(
+      "page.getByTestId('product-card').filter({ hasText: 'Galaxy' })"
+    );
+
+    expect(result.matchCount).toBe(0);
+    expect(result.steps.map((s) => s.matchCount)).toEqual([2, 0]);
+  });
+
+  test("follows contentFrame() into iframes", async () => {
+    const html = `
+      <iframe data-testid="payment" srcdoc="<button>Pay now</button>"></iframe>
+    `;
+    const snapshot = await browser.navigate(
+      `data:text/html,${encodeURIComponent(html)}`
+    );
+    const payRef = snapshot.text.match(/Pay now.*\[ref=(f\d+_e\d+)\]/)?.[1];
+
+    const result = await browser.validate_locator(
+      "page.getByTestId('payment').contentFrame().getByRole('button', { name: 'Pay now' })"
+    );
+
+    expect(result.matchCount).toBe(1);
+    expect(result.refs).toEqual([payRef]);
+    expect(result.locator).toBe(
+      "page.getByTestId('payment').contentFrame().getByRole('button', { name: 'Pay now' })"
+    );
+  });
+
+  test("syntax errors are reported with their position", async () => {
+    await browser.navigate("data:text/html,<button>Save</button>");
+
+    await expect(
+      browser.validate_locator("page.getByRole('button'")
+    ).rejects.toThrow(/Invalid locator at position/);
+  });
+});
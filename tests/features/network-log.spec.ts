@@ -0,0 +1,100 @@
+/**
+ * E2E Tests: Network Log and HAR Export
+ *
+ * Tests request recording per role:
+ * - XHR/fetch requests triggered by a click, with status and body
+ * - Status and URL filters
+ * - HAR export of the log
+ * - Roles do not see each other's requests
+ */
+
+import { test, expect } from "@playwright/test";
+import type { IncomingMessage, Server, ServerResponse } from "http";
+import { MultiContextBrowser } from "../../src/runtime/MultiContextBrowser.js";
+import { refOf, startServer } from "../utils/test-utils.js";
+
+function serveShop(req: IncomingMessage, res: ServerResponse): void {
+  if (req.url === "/api/cart") {
+    res.writeHead(500, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error: "Out of stock" }));
+    return;
+  }
+  res.writeHead(200, { "Content-Type": "text/html" });
+  res.end(`
+      <title>Shop</title>
+      <button onclick="fetch('/api/cart', { method: 'POST', body: '{}' })">Add to cart</button>
+    `);
+}
+
+test.describe("Network log", () => {
+  let browser: MultiContextBrowser;
+  let server: Server;
+  let origin: string;
+
+  test.beforeEach(async () => {
+    ({ server, origin } = await startServer(serveShop));
+    browser = new MultiContextBrowser();
+    await browser.initialize();
+  });
+
+  test.afterEach(async () => {
+    await browser.close();
+    server.close();
+  });
+
+  test("should record the document request", async () => {
+    await browser.navigate(origin);
+
+    const { requests } = await browser.getNetworkRequests({
+      resourceType: "Document",
+    });
+    expect(requests).toHaveLength(1);
+    expect(requests[0]).toMatchObject({
+      tabId: "t1",
+      method: "GET",
+      status: 200,
+      mimeType: "text/html",
+    });
+    expect(requests[0].duration).toBeGreaterThanOrEqual(0);
+  });
+
+  test("should record a fetch triggered by a click with its body", async () => {
+    const { text } = await browser.navigate(origin);
+    await browser.click(refOf(text, /button "Add to cart"/));
+    await new Promise((resolve) => setTimeout(resolve, 200));
+
+    const { requests } = await browser.getNetworkRequests({
+      status: "errors",
+    });
+    expect(requests).toHaveLength(1);
+    expect(requests[0]).toMatchObject({
+      method: "POST",
+      url: `${origin}/api/cart`,
+      resourceType: "Fetch",
+      status: 500,
+      postData: "{}",
+      responseBody: '{"error":"Out of stock"}',
+    });
+  });
+
+  test("should export the log as HAR", async () => {
+    const { text } = await browser.navigate(origin);
+    await browser.click(refOf(text, /button "Add to cart"/));
+    await new Promise((resolve) => setTimeout(resolve, 200));
+
+    const har = await browser.exportHar({ url: "/api/" });
+    expect(har.log.version).toBe("1.2");
+    expect(har.log.entries).toHaveLength(1);
+    expect(har.log.entries[0].request.method).toBe("POST");
+    expect(har.log.entries[0].response.status).toBe(500);
+    expect(har.log.entries[0].response.content.text).toContain("Out of stock");
+  });
+
+  test("should keep requests per role", async () => {
+    await browser.navigate(origin);
+
+    await browser.selectRole("other");
+    const { matched } = await browser.getNetworkRequests();
+    expect(matched).toBe(0);
+  });
+});
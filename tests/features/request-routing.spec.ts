@@ -0,0 +1,118 @@
+/**
+ * E2E Tests: Request Routing
+ *
+ * Tests request interception per role:
+ * - Fulfilling an API call with a mocked response
+ * - Aborting requests with a network error
+ * - Continuing requests with extra headers
+ * - Removing routes, and routes staying with their role
+ */
+
+import { test, expect } from "@playwright/test";
+import type { IncomingHttpHeaders, RequestListener, Server } from "http";
+import { MultiContextBrowser } from "../../src/runtime/MultiContextBrowser.js";
+import { startServer } from "../utils/test-utils.js";
+
+function serveShop(seenHeaders: IncomingHttpHeaders[]): RequestListener {
+  return (req, res) => {
+    if (req.url === "/api/stock") {
+      seenHeaders.push(req.headers);
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ stock: 3 }));
+      return;
+    }
+    res.writeHead(200, { "Content-Type": "text/html" });
+    res.end(`
+      <title>Shop</title>
+      <p id="stock">loading</p>
+      <script>
+        fetch('/api/stock')
+          .then((r) => r.json())
+          .then((data) => { document.getElementById('stock').textContent = 'Stock: ' + data.stock; })
+          .catch(() => { document.getElementById('stock').textContent = 'Stock unavailable'; });
+      </script>
+    `);
+  };
+}
+
+test.describe("Request routing", () => {
+  let browser: MultiContextBrowser;
+  let server: Server;
+  let origin: string;
+  let seenHeaders: IncomingHttpHeaders[];
+
+  test.beforeEach(async () => {
+    seenHeaders = [];
+    ({ server, origin } = await startServer(serveShop(seenHeaders)));
+    browser = new MultiContextBrowser();
+    await browser.initialize();
+  });
+
+  test.afterEach(async () => {
+    await browser.close();
+    server.close();
+  });
+
+  test("should fulfill matching requests with a mocked response", async () => {
+    const route = await browser.route({
+      url: "**/api/stock",
+      action: "fulfill",
+      body: '{"stock":0}',
+    });
+    await browser.navigate(origin);
+
+    const { text } = await browser.waitFor({ text: "Stock: 0" });
+    expect(text).toContain("Stock: 0");
+    expect(seenHeaders).toHaveLength(0);
+    expect((await browser.getRoutes("default"))[0]).toMatchObject({
+      id: route.id,
+      hits: 1,
+    });
+  });
+
+  test("should abort matching requests", async () => {
+    await browser.route({
+      url: "/\\/api\\//",
+      action: "abort",
+      errorReason: "ConnectionRefused",
+    });
+    await browser.navigate(origin);
+
+    await browser.waitFor({ text: "Stock unavailable" });
+    const { requests } = await browser.getNetworkRequests({
+      status: "failed",
+    });
+    expect(requests[0].failure).toContain("ERR_CONNECTION_REFUSED");
+  });
+
+  test("should continue requests with modified headers", async () => {
+    await browser.route({
+      url: "**/api/stock",
+      action: "continue",
+      headers: { "X-Test-Run": "42" },
+    });
+    await browser.navigate(origin);
+
+    await browser.waitFor({ text: "Stock: 3" });
+    expect(seenHeaders[0]["x-test-run"]).toBe("42");
+  });
+
+  test("should stop intercepting after unroute", async () => {
+    await browser.route({ url: "**/api/stock", action: "abort" });
+    const removed = await browser.unroute();
+    expect(removed).toHaveLength(1);
+
+    await browser.navigate(origin);
+    await browser.waitFor({ text: "Stock: 3" });
+  });
+
+  test("should keep routes per role", async () => {
+    await browser.route({ url: "**/api/stock", action: "abort" });
+
+    await browser.selectRole("other");
+    await browser.navigate(origin);
+    await browser.waitFor({ text: "Stock: 3" });
+    expect(await browser.getRoutes("other")).toHaveLength(0);
+    expect(await browser.getRoutes("default")).toHaveLength(1);
+  });
+});
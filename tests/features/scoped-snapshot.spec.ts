@@ -0,0 +1,129 @@
+/**
+ * E2E Tests: Scoped Snapshots
+ *
+ * Tests browser_snapshot's ref / ancestorLevel / depth options:
+ * - Only the scoped subtree is rendered
+ * - Frame-qualified refs scope into the iframe
+ * - Depth limits summarize hidden content
+ * - Refs from the last full snapshot stay valid
+ */
+
+import { test, expect } from "@playwright/test";
+import { MultiContextBrowser } from "../../src/runtime/MultiContextBrowser.js";
+import { refOf } from "../utils/test-utils.js";
+
+const DASHBOARD = `
+  <nav><a href="#home">Home</a><a href="#reports">Reports</a></nav>
+  <main>
+    <div role="dialog" aria-label="Edit user">
+      <form>
+        <label>Name <input value="Alice"></label>
+        <ul>
+          <li><label><input type="checkbox"> Admin</label></li>
+          <li><label><input type="checkbox"> Editor</label></li>
+        </ul>
+        <button id="save" onclick="document.title = 'saved'">Save</button>
+      </form>
+    </div>
+    <button onclick="document.title = 'outside'">Outside</button>
+  </main>
+`;
+
+test.describe("Scoped snapshots", () => {
+  let browser: MultiContextBrowser;
+
+  test.beforeEach(async () => {
+    browser = new MultiContextBrowser();
+    await browser.initialize();
+  });
+
+  test.afterEach(async () => {
+    await browser.close();
+  });
+
+  test("renders only the subtree of a ref's container", async () => {
+    const full = await browser.navigate(
+      `data:text/html,${encodeURIComponent(DASHBOARD)}`
+    );
+    const saveRef = refOf(full.text, /button Save/);
+
+    const scoped = await browser.snapshot({ ref: saveRef, ancestorLevel: 2 });
+
+    expect(scoped.text).toMatch(/^- dialog "Edit user"/);
+    expect(scoped.text).toContain("checkbox Admin");
+    expect(scoped.text).toContain(`button Save [ref=${saveRef}]`);
+    expect(scoped.text).not.toContain("Outside");
+    expect(scoped.text).not.toContain("Reports");
+    expect(scoped.elementCount).toBe(4); // textbox, 2 checkboxes, button
+  });
+
+  test("scopes to a single element by ref", async () => {
+    const full = await browser.navigate(
+      `data:text/html,${encodeURIComponent(DASHBOARD)}`
+    );
+    const saveRef = refOf(full.text, /button Save/);
+
+    const scoped = await browser.snapshot({ ref: saveRef });
+
+    expect(scoped.text.split("\n")[0]).toBe(`- button Save [ref=${saveRef}]`);
+    expect(scoped.elementCount).toBe(1);
+  });
+
+  test("summarizes content below the depth limit", async () => {
+    const full = await browser.navigate(
+      `data:text/html,${encodeURIComponent(DASHBOARD)}`
+    );
+    const saveRef = refOf(full.text, /button Save/);
+
+    const scoped = await browser.snapshot({
+      ref: saveRef,
+      ancestorLevel: 2,
+      depth: 1,
+    });
+
+    expect(scoped.text).toMatch(/^- dialog "Edit user"/);
+    expect(scoped.text).toMatch(/^\s+- \.\.\. \(\d+ more\)$/m);
+    expect(scoped.text).not.toContain("checkbox Admin");
+  });
+
+  test("keeps refs from the last full snapshot valid", async () => {
+    const full = await browser.navigate(
+      `data:text/html,${encodeURIComponent(DASHBOARD)}`
+    );
+    const saveRef = refOf(full.text, /button Save/);
+    const outsideRef = refOf(full.text, /button Outside/);
+
+    await browser.snapshot({ ref: saveRef, ancestorLevel: 2 });
+    await browser.click(outsideRef);
+
+    const after = await browser.snapshot();
+    expect(after.pageContext?.title).toBe("outside");
+  });
+
+  test("scopes into an iframe with a frame-qualified ref", async () => {
+    const html = `
+      <button>Main</button>
+      <iframe srcdoc="<div role='group' aria-label='Card'><input aria-label='Number'><button>Pay</button></div><button>Other</button>"></iframe>
+    `;
+    const full = await browser.navigate(
+      `data:text/html,${encodeURIComponent(html)}`
+    );
+    const payRef = refOf(full.text, /button Pay/);
+    expect(payRef).toMatch(/^f1_e\d+$/);
+
+    const scoped = await browser.snapshot({ ref: payRef, ancestorLevel: 1 });
+
+    expect(scoped.text).toMatch(/^- group Card/);
+    expect(scoped.text).toContain(`button Pay [ref=${payRef}]`);
+    expect(scoped.text).toMatch(/textbox Number \[ref=f1_e\d+\]/);
+    expect(scoped.text).not.toContain("Other");
+
+    await browser.click(payRef);
+  });
+
+  test("rejects unknown refs", async () => {
+    await browser.navigate(`data:text/html,${encodeURIComponent(DASHBOARD)}`);
+
+    await expect(browser.snapshot({ ref: "e999" })).rejects.toThrow(/e999/);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * E2E Tests: Screenshots
+ *
+ * Tests browser_screenshot capture modes:
+ * - Viewport and full-page dimensions
+ * - Element crops by ref, including refs inside iframes
+ * - Set-of-marks overlay is drawn for the capture and removed afterwards
+ */
+
+import { test, expect } from "@playwright/test";
+import { MultiContextBrowser } from "../../src/runtime/MultiContextBrowser.js";
+
+const TALL_PAGE = `
+  <body style="margin:0">
+    <button style="width:200px;height:50px">Save</button>
+    <div style="height:3000px"></div>
+  </body>
+`;
+
+test.describe("Screenshots", () => {
+  let browser: MultiContextBrowser;
+
+  test.beforeEach(async () => {
+    browser = new MultiContextBrowser();
+    await browser.initialize();
+  });
+
+  test.afterEach(async () => {
+    await browser.close();
+  });
+
+  test("captures the viewport by default", async () => {
+    await browser.navigate(`data:text/html,${encodeURIComponent(TALL_PAGE)}`);
+
+    const shot = await browser.screenshot();
+
+    expect(shot.mimeType).toBe("image/png");
+    expect(shot.width).toBe(1280);
+    expect(shot.height).toBe(720);
+    expect(shot.markCount).toBeUndefined();
+    expect(Buffer.from(shot.data, "base64").subarray(1, 4).toString()).toBe(
+      "PNG"
+    );
+  });
+
+  test("captures the full page", async () => {
+    await browser.navigate(`data:text/html,${encodeURIComponent(TALL_PAGE)}`);
+
+    const shot = await browser.screenshot({ fullPage: true });
+
+    expect(shot.height).toBeGreaterThanOrEqual(3050);
+  });
+
+  test("crops to an element by ref", async () => {
+    const snapshot = await browser.navigate(
+      `data:text/html,${encodeURIComponent(TALL_PAGE)}`
+    );
+    const ref = snapshot.text.match(/button "Save".*\[ref=(e\d+)\]/)![1];
+
+    const shot = await browser.screenshot({ ref });
+
+    expect(shot.width).toBe(200);
+    expect(shot.height).toBe(50);
+  });
+
+  test("crops to an element inside an iframe", async () => {
+    const html = `
+      <div style="height:100px"></div>
+      <iframe style="border:0;width:400px;height:200px"
+        srcdoc="<button style='width:120px;height:40px'>Pay</button>"></iframe>
+    `;
+    const snapshot = await browser.navigate(
+      `data:text/html,${encodeURIComponent(html)}`
+    );
+    const ref = snapshot.text.match(/button "Pay".*\[ref=(f\d+_e\d+)\]/)![1];
+
+    const shot = await browser.screenshot({ ref });
+
+    expect(shot.width).toBe(120);
+    expect(shot.height).toBe(40);
+  });
+
+  test("marks label refs and are removed after capture", async () => {
+    await browser.navigate(
+      "data:text/html,<button>One</button><a href='#'>Two</a>"
+    );
+
+    const shot = await browser.screenshot({ marks: true });
+    expect(shot.markCount).toBe(2);
+
+    const context = await (browser as any)._roleContexts.get("default");
+    const overlayLeft = await context.page.evaluate(
+      () => document.getElementById("__verdex_ref_marks__") !== null
+    );
+    expect(overlayLeft).toBe(false);
+  });
+
+  test("rejects ref combined with fullPage", async () => {
+    await browser.navigate("data:text/html,<button>Save</button>");
+
+    await expect(
+      browser.screenshot({ ref: "e1", fullPage: true })
+    ).rejects.toThrow(/cannot be combined/);
+  });
+
+  test("hidden elements cannot be captured", async () => {
+    const snapshot = await browser.navigate(
+      "data:text/html,<button>Show</button><button id=h>Hidden</button>"
+    );
+    const ref = snapshot.text.match(/button "Hidden".*\[ref=(e\d+)\]/)![1];
+
+    const context = await (browser as any)._roleContexts.get("default");
+    await context.page.evaluate(() => {
+      document.getElementById("h")!.style.display = "none";
+    });
+
+    await expect(browser.screenshot({ ref })).rejects.toThrow(
+      /has no visible box/
+    );
+  });
+});
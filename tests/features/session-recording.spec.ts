@@ -0,0 +1,135 @@
+/**
+ * E2E Tests: Session Recording
+ *
+ * Tests that MultiContextBrowser records actions with locators and that the
+ * exported Playwright test reflects them:
+ * - navigate, click and type with the best locator per ref
+ * - Role switches produce one browser context per role
+ * - Failed actions are not recorded
+ * - Nothing is recorded outside start/stop, and a recording started on a
+ *   loaded page begins with its URL
+ */
+
+import { test, expect } from "@playwright/test";
+import { MultiContextBrowser } from "../../src/runtime/MultiContextBrowser.js";
+
+const FORM = `
+  <form>
+    <label>Email <input type="email" name="email"></label>
+    <button type="button" data-testid="subscribe">Subscribe</button>
+  </form>
+`;
+
+test.describe("Session Recording", () => {
+  let browser: MultiContextBrowser;
+
+  test.beforeEach(async () => {
+    browser = new MultiContextBrowser();
+    await browser.initialize();
+    await browser.startRecording();
+  });
+
+  test.afterEach(async () => {
+    await browser.close();
+  });
+
+  test("records navigate, type and click with locators", async () => {
+    const url = `data:text/html,${encodeURIComponent(FORM)}`;
+    const snapshot = await browser.navigate(url);
+    const emailRef = snapshot.text.match(/textbox "Email".*\[ref=(e\d+)\]/)![1];
+    const buttonRef = snapshot.text.match(
+      /button "Subscribe".*\[ref=(e\d+)\]/
+    )![1];
+
+    await browser.type(emailRef, "ada@example.com");
+    await browser.click(buttonRef);
+
+    const actions = browser.getRecordedActions();
+    expect(actions.map((a) => a.type)).toEqual(["navigate", "type", "click"]);
+    expect(actions[1]).toMatchObject({
+      role: "default",
+      ref: emailRef,
+      locator: "page.getByRole('textbox', { name: 'Email', exact: true })",
+      text: "ada@example.com",
+    });
+    expect(actions[2]).toMatchObject({
+      locator: "page.getByTestId('subscribe')",
+    });
+
+    const code = browser.exportTest("subscribe");
+    expect(code).toContain("test('subscribe', async ({ page }) => {");
+    expect(code).toContain(
+      "await page.getByRole('textbox', { name: 'Email', exact: true }).fill('ada@example.com');"
+    );
+    expect(code).toContain("await page.getByTestId('subscribe').click();");
+  });
+
+  test("failed actions are not recorded", async () => {
+    await browser.navigate(`data:text/html,${encodeURIComponent(FORM)}`);
+
+    await expect(browser.click("e999")).rejects.toThrow();
+
+    expect(browser.getRecordedActions().map((a) => a.type)).toEqual([
+      "navigate",
+    ]);
+  });
+
+  test("records only between startRecording and stopRecording", async () => {
+    const url = `data:text/html,${encodeURIComponent(FORM)}`;
+    browser.stopRecording();
+    browser.clearRecording();
+    const snapshot = await browser.navigate(url);
+    const buttonRef = snapshot.text.match(
+      /button "Subscribe".*\[ref=(e\d+)\]/
+    )![1];
+    await browser.click(buttonRef);
+    expect(browser.getRecordedActions()).toEqual([]);
+
+    // A new recording starts from the current page
+    await browser.startRecording();
+    await browser.click(buttonRef);
+    browser.stopRecording();
+    await browser.click(buttonRef);
+
+    expect(browser.getRecordedActions()).toEqual([
+      { type: "navigate", role: "default", url },
+      expect.objectContaining({
+        type: "click",
+        locator: "page.getByTestId('subscribe')",
+      }),
+    ]);
+    expect(browser.getRecordingState()).toMatchObject({
+      recording: false,
+      actions: 2,
+      dropped: 0,
+    });
+  });
+
+  test("role switches export one context per role", async () => {
+    await browser.navigate("data:text/html,<h1>Default</h1>");
+    await browser.selectRole("admin");
+    await browser.navigate("data:text/html,<h1>Admin</h1>");
+
+    const code = browser.exportTest();
+    expect(code).toContain("async ({ browser }) => {");
+    expect(code).toContain(
+      "const defaultContext = await browser.newContext();"
+    );
+    expect(code).toContain("const adminContext = await browser.newContext();");
+    expect(code).toContain("// Switch to role: admin");
+    expect(code).toContain("await adminPage.goto(");
+  });
+
+  test("clearRecording() starts a fresh recording", async () => {
+    await browser.navigate("data:text/html,<h1>One</h1>");
+    browser.clearRecording();
+    await browser.navigate("data:text/html,<h1>Two</h1>");
+
+    const actions = browser.getRecordedActions();
+    expect(actions).toHaveLength(1);
+    expect(actions[0]).toMatchObject({
+      type: "navigate",
+      url: "data:text/html,<h1>Two</h1>",
+    });
+  });
+});
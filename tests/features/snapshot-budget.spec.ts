@@ -0,0 +1,132 @@
+/**
+ * E2E Tests: Budgeted Snapshots
+ *
+ * Tests browser_snapshot's maxLines / maxTokens options:
+ * - Large pages are collapsed into summary lines that fit the budget
+ * - Collapsed regions can be expanded (and collapsed again) by id
+ * - Regions of an earlier snapshot or document are gone
+ * - Refs inside collapsed regions stay valid
+ */
+
+import { test, expect } from "@playwright/test";
+import { MultiContextBrowser } from "../../src/runtime/MultiContextBrowser.js";
+
+const items = Array.from(
+  { length: 60 },
+  (_, i) =>
+    `<li><a href="#item-${i}" onclick="document.title = 'item ${i}'">Item ${i}</a></li>`
+).join("");
+
+const CATALOG = `
+  <nav><a href="#home">Home</a><a href="#shop">Shop</a><a href="#help">Help</a></nav>
+  <main>
+    <h1>Catalog</h1>
+    <button>Checkout</button>
+    <ul aria-label="Products">${items}</ul>
+  </main>
+  <footer><a href="#privacy">Privacy</a><a href="#terms">Terms</a></footer>
+`;
+
+test.describe("Budgeted snapshots", () => {
+  let browser: MultiContextBrowser;
+
+  test.beforeEach(async () => {
+    browser = new MultiContextBrowser();
+    await browser.initialize();
+  });
+
+  test.afterEach(async () => {
+    await browser.close();
+  });
+
+  test("collapses regions until the snapshot fits maxLines", async () => {
+    await browser.navigate(`data:text/html,${encodeURIComponent(CATALOG)}`);
+
+    const snapshot = await browser.snapshot({ maxLines: 20 });
+
+    expect(snapshot.text.split("\n").length).toBeLessThanOrEqual(20);
+    expect(snapshot.collapsedRegions?.length).toBeGreaterThan(0);
+    expect(snapshot.text).toMatch(
+      /list Products \(60 similar listitems, refs e\d+–e\d+\) \[collapsed=c\d+\]/
+    );
+    expect(snapshot.text).toContain("button Checkout");
+  });
+
+  test("respects maxTokens", async () => {
+    await browser.navigate(`data:text/html,${encodeURIComponent(CATALOG)}`);
+
+    const snapshot = await browser.snapshot({ maxTokens: 150 });
+
+    expect(Math.ceil(snapshot.text.length / 4)).toBeLessThanOrEqual(150);
+  });
+
+  test("expands a collapsed region with working refs", async () => {
+    await browser.navigate(`data:text/html,${encodeURIComponent(CATALOG)}`);
+    const snapshot = await browser.snapshot({ maxLines: 20 });
+    const id = snapshot.text.match(/list Products .*\[collapsed=(c\d+)\]/)![1];
+
+    const region = await browser.expandRegion(id);
+
+    expect(region.text).toMatch(/^- list Products/);
+    expect(region.text).toContain("link Item 59");
+    expect(region.elementCount).toBe(60);
+
+    const ref = region.text.match(/link Item 42 .*\[ref=([^\]]+)\]/)![1];
+    await browser.click(ref);
+    const after = await browser.snapshot();
+    expect(after.pageContext?.title).toBe("item 42");
+  });
+
+  test("collapses an expanded region again with new ids", async () => {
+    await browser.navigate(`data:text/html,${encodeURIComponent(CATALOG)}`);
+    const snapshot = await browser.snapshot({ maxLines: 20 });
+    const id = snapshot.text.match(/list Products .*\[collapsed=(c\d+)\]/)![1];
+
+    const region = await browser.expandRegion(id, { maxLines: 10 });
+
+    expect(region.text.split("\n").length).toBeLessThanOrEqual(10);
+    for (const nested of region.collapsedRegions ?? []) {
+      expect(snapshot.collapsedRegions).not.toContain(nested);
+    }
+  });
+
+  test("rejects unknown region ids and invalid budgets", async () => {
+    await browser.navigate(`data:text/html,${encodeURIComponent(CATALOG)}`);
+
+    await expect(browser.expandRegion("c99")).rejects.toThrow(
+      /Unknown collapsed region/
+    );
+    await expect(browser.snapshot({ maxLines: 0 })).rejects.toThrow(/maxLines/);
+  });
+
+  test("forgets regions of an earlier snapshot or document", async () => {
+    await browser.navigate(`data:text/html,${encodeURIComponent(CATALOG)}`);
+    let snapshot = await browser.snapshot({ maxLines: 20 });
+    let id = snapshot.collapsedRegions![0];
+
+    // A full snapshot without a budget replaces the collapsed one
+    await browser.snapshot();
+    await expect(browser.expandRegion(id)).rejects.toThrow(
+      /Unknown collapsed region/
+    );
+
+    snapshot = await browser.snapshot({ maxLines: 20 });
+    id = snapshot.collapsedRegions![0];
+    const page = (await browser.getOrCreateRole("default")).page;
+    await page.goto(`data:text/html,${encodeURIComponent(CATALOG)}`);
+    await expect(browser.expandRegion(id)).rejects.toThrow(
+      /Unknown collapsed region/
+    );
+  });
+
+  test("a budgeted snapshot does not reset the diff baseline", async () => {
+    await browser.navigate(`data:text/html,${encodeURIComponent(CATALOG)}`);
+    await browser.snapshot({ maxLines: 20 });
+
+    const diffed = await browser.snapshotDiff();
+
+    expect(diffed.diff).toBeDefined();
+    expect(diffed.diff!.added).toEqual([]);
+    expect(diffed.diff!.removed).toEqual([]);
+  });
+});
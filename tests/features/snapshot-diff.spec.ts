@@ -0,0 +1,105 @@
+/**
+ * Tests for snapshot diff mode
+ *
+ * Verifies that:
+ * 1. The first diff has no baseline and returns the full snapshot only
+ * 2. Later diffs report added, removed and changed refs and new text
+ * 3. Cross-document navigation resets the baseline
+ */
+
+import { test, expect } from "@playwright/test";
+import { MultiContextBrowser } from "../../src/runtime/MultiContextBrowser.js";
+
+test.describe("Snapshot Diff", () => {
+  let browser: MultiContextBrowser;
+
+  test.beforeEach(async () => {
+    browser = new MultiContextBrowser();
+    await browser.initialize();
+  });
+
+  test.afterEach(async () => {
+    await browser.close();
+  });
+
+  test("navigate() snapshot is the baseline for the next diff", async () => {
+    await browser.navigate("data:text/html,<button>Save</button>");
+
+    const snapshot = await browser.snapshotDiff();
+
+    expect(snapshot.diff).toBeDefined();
+    expect(snapshot.diff!.added).toEqual([]);
+    expect(snapshot.diff!.unchangedCount).toBe(1);
+  });
+
+  test("reports toasts and new elements after a click", async () => {
+    const html = `
+      <button onclick="
+        const toast = document.createElement('div');
+        toast.setAttribute('role', 'status');
+        toast.textContent = 'Item added to cart';
+        document.body.appendChild(toast);
+        const undo = document.createElement('button');
+        undo.textContent = 'Undo';
+        document.body.appendChild(undo);
+        this.disabled = true;
+      ">Add to cart</button>
+      <a href="/cart">Cart</a>
+    `;
+    const initial = await browser.navigate(
+      `data:text/html,${encodeURIComponent(html)}`
+    );
+    const addRef = initial.text.match(/Add to cart.*\[ref=(e\d+)\]/)?.[1];
+
+    await browser.click(addRef!);
+    const snapshot = await browser.snapshotDiff();
+    const diff = snapshot.diff!;
+
+    expect(diff.added.map((n) => n.line)).toEqual([
+      expect.stringContaining('button "Undo"'),
+    ]);
+    expect(diff.changed.map((c) => c.ref)).toEqual([addRef]);
+    expect(diff.changed[0].after).toContain("[disabled]");
+    expect(diff.textAdded.join("\n")).toContain("Item added to cart");
+    expect(diff.unchangedCount).toBe(1); // the Cart link
+  });
+
+  test("reports removed refs", async () => {
+    const html = `
+      <button id="dismiss" onclick="this.remove()">Dismiss</button>
+      <button>Keep</button>
+    `;
+    const initial = await browser.navigate(
+      `data:text/html,${encodeURIComponent(html)}`
+    );
+    const ref = initial.text.match(/Dismiss.*\[ref=(e\d+)\]/)?.[1];
+
+    await browser.click(ref!);
+    const { diff } = await browser.snapshotDiff();
+
+    expect(diff!.removed.map((n) => n.ref)).toEqual([ref]);
+  });
+
+  test("cross-document navigation resets the baseline", async () => {
+    await browser.navigate("data:text/html,<button>First</button>");
+    const context = await (browser as any)._roleContexts.get("default");
+    await context.page.goto("data:text/html,<button>Second</button>");
+
+    const snapshot = await browser.snapshotDiff();
+
+    expect(snapshot.diff).toBeUndefined();
+    expect(snapshot.text).toContain("Second");
+  });
+
+  test("each role keeps its own baseline", async () => {
+    await browser.navigate("data:text/html,<button>Default</button>");
+
+    await browser.selectRole("admin");
+    const adminSnapshot = await browser.snapshotDiff();
+    expect(adminSnapshot.diff).toBeUndefined();
+
+    await browser.selectRole("default");
+    const defaultSnapshot = await browser.snapshotDiff();
+    expect(defaultSnapshot.diff).toBeDefined();
+  });
+});
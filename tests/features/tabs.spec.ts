@@ -0,0 +1,175 @@
+/**
+ * E2E Tests: Tabs and Popups
+ *
+ * Tests tab tracking within a role's browser context:
+ * - Clicks that open target=_blank links or window.open popups report the new tab
+ * - Switching tabs moves snapshots and interactions to that page
+ * - Refs are kept per tab
+ * - Closing a popup returns to its opener
+ * - Roles do not see each other's tabs
+ * - Recorded sessions replay popups on their own page
+ */
+
+import { test, expect } from "@playwright/test";
+import type { Server } from "http";
+import { MultiContextBrowser } from "../../src/runtime/MultiContextBrowser.js";
+import { refOf, servePages, startServer } from "../utils/test-utils.js";
+
+const PAGES: Record<string, string> = {
+  "/": `
+    <title>Opener</title>
+    <a href="/docs" target="_blank">Docs</a>
+    <button onclick="window.open('/popup', 'login', 'width=400,height=400')">Sign in</button>
+    <button onclick="document.title = 'clicked'">Stay</button>
+  `,
+  "/docs": `<title>Docs</title><h1>Documentation</h1>`,
+  "/popup": `
+    <title>Popup</title>
+    <button onclick="window.close()">Done</button>
+  `,
+};
+
+test.describe("Tabs and popups", () => {
+  let browser: MultiContextBrowser;
+  let server: Server;
+  let origin: string;
+
+  test.beforeEach(async () => {
+    ({ server, origin } = await startServer(servePages(PAGES)));
+    browser = new MultiContextBrowser();
+    await browser.initialize();
+  });
+
+  test.afterEach(async () => {
+    await browser.close();
+    server.close();
+  });
+
+  test("starts with a single active tab", async () => {
+    await browser.navigate(`${origin}/`);
+
+    const tabs = await browser.listTabs();
+
+    expect(tabs).toEqual([
+      { id: "t1", url: `${origin}/`, title: "Opener", active: true },
+    ]);
+  });
+
+  test("reports tabs opened by target=_blank links", async () => {
+    const snapshot = await browser.navigate(`${origin}/`);
+
+    const result = await browser.click(refOf(snapshot.text, /link Docs/));
+
+    expect(result.newTabs).toHaveLength(1);
+    expect(result.newTabs[0]).toMatchObject({
+      id: "t2",
+      openerId: "t1",
+      active: false,
+    });
+
+    const tabs = await browser.listTabs();
+    expect(tabs.map((t) => t.id)).toEqual(["t1", "t2"]);
+    expect(tabs.find((t) => t.active)?.id).toBe("t1");
+  });
+
+  test("clicks that open nothing report no tabs", async () => {
+    const snapshot = await browser.navigate(`${origin}/`);
+
+    const result = await browser.click(refOf(snapshot.text, /button Stay/));
+
+    expect(result.newTabs).toEqual([]);
+  });
+
+  test("switching tabs moves snapshots to the popup", async () => {
+    const snapshot = await browser.navigate(`${origin}/`);
+    const { newTabs } = await browser.click(
+      refOf(snapshot.text, /button "?Sign in/)
+    );
+
+    const popup = await browser.switchTab(newTabs[0].id);
+
+    expect(popup.pageContext?.url).toBe(`${origin}/popup`);
+    expect(popup.text).toContain("button Done");
+  });
+
+  test("refs are kept per tab", async () => {
+    const opener = await browser.navigate(`${origin}/`);
+    const stayRef = refOf(opener.text, /button Stay/);
+    const { newTabs } = await browser.click(refOf(opener.text, /link Docs/));
+
+    await browser.switchTab(newTabs[0].id);
+    await browser.switchTab("t1");
+    await browser.click(stayRef);
+
+    const after = await browser.snapshot();
+    expect(after.pageContext?.title).toBe("clicked");
+  });
+
+  test("records popups for export_test", async () => {
+    await browser.startRecording();
+    const snapshot = await browser.navigate(`${origin}/`);
+    const { newTabs } = await browser.click(
+      refOf(snapshot.text, /button "?Sign in/)
+    );
+    const popup = await browser.switchTab(newTabs[0].id);
+    await browser.click(refOf(popup.text, /button Done/));
+
+    expect(
+      browser.getRecordedActions().map((a) => [a.type, "tab" in a && a.tab])
+    ).toEqual([
+      ["navigate", "t1"],
+      ["click", "t1"],
+      ["openTab", "t2"],
+      ["switchTab", "t2"],
+      ["click", "t2"],
+    ]);
+
+    const code = browser.exportTest();
+    expect(code).toContain(
+      "const popupPromise = page.waitForEvent('popup');\n  await page.getByRole('button', { name: 'Sign in', exact: true }).click();\n  const popup = await popupPromise;"
+    );
+    expect(code).toContain(
+      "await popup.getByRole('button', { name: 'Done', exact: true }).click();"
+    );
+  });
+
+  test("a popup closing itself returns to its opener", async () => {
+    const snapshot = await browser.navigate(`${origin}/`);
+    const { newTabs } = await browser.click(
+      refOf(snapshot.text, /button "?Sign in/)
+    );
+    const popup = await browser.switchTab(newTabs[0].id);
+
+    await browser.click(refOf(popup.text, /button Done/));
+    await expect
+      .poll(async () => (await browser.listTabs()).map((t) => t.id))
+      .toEqual(["t1"]);
+
+    const back = await browser.snapshot();
+    expect(back.pageContext?.title).toBe("Opener");
+  });
+
+  test("closeTab closes the active tab and activates its opener", async () => {
+    const snapshot = await browser.navigate(`${origin}/`);
+    const { newTabs } = await browser.click(refOf(snapshot.text, /link Docs/));
+    await browser.switchTab(newTabs[0].id);
+
+    const remaining = await browser.closeTab();
+
+    expect(remaining).toEqual([
+      { id: "t1", url: `${origin}/`, title: "Opener", active: true },
+    ]);
+    await expect(browser.closeTab("t1")).rejects.toThrow(/last tab/);
+    await expect(browser.switchTab("t9")).rejects.toThrow(/Unknown tab/);
+  });
+
+  test("roles only see their own tabs", async () => {
+    const snapshot = await browser.navigate(`${origin}/`);
+    await browser.click(refOf(snapshot.text, /link Docs/));
+
+    await browser.selectRole("other");
+    await browser.navigate(`${origin}/`);
+
+    expect((await browser.listTabs()).map((t) => t.id)).toEqual(["t1"]);
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * E2E Tests: Viewport-only Snapshots and Scrolling
+ *
+ * Tests browser_snapshot's viewportOnly / viewportMargin options and browser_scroll:
+ * - Only on-screen elements are rendered, the rest is counted as [offscreen]
+ *   regions with the interactive elements inside them
+ * - Fixed and sticky content inside offscreen subtrees is kept
+ * - Scrolling by page, to the ends and to a ref moves the captured window
+ * - Refs from the last full snapshot stay valid
+ */
+
+import { test, expect } from "@playwright/test";
+import { MultiContextBrowser } from "../../src/runtime/MultiContextBrowser.js";
+import { refOf } from "../utils/test-utils.js";
+
+const posts = Array.from(
+  { length: 50 },
+  (_, i) =>
+    `<article style="height: 200px" aria-label="Post ${i}"><button onclick="document.title = 'liked ${i}'">Like ${i}</button></article>`
+).join("");
+
+const FEED = `<div role="feed" aria-label="Posts">${posts}</div>`;
+
+const APP_SHELL = `
+  <body style="margin: 0; height: 100vh; overflow: hidden">
+    <div id="scroller" style="height: 100vh; overflow-y: auto">${posts}</div>
+  </body>
+`;
+
+test.describe("Viewport-only snapshots", () => {
+  let browser: MultiContextBrowser;
+
+  test.beforeEach(async () => {
+    browser = new MultiContextBrowser();
+    await browser.initialize();
+  });
+
+  test.afterEach(async () => {
+    await browser.close();
+  });
+
+  test("captures only what is on screen", async () => {
+    await browser.navigate(`data:text/html,${encodeURIComponent(FEED)}`);
+
+    const snapshot = await browser.snapshot({ viewportOnly: true });
+
+    expect(snapshot.text).toContain("button Like 0");
+    expect(snapshot.text).not.toContain("Like 49");
+    expect(snapshot.text).toMatch(
+      /- \[offscreen\] \d+ regions below \(\d+ interactive elements\)/
+    );
+    expect(snapshot.text).not.toContain("above");
+    expect(snapshot.elementCount).toBeLessThan(10);
+  });
+
+  test("counts the interactive elements of a skipped list", async () => {
+    const items = Array.from(
+      { length: 500 },
+      (_, i) => `<li><a href="#${i}">Item ${i}</a></li>`
+    ).join("");
+    const html = `<h1 style="height: 2000px">Top</h1><ul>${items}</ul>`;
+    await browser.navigate(`data:text/html,${encodeURIComponent(html)}`);
+
+    const snapshot = await browser.snapshot({ viewportOnly: true });
+
+    expect(snapshot.text).toContain(
+      "- [offscreen] 1 region below (500 interactive elements)"
+    );
+  });
+
+  test("keeps fixed and sticky content of offscreen subtrees", async () => {
+    const html = `
+      <div style="height: 3000px"></div>
+      <section>
+        <p>Far below</p>
+        <div role="dialog" aria-label="Cookies" style="position: fixed; top: 0">
+          <button>Accept</button>
+        </div>
+      </section>
+    `;
+    await browser.navigate(`data:text/html,${encodeURIComponent(html)}`);
+
+    const snapshot = await browser.snapshot({ viewportOnly: true });
+
+    expect(snapshot.text).toContain("dialog Cookies");
+    expect(snapshot.text).toContain("button Accept");
+    expect(snapshot.text).not.toContain("Far below");
+  });
+
+  test("viewportMargin includes content just below the fold", async () => {
+    await browser.navigate(`data:text/html,${encodeURIComponent(FEED)}`);
+
+    const tight = await browser.snapshot({ viewportOnly: true });
+    const wide = await browser.snapshot({
+      viewportOnly: true,
+      viewportMargin: 1000,
+    });
+
+    expect(wide.elementCount).toBeGreaterThan(tight.elementCount);
+  });
+
+  test("scrolling by page moves the captured window", async () => {
+    await browser.navigate(`data:text/html,${encodeURIComponent(FEED)}`);
+
+    const position = await browser.scroll({ pages: 2 });
+    const snapshot = await browser.snapshot({ viewportOnly: true });
+
+    expect(position.scrollY).toBeGreaterThan(0);
+    expect(position.atTop).toBe(false);
+    expect(snapshot.text).toMatch(/- \[offscreen\] \d+ regions above/);
+    expect(snapshot.text).not.toContain("Like 0 ");
+
+    const back = await browser.scroll({ direction: "up", pages: 2 });
+    expect(back.atTop).toBe(true);
+  });
+
+  test("scrolls to the bottom and to a ref", async () => {
+    const full = await browser.navigate(
+      `data:text/html,${encodeURIComponent(FEED)}`
+    );
+
+    const bottom = await browser.scroll({ to: "bottom" });
+    expect(bottom.atBottom).toBe(true);
+    const atBottom = await browser.snapshot({ viewportOnly: true });
+    expect(atBottom.text).toContain("Like 49");
+
+    const ref = refOf(full.text, /button Like 25\b/);
+    await browser.scroll({ ref });
+    const around = await browser.snapshot({ viewportOnly: true });
+    expect(around.text).toContain(`[ref=${ref}]`);
+    expect(around.text).not.toContain("Like 49");
+  });
+
+  test("scrolls app layouts through their scroll container", async () => {
+    await browser.navigate(`data:text/html,${encodeURIComponent(APP_SHELL)}`);
+
+    const position = await browser.scroll({ to: "bottom" });
+    const snapshot = await browser.snapshot({ viewportOnly: true });
+
+    expect(position.atBottom).toBe(true);
+    expect(position.scrollY).toBeGreaterThan(0);
+    expect(snapshot.text).toContain("Like 49");
+  });
+
+  test("refs from the full snapshot stay valid", async () => {
+    const full = await browser.navigate(
+      `data:text/html,${encodeURIComponent(FEED)}`
+    );
+    const ref = refOf(full.text, /button Like 40\b/);
+
+    await browser.snapshot({ viewportOnly: true });
+    await browser.click(ref);
+
+    const after = await browser.snapshot({ viewportOnly: true });
+    expect(after.pageContext?.title).toBe("liked 40");
+  });
+
+  test("rejects conflicting scroll targets", async () => {
+    await browser.navigate(`data:text/html,${encodeURIComponent(FEED)}`);
+
+    await expect(
+      browser.scroll({ to: "top", direction: "down" })
+    ).rejects.toThrow(/only one of/);
+    await expect(browser.scroll({ pages: 0 })).rejects.toThrow(/pages/);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Tests for browser_wait_for (event-driven condition waiting)
+ *
+ * Verifies that:
+ * 1. Text, element state and URL conditions resolve as soon as they hold
+ * 2. Waits survive navigation while they are pending
+ * 3. Unmet conditions fail with WaitTimeoutError
+ */
+
+import { test, expect } from "@playwright/test";
+import { MultiContextBrowser } from "../../src/runtime/MultiContextBrowser.js";
+import { WaitTimeoutError } from "../../src/shared-types.js";
+
+test.describe("Wait For Conditions", () => {
+  let browser: MultiContextBrowser;
+
+  test.beforeEach(async () => {
+    browser = new MultiContextBrowser();
+    await browser.initialize();
+  });
+
+  test.afterEach(async () => {
+    await browser.close();
+  });
+
+  test("waits for text to appear and returns a snapshot", async () => {
+    const html = `
+      <div id="status">Loading...</div>
+      <script>
+        setTimeout(() => {
+          document.getElementById('status').textContent = 'Order confirmed';
+        }, 300);
+      </script>
+    `;
+    await browser.navigate(`data:text/html,${encodeURIComponent(html)}`);
+
+    const started = Date.now();
+    const snapshot = await browser.waitFor({ text: "Order confirmed" });
+
+    expect(snapshot.text).toContain("Order confirmed");
+    expect(Date.now() - started).toBeLessThan(2000);
+  });
+
+  test("waits for text to disappear", async () => {
+    const html = `
+      <div id="spinner">Loading...</div>
+      <script>
+        setTimeout(() => document.getElementById('spinner').remove(), 300);
+      </script>
+    `;
+    await browser.navigate(`data:text/html,${encodeURIComponent(html)}`);
+
+    const snapshot = await browser.waitFor({ textGone: "Loading..." });
+
+    expect(snapshot.text).not.toContain("Loading...");
+  });
+
+  test("waits for an element to become enabled", async () => {
+    const html = `
+      <button id="submit" disabled>Submit</button>
+      <script>
+        setTimeout(() => document.getElementById('submit').disabled = false, 300);
+      </script>
+    `;
+    const snapshot = await browser.navigate(
+      `data:text/html,${encodeURIComponent(html)}`
+    );
+    const ref = snapshot.text.match(/button Submit.*\[ref=(e\d+)\]/)?.[1];
+    expect(ref).toBeDefined();
+
+    await browser.waitFor({ ref: ref!, state: "enabled" });
+
+    const context = await (browser as any)._roleContexts.get("default");
+    const disabled = await context.page.evaluate(
+      () => (document.getElementById("submit") as HTMLButtonElement).disabled
+    );
+    expect(disabled).toBe(false);
+  });
+
+  test("waits for an element to be detached", async () => {
+    const html = `
+      <button id="dismiss" onclick="setTimeout(() => this.remove(), 200)">Dismiss</button>
+    `;
+    const snapshot = await browser.navigate(
+      `data:text/html,${encodeURIComponent(html)}`
+    );
+    const ref = snapshot.text.match(/button Dismiss \[ref=(e\d+)\]/)?.[1];
+
+    await browser.click(ref!);
+    const after = await browser.waitFor({ ref: ref!, state: "detached" });
+
+    expect(after.text).not.toContain("Dismiss");
+  });
+
+  test("waits for same-document URL changes", async () => {
+    const html = `
+      <script>
+        setTimeout(() => history.pushState({}, '', '#/orders/42'), 300);
+      </script>
+    `;
+    await browser.navigate(`data:text/html,${encodeURIComponent(html)}`);
+
+    await browser.waitFor({ url: "**/orders/*" });
+
+    const context = await (browser as any)._roleContexts.get("default");
+    expect(context.page.url()).toContain("#/orders/42");
+  });
+
+  test("re-arms text waits across cross-document navigation", async () => {
+    await browser.navigate("data:text/html,<p>Signing in...</p>");
+
+    const waiting = browser.waitFor({ text: "Welcome back" });
+    const context = await (browser as any)._roleContexts.get("default");
+    await context.page.goto("data:text/html,<h1>Welcome back</h1>");
+
+    const snapshot = await waiting;
+    expect(snapshot.text).toContain("Welcome back");
+  });
+
+  test("throws WaitTimeoutError when a condition is not met", async () => {
+    await browser.navigate("data:text/html,<p>Nothing happens here</p>");
+
+    const error = await browser
+      .waitFor({ text: "Never shown", timeout: 300 })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(WaitTimeoutError);
+    expect(error.message).toContain('text "Never shown" to appear');
+  });
+
+  test("unknown refs fail fast", async () => {
+    await browser.navigate("data:text/html,<button>Click me</button>");
+
+    await expect(
+      browser.waitFor({ ref: "e999", state: "visible" })
+    ).rejects.toThrow(/Unknown element reference: e999/);
+  });
+});
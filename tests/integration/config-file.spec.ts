@@ -0,0 +1,219 @@
+/**
+ * Validation Tests: Roles Config File
+ *
+ * Tests --config verdex.config.json / .yaml parsing:
+ * - JSON and YAML files with every role setting
+ * - authPath resolved relative to the config file
+ * - All validation problems reported at once
+ * - --role arguments take precedence over the file
+ */
+
+import { test, expect } from "@playwright/test";
+import { mkdtempSync, writeFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import {
+  ConfigFileParser,
+  ConfigValidationError,
+} from "../../src/server/config/ConfigFileParser.js";
+import { RolesConfigParser } from "../../src/server/config/RolesConfigParser.js";
+
+test.describe("Roles config file", () => {
+  let dir: string;
+
+  test.beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), "verdex-config-"));
+  });
+
+  test.afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function writeConfig(name: string, content: string): string {
+    const file = path.join(dir, name);
+    writeFileSync(file, content);
+    return file;
+  }
+
+  test("loads every role setting from JSON", () => {
+    const file = writeConfig(
+      "verdex.config.json",
+      JSON.stringify({
+        roles: {
+          admin: {
+            authPath: "auth/admin.json",
+            defaultUrl: "https://admin.example.com",
+            authRequired: true,
+            viewport: { width: 1440, height: 900 },
+            locale: "de-DE",
+            userAgent: "VerdexTest/1.0",
+            extraHTTPHeaders: { "X-Test-Run": "1" },
+            dialogPolicy: "accept",
+            attachTo: "**/admin.example.com/**",
+            device: "iphone 15",
+            deviceScaleFactor: 2,
+            isMobile: false,
+            hasTouch: true,
+            timezone: "Europe/Berlin",
+            geolocation: { latitude: 52.52, longitude: 13.405 },
+            colorScheme: "dark",
+          },
+        },
+      })
+    );
+
+    expect(ConfigFileParser.load(file)).toEqual({
+      admin: {
+        authPath: path.join(dir, "auth/admin.json"),
+        defaultUrl: "https://admin.example.com",
+        authRequired: true,
+        viewport: { width: 1440, height: 900 },
+        locale: "de-DE",
+        userAgent: "VerdexTest/1.0",
+        extraHTTPHeaders: { "X-Test-Run": "1" },
+        dialogPolicy: "accept",
+        attachTo: "**/admin.example.com/**",
+        device: "iPhone 15",
+        deviceScaleFactor: 2,
+        isMobile: false,
+        hasTouch: true,
+        timezone: "Europe/Berlin",
+        geolocation: { latitude: 52.52, longitude: 13.405 },
+        colorScheme: "dark",
+      },
+    });
+  });
+
+  test("loads YAML", () => {
+    const file = writeConfig(
+      "verdex.config.yaml",
+      `roles:
+  guest:
+    defaultUrl: https://example.com
+    viewport: { width: 390, height: 844 }
+  user:
+    authPath: /abs/user.json
+`
+    );
+
+    expect(ConfigFileParser.load(file)).toEqual({
+      guest: {
+        defaultUrl: "https://example.com",
+        viewport: { width: 390, height: 844 },
+      },
+      user: { authPath: "/abs/user.json" },
+    });
+  });
+
+  test("reports every problem at once", () => {
+    const file = writeConfig(
+      "verdex.config.json",
+      JSON.stringify({
+        role: {},
+        roles: {
+          admin: {
+            authPath: "",
+            defaultUrl: "admin.example.com",
+            viewport: { width: 0, height: 900 },
+            locale: "not a locale!",
+            device: "Nokia 3310",
+            timezone: "Mars/Olympus_Mons",
+            geolocation: { latitude: 91, longitude: 0 },
+            colorScheme: "sepia",
+            extraHTTPHeaders: { "X-Count": 1 },
+            dialogPolicy: "sometimes",
+            attachTo: "",
+            headless: true,
+          },
+          guest: { authRequired: true },
+        },
+      })
+    );
+
+    let error: ConfigValidationError | undefined;
+    try {
+      ConfigFileParser.load(file);
+    } catch (e) {
+      error = e as ConfigValidationError;
+    }
+
+    expect(error).toBeInstanceOf(ConfigValidationError);
+    expect(error!.problems).toEqual([
+      "role: unknown key (expected $schema, roles)",
+      "roles.admin.headless: unknown key (expected authPath, defaultUrl, authRequired, viewport, locale, userAgent, extraHTTPHeaders, dialogPolicy, attachTo, device, deviceScaleFactor, isMobile, hasTouch, timezone, geolocation, colorScheme)",
+      "roles.admin.authPath: expected a non-empty string",
+      'roles.admin.defaultUrl: expected an absolute URL (e.g. "https://app.example.com")',
+      "roles.admin.viewport: expected { width, height } with positive integers",
+      'roles.admin.locale: expected a BCP 47 language tag (e.g. "en-US")',
+      'roles.admin.device: expected a device preset (e.g. "iPhone 15", "Pixel 5", "Desktop HiDPI")',
+      'roles.admin.timezone: expected an IANA time zone (e.g. "Europe/Berlin")',
+      "roles.admin.geolocation: expected { latitude, longitude, accuracy? } with latitude -90..90 and longitude -180..180",
+      "roles.admin.colorScheme: expected one of light, dark, no-preference",
+      "roles.admin.extraHTTPHeaders: expected an object of header names to string values",
+      "roles.admin.dialogPolicy: expected one of accept, dismiss, manual",
+      "roles.admin.attachTo: expected a URL pattern of an open page (glob, /regex/ or substring)",
+      "roles.guest.authRequired: requires authPath",
+    ]);
+    expect(error!.message).toContain(`Invalid config file ${file}:`);
+  });
+
+  test("reports unreadable and unparsable files", () => {
+    expect(() => ConfigFileParser.load(path.join(dir, "missing.json"))).toThrow(
+      /cannot read file/
+    );
+
+    const file = writeConfig("broken.json", "{ roles: ");
+    expect(() => ConfigFileParser.load(file)).toThrow(/cannot parse file/);
+  });
+
+  test("--role arguments override the file's role", () => {
+    const file = writeConfig(
+      "verdex.config.json",
+      JSON.stringify({
+        roles: {
+          admin: {
+            authPath: "file-admin.json",
+            defaultUrl: "https://file.example.com",
+            authRequired: true,
+            locale: "fr-FR",
+          },
+          guest: { defaultUrl: "https://guest.example.com" },
+        },
+      })
+    );
+
+    const config = RolesConfigParser.parse([
+      "node",
+      "index.js",
+      "--config",
+      file,
+      "--role",
+      "admin",
+      "/cli/admin.json",
+    ]);
+
+    expect(config?.roles.admin).toEqual({
+      authPath: "/cli/admin.json",
+      defaultUrl: "https://file.example.com",
+      authRequired: true,
+      locale: "fr-FR",
+    });
+    expect(config?.roles.guest).toEqual({
+      defaultUrl: "https://guest.example.com",
+    });
+  });
+
+  test("invalid config files stop parsing", () => {
+    const file = writeConfig(
+      "verdex.config.json",
+      JSON.stringify({ roles: { admin: { viewport: "big" } } })
+    );
+
+    expect(() =>
+      RolesConfigParser.parse(["node", "index.js", "--config", file])
+    ).toThrow(ConfigValidationError);
+    expect(() =>
+      RolesConfigParser.parse(["node", "index.js", "--config"])
+    ).toThrow(/Missing value for --config/);
+  });
+});
@@ -0,0 +1,293 @@
+/**
+ * Integration Tests: Streamable HTTP Transport
+ *
+ * Tests the --transport http mode end to end with the MCP SDK client:
+ * - Sessions are created on initialize and isolated from each other
+ * - Shared-browser mode hands every session the same MultiContextBrowser,
+ *   with a current role per session and no browser_close
+ * - DELETE and idle timeouts close sessions
+ * - CLI flag parsing and validation
+ */
+
+import { test, expect } from "@playwright/test";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { VerdexHttpServer } from "../../src/server/VerdexHttpServer.js";
+import { TransportConfigParser } from "../../src/server/config/TransportConfigParser.js";
+
+async function connectClient(server: VerdexHttpServer) {
+  const client = new Client({ name: "http-transport-test", version: "1.0.0" });
+  const transport = new StreamableHTTPClientTransport(
+    new URL(`http://127.0.0.1:${server.getPort()}/mcp`)
+  );
+  await client.connect(transport);
+  return { client, transport };
+}
+
+function textOf(result: any): string {
+  return result.content[0].text;
+}
+
+test.describe("Streamable HTTP transport", () => {
+  let server: VerdexHttpServer;
+
+  test.afterEach(async () => {
+    await server?.stop();
+  });
+
+  test("serves tools to several isolated sessions", async () => {
+    server = new VerdexHttpServer({
+      type: "http",
+      port: 0,
+      host: "127.0.0.1",
+      sharedBrowser: false,
+      idleTimeoutMs: 60_000,
+    });
+    await server.start();
+
+    const first = await connectClient(server);
+    const second = await connectClient(server);
+
+    expect(first.transport.sessionId).toBeDefined();
+    expect(first.transport.sessionId).not.toBe(second.transport.sessionId);
+    expect(server.getSessionIds()).toHaveLength(2);
+
+    const { tools } = await first.client.listTools();
+    expect(tools.map((t) => t.name)).toContain("browser_navigate");
+
+    const result = await second.client.callTool({
+      name: "get_current_role",
+      arguments: {},
+    });
+    expect(textOf(result)).toBe("Current role: default");
+
+    // Each session owns its browser
+    const sessions = (server as any).sessions as Map<string, any>;
+    const browsers = [...sessions.values()].map((s) => s.server.browser);
+    expect(browsers[0]).not.toBe(browsers[1]);
+
+    await first.client.close();
+    await second.client.close();
+  });
+
+  test("shared browser mode reuses one browser", async () => {
+    server = new VerdexHttpServer({
+      type: "http",
+      port: 0,
+      host: "127.0.0.1",
+      sharedBrowser: true,
+      idleTimeoutMs: 60_000,
+    });
+    await server.start();
+
+    const first = await connectClient(server);
+    const second = await connectClient(server);
+
+    const sessions = (server as any).sessions as Map<string, any>;
+    const browsers = [...sessions.values()].map((s) => s.server.browser);
+    expect(browsers[0]).toBe(browsers[1]);
+    expect(browsers[0]).toBe((server as any).sharedBrowser);
+
+    await first.client.close();
+    await second.client.close();
+  });
+
+  test("shared browser mode keeps a current role per session", async () => {
+    server = new VerdexHttpServer({
+      type: "http",
+      port: 0,
+      host: "127.0.0.1",
+      sharedBrowser: true,
+      idleTimeoutMs: 60_000,
+    });
+    await server.start();
+
+    const first = await connectClient(server);
+    const second = await connectClient(server);
+
+    await first.client.callTool({ name: "browser_initialize", arguments: {} });
+    await first.client.callTool({
+      name: "select_role",
+      arguments: { role: "admin" },
+    });
+    const roleOf = async (client: Client) =>
+      textOf(
+        await client.callTool({ name: "get_current_role", arguments: {} })
+      );
+
+    expect(await roleOf(second.client)).toBe("Current role: default");
+    expect(await roleOf(first.client)).toBe("Current role: admin");
+
+    await first.client.close();
+    await second.client.close();
+  });
+
+  test("browser_close leaves a shared browser open", async () => {
+    server = new VerdexHttpServer({
+      type: "http",
+      port: 0,
+      host: "127.0.0.1",
+      sharedBrowser: true,
+      idleTimeoutMs: 60_000,
+    });
+    await server.start();
+
+    const { client } = await connectClient(server);
+    const sharedBrowser = (server as any).sharedBrowser;
+    let closed = false;
+    const close = sharedBrowser.close.bind(sharedBrowser);
+    sharedBrowser.close = async () => {
+      closed = true;
+      await close();
+    };
+
+    const result = await client.callTool({
+      name: "browser_close",
+      arguments: {},
+    });
+    expect(textOf(result)).toContain("shared with other sessions");
+    expect(closed).toBe(false);
+
+    await client.close();
+  });
+
+  test("DELETE closes the session", async () => {
+    server = new VerdexHttpServer({
+      type: "http",
+      port: 0,
+      host: "127.0.0.1",
+      sharedBrowser: false,
+      idleTimeoutMs: 60_000,
+    });
+    await server.start();
+
+    const { client, transport } = await connectClient(server);
+    expect(server.getSessionIds()).toHaveLength(1);
+
+    await transport.terminateSession();
+    expect(server.getSessionIds()).toHaveLength(0);
+
+    await client.close();
+  });
+
+  test("idle sessions are closed", async () => {
+    server = new VerdexHttpServer({
+      type: "http",
+      port: 0,
+      host: "127.0.0.1",
+      sharedBrowser: false,
+      idleTimeoutMs: 200,
+    });
+    await server.start();
+
+    const { client, transport } = await connectClient(server);
+    const sessionId = transport.sessionId!;
+    expect(server.getSessionIds()).toEqual([sessionId]);
+
+    await expect
+      .poll(() => server.getSessionIds(), { timeout: 5000 })
+      .toEqual([]);
+
+    // Requests for the closed session are rejected
+    const response = await fetch(`http://127.0.0.1:${server.getPort()}/mcp`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        "mcp-session-id": sessionId,
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    });
+    expect(response.status).toBe(404);
+
+    await client.close();
+  });
+
+  test("rejects requests without a session or initialize", async () => {
+    server = new VerdexHttpServer({
+      type: "http",
+      port: 0,
+      host: "127.0.0.1",
+      sharedBrowser: false,
+      idleTimeoutMs: 60_000,
+    });
+    await server.start();
+
+    const response = await fetch(`http://127.0.0.1:${server.getPort()}/mcp`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    });
+    expect(response.status).toBe(400);
+
+    const wrongPath = await fetch(`http://127.0.0.1:${server.getPort()}/`);
+    expect(wrongPath.status).toBe(404);
+  });
+});
+
+test.describe("TransportConfigParser", () => {
+  test("defaults to stdio", () => {
+    expect(TransportConfigParser.parse(["node", "index.js"])).toEqual({
+      type: "stdio",
+    });
+  });
+
+  test("parses http options", () => {
+    expect(
+      TransportConfigParser.parse([
+        "node",
+        "index.js",
+        "--transport",
+        "http",
+        "--port",
+        "8931",
+        "--host",
+        "0.0.0.0",
+        "--shared-browser",
+        "--idle-timeout",
+        "120",
+      ])
+    ).toEqual({
+      type: "http",
+      port: 8931,
+      host: "0.0.0.0",
+      sharedBrowser: true,
+      idleTimeoutMs: 120_000,
+    });
+  });
+
+  test("http defaults", () => {
+    expect(
+      TransportConfigParser.parse(["node", "index.js", "--transport", "http"])
+    ).toEqual({
+      type: "http",
+      port: 3000,
+      host: "127.0.0.1",
+      sharedBrowser: false,
+      idleTimeoutMs: 1_800_000,
+    });
+  });
+
+  test("rejects invalid values", () => {
+    expect(() =>
+      TransportConfigParser.parse(["--transport", "websocket"])
+    ).toThrow(/Invalid --transport "websocket"/);
+    expect(() =>
+      TransportConfigParser.parse(["--transport", "http", "--port", "abc"])
+    ).toThrow(/Invalid --port "abc"/);
+    expect(() =>
+      TransportConfigParser.parse(["--transport", "http", "--port"])
+    ).toThrow(/Missing value for --port/);
+    expect(() =>
+      TransportConfigParser.parse([
+        "--transport",
+        "http",
+        "--idle-timeout",
+        "0",
+      ])
+    ).toThrow(/Invalid --idle-timeout "0"/);
+  });
+});
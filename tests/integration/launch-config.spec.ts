@@ -0,0 +1,126 @@
+import { test, expect } from "@playwright/test";
+import { LaunchConfigParser } from "../../src/server/config/LaunchConfigParser.js";
+import { MultiContextBrowser } from "../../src/runtime/MultiContextBrowser.js";
+
+const parse = (...flags: string[]) =>
+  LaunchConfigParser.parse(["node", "index.js", ...flags]);
+
+test.describe("LaunchConfigParser", () => {
+  test("returns no settings without flags", () => {
+    expect(parse()).toEqual({});
+  });
+
+  test("parses launch flags", () => {
+    expect(
+      parse(
+        "--headed",
+        "--executable-path",
+        "/opt/chromium/chrome",
+        "--browser-args",
+        "--lang=de --window-size=1400,900",
+        "--viewport",
+        "1440x900",
+        "--slow-mo",
+        "250",
+        "--devtools",
+        "--user-data-dir",
+        "./profile"
+      )
+    ).toEqual({
+      headless: false,
+      executablePath: "/opt/chromium/chrome",
+      args: ["--lang=de", "--window-size=1400,900"],
+      viewport: { width: 1440, height: 900 },
+      slowMo: 250,
+      devtools: true,
+      userDataDir: "./profile",
+    });
+  });
+
+  test("accepts a channel and a window-sized viewport", () => {
+    expect(parse("--channel", "chrome-beta", "--viewport", "none")).toEqual({
+      channel: "chrome-beta",
+      viewport: null,
+    });
+  });
+
+  test("parses a running browser to connect to", () => {
+    expect(
+      parse("--cdp-endpoint", "ws://127.0.0.1:9222/devtools/browser/abc")
+    ).toEqual({
+      cdpEndpoint: "ws://127.0.0.1:9222/devtools/browser/abc",
+    });
+    expect(parse("--browser-url", "http://localhost:9222")).toEqual({
+      browserURL: "http://localhost:9222",
+    });
+  });
+
+  test("rejects invalid values", () => {
+    expect(() => parse("--channel", "firefox")).toThrow(/Invalid --channel/);
+    expect(() => parse("--viewport", "big")).toThrow(/Invalid --viewport/);
+    expect(() => parse("--slow-mo", "-1")).toThrow(/Invalid --slow-mo/);
+    expect(() => parse("--executable-path", "--headed")).toThrow(
+      /Missing value for --executable-path/
+    );
+    expect(() =>
+      parse("--executable-path", "/usr/bin/chromium", "--channel", "chrome")
+    ).toThrow(/not both/);
+    expect(() => parse("--cdp-endpoint", "localhost:9222")).toThrow(
+      /Invalid --cdp-endpoint/
+    );
+    expect(() => parse("--browser-url", "ws://localhost:9222")).toThrow(
+      /Invalid --browser-url/
+    );
+    expect(() =>
+      parse(
+        "--cdp-endpoint",
+        "ws://localhost:9222/devtools/browser/abc",
+        "--browser-url",
+        "http://localhost:9222"
+      )
+    ).toThrow(/not both/);
+  });
+});
+
+test.describe("Launch options", () => {
+  test("defaults to headless with a 1280x720 viewport", () => {
+    expect(new MultiContextBrowser().getLaunchOptions()).toEqual({
+      headless: true,
+      args: ["--no-sandbox", "--disable-setuid-sandbox"],
+      defaultViewport: { width: 1280, height: 720 },
+    });
+  });
+
+  test("connects instead of launching when an endpoint is configured", () => {
+    const browser = new MultiContextBrowser();
+    expect(browser.getConnectOptions()).toBeNull();
+
+    browser.setLaunchConfiguration({ browserURL: "http://localhost:9222" });
+    expect(browser.getConnectOptions()).toEqual({
+      browserURL: "http://localhost:9222",
+      defaultViewport: null,
+    });
+
+    browser.setLaunchConfiguration({
+      cdpEndpoint: "ws://localhost:9222/devtools/browser/abc",
+      viewport: { width: 1440, height: 900 },
+    });
+    expect(browser.getConnectOptions()).toEqual({
+      browserWSEndpoint: "ws://localhost:9222/devtools/browser/abc",
+      defaultViewport: { width: 1440, height: 900 },
+    });
+  });
+
+  test("applies the launch configuration", () => {
+    const browser = new MultiContextBrowser();
+    browser.setLaunchConfiguration({ headless: false, args: ["--lang=de"] });
+    browser.setLaunchConfiguration({ viewport: null, slowMo: 100 });
+
+    expect(browser.getLaunchOptions()).toEqual({
+      headless: false,
+      args: ["--no-sandbox", "--disable-setuid-sandbox", "--lang=de"],
+      defaultViewport: null,
+      slowMo: 100,
+    });
+  });
+});
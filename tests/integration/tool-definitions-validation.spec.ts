@@ -20,9 +20,29 @@ test.describe("Tool Definitions Validation", () => {
     // Browser control tools
     expect(toolNames).toContain("browser_initialize");
     expect(toolNames).toContain("browser_navigate");
+    expect(toolNames).toContain("browser_go_back");
+    expect(toolNames).toContain("browser_go_forward");
+    expect(toolNames).toContain("browser_reload");
     expect(toolNames).toContain("browser_snapshot");
+    expect(toolNames).toContain("browser_expand_region");
+    expect(toolNames).toContain("browser_screenshot");
     expect(toolNames).toContain("browser_click");
     expect(toolNames).toContain("browser_type");
+    expect(toolNames).toContain("browser_hover");
+    expect(toolNames).toContain("browser_select_option");
+    expect(toolNames).toContain("browser_press_key");
+    expect(toolNames).toContain("browser_scroll");
+    expect(toolNames).toContain("browser_list_tabs");
+    expect(toolNames).toContain("browser_switch_tab");
+    expect(toolNames).toContain("browser_close_tab");
+    expect(toolNames).toContain("browser_handle_dialog");
+    expect(toolNames).toContain("browser_console");
+    expect(toolNames).toContain("browser_network_requests");
+    expect(toolNames).toContain("browser_route");
+    expect(toolNames).toContain("browser_unroute");
+    expect(toolNames).toContain("browser_emulate");
+    expect(toolNames).toContain("export_har");
+    expect(toolNames).toContain("browser_wait_for");
     expect(toolNames).toContain("wait_for_browser");
     expect(toolNames).toContain("browser_close");
 
@@ -30,14 +50,22 @@ test.describe("Tool Definitions Validation", () => {
     expect(toolNames).toContain("resolve_container");
     expect(toolNames).toContain("inspect_pattern");
     expect(toolNames).toContain("extract_anchors");
+    expect(toolNames).toContain("generate_locator");
+    expect(toolNames).toContain("validate_locator");
+
+    // Session recording tools
+    expect(toolNames).toContain("start_recording");
+    expect(toolNames).toContain("stop_recording");
+    expect(toolNames).toContain("export_test");
 
     // Role management tools
     expect(toolNames).toContain("get_current_role");
     expect(toolNames).toContain("list_current_roles");
     expect(toolNames).toContain("select_role");
+    expect(toolNames).toContain("save_auth_state");
 
     // Should have exactly these tools (no more, no less)
-    expect(toolNames.length).toBe(13);
+    expect(toolNames.length).toBe(39);
   });
 
   test("should have valid input schemas for all tools", () => {
@@ -65,6 +93,76 @@ test.describe("Tool Definitions Validation", () => {
     expect(typeTool?.inputSchema.required).toContain("ref");
     expect(typeTool?.inputSchema.required).toContain("text");
 
+    // browser_screenshot has no required params (viewport by default)
+    const screenshotTool = TOOL_DEFINITIONS.find(
+      (t) => t.name === "browser_screenshot"
+    );
+    expect(screenshotTool?.inputSchema.required).toBeUndefined();
+
+    // browser_expand_region requires id
+    const expandTool = TOOL_DEFINITIONS.find(
+      (t) => t.name === "browser_expand_region"
+    );
+    expect(expandTool?.inputSchema.required).toContain("id");
+
+    // browser_switch_tab requires id
+    const switchTabTool = TOOL_DEFINITIONS.find(
+      (t) => t.name === "browser_switch_tab"
+    );
+    expect(switchTabTool?.inputSchema.required).toContain("id");
+
+    // export_har requires outputPath
+    const harTool = TOOL_DEFINITIONS.find((t) => t.name === "export_har");
+    expect(harTool?.inputSchema.required).toContain("outputPath");
+
+    // browser_handle_dialog requires action
+    const dialogTool = TOOL_DEFINITIONS.find(
+      (t) => t.name === "browser_handle_dialog"
+    );
+    expect(dialogTool?.inputSchema.required).toContain("action");
+
+    // browser_route requires url and action
+    const routeTool = TOOL_DEFINITIONS.find((t) => t.name === "browser_route");
+    expect(routeTool?.inputSchema.required).toContain("url");
+    expect(routeTool?.inputSchema.required).toContain("action");
+
+    // browser_emulate: viewport and geolocation need both coordinates
+    const emulateTool = TOOL_DEFINITIONS.find(
+      (t) => t.name === "browser_emulate"
+    );
+    expect(emulateTool?.inputSchema.properties.viewport?.required).toEqual([
+      "width",
+      "height",
+    ]);
+    expect(emulateTool?.inputSchema.properties.geolocation?.required).toEqual([
+      "latitude",
+      "longitude",
+    ]);
+
+    // browser_hover requires ref
+    const hoverTool = TOOL_DEFINITIONS.find((t) => t.name === "browser_hover");
+    expect(hoverTool?.inputSchema.required).toContain("ref");
+
+    // browser_select_option requires ref and values
+    const selectTool = TOOL_DEFINITIONS.find(
+      (t) => t.name === "browser_select_option"
+    );
+    expect(selectTool?.inputSchema.required).toContain("ref");
+    expect(selectTool?.inputSchema.required).toContain("values");
+
+    // browser_press_key requires key, ref is optional
+    const pressTool = TOOL_DEFINITIONS.find(
+      (t) => t.name === "browser_press_key"
+    );
+    expect(pressTool?.inputSchema.required).toContain("key");
+    expect(pressTool?.inputSchema.required).not.toContain("ref");
+
+    // browser_wait_for has no required params (any combination of conditions)
+    const waitForTool = TOOL_DEFINITIONS.find(
+      (t) => t.name === "browser_wait_for"
+    );
+    expect(waitForTool?.inputSchema.required).toBeUndefined();
+
     // resolve_container requires ref
     const containerTool = TOOL_DEFINITIONS.find(
       (t) => t.name === "resolve_container"
@@ -85,11 +183,33 @@ test.describe("Tool Definitions Validation", () => {
     expect(anchorsTool?.inputSchema.required).toContain("ref");
     expect(anchorsTool?.inputSchema.required).toContain("ancestorLevel");
 
+    // generate_locator requires ref
+    const locatorTool = TOOL_DEFINITIONS.find(
+      (t) => t.name === "generate_locator"
+    );
+    expect(locatorTool?.inputSchema.required).toContain("ref");
+
+    // validate_locator requires locator
+    const validateTool = TOOL_DEFINITIONS.find(
+      (t) => t.name === "validate_locator"
+    );
+    expect(validateTool?.inputSchema.required).toContain("locator");
+
+    // export_test has no required params
+    const exportTool = TOOL_DEFINITIONS.find((t) => t.name === "export_test");
+    expect(exportTool?.inputSchema.required).toBeUndefined();
+
     // select_role requires role
     const selectRoleTool = TOOL_DEFINITIONS.find(
       (t) => t.name === "select_role"
     );
     expect(selectRoleTool?.inputSchema.required).toContain("role");
+
+    // save_auth_state has no required params
+    const saveAuthTool = TOOL_DEFINITIONS.find(
+      (t) => t.name === "save_auth_state"
+    );
+    expect(saveAuthTool?.inputSchema.required).toBeUndefined();
   });
 
   test("should have helpful descriptions", () => {
@@ -127,6 +247,15 @@ test.describe("Tool Definitions Validation", () => {
     );
     expect(waitTool?.inputSchema.properties.milliseconds?.type).toBe("number");
 
+    // browser_wait_for networkIdle should be boolean, timeout number
+    const waitForTool = TOOL_DEFINITIONS.find(
+      (t) => t.name === "browser_wait_for"
+    );
+    expect(waitForTool?.inputSchema.properties.networkIdle?.type).toBe(
+      "boolean"
+    );
+    expect(waitForTool?.inputSchema.properties.timeout?.type).toBe("number");
+
     // inspect_pattern ancestorLevel should be number
     const patternTool = TOOL_DEFINITIONS.find(
       (t) => t.name === "inspect_pattern"
@@ -160,18 +289,25 @@ test.describe("Tool Definitions Validation", () => {
       (t) =>
         t.name === "resolve_container" ||
         t.name === "inspect_pattern" ||
-        t.name === "extract_anchors"
+        t.name === "extract_anchors" ||
+        t.name === "generate_locator" ||
+        t.name === "validate_locator"
+    );
+    const recordingTools = TOOL_DEFINITIONS.filter(
+      (t) => t.name === "export_test" || t.name === "export_har"
     );
     const roleTools = TOOL_DEFINITIONS.filter(
       (t) =>
         t.name === "get_current_role" ||
         t.name === "list_current_roles" ||
-        t.name === "select_role"
+        t.name === "select_role" ||
+        t.name === "save_auth_state"
     );
 
-    expect(browserTools.length).toBe(7); // initialize, navigate, snapshot, click, type, wait_for_browser, close
-    expect(analysisTools.length).toBe(3); // resolve_container, inspect_pattern, extract_anchors
-    expect(roleTools.length).toBe(3); // get_current_role, list_current_roles, select_role
+    expect(browserTools.length).toBe(26); // initialize, navigate, go_back, go_forward, reload, snapshot, expand_region, screenshot, click, type, hover, select_option, press_key, scroll, list_tabs, switch_tab, close_tab, handle_dialog, console, network_requests, route, unroute, emulate, wait_for, wait_for_browser, close
+    expect(analysisTools.length).toBe(5); // resolve_container, inspect_pattern, extract_anchors, generate_locator, validate_locator
+    expect(recordingTools.length).toBe(2); // export_test, export_har
+    expect(roleTools.length).toBe(4); // get_current_role, list_current_roles, select_role, save_auth_state
   });
 
   test("should have default values for optional parameters", () => {
@@ -191,17 +327,43 @@ test.describe("Tool Definitions Validation", () => {
     const expectedToolNames = [
       "browser_initialize",
       "browser_navigate",
+      "browser_go_back",
+      "browser_go_forward",
+      "browser_reload",
       "browser_snapshot",
+      "browser_expand_region",
+      "browser_screenshot",
       "browser_click",
       "browser_type",
+      "browser_hover",
+      "browser_select_option",
+      "browser_press_key",
+      "browser_scroll",
+      "browser_list_tabs",
+      "browser_switch_tab",
+      "browser_close_tab",
+      "browser_handle_dialog",
+      "browser_console",
+      "browser_network_requests",
+      "browser_route",
+      "browser_unroute",
+      "browser_emulate",
+      "browser_wait_for",
       "wait_for_browser",
       "browser_close",
       "resolve_container",
       "inspect_pattern",
       "extract_anchors",
+      "generate_locator",
+      "validate_locator",
+      "start_recording",
+      "stop_recording",
+      "export_test",
+      "export_har",
       "get_current_role",
       "list_current_roles",
       "select_role",
+      "save_auth_state",
     ];
 
     const actualToolNames = TOOL_DEFINITIONS.map((t) => t.name);
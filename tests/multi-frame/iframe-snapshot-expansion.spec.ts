@@ -133,6 +133,43 @@ test.describe("Iframe Snapshot Expansion", () => {
     );
   });
 
+  test("expands iframes in the JSON tree", async () => {
+    const html = `
+      <button>Main</button>
+      <iframe title="Checkout" srcdoc="
+        <button>Level 1</button>
+        <iframe srcdoc='<button>Level 2</button>'></iframe>
+      "></iframe>
+    `;
+    await browser.navigate(`data:text/html,${encodeURIComponent(html)}`);
+    const snapshot = await browser.snapshot();
+
+    const tree = snapshot.tree!;
+    expect(tree.role).toBe("WebArea");
+
+    const outer = tree.children.find(
+      (c) => typeof c !== "string" && c.role === "iframe"
+    ) as any;
+    expect(outer.name).toBe("Checkout");
+    expect(outer.frame).toEqual({ status: "expanded" });
+    expect(outer.children[0]).toMatchObject({
+      role: "button",
+      name: "Level 1",
+      ref: expect.stringMatching(/^f1_e\d+$/),
+    });
+
+    const inner = outer.children.find((c: any) => c.role === "iframe");
+    expect(inner.children[0]).toMatchObject({
+      role: "button",
+      name: "Level 2",
+      ref: expect.stringMatching(/^f2_e\d+$/),
+    });
+
+    // Named iframes are expanded too, and the tree is plain JSON
+    expect(snapshot.text).toMatch(/iframe Checkout \[ref=e\d+\]:/);
+    expect(JSON.parse(JSON.stringify(tree))).toEqual(tree);
+  });
+
   test("builds correct refIndex for frame-qualified refs", async () => {
     const html = `
       <button id="main-btn">Main Button</button>
@@ -0,0 +1,194 @@
+import { test, expect } from "@playwright/test";
+import { EventEmitter } from "events";
+import type { CDPSession } from "puppeteer";
+import { ConsoleCollector } from "../../src/runtime/ConsoleCollector.js";
+import type { ConsoleLog } from "../../src/runtime/types.js";
+
+/**
+ * Minimal CDP session: events are emitted by the test, commands resolve empty
+ */
+function fakeSession(): EventEmitter & { sent: string[] } {
+  const session = Object.assign(new EventEmitter(), { sent: [] as string[] });
+  (session as any).send = async (method: string) => {
+    session.sent.push(method);
+    return {};
+  };
+  return session;
+}
+
+function stringArg(value: string) {
+  return { type: "string", value };
+}
+
+test.describe("ConsoleCollector", () => {
+  let session: ReturnType<typeof fakeSession>;
+  let log: ConsoleLog;
+
+  test.beforeEach(async () => {
+    session = fakeSession();
+    log = ConsoleCollector.createLog();
+    await ConsoleCollector.attach(
+      session as unknown as CDPSession,
+      { id: "t1", mainFrameId: "MAIN" },
+      log
+    );
+    session.emit("Runtime.executionContextCreated", {
+      context: { id: 1, auxData: { isDefault: true, frameId: "MAIN" } },
+    });
+    session.emit("Runtime.executionContextCreated", {
+      context: { id: 2, auxData: { isDefault: true, frameId: "CHILD" } },
+    });
+    // The bridge's isolated world
+    session.emit("Runtime.executionContextCreated", {
+      context: { id: 3, auxData: { isDefault: false, frameId: "MAIN" } },
+    });
+  });
+
+  test("enables the Log domain", () => {
+    expect(session.sent).toContain("Log.enable");
+  });
+
+  test("maps console calls, exceptions and log entries", () => {
+    session.emit("Runtime.consoleAPICalled", {
+      type: "warning",
+      executionContextId: 1,
+      args: [stringArg("Low stock:"), { type: "number", value: 3 }],
+      stackTrace: {
+        callFrames: [{ url: "https://shop.test/app.js", lineNumber: 41 }],
+      },
+    });
+    session.emit("Runtime.exceptionThrown", {
+      exceptionDetails: {
+        text: "Uncaught",
+        executionContextId: 2,
+        exception: {
+          type: "object",
+          subtype: "error",
+          description: "TypeError: cart is undefined\n    at checkout",
+        },
+      },
+    });
+    session.emit("Log.entryAdded", {
+      entry: {
+        source: "network",
+        level: "error",
+        text: "Failed to load resource: 500",
+        url: "https://shop.test/api/cart",
+      },
+    });
+
+    const { messages } = ConsoleCollector.query(log);
+    expect(messages).toEqual([
+      expect.objectContaining({
+        id: 1,
+        tabId: "t1",
+        level: "warning",
+        source: "console",
+        text: "Low stock: 3",
+        url: "https://shop.test/app.js",
+        lineNumber: 42,
+      }),
+      expect.objectContaining({
+        id: 2,
+        frameId: "CHILD",
+        level: "error",
+        source: "exception",
+        text: "Uncaught TypeError: cart is undefined\n    at checkout",
+      }),
+      expect.objectContaining({
+        id: 3,
+        level: "error",
+        source: "browser",
+        url: "https://shop.test/api/cart",
+      }),
+    ]);
+    expect(messages[0].frameId).toBeUndefined();
+  });
+
+  test("ignores output from isolated worlds", () => {
+    session.emit("Runtime.consoleAPICalled", {
+      type: "log",
+      executionContextId: 3,
+      args: [stringArg("bridge internals")],
+    });
+
+    expect(ConsoleCollector.query(log).matched).toBe(0);
+  });
+
+  test("filters by minimum level and since the last call", () => {
+    for (const [type, text] of [
+      ["debug", "a"],
+      ["log", "b"],
+      ["error", "c"],
+    ]) {
+      session.emit("Runtime.consoleAPICalled", {
+        type,
+        executionContextId: 1,
+        args: [stringArg(text)],
+      });
+    }
+
+    expect(
+      ConsoleCollector.query(log, { level: "log" }).messages.map((m) => m.text)
+    ).toEqual(["b", "c"]);
+    expect(ConsoleCollector.query(log, { sinceLast: true }).matched).toBe(0);
+
+    session.emit("Runtime.consoleAPICalled", {
+      type: "info",
+      executionContextId: 1,
+      args: [stringArg("d")],
+    });
+    expect(
+      ConsoleCollector.query(log, { sinceLast: true }).messages.map(
+        (m) => m.text
+      )
+    ).toEqual(["d"]);
+  });
+
+  test("limit keeps the most recent messages", () => {
+    for (let i = 1; i <= 5; i++) {
+      session.emit("Runtime.consoleAPICalled", {
+        type: "log",
+        executionContextId: 1,
+        args: [stringArg(`m${i}`)],
+      });
+    }
+
+    const result = ConsoleCollector.query(log, { limit: 2 });
+    expect(result.matched).toBe(5);
+    expect(result.messages.map((m) => m.text)).toEqual(["m4", "m5"]);
+    expect(() => ConsoleCollector.query(log, { limit: 0 })).toThrow(/limit/);
+  });
+
+  test("counts each new error once", () => {
+    const error = () =>
+      session.emit("Runtime.consoleAPICalled", {
+        type: "error",
+        executionContextId: 1,
+        args: [stringArg("boom")],
+      });
+
+    error();
+    error();
+    expect(ConsoleCollector.takeNewErrorCount(log)).toBe(2);
+    expect(ConsoleCollector.takeNewErrorCount(log)).toBe(0);
+
+    error();
+    ConsoleCollector.query(log);
+    expect(ConsoleCollector.takeNewErrorCount(log)).toBe(0);
+  });
+
+  test("drops the oldest messages when the buffer is full", () => {
+    for (let i = 1; i <= 1005; i++) {
+      session.emit("Runtime.consoleAPICalled", {
+        type: "log",
+        executionContextId: 1,
+        args: [stringArg(`m${i}`)],
+      });
+    }
+
+    const result = ConsoleCollector.query(log, { limit: 1000 });
+    expect(result.dropped).toBe(5);
+    expect(result.messages[0].text).toBe("m6");
+  });
+});
@@ -0,0 +1,179 @@
+import { test, expect } from "@playwright/test";
+import type { Page } from "puppeteer";
+import { DeviceEmulation } from "../../src/runtime/DeviceEmulation.js";
+
+/**
+ * Minimal page: viewports and CDP commands (page and browser sessions) are
+ * recorded with their parameters
+ */
+function fakePage() {
+  const sent: Array<{ method: string; params?: any }> = [];
+  const viewports: any[] = [];
+  const session = {
+    send: async (method: string, params?: any) => {
+      sent.push({ method, params });
+      return {};
+    },
+  };
+  const browser = {
+    userAgent: async () => "HeadlessChrome/130",
+    target: () => ({ createCDPSession: async () => session }),
+  };
+  const page = {
+    setViewport: async (viewport: any) => {
+      viewports.push(viewport);
+    },
+    createCDPSession: async () => session,
+    browser: () => browser,
+    browserContext: () => ({ id: "context-1" }),
+  };
+  return { page: page as unknown as Page, sent, viewports };
+}
+
+test.describe("DeviceEmulation", () => {
+  test("finds device presets case-insensitively", () => {
+    expect(DeviceEmulation.findDevice("iphone 15 pro")).toBe("iPhone 15 Pro");
+    expect(DeviceEmulation.findDevice("desktop hidpi")).toBe("Desktop HiDPI");
+    expect(DeviceEmulation.findDevice("Nokia 3310")).toBeUndefined();
+    expect(DeviceEmulation.deviceNames()).toContain("Pixel 5");
+  });
+
+  test("expands a device preset, explicit fields win", () => {
+    const resolved = DeviceEmulation.resolve({
+      device: "pixel 5",
+      viewport: { width: 400, height: 800 },
+      locale: "de-DE",
+    });
+    expect(resolved).toMatchObject({
+      device: "Pixel 5",
+      viewport: { width: 400, height: 800 },
+      deviceScaleFactor: 3,
+      isMobile: true,
+      hasTouch: true,
+      locale: "de-DE",
+    });
+    expect(resolved.userAgent).toContain("Pixel 5");
+
+    // Desktop presets keep the browser's user agent
+    expect(DeviceEmulation.resolve({ device: "Desktop HiDPI" })).toEqual({
+      device: "Desktop HiDPI",
+      viewport: { width: 1280, height: 720 },
+      deviceScaleFactor: 2,
+      isMobile: false,
+      hasTouch: false,
+    });
+  });
+
+  test("rejects invalid settings", () => {
+    expect(() => DeviceEmulation.validate({ device: "Nokia 3310" })).toThrow(
+      /Unknown device "Nokia 3310" - known devices: Desktop, /
+    );
+    expect(() =>
+      DeviceEmulation.validate({ viewport: { width: 0, height: 600 } })
+    ).toThrow(/viewport must be/);
+    expect(() => DeviceEmulation.validate({ deviceScaleFactor: -1 })).toThrow(
+      /deviceScaleFactor must be/
+    );
+    expect(() => DeviceEmulation.validate({ locale: "not a locale!" })).toThrow(
+      /locale must be/
+    );
+    expect(() => DeviceEmulation.validate({ timezone: "Mars/Base" })).toThrow(
+      /timezone must be an IANA time zone/
+    );
+    expect(() =>
+      DeviceEmulation.validate({ geolocation: { latitude: 91, longitude: 0 } })
+    ).toThrow(/geolocation must be/);
+    expect(() =>
+      DeviceEmulation.validate({ colorScheme: "sepia" as any })
+    ).toThrow(/colorScheme must be/);
+
+    expect(() =>
+      DeviceEmulation.validate({
+        device: "iPad Pro 11",
+        timezone: "Asia/Tokyo",
+        geolocation: { latitude: 35.68, longitude: 139.69, accuracy: 20 },
+        colorScheme: "dark",
+      })
+    ).not.toThrow();
+  });
+
+  test("applies every override with CDP Emulation", async () => {
+    const { page, sent, viewports } = fakePage();
+    await DeviceEmulation.apply(
+      page,
+      {
+        device: "iPhone 15",
+        locale: "fr-FR",
+        timezone: "Europe/Paris",
+        geolocation: { latitude: 48.86, longitude: 2.35 },
+        colorScheme: "dark",
+      },
+      { width: 1280, height: 720 }
+    );
+
+    expect(viewports).toEqual([
+      {
+        width: 393,
+        height: 659,
+        deviceScaleFactor: 3,
+        isMobile: true,
+        hasTouch: true,
+      },
+    ]);
+    expect(sent.map((command) => command.method)).toEqual([
+      "Emulation.setUserAgentOverride",
+      "Emulation.setLocaleOverride",
+      "Emulation.setTimezoneOverride",
+      "Browser.grantPermissions",
+      "Emulation.setGeolocationOverride",
+      "Emulation.setEmulatedMedia",
+    ]);
+    expect(sent[0].params.userAgent).toContain("iPhone");
+    expect(sent[0].params.acceptLanguage).toBe("fr-FR");
+    expect(sent[2].params).toEqual({ timezoneId: "Europe/Paris" });
+    expect(sent[3].params).toEqual({
+      permissions: ["geolocation"],
+      browserContextId: "context-1",
+    });
+    expect(sent[4].params).toEqual({
+      accuracy: 0,
+      latitude: 48.86,
+      longitude: 2.35,
+    });
+    expect(sent[5].params.features).toEqual([
+      { name: "prefers-color-scheme", value: "dark" },
+    ]);
+  });
+
+  test("resets what the settings leave out", async () => {
+    const { page, sent, viewports } = fakePage();
+    await DeviceEmulation.apply(page, {}, { width: 1280, height: 720 });
+
+    expect(viewports).toEqual([
+      {
+        width: 1280,
+        height: 720,
+        deviceScaleFactor: 1,
+        isMobile: false,
+        hasTouch: false,
+      },
+    ]);
+    expect(sent).toEqual([
+      {
+        method: "Emulation.setUserAgentOverride",
+        params: { userAgent: "HeadlessChrome/130", acceptLanguage: undefined },
+      },
+      { method: "Emulation.setLocaleOverride", params: {} },
+      { method: "Emulation.setTimezoneOverride", params: { timezoneId: "" } },
+      { method: "Emulation.clearGeolocationOverride", params: undefined },
+      {
+        method: "Emulation.setEmulatedMedia",
+        params: { features: [{ name: "prefers-color-scheme", value: "" }] },
+      },
+    ]);
+
+    // A window-sized browser has no viewport to return to
+    await DeviceEmulation.apply(page, {}, null);
+    expect(viewports[1]).toBeNull();
+  });
+});
@@ -0,0 +1,154 @@
+import { test, expect } from "@playwright/test";
+import { HarExporter } from "../../src/utils/HarExporter.js";
+import type { NetworkRequest } from "../../src/shared-types.js";
+
+const STARTED_AT = Date.UTC(2024, 0, 15, 10, 30, 0);
+
+function request(overrides: Partial<NetworkRequest> = {}): NetworkRequest {
+  return {
+    id: 1,
+    tabId: "t1",
+    url: "https://shop.test/api/cart?page=2&sort=price",
+    method: "GET",
+    resourceType: "Fetch",
+    requestHeaders: { Accept: "application/json" },
+    startedAt: STARTED_AT,
+    status: 200,
+    statusText: "OK",
+    mimeType: "application/json",
+    responseHeaders: { "Content-Type": "application/json" },
+    httpVersion: "h2",
+    duration: 120,
+    encodedDataLength: 340,
+    ...overrides,
+  };
+}
+
+test.describe("HarExporter", () => {
+  test("builds a HAR 1.2 log", () => {
+    const har = HarExporter.toHar([request()], { creatorVersion: "1.0.0" });
+
+    expect(har.log.version).toBe("1.2");
+    expect(har.log.creator).toEqual({ name: "verdex", version: "1.0.0" });
+
+    const [entry] = har.log.entries;
+    expect(entry.startedDateTime).toBe("2024-01-15T10:30:00.000Z");
+    expect(entry.time).toBe(120);
+    expect(entry.request).toMatchObject({
+      method: "GET",
+      httpVersion: "HTTP/2",
+      headers: [{ name: "Accept", value: "application/json" }],
+      queryString: [
+        { name: "page", value: "2" },
+        { name: "sort", value: "price" },
+      ],
+      bodySize: 0,
+    });
+    expect(entry.response).toMatchObject({
+      status: 200,
+      statusText: "OK",
+      content: { size: 0, mimeType: "application/json" },
+      redirectURL: "",
+      bodySize: 340,
+    });
+    expect(entry._resourceType).toBe("fetch");
+  });
+
+  test("includes post data and response bodies", () => {
+    const body = '{"items":[]}';
+    const har = HarExporter.toHar([
+      request({
+        method: "POST",
+        requestHeaders: { "Content-Type": "application/json" },
+        postData: '{"sku":"A1"}',
+        responseBody: body,
+        responseBodyTruncated: true,
+      }),
+    ]);
+
+    const [entry] = har.log.entries;
+    expect(entry.request.postData).toEqual({
+      mimeType: "application/json",
+      text: '{"sku":"A1"}',
+    });
+    expect(entry.request.bodySize).toBe(12);
+    expect(entry.response.content).toMatchObject({
+      size: body.length,
+      text: body,
+      comment: "Body truncated by Verdex",
+    });
+
+    const withoutBodies = HarExporter.toHar([request({ responseBody: body })], {
+      includeBodies: false,
+    });
+    expect(withoutBodies.log.entries[0].response.content.text).toBeUndefined();
+  });
+
+  test("derives timings from resource timing", () => {
+    const har = HarExporter.toHar([
+      request({
+        duration: 200,
+        timing: {
+          dnsStart: 2,
+          dnsEnd: 10,
+          connectStart: 10,
+          connectEnd: 50,
+          sslStart: 20,
+          sslEnd: 50,
+          sendStart: 50,
+          sendEnd: 51,
+          receiveHeadersEnd: 150,
+        },
+      }),
+      request({ duration: 80 }),
+    ]);
+
+    expect(har.log.entries[0].timings).toEqual({
+      blocked: 2,
+      dns: 8,
+      connect: 40,
+      ssl: 30,
+      send: 1,
+      wait: 99,
+      receive: 50,
+    });
+    // Without timing, the whole request counts as waiting
+    expect(har.log.entries[1].timings).toMatchObject({ dns: -1, wait: 80 });
+  });
+
+  test("records redirects and failures", () => {
+    const har = HarExporter.toHar([
+      request({
+        status: 302,
+        responseHeaders: { Location: "https://shop.test/login" },
+      }),
+      request({
+        status: undefined,
+        statusText: undefined,
+        mimeType: undefined,
+        responseHeaders: undefined,
+        failure: "net::ERR_CONNECTION_REFUSED",
+      }),
+    ]);
+
+    expect(har.log.entries[0].response.redirectURL).toBe(
+      "https://shop.test/login"
+    );
+    expect(har.log.entries[1].response).toMatchObject({
+      status: 0,
+      content: { mimeType: "x-unknown" },
+      _error: "net::ERR_CONNECTION_REFUSED",
+    });
+  });
+
+  test("splits joined Set-Cookie headers", () => {
+    const har = HarExporter.toHar([
+      request({ responseHeaders: { "Set-Cookie": "a=1\nb=2" } }),
+    ]);
+
+    expect(har.log.entries[0].response.headers).toEqual([
+      { name: "Set-Cookie", value: "a=1" },
+      { name: "Set-Cookie", value: "b=2" },
+    ]);
+  });
+});
@@ -0,0 +1,51 @@
+import { test, expect } from "@playwright/test";
+import type { CDPSession } from "puppeteer";
+import { InputDriver } from "../../src/runtime/InputDriver.js";
+
+/**
+ * Minimal CDP session on a Linux page: key events are recorded
+ */
+function fakeSession() {
+  const keys: any[] = [];
+  const session = {
+    send: async (method: string, params?: any) => {
+      if (method === "Runtime.evaluate") return { result: { value: "Linux" } };
+      if (method === "Input.dispatchKeyEvent") keys.push(params);
+      return {};
+    },
+  };
+  return { cdp: session as unknown as CDPSession, keys };
+}
+
+test.describe("InputDriver", () => {
+  test("press() types upper-case letters while Shift is held", async () => {
+    const { cdp, keys } = fakeSession();
+    await InputDriver.press(cdp, "Shift+a");
+
+    expect(keys.map((k) => [k.type, k.key, k.text])).toEqual([
+      ["rawKeyDown", "Shift", undefined],
+      ["keyDown", "A", "A"],
+      ["keyUp", "A", undefined],
+      ["keyUp", "Shift", undefined],
+    ]);
+    expect(keys[1]).toMatchObject({ code: "KeyA", modifiers: 8 });
+  });
+
+  test("press() knows the named keys the bridge accepts", async () => {
+    const { cdp, keys } = fakeSession();
+    for (const key of ["F1", "F12", "Insert", "ContextMenu"]) {
+      await InputDriver.press(cdp, key);
+    }
+
+    expect(
+      keys
+        .filter((k) => k.type === "rawKeyDown")
+        .map((k) => [k.key, k.windowsVirtualKeyCode])
+    ).toEqual([
+      ["F1", 112],
+      ["F12", 123],
+      ["Insert", 45],
+      ["ContextMenu", 93],
+    ]);
+  });
+});
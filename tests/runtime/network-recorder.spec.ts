@@ -0,0 +1,194 @@
+import { test, expect } from "@playwright/test";
+import { EventEmitter } from "events";
+import type { CDPSession } from "puppeteer";
+import { NetworkRecorder } from "../../src/runtime/NetworkRecorder.js";
+import type { NetworkLog } from "../../src/runtime/types.js";
+
+/**
+ * Minimal CDP session: events are emitted by the test, response bodies
+ * come from `bodies`, other commands resolve empty
+ */
+function fakeSession(bodies: Record<string, string> = {}) {
+  const session = Object.assign(new EventEmitter(), { sent: [] as string[] });
+  (session as any).send = async (method: string, params: any) => {
+    session.sent.push(method);
+    if (method === "Network.getResponseBody") {
+      return { body: bodies[params.requestId] ?? "", base64Encoded: false };
+    }
+    return {};
+  };
+  return session;
+}
+
+function sendRequest(
+  session: EventEmitter,
+  requestId: string,
+  url: string,
+  extra: Record<string, unknown> = {}
+) {
+  session.emit("Network.requestWillBeSent", {
+    requestId,
+    frameId: "MAIN",
+    type: "Fetch",
+    timestamp: 100,
+    wallTime: 1_700_000_000,
+    request: { url, method: "GET", headers: { Accept: "*/*" } },
+    ...extra,
+  });
+}
+
+function respond(
+  session: EventEmitter,
+  requestId: string,
+  status: number,
+  mimeType = "application/json"
+) {
+  session.emit("Network.responseReceived", {
+    requestId,
+    response: {
+      status,
+      statusText: "",
+      mimeType,
+      headers: { "Content-Type": mimeType },
+      protocol: "h2",
+    },
+  });
+  session.emit("Network.loadingFinished", {
+    requestId,
+    timestamp: 100.25,
+    encodedDataLength: 120,
+  });
+}
+
+test.describe("NetworkRecorder", () => {
+  let session: ReturnType<typeof fakeSession>;
+  let log: NetworkLog;
+
+  async function attach(bodies: Record<string, string> = {}, limit = 10) {
+    session = fakeSession(bodies);
+    log = NetworkRecorder.createLog();
+    await NetworkRecorder.attach(
+      session as unknown as CDPSession,
+      { id: "t1", mainFrameId: "MAIN" },
+      log,
+      limit
+    );
+  }
+
+  test("records request, response and timing", async () => {
+    await attach();
+    sendRequest(session, "1", "https://shop.test/api/cart", {
+      frameId: "CHILD",
+      request: {
+        url: "https://shop.test/api/cart",
+        method: "POST",
+        headers: {},
+        postData: '{"id":1}',
+      },
+    });
+    respond(session, "1", 201);
+
+    expect(session.sent).toContain("Network.enable");
+    expect(log.requests).toEqual([
+      expect.objectContaining({
+        id: 1,
+        tabId: "t1",
+        frameId: "CHILD",
+        method: "POST",
+        url: "https://shop.test/api/cart",
+        resourceType: "Fetch",
+        postData: '{"id":1}',
+        startedAt: 1_700_000_000_000,
+        status: 201,
+        httpVersion: "h2",
+        duration: 250,
+        encodedDataLength: 120,
+      }),
+    ]);
+  });
+
+  test("logs each redirect hop and network failures", async () => {
+    await attach();
+    sendRequest(session, "1", "https://shop.test/old");
+    sendRequest(session, "1", "https://shop.test/new", {
+      redirectResponse: {
+        status: 301,
+        statusText: "Moved",
+        mimeType: "text/html",
+        headers: { Location: "/new" },
+      },
+    });
+    respond(session, "1", 200);
+    sendRequest(session, "2", "https://down.test/");
+    session.emit("Network.loadingFailed", {
+      requestId: "2",
+      timestamp: 101,
+      errorText: "net::ERR_CONNECTION_REFUSED",
+    });
+
+    expect(log.requests.map((r) => [r.url, r.status, r.failure])).toEqual([
+      ["https://shop.test/old", 301, undefined],
+      ["https://shop.test/new", 200, undefined],
+      ["https://down.test/", undefined, "net::ERR_CONNECTION_REFUSED"],
+    ]);
+  });
+
+  test("captures text bodies up to the limit", async () => {
+    await attach({ "1": '{"error":"Out of stock"}', "2": "short" }, 10);
+    sendRequest(session, "1", "https://shop.test/api/cart");
+    respond(session, "1", 500);
+    sendRequest(session, "2", "https://shop.test/logo.png");
+    respond(session, "2", 200, "image/png");
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(log.requests[0].responseBody).toBe('{"error":"');
+    expect(log.requests[0].responseBodyTruncated).toBe(true);
+    expect(log.requests[1].responseBody).toBeUndefined();
+  });
+
+  test("filters by URL, status and resource type", async () => {
+    await attach();
+    sendRequest(session, "1", "https://shop.test/api/cart");
+    respond(session, "1", 200);
+    sendRequest(session, "2", "https://shop.test/api/pay");
+    respond(session, "2", 502);
+    sendRequest(session, "3", "https://shop.test/", { type: "Document" });
+    respond(session, "3", 404, "text/html");
+    sendRequest(session, "4", "https://cdn.test/app.js");
+    session.emit("Network.loadingFailed", {
+      requestId: "4",
+      timestamp: 101,
+      errorText: "net::ERR_FAILED",
+    });
+
+    const urls = (filter: object) =>
+      NetworkRecorder.filter(log.requests, filter).map((r) => r.url);
+
+    expect(urls({ url: "/api/" })).toEqual([
+      "https://shop.test/api/cart",
+      "https://shop.test/api/pay",
+    ]);
+    expect(urls({ url: "**/api/p*" })).toEqual(["https://shop.test/api/pay"]);
+    expect(urls({ status: "5xx" })).toEqual(["https://shop.test/api/pay"]);
+    expect(urls({ status: "404" })).toEqual(["https://shop.test/"]);
+    expect(urls({ status: "failed" })).toEqual(["https://cdn.test/app.js"]);
+    expect(urls({ status: "errors" })).toHaveLength(3);
+    expect(urls({ resourceType: "document" })).toEqual(["https://shop.test/"]);
+    expect(() => urls({ status: "bad" })).toThrow(/status must be/);
+  });
+
+  test("query returns recent requests and supports sinceLast", async () => {
+    await attach();
+    for (let i = 1; i <= 3; i++) {
+      sendRequest(session, String(i), `https://shop.test/${i}`);
+    }
+
+    const first = NetworkRecorder.query(log, { limit: 2 });
+    expect(first.matched).toBe(3);
+    expect(first.requests.map((r) => r.id)).toEqual([2, 3]);
+
+    sendRequest(session, "4", "https://shop.test/4");
+    const next = NetworkRecorder.query(log, { sinceLast: true });
+    expect(next.requests.map((r) => r.id)).toEqual([4]);
+  });
+});
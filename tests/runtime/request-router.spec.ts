@@ -0,0 +1,207 @@
+import { test, expect } from "@playwright/test";
+import { EventEmitter } from "events";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { CDPSession } from "puppeteer";
+import { RequestRouter } from "../../src/runtime/RequestRouter.js";
+import type { RouteTable } from "../../src/runtime/types.js";
+
+/**
+ * Minimal CDP session: paused requests are emitted by the test, commands
+ * are recorded with their parameters
+ */
+function fakeSession() {
+  const session = Object.assign(new EventEmitter(), {
+    sent: [] as Array<{ method: string; params?: any }>,
+  });
+  (session as any).send = async (method: string, params?: any) => {
+    session.sent.push({ method, params });
+    return {};
+  };
+  return session;
+}
+
+async function pause(
+  session: ReturnType<typeof fakeSession>,
+  url: string,
+  method = "GET"
+) {
+  session.sent = [];
+  session.emit("Fetch.requestPaused", {
+    requestId: "interception-1",
+    request: { url, method, headers: { Accept: "*/*" } },
+  });
+  await new Promise((resolve) => setImmediate(resolve));
+  return session.sent[0];
+}
+
+test.describe("RequestRouter", () => {
+  let session: ReturnType<typeof fakeSession>;
+  let table: RouteTable;
+
+  test.beforeEach(async () => {
+    session = fakeSession();
+    table = RequestRouter.createTable();
+    await RequestRouter.attach(session as unknown as CDPSession, table);
+  });
+
+  test("enables interception only while routes exist", async () => {
+    expect(session.sent).toEqual([]);
+
+    await RequestRouter.add(table, { url: "**/api/*", action: "abort" });
+    await RequestRouter.sync(session as unknown as CDPSession, table);
+    expect(session.sent.at(-1)?.method).toBe("Fetch.enable");
+
+    RequestRouter.remove(table);
+    await RequestRouter.sync(session as unknown as CDPSession, table);
+    expect(session.sent.at(-1)?.method).toBe("Fetch.disable");
+  });
+
+  test("fulfills matching requests with an inline body", async () => {
+    const route = await RequestRouter.add(table, {
+      url: "**/api/cart",
+      action: "fulfill",
+      status: 500,
+      body: '{"error":"Out of stock"}',
+    });
+    expect(route).toMatchObject({
+      id: "r1",
+      status: 500,
+      bodySize: 24,
+      headers: { "Content-Type": "application/json" },
+    });
+
+    const sent = await pause(session, "https://shop.test/api/cart");
+    expect(sent.method).toBe("Fetch.fulfillRequest");
+    expect(sent.params).toMatchObject({
+      requestId: "interception-1",
+      responseCode: 500,
+      responseHeaders: [{ name: "Content-Type", value: "application/json" }],
+    });
+    expect(Buffer.from(sent.params.body, "base64").toString()).toBe(
+      '{"error":"Out of stock"}'
+    );
+    expect(RequestRouter.list(table)[0].hits).toBe(1);
+
+    const other = await pause(session, "https://shop.test/api/cart/items");
+    expect(other).toEqual({
+      method: "Fetch.continueRequest",
+      params: { requestId: "interception-1" },
+    });
+  });
+
+  test("reads the body from a fixture file", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "verdex-route-"));
+    try {
+      const bodyPath = join(dir, "page.html");
+      await writeFile(bodyPath, "<h1>Maintenance</h1>");
+      await RequestRouter.add(table, {
+        url: "/shop\\.test\\/$/",
+        action: "fulfill",
+        bodyPath,
+      });
+
+      const sent = await pause(session, "https://shop.test/");
+      expect(sent.params.responseCode).toBe(200);
+      expect(sent.params.responseHeaders).toEqual([
+        { name: "Content-Type", value: "text/html; charset=utf-8" },
+      ]);
+      expect(Buffer.from(sent.params.body, "base64").toString()).toBe(
+        "<h1>Maintenance</h1>"
+      );
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+
+    await expect(
+      RequestRouter.add(table, {
+        url: "**",
+        action: "fulfill",
+        bodyPath: join(dir, "missing.json"),
+      })
+    ).rejects.toThrow(/Cannot read body file/);
+  });
+
+  test("aborts and continues with modified headers", async () => {
+    await RequestRouter.add(table, {
+      url: "**/analytics/**",
+      action: "abort",
+      errorReason: "BlockedByClient",
+    });
+    await RequestRouter.add(table, {
+      url: "/api/",
+      method: "post",
+      action: "continue",
+      headers: { accept: "application/json", "X-Test": "1" },
+    });
+
+    const aborted = await pause(session, "https://shop.test/analytics/hit");
+    expect(aborted).toEqual({
+      method: "Fetch.failRequest",
+      params: { requestId: "interception-1", errorReason: "BlockedByClient" },
+    });
+
+    const continued = await pause(session, "https://shop.test/api/pay", "POST");
+    expect(continued.params.headers).toEqual([
+      { name: "accept", value: "application/json" },
+      { name: "X-Test", value: "1" },
+    ]);
+
+    // Method mismatch: left alone
+    const get = await pause(session, "https://shop.test/api/pay");
+    expect(get.params).toEqual({ requestId: "interception-1" });
+  });
+
+  test("newest matching route wins", async () => {
+    await RequestRouter.add(table, { url: "**", action: "abort" });
+    await RequestRouter.add(table, {
+      url: "**/api/*",
+      action: "fulfill",
+      body: "ok",
+    });
+
+    expect((await pause(session, "https://shop.test/api/cart")).method).toBe(
+      "Fetch.fulfillRequest"
+    );
+    expect((await pause(session, "https://shop.test/")).method).toBe(
+      "Fetch.failRequest"
+    );
+  });
+
+  test("removes routes by id or pattern", async () => {
+    await RequestRouter.add(table, { url: "**/a", action: "abort" });
+    await RequestRouter.add(table, { url: "**/b", action: "abort" });
+    await RequestRouter.add(table, { url: "**/b", action: "continue" });
+
+    expect(RequestRouter.remove(table, { id: "r1" }).map((r) => r.id)).toEqual([
+      "r1",
+    ]);
+    expect(
+      RequestRouter.remove(table, { url: "**/b" }).map((r) => r.id)
+    ).toEqual(["r2", "r3"]);
+    expect(() => RequestRouter.remove(table, { id: "r9" })).toThrow(
+      /No route r9/
+    );
+  });
+
+  test("rejects invalid routes", async () => {
+    await expect(
+      RequestRouter.add(table, { url: "**", action: "mock" as any })
+    ).rejects.toThrow(/action must be/);
+    await expect(
+      RequestRouter.add(table, { url: "/(/", action: "abort" })
+    ).rejects.toThrow(/Invalid URL regex/);
+    await expect(
+      RequestRouter.add(table, { url: "**", action: "fulfill", status: 42 })
+    ).rejects.toThrow(/status must be/);
+    await expect(
+      RequestRouter.add(table, {
+        url: "**",
+        action: "abort",
+        errorReason: "Nope" as any,
+      })
+    ).rejects.toThrow(/errorReason must be/);
+    expect(table.routes).toHaveLength(0);
+  });
+});
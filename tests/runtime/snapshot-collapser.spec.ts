@@ -0,0 +1,163 @@
+import { test, expect } from "@playwright/test";
+import { SnapshotCollapser } from "../../src/utils/SnapshotCollapser.js";
+import { SnapshotRenderer } from "../../src/utils/SnapshotRenderer.js";
+import type { SnapshotNode } from "../../src/shared-types.js";
+
+function link(name: string, ref: string): SnapshotNode {
+  return { role: "link", name, ref, children: [name] };
+}
+
+function page(): SnapshotNode {
+  const results: SnapshotNode[] = [];
+  for (let i = 1; i <= 8; i++) {
+    results.push({
+      role: "listitem",
+      name: "",
+      children: [link(`Result ${i}`, `e${10 + i}`)],
+    });
+  }
+
+  return {
+    role: "WebArea",
+    name: "",
+    children: [
+      {
+        role: "navigation",
+        name: "Main",
+        children: [link("Home", "e1"), link("Docs", "e2"), link("Blog", "e3")],
+      },
+      {
+        role: "main",
+        name: "",
+        children: [
+          {
+            role: "heading",
+            name: "Search",
+            states: { level: 1 },
+            children: [],
+          },
+          { role: "list", name: "Results", children: results },
+        ],
+      },
+      {
+        role: "contentinfo",
+        name: "",
+        children: [link("Privacy", "e30"), link("Terms", "e31")],
+      },
+    ],
+  };
+}
+
+function lineCount(tree: SnapshotNode): number {
+  return SnapshotRenderer.render(tree).split("\n").length;
+}
+
+test.describe("SnapshotCollapser", () => {
+  test("collapse() - leaves a tree that already fits untouched", () => {
+    const tree = page();
+    const before = SnapshotRenderer.render(tree);
+
+    const regions = SnapshotCollapser.collapse(tree, { maxLines: 1000 });
+
+    expect(regions.size).toBe(0);
+    expect(SnapshotRenderer.render(tree)).toBe(before);
+  });
+
+  test("collapse() - collapses navigation and footer landmarks first", () => {
+    const tree = page();
+    const lines = lineCount(tree);
+
+    // Dropping the nav (6 lines) and footer (4 lines) is enough
+    const regions = SnapshotCollapser.collapse(tree, { maxLines: lines - 8 });
+
+    expect([...regions.keys()]).toEqual(["c1", "c2"]);
+    expect(regions.get("c1")!.role).toBe("navigation");
+    expect(regions.get("c2")!.role).toBe("contentinfo");
+
+    const text = SnapshotRenderer.render(tree);
+    expect(text).toContain(
+      "- navigation Main (6 nodes, refs e1–e3) [collapsed=c1]"
+    );
+    expect(text).toContain("[collapsed=c2]");
+    expect(text).toContain("link Result 8 [ref=e18]");
+    expect(text).not.toContain("link Home");
+  });
+
+  test("collapse() - summarizes repeated siblings before other content", () => {
+    const tree = page();
+
+    const regions = SnapshotCollapser.collapse(tree, { maxLines: 8 });
+
+    expect(regions.get("c3")!.role).toBe("list");
+    expect(SnapshotRenderer.render(tree)).toContain(
+      "- list Results (8 similar listitems, refs e11–e18) [collapsed=c3]"
+    );
+    expect(lineCount(tree)).toBeLessThanOrEqual(8);
+  });
+
+  test("collapse() - collapses around regions that are already collapsed", () => {
+    const tree = page();
+
+    // The results list goes first, then main with the list inside it
+    const regions = SnapshotCollapser.collapse(tree, { maxLines: 3 });
+
+    expect([...regions.values()].map((node) => node.role)).toEqual([
+      "navigation",
+      "contentinfo",
+      "list",
+      "main",
+    ]);
+    expect(lineCount(tree)).toBe(3);
+  });
+
+  test("collapse() - respects a token budget", () => {
+    const tree = page();
+
+    SnapshotCollapser.collapse(tree, { maxTokens: 40 });
+
+    expect(
+      SnapshotCollapser.estimateTokens(SnapshotRenderer.render(tree))
+    ).toBeLessThanOrEqual(40);
+  });
+
+  test("collapse() - keeps the original subtrees for expansion", () => {
+    const original = page();
+    const tree = page();
+
+    const regions = SnapshotCollapser.collapse(tree, { maxLines: 8 });
+
+    expect(regions.get("c1")).toEqual(original.children[0]);
+    expect(regions.get("c3")).toEqual(
+      (original.children[1] as SnapshotNode).children[1]
+    );
+  });
+
+  test("collapse() - numbers ids from firstId", () => {
+    const tree = page();
+
+    const regions = SnapshotCollapser.collapse(tree, { maxLines: 12 }, 5);
+
+    expect([...regions.keys()][0]).toBe("c5");
+  });
+
+  test("summarize() - counts nodes and reports a single ref", () => {
+    expect(
+      SnapshotCollapser.summarize({
+        role: "region",
+        name: "",
+        children: [link("Only", "e9"), "Some text"],
+      })
+    ).toBe("3 nodes, ref e9");
+  });
+
+  test("summarize() - pluralizes roles", () => {
+    const boxes: SnapshotNode[] = [];
+    for (let i = 0; i < 5; i++) {
+      boxes.push({ role: "checkbox", name: `Option ${i}`, children: [] });
+    }
+
+    expect(
+      SnapshotCollapser.summarize({ role: "group", name: "", children: boxes })
+    ).toBe("5 similar checkboxes");
+  });
+});
@@ -0,0 +1,84 @@
+import { test, expect } from "@playwright/test";
+import { SnapshotDiffer } from "../../src/utils/SnapshotDiffer.js";
+
+const BEFORE = `- heading "Cart" [level=1]
+- list:
+  - listitem:
+    - text: Apples
+    - button "Remove" [ref=e1]
+- spinbutton "Quantity" [ref=e2]:
+  - text: "1"
+- button "Checkout" [ref=e3]`;
+
+test.describe("SnapshotDiffer", () => {
+  test("compute() - identical snapshots have no changes", () => {
+    const diff = SnapshotDiffer.compute(BEFORE, BEFORE);
+    expect(SnapshotDiffer.isEmpty(diff)).toBe(true);
+    expect(diff.unchangedCount).toBe(3);
+  });
+
+  test("compute() - detects added and removed refs", () => {
+    const after = BEFORE.replace(
+      `- button "Remove" [ref=e1]`,
+      `- button "Undo" [ref=e4]`
+    );
+    const diff = SnapshotDiffer.compute(BEFORE, after);
+
+    expect(diff.added).toEqual([{ ref: "e4", line: 'button "Undo" [ref=e4]' }]);
+    expect(diff.removed).toEqual([
+      { ref: "e1", line: 'button "Remove" [ref=e1]' },
+    ]);
+    expect(diff.changed).toEqual([]);
+  });
+
+  test("compute() - content owned by a ref counts as a change", () => {
+    const after = BEFORE.replace(`- text: "1"`, `- text: "3"`);
+    const diff = SnapshotDiffer.compute(BEFORE, after);
+
+    expect(diff.changed).toEqual([
+      {
+        ref: "e2",
+        before: 'spinbutton "Quantity" [ref=e2] | text: "1"',
+        after: 'spinbutton "Quantity" [ref=e2] | text: "3"',
+      },
+    ]);
+    expect(diff.textAdded).toEqual([]);
+  });
+
+  test("compute() - attribute changes count as a change", () => {
+    const after = BEFORE.replace(
+      `- button "Checkout" [ref=e3]`,
+      `- button "Checkout" [disabled] [ref=e3]`
+    );
+    const diff = SnapshotDiffer.compute(BEFORE, after);
+
+    expect(diff.changed.map((c) => c.ref)).toEqual(["e3"]);
+  });
+
+  test("compute() - ref-less text is compared as lines", () => {
+    const after = `${BEFORE}\n- status:\n  - text: Added to cart`;
+    const diff = SnapshotDiffer.compute(BEFORE, after);
+
+    expect(diff.textAdded).toEqual(["status", "text: Added to cart"]);
+    expect(diff.textRemoved).toEqual([]);
+    expect(diff.added).toEqual([]);
+  });
+
+  test("compute() - duplicate text lines are counted", () => {
+    const before = "- text: Item\n- text: Item";
+    const after = "- text: Item";
+    const diff = SnapshotDiffer.compute(before, after);
+
+    expect(diff.textRemoved).toEqual(["text: Item"]);
+  });
+
+  test("compute() - expanded iframe content is not owned by the iframe ref", () => {
+    const before = `- iframe [ref=e5]:\n  - text: Step 1\n  - button "Next" [ref=f1_e1]`;
+    const after = `- iframe [ref=e5]:\n  - text: Step 2\n  - button "Next" [ref=f1_e1]`;
+    const diff = SnapshotDiffer.compute(before, after);
+
+    expect(diff.changed).toEqual([]);
+    expect(diff.textAdded).toEqual(["text: Step 2"]);
+    expect(diff.textRemoved).toEqual(["text: Step 1"]);
+  });
+});
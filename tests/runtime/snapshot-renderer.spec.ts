@@ -0,0 +1,155 @@
+import { test, expect } from "@playwright/test";
+import { SnapshotRenderer } from "../../src/utils/SnapshotRenderer.js";
+import type { SnapshotNode } from "../../src/shared-types.js";
+
+test.describe("SnapshotRenderer", () => {
+  test("render() - skips the WebArea root and indents children", () => {
+    const tree: SnapshotNode = {
+      role: "WebArea",
+      name: "",
+      children: [
+        {
+          role: "navigation",
+          name: "Main",
+          children: [
+            {
+              role: "link",
+              name: "Home",
+              ref: "e1",
+              props: { url: "/home" },
+              children: ["Home"],
+            },
+          ],
+        },
+        "Welcome",
+      ],
+    };
+
+    expect(SnapshotRenderer.render(tree)).toBe(
+      [
+        "- navigation Main",
+        '  - link Home [url="/home"] [ref=e1]',
+        "    - text: Home",
+        "- text: Welcome",
+      ].join("\n")
+    );
+  });
+
+  test("renderLine() - states in a fixed order", () => {
+    expect(
+      SnapshotRenderer.renderLine({
+        role: "checkbox",
+        name: "Agree",
+        ref: "e4",
+        states: { checked: "mixed", disabled: true },
+        children: [],
+      })
+    ).toBe("checkbox Agree [checked=mixed] [disabled] [ref=e4]");
+
+    expect(
+      SnapshotRenderer.renderLine({
+        role: "heading",
+        name: "Products",
+        states: { level: 1, disabled: false },
+        children: [],
+      })
+    ).toBe("heading Products [level=1]");
+  });
+
+  test("escapeValue() - quotes YAML-sensitive values", () => {
+    expect(SnapshotRenderer.escapeValue("Save")).toBe("Save");
+    expect(SnapshotRenderer.escapeValue("")).toBe('""');
+    expect(SnapshotRenderer.escapeValue("true")).toBe('"true"');
+    expect(SnapshotRenderer.escapeValue("42 items")).toBe('"42 items"');
+    expect(SnapshotRenderer.escapeValue("Total: $5")).toBe('"Total: $5"');
+  });
+
+  test("render() - expanded and failed iframes", () => {
+    const tree: SnapshotNode = {
+      role: "WebArea",
+      name: "",
+      children: [
+        {
+          role: "iframe",
+          name: "",
+          ref: "e1",
+          frame: { status: "expanded" },
+          children: [
+            { role: "button", name: "Pay", ref: "f1_e1", children: [] },
+          ],
+        },
+        {
+          role: "iframe",
+          name: "",
+          ref: "e2",
+          frame: { status: "detached" },
+          children: [],
+        },
+        {
+          role: "iframe",
+          name: "",
+          ref: "e3",
+          frame: { status: "error", error: "timeout" },
+          children: [],
+        },
+        { role: "iframe", name: "", ref: "e4", children: [] },
+      ],
+    };
+
+    expect(SnapshotRenderer.render(tree)).toBe(
+      [
+        "- iframe [ref=e1]:",
+        "  - button Pay [ref=f1_e1]",
+        "- iframe [ref=e2]:",
+        "  [Frame detached]",
+        "- iframe [ref=e3]:",
+        "  [Error: timeout]",
+        "- iframe [ref=e4]",
+      ].join("\n")
+    );
+  });
+
+  test("render() - summarizes truncated content", () => {
+    const tree: SnapshotNode = {
+      role: "WebArea",
+      name: "",
+      children: [{ role: "list", name: "Items", truncated: 12, children: [] }],
+    };
+
+    expect(SnapshotRenderer.render(tree)).toBe(
+      ["- list Items", "  - ... (12 more)"].join("\n")
+    );
+  });
+
+  test("render() - marks content skipped outside the viewport", () => {
+    const tree: SnapshotNode = {
+      role: "WebArea",
+      name: "",
+      offscreen: {
+        above: { regions: 0, interactive: 0 },
+        below: { regions: 1, interactive: 0 },
+      },
+      children: [
+        {
+          role: "feed",
+          name: "Posts",
+          offscreen: {
+            above: { regions: 12, interactive: 12 },
+            below: { regions: 1, interactive: 500 },
+          },
+          children: [{ role: "article", name: "Post 13", children: [] }],
+        },
+      ],
+    };
+
+    expect(SnapshotRenderer.render(tree)).toBe(
+      [
+        "- feed Posts",
+        "  - [offscreen] 12 regions above (12 interactive elements)",
+        "  - article Post 13",
+        "  - [offscreen] 1 region below (500 interactive elements)",
+        "- [offscreen] 1 region below",
+      ].join("\n")
+    );
+  });
+});
@@ -0,0 +1,284 @@
+import { test, expect } from "@playwright/test";
+import { TestExporter } from "../../src/utils/TestExporter.js";
+import type { RecordedAction } from "../../src/shared-types.js";
+
+test.describe("TestExporter", () => {
+  test("single role uses the page fixture", () => {
+    const actions: RecordedAction[] = [
+      { type: "navigate", role: "default", url: "https://shop.example.com" },
+      {
+        type: "click",
+        role: "default",
+        ref: "e3",
+        locator:
+          "page.getByRole('button', { name: 'Add to Cart', exact: true })",
+      },
+      {
+        type: "type",
+        role: "default",
+        ref: "e4",
+        locator: "page.getByRole('textbox', { name: 'Email', exact: true })",
+        text: "ada@example.com",
+      },
+    ];
+
+    expect(TestExporter.toPlaywrightTest(actions, { testName: "checkout" }))
+      .toBe(`import { test } from '@playwright/test';
+
+test('checkout', async ({ page }) => {
+  await page.goto('https://shop.example.com');
+  await page.getByRole('button', { name: 'Add to Cart', exact: true }).click();
+  await page.getByRole('textbox', { name: 'Email', exact: true }).fill('ada@example.com');
+});
+`);
+  });
+
+  test("single role with an auth file sets storageState", () => {
+    const code = TestExporter.toPlaywrightTest(
+      [
+        { type: "selectRole", role: "admin" },
+        { type: "navigate", role: "admin", url: "https://admin.example.com" },
+      ],
+      { authPaths: { admin: "auth/admin.json" } }
+    );
+
+    expect(code).toContain("test.use({ storageState: 'auth/admin.json' });");
+    expect(code).toContain("test('recorded session', async ({ page }) => {");
+    expect(code).not.toContain("Switch to role");
+  });
+
+  test("multiple roles get one context per role", () => {
+    const actions: RecordedAction[] = [
+      { type: "selectRole", role: "admin" },
+      { type: "navigate", role: "admin", url: "https://admin.example.com" },
+      {
+        type: "click",
+        role: "admin",
+        ref: "e1",
+        locator: "page.getByTestId('publish')",
+      },
+      { type: "selectRole", role: "customer-user" },
+      { type: "navigate", role: "customer-user", url: "https://example.com" },
+    ];
+
+    expect(
+      TestExporter.toPlaywrightTest(actions, {
+        testName: "publish flow",
+        authPaths: { admin: "auth/admin.json" },
+      })
+    ).toBe(`import { test } from '@playwright/test';
+
+test('publish flow', async ({ browser }) => {
+  // Role: admin
+  const adminContext = await browser.newContext({ storageState: 'auth/admin.json' });
+  const adminPage = await adminContext.newPage();
+  // Role: customer-user
+  const customerUserContext = await browser.newContext();
+  const customerUserPage = await customerUserContext.newPage();
+
+  // Switch to role: admin
+  await adminPage.goto('https://admin.example.com');
+  await adminPage.getByTestId('publish').click();
+
+  // Switch to role: customer-user
+  await customerUserPage.goto('https://example.com');
+
+  await adminContext.close();
+  await customerUserContext.close();
+});
+`);
+  });
+
+  test("renders hover, select_option and press_key", () => {
+    const code = TestExporter.toPlaywrightTest([
+      {
+        type: "hover",
+        role: "default",
+        ref: "e1",
+        locator: "page.getByRole('menuitem', { name: 'Account', exact: true })",
+      },
+      {
+        type: "selectOption",
+        role: "default",
+        ref: "e2",
+        locator: "page.getByRole('combobox')",
+        values: ["red", "blue"],
+      },
+      {
+        type: "pressKey",
+        role: "default",
+        ref: "e3",
+        locator: "page.getByRole('searchbox')",
+        key: "Enter",
+      },
+      { type: "pressKey", role: "default", locator: null, key: "Escape" },
+    ]);
+
+    expect(code).toContain(
+      "await page.getByRole('menuitem', { name: 'Account', exact: true }).hover();"
+    );
+    expect(code).toContain(
+      "await page.getByRole('combobox').selectOption(['red', 'blue']);"
+    );
+    expect(code).toContain("await page.getByRole('searchbox').press('Enter');");
+    expect(code).toContain("await page.keyboard.press('Escape');");
+  });
+
+  test("renders history navigation", () => {
+    const code = TestExporter.toPlaywrightTest([
+      { type: "navigate", role: "default", url: "https://example.com" },
+      { type: "goBack", role: "default" },
+      { type: "goForward", role: "default" },
+      { type: "reload", role: "default" },
+    ]);
+
+    expect(code).toContain("await page.goBack();");
+    expect(code).toContain("await page.goForward();");
+    expect(code).toContain("await page.reload();");
+  });
+
+  test("popups wait for the action that opens them", () => {
+    const actions: RecordedAction[] = [
+      {
+        type: "navigate",
+        role: "default",
+        tab: "t1",
+        url: "https://shop.example.com",
+      },
+      {
+        type: "click",
+        role: "default",
+        tab: "t1",
+        ref: "e1",
+        locator: "page.getByRole('link', { name: 'Sign in', exact: true })",
+      },
+      { type: "openTab", role: "default", tab: "t2", opener: "t1" },
+      { type: "switchTab", role: "default", tab: "t2" },
+      {
+        type: "click",
+        role: "default",
+        tab: "t2",
+        ref: "e4",
+        locator: "page.getByRole('button', { name: 'Allow', exact: true })",
+      },
+      { type: "closeTab", role: "default", tab: "t2" },
+      {
+        type: "click",
+        role: "default",
+        tab: "t1",
+        ref: "e2",
+        locator: "page.getByTestId('account')",
+      },
+    ];
+
+    expect(TestExporter.toPlaywrightTest(actions, { testName: "sign in" }))
+      .toBe(`import { test } from '@playwright/test';
+
+test('sign in', async ({ page }) => {
+  await page.goto('https://shop.example.com');
+  const popupPromise = page.waitForEvent('popup');
+  await page.getByRole('link', { name: 'Sign in', exact: true }).click();
+  const popup = await popupPromise;
+  await popup.bringToFront();
+  await popup.getByRole('button', { name: 'Allow', exact: true }).click();
+  await popup.close();
+  await page.getByTestId('account').click();
+});
+`);
+  });
+
+  test("popups of several roles get per-role names", () => {
+    const code = TestExporter.toPlaywrightTest([
+      { type: "selectRole", role: "admin" },
+      {
+        type: "pressKey",
+        role: "admin",
+        tab: "t1",
+        ref: "e1",
+        locator: "page.getByRole('link', { name: 'Docs', exact: true })",
+        key: "Enter",
+      },
+      { type: "openTab", role: "admin", tab: "t2", opener: "t1" },
+      { type: "selectRole", role: "viewer" },
+      { type: "reload", role: "viewer", tab: "t1" },
+    ]);
+
+    expect(code).toContain(
+      "const adminPopupPromise = adminPage.waitForEvent('popup');"
+    );
+    expect(code).toContain(
+      "await adminPage.getByRole('link', { name: 'Docs', exact: true }).press('Enter');"
+    );
+    expect(code).toContain("const adminPopup = await adminPopupPromise;");
+    expect(code).toContain("await viewerPage.reload();");
+  });
+
+  test("dialog answers are handled before the action that opens them", () => {
+    const code = TestExporter.toPlaywrightTest([
+      { type: "dialog", role: "default", tab: "t1", accept: true },
+      {
+        type: "click",
+        role: "default",
+        tab: "t1",
+        ref: "e1",
+        locator: "page.getByRole('button', { name: 'Delete', exact: true })",
+      },
+      {
+        type: "dialog",
+        role: "default",
+        tab: "t1",
+        accept: true,
+        promptText: "Ada's",
+      },
+      {
+        type: "click",
+        role: "default",
+        tab: "t1",
+        ref: "e2",
+        locator: "page.getByRole('button', { name: 'Rename', exact: true })",
+      },
+      { type: "dialog", role: "default", tab: "t1", accept: false },
+      {
+        type: "click",
+        role: "default",
+        tab: "t1",
+        ref: "e3",
+        locator: "page.getByRole('button', { name: 'Leave', exact: true })",
+      },
+    ]);
+
+    expect(code).toContain(`  page.once('dialog', (dialog) => dialog.accept());
+  await page.getByRole('button', { name: 'Delete', exact: true }).click();
+  page.once('dialog', (dialog) => dialog.accept('Ada\\'s'));
+  await page.getByRole('button', { name: 'Rename', exact: true }).click();
+  page.once('dialog', (dialog) => dialog.dismiss());
+  await page.getByRole('button', { name: 'Leave', exact: true }).click();`);
+  });
+
+  test("escapes quotes and frame locators keep contentFrame()", () => {
+    const code = TestExporter.toPlaywrightTest([
+      {
+        type: "type",
+        role: "default",
+        ref: "f1_e2",
+        locator:
+          "page.getByTestId('payment').contentFrame().getByRole('textbox', { name: 'Card', exact: true })",
+        text: "it's\nmultiline",
+      },
+    ]);
+
+    expect(code).toContain(
+      "await page.getByTestId('payment').contentFrame().getByRole('textbox', { name: 'Card', exact: true }).fill('it\\'s\\nmultiline');"
+    );
+  });
+
+  test("actions without a locator become TODO comments", () => {
+    const code = TestExporter.toPlaywrightTest([
+      { type: "click", role: "default", ref: "e9", locator: null },
+    ]);
+
+    expect(code).toContain(
+      "// TODO: no locator could be generated for e9 (click: click())"
+    );
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Tests for trusted (CDP Input domain) vs synthetic (bridge DOM event) input
+ *
+ * Verifies that:
+ * 1. Trusted mode produces events with isTrusted === true
+ * 2. Trusted clicks land on elements outside the viewport and inside iframes
+ * 3. Elements without a box fall back to synthetic clicks
+ * 4. Synthetic mode keeps the original bridge behavior
+ */
+
+import { test, expect } from "@playwright/test";
+import { MultiContextBrowser } from "../../src/runtime/MultiContextBrowser.js";
+
+const TRUST_PROBE = `
+  <script>
+    window.events = [];
+    const record = (e) => window.events.push(e.type + ':' + e.isTrusted);
+    addEventListener('click', record, true);
+    addEventListener('keydown', record, true);
+    addEventListener('input', record, true);
+  </script>
+`;
+
+test.describe("Trusted Input", () => {
+  let browser: MultiContextBrowser;
+
+  test.beforeEach(async () => {
+    browser = new MultiContextBrowser();
+    await browser.initialize();
+  });
+
+  test.afterEach(async () => {
+    await browser.close();
+  });
+
+  async function getEvents(): Promise<string[]> {
+    const context = await (browser as any)._roleContexts.get("default");
+    return context.page.evaluate(() => (window as any).events);
+  }
+
+  test("defaults to trusted input mode", async () => {
+    expect(browser.getInputMode()).toBe("trusted");
+  });
+
+  test("click() dispatches trusted mouse events", async () => {
+    const html = `${TRUST_PROBE}<button>Press</button>`;
+    const snapshot = await browser.navigate(
+      `data:text/html,${encodeURIComponent(html)}`
+    );
+    const ref = snapshot.text.match(/button Press \[ref=(e\d+)\]/)?.[1];
+
+    await browser.click(ref!);
+
+    expect(await getEvents()).toContain("click:true");
+  });
+
+  test("click() scrolls offscreen elements into view", async () => {
+    const html = `${TRUST_PROBE}<div style="height: 3000px"></div><button>Far away</button>`;
+    const snapshot = await browser.navigate(
+      `data:text/html,${encodeURIComponent(html)}`
+    );
+    const ref = snapshot.text.match(/Far away.*\[ref=(e\d+)\]/)?.[1];
+
+    await browser.click(ref!);
+
+    expect(await getEvents()).toContain("click:true");
+    const context = await (browser as any)._roleContexts.get("default");
+    expect(await context.page.evaluate(() => window.scrollY)).toBeGreaterThan(
+      0
+    );
+  });
+
+  test("type() replaces content with trusted input events", async () => {
+    const html = `${TRUST_PROBE}<input id="name" value="old value" />`;
+    const snapshot = await browser.navigate(
+      `data:text/html,${encodeURIComponent(html)}`
+    );
+    const ref = snapshot.text.match(/textbox.*\[ref=(e\d+)\]/)?.[1];
+
+    await browser.type(ref!, "new value");
+
+    const context = await (browser as any)._roleContexts.get("default");
+    const value = await context.page.evaluate(
+      () => (document.getElementById("name") as HTMLInputElement).value
+    );
+    expect(value).toBe("new value");
+    expect(await getEvents()).toContain("input:true");
+  });
+
+  test("pressKey() dispatches trusted keyboard events", async () => {
+    const html = `${TRUST_PROBE}<input aria-label="Search" />`;
+    const snapshot = await browser.navigate(
+      `data:text/html,${encodeURIComponent(html)}`
+    );
+    const ref = snapshot.text.match(/textbox.*\[ref=(e\d+)\]/)?.[1];
+
+    await browser.pressKey("a", ref!);
+
+    expect(await getEvents()).toContain("keydown:true");
+  });
+
+  test("click() inside iframe lands at the frame offset", async () => {
+    const html = `
+      <div style="height: 200px"></div>
+      <iframe style="margin-left: 150px" srcdoc="
+        <button onclick='window.trusted = event.isTrusted'>Inner</button>
+      "></iframe>
+    `;
+    const snapshot = await browser.navigate(
+      `data:text/html,${encodeURIComponent(html)}`
+    );
+    const ref = snapshot.text.match(/Inner.*\[ref=(f\d+_e\d+)\]/)?.[1];
+    expect(ref).toBeDefined();
+
+    await browser.click(ref!);
+
+    const context = await (browser as any)._roleContexts.get("default");
+    const trusted = await context.page.evaluate(() => {
+      const iframe = document.querySelector("iframe") as HTMLIFrameElement;
+      return (iframe.contentWindow as any).trusted;
+    });
+    expect(trusted).toBe(true);
+  });
+
+  test("click() falls back to synthetic events for zero-size elements", async () => {
+    const html = `${TRUST_PROBE}<button style="width: 0; height: 0; padding: 0; border: 0; overflow: hidden">Tiny</button>`;
+    const snapshot = await browser.navigate(
+      `data:text/html,${encodeURIComponent(html)}`
+    );
+    const ref = snapshot.text.match(/\[ref=(e\d+)\]/)?.[1];
+    expect(ref).toBeDefined();
+
+    await browser.click(ref!);
+
+    expect(await getEvents()).toContain("click:false");
+  });
+
+  test("synthetic mode keeps bridge DOM events", async () => {
+    browser.setInputMode("synthetic");
+
+    const html = `${TRUST_PROBE}<button>Press</button>`;
+    const snapshot = await browser.navigate(
+      `data:text/html,${encodeURIComponent(html)}`
+    );
+    const ref = snapshot.text.match(/button Press \[ref=(e\d+)\]/)?.[1];
+
+    await browser.click(ref!);
+
+    expect(await getEvents()).toContain("click:false");
+  });
+
+  test("stale refs still throw clear errors in trusted mode", async () => {
+    await browser.navigate("data:text/html,<button>Click me</button>");
+
+    await expect(browser.click("e999")).rejects.toThrow(
+      /Unknown element reference: e999/
+    );
+  });
+});
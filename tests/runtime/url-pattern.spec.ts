@@ -0,0 +1,65 @@
+import { test, expect } from "@playwright/test";
+import { UrlPattern } from "../../src/utils/UrlPattern.js";
+
+test.describe("UrlPattern", () => {
+  test("matches() - plain patterns match as substrings", () => {
+    expect(UrlPattern.matches("https://shop.test/checkout", "checkout")).toBe(
+      true
+    );
+    expect(UrlPattern.matches("https://shop.test/cart", "checkout")).toBe(
+      false
+    );
+  });
+
+  test("matches() - '*' stays within a path segment", () => {
+    expect(
+      UrlPattern.matches(
+        "https://shop.test/orders/42",
+        "https://shop.test/orders/*"
+      )
+    ).toBe(true);
+    expect(
+      UrlPattern.matches(
+        "https://shop.test/orders/42/items",
+        "https://shop.test/orders/*"
+      )
+    ).toBe(false);
+  });
+
+  test("matches() - '**' spans path segments", () => {
+    expect(UrlPattern.matches("https://shop.test/api/v1/cart", "**/cart")).toBe(
+      true
+    );
+    expect(UrlPattern.matches("https://shop.test/cart.json", "**/cart")).toBe(
+      false
+    );
+  });
+
+  test("matches() - glob escapes regex characters", () => {
+    expect(UrlPattern.matches("https://shop.test/a?b=1", "**/a?b=*")).toBe(
+      true
+    );
+    expect(UrlPattern.matches("https://shop.test/ab=1", "**/a?b=*")).toBe(
+      false
+    );
+  });
+
+  test("matches() - slash-delimited patterns are regexes with flags", () => {
+    expect(
+      UrlPattern.matches("https://shop.test/ORDER/17", "/order\\/\\d+/i")
+    ).toBe(true);
+    expect(
+      UrlPattern.matches("https://shop.test/order/x", "/order\\/\\d+/")
+    ).toBe(false);
+  });
+
+  test("toRegExp() - throws on invalid regex", () => {
+    expect(() => UrlPattern.toRegExp("/(unclosed/")).toThrow(
+      "Invalid URL regex"
+    );
+  });
+
+  test("toRegExp() - returns null for substring patterns", () => {
+    expect(UrlPattern.toRegExp("checkout")).toBeNull();
+  });
+});
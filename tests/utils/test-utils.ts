@@ -5,12 +5,16 @@
  * - Memory tracking for leak detection
  * - Performance measurement
  * - Test HTML generation
+ * - Local HTTP servers for pages that need a real origin
  *
  * NOTE: This file does NOT include retry logic or manual wait helpers.
  * If tests are flaky, fix the underlying race conditions in the code.
  * Trust Playwright's built-in auto-waiting and test-level retries.
  */
 
+import { createServer, RequestListener, Server } from "http";
+import type { AddressInfo } from "net";
+
 /**
  * Track memory usage for leak detection
  */
@@ -273,3 +277,39 @@ export function generateSiblingIframes(count: number): string {
     </html>
   `;
 }
+
+/**
+ * Start an HTTP server on a free port of 127.0.0.1
+ * @returns The server (close it after the test) and its origin
+ */
+export function startServer(
+  handler: RequestListener
+): Promise<{ server: Server; origin: string }> {
+  const server = createServer(handler);
+  return new Promise((resolve) =>
+    server.listen(0, "127.0.0.1", () =>
+      resolve({
+        server,
+        origin: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+      })
+    )
+  );
+}
+
+/**
+ * Handler serving HTML pages by path, "Not found" for any other path
+ */
+export function servePages(pages: Record<string, string>): RequestListener {
+  return (req, res) => {
+    res.writeHead(200, { "Content-Type": "text/html" });
+    res.end(pages[req.url ?? "/"] ?? "<h1>Not found</h1>");
+  };
+}
+
+/**
+ * Ref of the first snapshot line matching `pattern`
+ */
+export function refOf(text: string, pattern: RegExp): string {
+  const line = text.split("\n").find((l) => pattern.test(l));
+  return line!.match(/\[ref=([^\]]+)\]/)![1];
+}